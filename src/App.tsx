@@ -1,14 +1,53 @@
 
-import React, { useState, useMemo, useCallback, useEffect } from 'react';
-import { analyzeImage, identifyLocation } from './services/geminiService';
-import { PhotoMetadata } from './types';
-import { PhotoCard } from './components/PhotoCard';
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import { analyzeImage, identifyLocation, getProviderSettings, setProviderSettings } from './services/analysisService';
+import { readExifData } from './services/exifService';
+import { AnalysisError } from './services/analysisErrors';
+import { createAnalysisQueue, getQueueSettings, saveQueueSettings } from './services/analysisQueue';
+import { computePerceptualHash, photoIdFromHash, sha256Hex } from './services/hashService';
+import { migrateLegacyPhotoIds } from './services/identityMigration';
+import { GeotagMatch } from './services/trackLogService';
+import { PlaceMatch, placeUpdate } from './services/geoDataService';
+import { Album, AnalysisJob, JournalEntry, MetadataField, MetadataProvenance, PhotoMetadata, PhotoScope, ProviderSettings, QueueProgress, QueueSettings } from './types';
 import { MapView } from './components/MapView';
 import { CalendarView } from './components/CalendarView';
 import { TimelineView } from './components/TimelineView';
+import { ProviderSettingsPanel } from './components/ProviderSettingsPanel';
+import { QueueSettingsPanel } from './components/QueueSettingsPanel';
+import { QueueStatus } from './components/QueueStatus';
+import { DuplicateReviewView } from './components/DuplicateReviewView';
+import { BackupPanel } from './components/BackupPanel';
+import { GeotagPanel } from './components/GeotagPanel';
+import { FoldersView } from './components/FoldersView';
+import { SearchView } from './components/SearchView';
+import { TrashView } from './components/TrashView';
+import { PhotoGridView } from './components/PhotoGridView';
+import { HistoryPanel } from './components/HistoryPanel';
+import { MetadataEditor } from './components/MetadataEditor';
+import { ReanalyzeView } from './components/ReanalyzeView';
+import { TravelBookView } from './components/TravelBookView';
+import { StatsView } from './components/StatsView';
+import { TagEditor } from './components/TagEditor';
+import { TagFilter } from './components/TagFilter';
+import { TagManagerPanel } from './components/TagManagerPanel';
+import { GeoDataPanel } from './components/GeoDataPanel';
+import { createSearchIndex } from './services/searchService';
+import { coordinateLocationName, reverseGeocode } from './services/geocoderService';
+import { formatDate, getLocale, Locale, LOCALES, setLocale, t } from './services/i18nService';
+import { expiredTrashIds, getTrashSettings } from './services/trashService';
+import { createHistory, HistoryState } from './services/historyService';
+import { createProvenance, getFieldProvenance, manualProvenance, mergeProvenance } from './services/provenanceService';
+import { buildAnalysisUpdate, parseSmartDate } from './services/analysisUpdate';
+import { addTag, countTags, hasAllTags, removeTag, renameTag } from './services/tagService';
+import { exportPhotoFiles } from './services/backupService';
+import { writePhotoMetadata } from './services/exifWriter';
+import { blobToBase64, downloadBlob, todayStamp } from './services/fileUtils';
+import { addPhotosToAlbum, createAlbum } from './services/albumService';
+import { getTripSettings, segmentTrips } from './services/tripService';
+import { createDayEntry, findTripEntry, journalMarks } from './services/journalService';
 import * as db from './services/dbService';
 
-type ViewMode = 'landing' | 'config' | 'folders' | 'map' | 'all' | 'calendar' | 'timeline';
+type ViewMode = 'landing' | 'config' | 'folders' | 'map' | 'all' | 'calendar' | 'timeline' | 'duplicates' | 'search' | 'trash' | 'reanalyze' | 'book' | 'stats';
 
 /**
  * 日付を YYYY-MM-DD 形式の文字列に変換する
@@ -20,50 +59,31 @@ const formatToISO = (date: Date): string => {
   return `${y}-${m}-${d}`;
 };
 
-/**
- * ファイル名から YYYYMMDD 形式の8桁の数字を抽出する
- */
-const extractDateFromFilename = (filename: string): string | null => {
-  const match = filename.match(/(\d{4})(\d{2})(\d{2})/);
-  if (match) {
-    const y = parseInt(match[1], 10);
-    const m = parseInt(match[2], 10);
-    const d = parseInt(match[3], 10);
-    if (y > 1980 && y < 2100 && m >= 1 && m <= 12 && d >= 1 && d <= 31) {
-      const iso = `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
-      return iso;
-    }
-  }
-  return null;
-};
+// 取り消し・やり直しの対象にする写真の項目
+const EDITABLE_PHOTO_FIELDS = ['latitude', 'longitude', 'locationName', 'country', 'description', 'date', 'captureTime', 'manuallyPlaced', 'locationSource', 'provenance', 'tags', 'aiTags'] as const;
+
+const snapshotEditableFields = (photo: PhotoMetadata): Partial<PhotoMetadata> =>
+  Object.fromEntries(EDITABLE_PHOTO_FIELDS.map(field => [field, photo[field]]));
 
 /**
- * 日付解析のスマートロジック
+ * 地図上で移動した写真の変更。地名は同梱の地名データで付け、refine の場合はAIで特定し直すまで処理中にする
  */
-const parseSmartDate = (filename: string, aiDateStr: string, fileDate: Date): string => {
-  const filenameDate = extractDateFromFilename(filename);
-  if (filenameDate) return filenameDate;
-
-  if (aiDateStr && !aiDateStr.includes('..') && aiDateStr !== "Unknown") {
-    const standardized = aiDateStr.replace(/[:/]/g, '-').split(' ')[0];
-    const parsed = new Date(standardized);
-    if (!isNaN(parsed.getTime()) && parsed.getFullYear() > 1980) {
-      return formatToISO(parsed);
-    }
-  }
-  return formatToISO(fileDate);
-};
-
-const blobToBase64 = (blob: Blob): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      const base64String = (reader.result as string).split(',')[1];
-      resolve(base64String);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
-  });
+const movedLocationPatch = (photo: PhotoMetadata, lat: number, lng: number, refine: boolean): Partial<PhotoMetadata> => {
+  const geocoded = reverseGeocode(lat, lng);
+  return {
+    latitude: lat,
+    longitude: lng,
+    locationName: geocoded?.locationName || coordinateLocationName(lat, lng),
+    country: geocoded?.country || photo.country,
+    isProcessing: refine || photo.isProcessing,
+    manuallyPlaced: true,
+    locationSource: 'manual',
+    provenance: mergeProvenance(photo, {
+      location: createProvenance('manual'),
+      locationName: createProvenance('geocoder', geocoded ? undefined : 'low'),
+      country: geocoded ? createProvenance('geocoder') : photo.provenance?.country
+    })
+  };
 };
 
 const App: React.FC = () => {
@@ -76,19 +96,104 @@ const App: React.FC = () => {
   
   const [currentCalendarMonth, setCurrentCalendarMonth] = useState(new Date());
   const [diaryNotes, setDiaryNotes] = useState<Record<string, string>>({});
+  const [albums, setAlbums] = useState<Album[]>([]);
+  // 日・旅行単位の日記（IDごと）
+  const [journal, setJournal] = useState<Record<string, JournalEntry>>({});
+  // 旅行・アルバムから開いた場合の表示対象
+  const [scope, setScope] = useState<PhotoScope | null>(null);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  // 検索インデックスは写真とメモの保存に合わせて差分で更新する
+  const [searchIndex] = useState(createSearchIndex);
+  const [searchQuery, setSearchQuery] = useState('');
+  // 一覧で選択した写真の位置を地図で指定している間の対象
+  const [locationPickIds, setLocationPickIds] = useState<string[] | null>(null);
+  const [reanalyzeIds, setReanalyzeIds] = useState<string[] | null>(null);
+  // 旅行から旅行記を開いた場合の旅行ID
+  const [bookTripId, setBookTripId] = useState<string | null>(null);
+  const [providerSettings, setProviderSettingsState] = useState<ProviderSettings>(getProviderSettings);
+  const [queueSettings, setQueueSettings] = useState<QueueSettings>(getQueueSettings);
+  const [queueProgress, setQueueProgress] = useState<QueueProgress | null>(null);
+  // 表示言語。変えると App ごと描画し直し、各画面は t() で新しい言語の文言を引く
+  const [locale, setLocaleState] = useState<Locale>(getLocale);
+  // DB に書き込むたびに増やし、DB から直接読み込むビューに再読み込みを促す
+  const [libraryRevision, setLibraryRevision] = useState(0);
+  const bumpRevision = useCallback(() => setLibraryRevision(r => r + 1), []);
+  const [historyState, setHistoryState] = useState<HistoryState>({ past: [], future: [], busy: false });
+  const [history] = useState(() => createHistory(setHistoryState));
+  // メモの変更前の値を取り消し用に参照する
+  const diaryNotesRef = useRef(diaryNotes);
+  diaryNotesRef.current = diaryNotes;
+  const journalRef = useRef(journal);
+  journalRef.current = journal;
+
+  // キューは一度だけ生成し、最新のコールバックは ref 経由で呼び出す
+  const queueSettingsRef = useRef(queueSettings);
+  queueSettingsRef.current = queueSettings;
+  const runJobRef = useRef<(job: AnalysisJob, signal: AbortSignal) => Promise<void>>(async () => {});
+  const failJobRef = useRef<(job: AnalysisJob, error: unknown) => Promise<void>>(async () => {});
+  const [analysisQueue] = useState(() => createAnalysisQueue({
+    getSettings: () => queueSettingsRef.current,
+    runJob: (job, signal) => runJobRef.current(job, signal),
+    onJobFailed: (job, error) => failJobRef.current(job, error),
+    onProgress: setQueueProgress
+  }));
 
   const [dateRange, setDateRange] = useState({
     start: '2000-01-01',
     end: new Date().toISOString().split('T')[0]
   });
 
+  /**
+   * DB からライブラリを読み込み、前回のセッションで中断された解析を再開する
+   */
+  const loadLibrary = useCallback(async () => {
+    await migrateLegacyPhotoIds();
+    // 一覧・検索・集計に使うメタデータだけを持ち、元ファイルは必要なときに1枚ずつ読み込む
+    const savedPhotos = await db.getLibraryPhotos();
+    const savedNotes = await db.getAllNotes();
+    const savedAlbums = await db.getAllAlbums();
+    const savedJournal = await db.getAllJournalEntries();
+    setPhotos(savedPhotos);
+    setDiaryNotes(savedNotes);
+    setAlbums(savedAlbums);
+    setJournal(Object.fromEntries(savedJournal.map(entry => [entry.id, entry])));
+    searchIndex.rebuild(savedPhotos, savedNotes);
+
+    const savedJobs = await db.getAllJobs();
+    analysisQueue.restore(savedJobs);
+    const jobIds = new Set(savedJobs.filter(job => (job.kind ?? 'analyze') === 'analyze').map(job => job.photoId));
+    const pendingPhotos = await db.getPhotosByStatus('pending');
+    const orphaned = pendingPhotos.filter(p => !jobIds.has(p.id)).map(p => p.id);
+    if (orphaned.length > 0) await analysisQueue.enqueue(orphaned);
+
+    // 保管期間を過ぎたゴミ箱の写真を完全に削除する
+    const expired = expiredTrashIds(await db.getTrash(), getTrashSettings());
+    if (expired.length > 0) await db.purgeTrash(expired);
+  }, [analysisQueue, searchIndex]);
+
+  // Ctrl+Z / Ctrl+Shift+Z（Ctrl+Y）で取り消し・やり直し。入力欄では文字入力の取り消しを優先する
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        history.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        history.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history]);
+
   useEffect(() => {
     const loadData = async () => {
       try {
-        const savedPhotos = await db.getAllPhotos();
-        const savedNotes = await db.getAllNotes();
-        setPhotos(savedPhotos);
-        setDiaryNotes(savedNotes);
+        await loadLibrary();
       } catch (e) {
         console.error("[VisionSort] Init Error:", e);
       } finally {
@@ -96,105 +201,384 @@ const App: React.FC = () => {
       }
     };
     loadData();
-  }, []);
+  }, [loadLibrary]);
 
   const addOrUpdatePhoto = useCallback(async (photo: PhotoMetadata) => {
+    const libraryPhoto = db.toLibraryPhoto(photo);
     setPhotos(prev => {
       const existingIndex = prev.findIndex(p => p.id === photo.id);
       if (existingIndex > -1) {
         const next = [...prev];
-        next[existingIndex] = { ...prev[existingIndex], ...photo };
+        next[existingIndex] = { ...prev[existingIndex], ...libraryPhoto };
         return next;
       }
-      return [...prev, photo];
+      return [...prev, libraryPhoto];
     });
     await db.savePhoto(photo);
-  }, []);
+    searchIndex.upsertPhoto(photo);
+    bumpRevision();
+  }, [bumpRevision, searchIndex]);
 
   /**
-   * 写真の完全削除処理
+   * 複数の写真の項目をまとめて更新する（DB へは1つのトランザクションで書き込む）
    */
-  const handleDeletePhoto = useCallback(async (photoId: string) => {
-    if (!window.confirm("この写真を完全に削除してもよろしいですか？この操作は取り消せません。")) {
+  const updatePhotosFields = useCallback(async (patches: Record<string, Partial<PhotoMetadata>>) => {
+    setPhotos(prev => prev.map(p => patches[p.id] ? { ...p, ...patches[p.id] } : p));
+    await db.patchPhotos(patches);
+    const stored = await Promise.all(Object.keys(patches).map(db.getPhoto));
+    stored.forEach(photo => { if (photo) searchIndex.upsertPhoto(photo); });
+    bumpRevision();
+  }, [bumpRevision, searchIndex]);
+
+  /**
+   * 写真の一部の項目だけを更新する（表示用URLなどステート側の値は保持する）
+   */
+  const updatePhotoFields = useCallback(async (id: string, patch: Partial<PhotoMetadata>) => {
+    setPhotos(prev => prev.map(p => p.id === id ? { ...p, ...patch } : p));
+    const stored = await db.getPhoto(id);
+    if (stored) {
+      await db.savePhoto({ ...stored, ...patch });
+      searchIndex.upsertPhoto({ ...stored, ...patch });
+    }
+    bumpRevision();
+  }, [bumpRevision, searchIndex]);
+
+  const applyNote = useCallback(async (photoId: string, note: string) => {
+    setDiaryNotes(prev => ({ ...prev, [photoId]: note }));
+    await db.saveNote(photoId, note);
+    searchIndex.setNote(photoId, note);
+  }, [searchIndex]);
+
+  /**
+   * 手動で移動した写真の地名をAIで特定し直す（解析キューから呼ばれる）
+   * 移動の後に取り消しや別の編集で地名が変わっていれば、結果は使わない
+   */
+  const refineLocationName = async (job: AnalysisJob, signal: AbortSignal) => {
+    const photo = await db.getPhoto(job.photoId);
+    if (!photo) return;
+    const isMovedName = (p: PhotoMetadata) => getFieldProvenance(p, 'locationName')?.source === 'geocoder';
+    // 解析待ちの写真は解析のジョブが処理中の表示を解除する
+    const done = (patch: Partial<PhotoMetadata> = {}) =>
+      updatePhotoFields(photo.id, { ...patch, ...(photo.analysisStatus !== 'pending' && { isProcessing: false }) });
+    if (!photo.fileBlob || !isMovedName(photo)) return done();
+
+    const { latitude, longitude } = photo;
+    const base64Data = await blobToBase64(photo.fileBlob);
+    const locationName = await identifyLocation(latitude, longitude, base64Data, photo.fileBlob.type, { signal, retry: false });
+    if (signal.aborted) return;
+    const current = await db.getPhoto(photo.id);
+    if (!current) return;
+    if (current.latitude !== latitude || current.longitude !== longitude || !isMovedName(current)) return done();
+    await done({ locationName, provenance: mergeProvenance(current, { locationName: createProvenance('ai') }) });
+  };
+
+  runJobRef.current = async (job, signal) => {
+    if (job.kind === 'locationName') return refineLocationName(job, signal);
+    const photo = await db.getPhoto(job.photoId);
+    if (!photo || !photo.fileBlob) {
+      throw new AnalysisError('configuration', t('error.photoFileMissing'));
+    }
+    const base64Data = await blobToBase64(photo.fileBlob);
+    // 再試行とレート制限はキューが試行ごとに管理する
+    const result = await analyzeImage(base64Data, photo.fileBlob.type, { signal, retry: false });
+    if (signal.aborted) return;
+    await updatePhotoFields(photo.id, buildAnalysisUpdate(photo, result));
+  };
+
+  failJobRef.current = async (job, error) => {
+    if (job.kind === 'locationName') {
+      // 同梱の地名データで付けた地名のまま残す
+      console.error("[VisionSort] Location name refinement failed:", error);
+      const photo = await db.getPhoto(job.photoId);
+      if (photo && photo.analysisStatus !== 'pending') await updatePhotoFields(photo.id, { isProcessing: false });
       return;
     }
-    
-    try {
-      // 1. IndexedDBから削除
-      await db.deletePhoto(photoId);
-      
-      // 2. Reactステートから削除
-      setPhotos(prev => prev.filter(p => p.id !== photoId));
-      setDiaryNotes(prev => {
-        const next = { ...prev };
-        delete next[photoId];
-        return next;
-      });
-      
-      // 3. モーダルとフォーカスのクリア
-      setSelectedPhotoForModal(null);
-      setFocusedPhoto(prev => (prev?.id === photoId ? null : prev));
+    console.error(`[VisionSort] Analysis Error:`, error);
+    // 失敗は状態だけを保存し、地名と説明には何も書かない（表示は analysisStatus から決める）
+    await updatePhotoFields(job.photoId, {
+      isProcessing: false,
+      analysisStatus: 'failed',
+      analysisError: error instanceof AnalysisError ? `${error.kind}: ${error.message}` : String(error instanceof Error ? error.message : error)
+    });
+  };
+
+  /**
+   * 写真を DB とステートから取り除く。toTrash の場合は完全に削除せずゴミ箱に移す
+   */
+  const removePhotos = useCallback(async (photoIds: string[], toTrash = false) => {
+    // 1. IndexedDBから削除
+    if (toTrash) await db.moveToTrash(photoIds);
+    else for (const photoId of photoIds) await db.deletePhoto(photoId);
+
+    // 2. Reactステートと検索インデックスから削除
+    const removed = new Set(photoIds);
+    photoIds.forEach(searchIndex.remove);
+    setPhotos(prev => prev.filter(p => !removed.has(p.id)));
+    setDiaryNotes(prev => {
+      const next = { ...prev };
+      photoIds.forEach(id => delete next[id]);
+      return next;
+    });
+    // アルバムからは DB 側で同じトランザクション内に取り除かれている
+    setAlbums(prev => prev.map(album => album.photoIds.some(id => removed.has(id))
+      ? { ...album, photoIds: album.photoIds.filter(id => !removed.has(id)), coverPhotoId: album.coverPhotoId && removed.has(album.coverPhotoId) ? undefined : album.coverPhotoId }
+      : album));
+
+    // 3. モーダルとフォーカスのクリア
+    setSelectedPhotoForModal(null);
+    setFocusedPhoto(prev => (prev && removed.has(prev.id) ? null : prev));
+    bumpRevision();
+  }, [bumpRevision, searchIndex]);
+
+  const handleRestoreFromTrash = useCallback(async (photoIds: string[]) => {
+    await db.restoreFromTrash(photoIds);
+    await loadLibrary();
+    bumpRevision();
+  }, [loadLibrary, bumpRevision]);
+
+  /**
+   * 写真をゴミ箱に移し、取り消すとゴミ箱から元に戻す
+   */
+  const trashPhotos = useCallback(async (photoIds: string[], label: string) => {
+    await removePhotos(photoIds, true);
+    history.record({
+      label,
+      undo: () => handleRestoreFromTrash(photoIds),
+      redo: () => removePhotos(photoIds, true)
+    });
+  }, [history, removePhotos, handleRestoreFromTrash]);
+
+  /**
+   * 写真の項目の変更を履歴に記録する。before は変更前の写真
+   * やり直す内容は取り消す時点の値を使う（後から補完された地名なども含めて戻せるようにする）
+   */
+  const recordPhotoEdit = useCallback((label: string, before: PhotoMetadata[]) => {
+    if (before.length === 0) return;
+    const beforeFields = before.map(photo => ({ id: photo.id, fields: snapshotEditableFields(photo) }));
+    let afterFields: typeof beforeFields = [];
+    history.record({
+      label,
+      undo: async () => {
+        const current = await Promise.all(beforeFields.map(({ id }) => db.getPhoto(id)));
+        afterFields = current.filter((p): p is PhotoMetadata => !!p).map(photo => ({ id: photo.id, fields: snapshotEditableFields(photo) }));
+        await updatePhotosFields(Object.fromEntries(beforeFields.map(({ id, fields }) => [id, fields])));
+      },
+      redo: async () => {
+        await updatePhotosFields(Object.fromEntries(afterFields.map(({ id, fields }) => [id, fields])));
+      }
+    });
+  }, [history, updatePhotosFields]);
 
-      console.log(`[VisionSort] Photo deleted successfully: ${photoId}`);
+  /**
+   * 写真をゴミ箱に移す（ゴミ箱から元に戻せる）
+   */
+  const handleDeletePhoto = useCallback(async (photoId: string) => {
+    try {
+      const photo = photos.find(p => p.id === photoId);
+      await trashPhotos([photoId], t('history.deletePhoto', { name: photo?.locationName || photo?.name || photoId }));
     } catch (err) {
       console.error("[VisionSort] Delete Error:", err);
-      alert("削除中にエラーが発生しました。DBがロックされている可能性があります。");
+      alert(t('alert.deleteError'));
     }
-  }, []);
+  }, [photos, trashPhotos]);
+
+  /**
+   * ファイルを取り込んで保存する。AI 解析はキューに任せる
+   * 同じ内容の写真が既にライブラリにある場合は取り込まずに null を返す
+   */
+  const processFile = async (file: File): Promise<string | null> => {
+    const contentHash = await sha256Hex(file);
+    const id = photoIdFromHash(contentHash);
+    if (await db.getPhoto(id)) return null;
 
-  const processFile = async (file: File) => {
-    const id = `photo-${file.name}-${file.size}-${file.lastModified}`;
     const fileDate = new Date(file.lastModified);
     const url = URL.createObjectURL(file);
-    const initialDate = extractDateFromFilename(file.name) || formatToISO(fileDate);
+    const exif = await readExifData(file);
+    const perceptualHash = await computePerceptualHash(file);
+    const initialDate = parseSmartDate(exif.date, file.name, null, formatToISO(fileDate));
+    const hasExifLocation = exif.latitude !== undefined && exif.longitude !== undefined;
+    const provenance: MetadataProvenance = { date: createProvenance(initialDate.source) };
+    if (hasExifLocation) provenance.location = createProvenance('exif');
 
     const newPhoto: PhotoMetadata = {
-      id, url, name: file.name, locationName: "特定中...", latitude: 0, longitude: 0,
-      date: initialDate, 
-      description: "Gemini AIが解析しています", isProcessing: true, manuallyPlaced: false,
-      fileBlob: file
+      id, url, name: file.name, locationName: "",
+      latitude: exif.latitude ?? 0, longitude: exif.longitude ?? 0,
+      date: initialDate.date, captureTime: exif.captureTime, exif,
+      description: "", isProcessing: true, analysisStatus: 'pending', manuallyPlaced: false,
+      locationSource: hasExifLocation ? 'exif' : undefined,
+      provenance, fileBlob: file, contentHash, perceptualHash
     };
     await addOrUpdatePhoto(newPhoto);
-    
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-      const base64Data = e.target?.result?.toString().split(',')[1];
-      if (base64Data) {
-        try {
-          const result = await analyzeImage(base64Data, file.type);
-          const finalDate = parseSmartDate(file.name, result.date, fileDate);
-          
-          const updated: PhotoMetadata = {
-            id, url, name: file.name, fileBlob: file,
-            locationName: result.locationName,
-            country: result.country,
-            latitude: result.latitude,
-            longitude: result.longitude,
-            date: finalDate,
-            description: result.description,
-            isProcessing: false,
-            manuallyPlaced: false
-          };
-          await addOrUpdatePhoto(updated);
-        } catch (err) {
-          console.error(`[VisionSort] Analysis Error:`, err);
-          setPhotos(prev => prev.map(p => p.id === id ? { ...p, isProcessing: false, locationName: "特定失敗", description: "Error" } : p));
-        }
-      }
-    };
-    reader.readAsDataURL(file);
+    return id;
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (!files || files.length === 0) return;
     if (viewMode === 'landing') setViewMode('all');
-    (Array.from(files) as File[]).forEach(file => processFile(file));
+
+    // 同じバッチ内の重複も検出できるよう、1枚ずつ順番に取り込む
+    const ids: string[] = [];
+    const skipped: string[] = [];
+    for (const file of Array.from(files) as File[]) {
+      const id = await processFile(file);
+      if (id) ids.push(id);
+      else skipped.push(file.name);
+    }
+    await analysisQueue.enqueue(ids);
+
+    if (skipped.length > 0) {
+      alert(`${t('alert.importSkipped', { count: skipped.length })}\n${skipped.slice(0, 10).join('\n')}${skipped.length > 10 ? '\n…' : ''}`);
+    }
   };
 
+  /**
+   * 類似写真を1枚に統合する。残す写真に足りない解析結果と座標を補い、メモは結合する
+   */
+  const handleMergeDuplicates = useCallback(async (keepId: string, removeIds: string[]) => {
+    const keep = photos.find(p => p.id === keepId);
+    const others = photos.filter(p => removeIds.includes(p.id));
+    if (!keep) return;
+
+    const patch: Partial<PhotoMetadata> = {};
+    const provenance: MetadataProvenance = {};
+    const analyzed = others.find(p => p.analysisStatus === 'done');
+    if (keep.analysisStatus !== 'done' && analyzed) {
+      Object.assign(patch, {
+        locationName: analyzed.locationName,
+        country: analyzed.country,
+        description: analyzed.description,
+        analysisStatus: 'done',
+        analysisError: undefined,
+        isProcessing: false
+      });
+      (['locationName', 'country', 'description'] as const).forEach(field => { provenance[field] = getFieldProvenance(analyzed, field); });
+    }
+    const located = others.find(p => p.latitude !== 0 || p.longitude !== 0);
+    if (keep.latitude === 0 && keep.longitude === 0 && located) {
+      Object.assign(patch, { latitude: located.latitude, longitude: located.longitude, manuallyPlaced: located.manuallyPlaced, locationSource: located.locationSource });
+      provenance.location = getFieldProvenance(located, 'location');
+    }
+    const merged: Partial<PhotoMetadata> | null = Object.keys(patch).length > 0 ? { ...patch, provenance: mergeProvenance(keep, provenance) } : null;
+    // 取り消しでは書き換えた項目だけを元の値に戻す（解析状態も含む）
+    const keepBefore = merged && Object.fromEntries(Object.keys(merged).map(field => [field, keep[field as keyof PhotoMetadata]])) as Partial<PhotoMetadata>;
+
+    const keepNote = diaryNotes[keepId] || '';
+    const mergedNote = [keepId, ...removeIds].map(id => diaryNotes[id]).filter(Boolean).join('\n\n');
+    const noteChanged = !!mergedNote && mergedNote !== keepNote;
+
+    // 重複した写真は完全に削除せずゴミ箱に移し、統合全体を1つの操作として取り消せるようにする
+    const applyMerge = async () => {
+      if (merged) await updatePhotoFields(keepId, merged);
+      if (noteChanged) await applyNote(keepId, mergedNote);
+      await removePhotos(removeIds, true);
+    };
+    await applyMerge();
+    history.record({
+      label: t('history.mergeDuplicates', { count: removeIds.length }),
+      undo: async () => {
+        await handleRestoreFromTrash(removeIds);
+        if (keepBefore) await updatePhotoFields(keepId, keepBefore);
+        if (noteChanged) await applyNote(keepId, keepNote);
+      },
+      redo: applyMerge
+    });
+  }, [photos, diaryNotes, history, updatePhotoFields, applyNote, removePhotos, handleRestoreFromTrash]);
+
+  const handleDiscardDuplicates = useCallback(async (removeIds: string[]) => {
+    if (!window.confirm(t('confirm.discardDuplicates', { count: removeIds.length }))) return;
+    await trashPhotos(removeIds, t('history.discardDuplicates', { count: removeIds.length }));
+  }, [trashPhotos]);
+
+  const handlePurgeTrash = useCallback(async (photoIds: string[]) => {
+    await db.purgeTrash(photoIds);
+    bumpRevision();
+  }, [bumpRevision]);
+
+  /**
+   * アルバムの場合は最新の内容を使い、旅行の場合は開いた時点の写真を使う
+   */
+  const scopeIds = useMemo(() => {
+    if (!scope) return null;
+    const album = scope.kind === 'album' ? albums.find(a => a.id === scope.id) : undefined;
+    return new Set(album ? album.photoIds : scope.photoIds);
+  }, [scope, albums]);
+
+  const scopedPhotos = useMemo(() => {
+    return scopeIds ? photos.filter(p => scopeIds.has(p.id)) : photos;
+  }, [photos, scopeIds]);
+
+  // タグの絞り込みはリスト・マップ・カレンダーに適用する
+  const taggedPhotos = useMemo(() => {
+    return tagFilter.length > 0 ? scopedPhotos.filter(p => hasAllTags(p, tagFilter)) : scopedPhotos;
+  }, [scopedPhotos, tagFilter]);
+
+  const isFiltered = !!scopeIds || tagFilter.length > 0;
+
+  const photosById = useMemo(() => new Map(photos.map(p => [p.id, p])), [photos]);
+
+  // リストとマップは期間内の写真のIDを日付のインデックスから読み込み（レコード本体は読まない）、
+  // 旅行・アルバムとタグの絞り込みをかける。写真はライブラリの一覧のものをそのまま使い、別に複製しない
+  const [rangeIds, setRangeIds] = useState<string[]>([]);
+  useEffect(() => {
+    let cancelled = false;
+    db.getPhotoIdsByDateRange(dateRange.start, dateRange.end)
+      .then(result => { if (!cancelled) setRangeIds(result); })
+      .catch(e => console.error("[VisionSort] Failed to load photos in range:", e));
+    return () => { cancelled = true; };
+  }, [dateRange, libraryRevision]);
+
   const filteredPhotosByDate = useMemo(() => {
-    return photos.filter(p => p.date >= dateRange.start && p.date <= dateRange.end);
-  }, [photos, dateRange]);
+    const rangePhotos = rangeIds.map(id => photosById.get(id)).filter((p): p is PhotoMetadata => !!p);
+    if (!isFiltered) return rangePhotos;
+    return rangePhotos.filter(p => (!scopeIds || scopeIds.has(p.id)) && hasAllTags(p, tagFilter));
+  }, [rangeIds, photosById, isFiltered, scopeIds, tagFilter]);
+
+  // カレンダーは表示中の月の枚数をインデックスのキーだけで数える。絞り込み中は絞り込んだ写真から数える
+  const [monthCounts, setMonthCounts] = useState<Record<string, number>>({});
+  useEffect(() => {
+    if (viewMode !== 'calendar' || isFiltered) return;
+    const month = `${currentCalendarMonth.getFullYear()}-${String(currentCalendarMonth.getMonth() + 1).padStart(2, '0')}`;
+    let cancelled = false;
+    db.countPhotosByDate(`${month}-01`, `${month}-31`)
+      .then(counts => { if (!cancelled) setMonthCounts(counts); })
+      .catch(e => console.error("[VisionSort] Failed to count photos:", e));
+    return () => { cancelled = true; };
+  }, [viewMode, isFiltered, currentCalendarMonth, libraryRevision]);
+
+  const calendarCounts = useMemo(() => {
+    if (!isFiltered) return monthCounts;
+    return taggedPhotos.reduce((acc, p) => {
+      acc[p.date] = (acc[p.date] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+  }, [isFiltered, monthCounts, taggedPhotos]);
+
+  // 旅行の区切りの設定はフォルダ画面で変わるため、タイムラインを開くたびに計算し直す
+  const trips = useMemo(() => (viewMode === 'timeline' ? segmentTrips(photos, getTripSettings()) : []), [photos, viewMode]);
+
+  const calendarJournalMarks = useMemo(() => journalMarks(Object.values(journal)), [journal]);
+
+  const dayEntry = useMemo(() => {
+    if (!selectedDate) return null;
+    return journal[createDayEntry(selectedDate).id] || createDayEntry(selectedDate);
+  }, [journal, selectedDate]);
+
+  const tripEntry = useMemo(() => (selectedDate ? findTripEntry(journal, trips, selectedDate) : null), [journal, trips, selectedDate]);
+
+  const allTagNames = useMemo(() => countTags(photos).map(tag => tag.name), [photos]);
+
+  // インデックスは直接書き換わるため、ライブラリとメモの更新を合図に検索し直す
+  const searchResults = useMemo(() => {
+    const results = searchIndex.search(searchQuery);
+    return scopeIds ? results.filter(r => scopeIds.has(r.photoId)) : results;
+  }, [searchIndex, searchQuery, scopeIds, libraryRevision, diaryNotes]);
+
+  const handleSearchChange = (query: string) => {
+    setSearchQuery(query);
+    if (query.trim() && viewMode !== 'search') setViewMode('search');
+    if (!query.trim() && viewMode === 'search') setViewMode('all');
+  };
 
   const handleFocusPhoto = (photo: PhotoMetadata) => {
     if (photo.latitude === 0 && photo.longitude === 0) return;
@@ -202,46 +586,332 @@ const App: React.FC = () => {
     setViewMode('map');
   };
 
-  const updatePhotoLocation = useCallback(async (id: string, lat: number, lng: number) => {
-    setPhotos(prev => {
-      const photo = prev.find(p => p.id === id);
-      if (!photo) return prev;
-      
-      const updated = { 
-        ...photo, 
-        latitude: lat, 
-        longitude: lng, 
-        locationName: "地点名を特定中...", 
-        isProcessing: true,
-        manuallyPlaced: true 
-      };
-      
-      (async () => {
-        try {
-          if (photo.fileBlob) {
-            const base64 = await blobToBase64(photo.fileBlob);
-            const aiLocationName = await identifyLocation(lat, lng, base64, photo.fileBlob.type);
-            
-            const finalUpdate = { ...updated, locationName: aiLocationName, isProcessing: false };
-            setPhotos(current => current.map(p => p.id === id ? finalUpdate : p));
-            await db.savePhoto(finalUpdate);
-          }
-        } catch (err) {
-          console.error("Manual move AI analysis failed:", err);
-          const errorUpdate = { ...updated, locationName: "特定できませんでした", isProcessing: false };
-          setPhotos(current => current.map(p => p.id === id ? errorUpdate : p));
-        }
-      })();
-
-      return prev.map(p => p.id === id ? updated : p);
+  /**
+   * 地図上で写真（クラスタの場合は複数枚）を移動する。まとめて1つの操作として取り消せる
+   */
+  const movePhotos = useCallback(async (ids: string[], lat: number, lng: number) => {
+    const before = (await Promise.all(ids.map(db.getPhoto))).filter((p): p is PhotoMetadata => !!p);
+    if (before.length === 0) return;
+    // まず同梱の地名データで即座に名前を付け、設定されていれば解析キューでAIの詳しい地名に置き換える
+    const settings = getProviderSettings();
+    const refineIds = settings.refineLocationNames && settings.providerId !== 'offline'
+      ? before.filter(photo => photo.fileBlob).map(photo => photo.id)
+      : [];
+    const refining = new Set(refineIds);
+    try {
+      await updatePhotosFields(Object.fromEntries(before.map(photo => [photo.id, movedLocationPatch(photo, lat, lng, refining.has(photo.id))])));
+    } catch (err) {
+      console.error("[VisionSort] Failed to save moved photos:", err);
+      alert(t('alert.moveError'));
+      await loadLibrary();
+      return;
+    }
+    recordPhotoEdit(before.length > 1 ? t('history.movePhotos', { count: before.length }) : t('history.movePhoto', { name: before[0].locationName || before[0].name }), before);
+    if (refineIds.length > 0) await analysisQueue.enqueue(refineIds, 'locationName');
+  }, [updatePhotosFields, recordPhotoEdit, loadLibrary, analysisQueue]);
+
+  /**
+   * トラックログから求めた位置を写真に設定する
+   */
+  const applyTrackLocations = useCallback(async (matches: GeotagMatch[]) => {
+    const before = (await Promise.all(matches.map(match => db.getPhoto(match.photoId)))).filter((p): p is PhotoMetadata => !!p);
+    recordPhotoEdit(t('history.trackLog', { count: matches.length }), before);
+    for (const match of matches) {
+      const photo = before.find(p => p.id === match.photoId);
+      await updatePhotoFields(match.photoId, {
+        latitude: match.latitude,
+        longitude: match.longitude,
+        locationSource: 'track',
+        manuallyPlaced: false,
+        ...(photo && { provenance: mergeProvenance(photo, { location: createProvenance('track') }) })
+      });
+    }
+  }, [updatePhotoFields, recordPhotoEdit]);
+
+  /**
+   * GeoJSON / KML から読み込んだ位置を写真に設定する
+   */
+  const applyImportedPlaces = useCallback(async (matches: PlaceMatch[], includeNames: boolean) => {
+    const before = (await Promise.all(matches.map(match => db.getPhoto(match.photoId)))).filter((p): p is PhotoMetadata => !!p);
+    recordPhotoEdit(t('history.importPlaces', { count: before.length }), before);
+    await updatePhotosFields(Object.fromEntries(before.map(photo => {
+      const match = matches.find(m => m.photoId === photo.id)!;
+      return [photo.id, placeUpdate(photo, match.place, includeNames)];
+    })));
+  }, [updatePhotosFields, recordPhotoEdit]);
+
+  /**
+   * アルバムの保存と削除をまとめて行う
+   */
+  const saveAlbums = useCallback(async (save: Album[], removeIds: string[] = []) => {
+    const removed = new Set(removeIds);
+    setAlbums(prev => {
+      const saved = new Map(save.map(album => [album.id, album]));
+      const next = prev.filter(album => !removed.has(album.id) && !saved.has(album.id));
+      return [...next, ...save];
     });
+    if (scope?.kind === 'album' && removed.has(scope.id)) setScope(null);
+    await db.updateAlbums(save, removeIds);
+  }, [scope]);
+
+  const handleAddToAlbum = useCallback(async (photoIds: string[], albumId: string) => {
+    if (albumId === '__new__') {
+      const name = window.prompt(t('prompt.albumName'));
+      if (name === null) return;
+      await saveAlbums([createAlbum(name, photoIds)]);
+      return;
+    }
+    const album = albums.find(a => a.id === albumId);
+    if (album) await saveAlbums([addPhotosToAlbum(album, photoIds)]);
+  }, [albums, saveAlbums]);
+
+  /**
+   * 選択した写真の日付をまとめて変更する。撮影時刻が分かっている写真は時刻を残す
+   */
+  const handleBatchSetDate = useCallback(async (photoIds: string[], date: string) => {
+    const targets = photos.filter(p => photoIds.includes(p.id));
+    recordPhotoEdit(t('history.setDate', { count: targets.length, date: formatDate(date) }), targets);
+    await updatePhotosFields(Object.fromEntries(targets.map(p => [p.id, {
+      date,
+      captureTime: p.captureTime ? `${date}${p.captureTime.slice(10)}` : undefined,
+      provenance: manualProvenance(p, ['date'])
+    }])));
+  }, [photos, recordPhotoEdit, updatePhotosFields]);
+
+  /**
+   * 選択した写真を同じ位置に置く。地名は source の写真から、なければ同梱の地名データから付ける
+   */
+  const handleBatchSetLocation = useCallback(async (photoIds: string[], lat: number, lng: number, source?: PhotoMetadata) => {
+    const targets = photos.filter(p => photoIds.includes(p.id));
+    const geocoded = source ? null : reverseGeocode(lat, lng);
+    const patch: Partial<PhotoMetadata> = {
+      latitude: lat,
+      longitude: lng,
+      locationName: source?.locationName || geocoded?.locationName || coordinateLocationName(lat, lng),
+      country: source?.country || geocoded?.country,
+      manuallyPlaced: true,
+      locationSource: 'manual'
+    };
+    // 他の写真から写した地名はユーザーが選んだものとして扱う
+    const nameProvenance = source ? createProvenance('manual') : createProvenance('geocoder', geocoded ? undefined : 'low');
+    recordPhotoEdit(t('history.setLocation', { count: targets.length, name: patch.locationName || '' }), targets);
+    await updatePhotosFields(Object.fromEntries(targets.map(p => [p.id, {
+      ...patch,
+      provenance: mergeProvenance(p, {
+        location: createProvenance('manual'),
+        locationName: nameProvenance,
+        country: patch.country ? nameProvenance : undefined
+      })
+    }])));
+  }, [photos, recordPhotoEdit, updatePhotosFields]);
+
+  const handleStartLocationPick = useCallback((photoIds: string[]) => {
+    setLocationPickIds(photoIds);
+    setViewMode('map');
+  }, []);
+
+  const handleLocationPicked = useCallback(async (lat: number, lng: number) => {
+    if (!locationPickIds) return;
+    setLocationPickIds(null);
+    setViewMode('all');
+    await handleBatchSetLocation(locationPickIds, lat, lng);
+  }, [locationPickIds, handleBatchSetLocation]);
+
+  /**
+   * 写真を解析し直す画面を開く。photoIds を省くと解析に失敗した写真と位置のない写真が対象になる
+   */
+  const handleOpenReanalyze = useCallback((photoIds: string[] | null = null) => {
+    setReanalyzeIds(photoIds);
+    setSelectedPhotoForModal(null);
+    setViewMode('reanalyze');
+  }, []);
+
+  const handleOpenBook = useCallback((tripId: string | null = null) => {
+    setBookTripId(tripId);
+    setViewMode('book');
+  }, []);
+
+  /**
+   * 再解析の結果のうち採用した項目を保存する。まとめて1つの操作として取り消せる
+   */
+  const handleApplyReanalysis = useCallback(async (patches: Record<string, Partial<PhotoMetadata>>) => {
+    const targets = photos.filter(p => patches[p.id]);
+    recordPhotoEdit(t('history.applyReanalysis', { count: targets.length }), targets);
+    await updatePhotosFields(patches);
+  }, [photos, recordPhotoEdit, updatePhotosFields]);
+
+  const handleBatchExport = useCallback(async (photoIds: string[], withMetadata: boolean) => {
+    try {
+      // 一覧の写真は元ファイルを持たないため DB から読み込む
+      const stored = (await Promise.all(photoIds.map(db.getPhoto))).filter((p): p is PhotoMetadata => !!p);
+      const { archive, unchanged } = await exportPhotoFiles(stored, withMetadata);
+      downloadBlob(archive, `visionsort-photos-${todayStamp()}.zip`);
+      if (unchanged.length > 0) {
+        alert(`${t('alert.exportUnchanged', { count: unchanged.length })}\n${unchanged.join('\n')}`);
+      }
+    } catch (err) {
+      console.error("[VisionSort] Export Error:", err);
+      alert(t('alert.exportError'));
+    }
+  }, []);
+
+  /**
+   * 1枚の写真を、位置・撮影日時・説明を書き込んだ JPEG としてダウンロードする
+   */
+  const handleDownloadWithMetadata = useCallback(async (photo: PhotoMetadata) => {
+    try {
+      const blob = await writePhotoMetadata(await db.getPhoto(photo.id) ?? photo);
+      downloadBlob(blob, `${photo.date}_${photo.name.replace(/\.[a-z0-9]+$/i, '')}.jpg`);
+    } catch (err) {
+      console.error("[VisionSort] Metadata Write Error:", err);
+      alert(err instanceof Error ? err.message : t('alert.metadataWriteError'));
+    }
+  }, []);
+
+  const handleBatchDelete = useCallback(async (photoIds: string[]) => {
+    await trashPhotos(photoIds, t('history.deletePhotos', { count: photoIds.length }));
+  }, [trashPhotos]);
+
+  /**
+   * 写真詳細で編集した項目を保存する。手動入力として記録し、以後の再解析では上書きしない
+   */
+  const handleEditMetadata = useCallback(async (photoId: string, field: MetadataField, patch: Partial<PhotoMetadata>) => {
+    const photo = photos.find(p => p.id === photoId);
+    if (!photo) return;
+    recordPhotoEdit(t('history.editField', { name: photo.locationName || photo.name, field: t(`field.${field}`) }), [photo]);
+    await updatePhotoFields(photoId, { ...patch, provenance: manualProvenance(photo, [field]) });
+  }, [photos, recordPhotoEdit, updatePhotoFields]);
+
+  const handleUpdateTags = useCallback(async (photoId: string, fields: Pick<PhotoMetadata, 'tags' | 'aiTags'>, label: string) => {
+    const photo = photos.find(p => p.id === photoId);
+    if (!photo) return;
+    recordPhotoEdit(label, [photo]);
+    await updatePhotoFields(photoId, fields);
+  }, [photos, recordPhotoEdit, updatePhotoFields]);
+
+  const handleBatchAddTag = useCallback(async (photoIds: string[], tag: string) => {
+    const targets = photos.filter(p => photoIds.includes(p.id));
+    recordPhotoEdit(t('history.addTag', { count: targets.length, tag }), targets);
+    await updatePhotosFields(Object.fromEntries(targets.map(p => [p.id, addTag(p, tag)])));
+  }, [photos, recordPhotoEdit, updatePhotosFields]);
+
+  /**
+   * タグの名前を変える。既存のタグ名にした場合は統合される
+   */
+  const handleRenameTag = useCallback(async (from: string, to: string) => {
+    const targets = await db.getPhotosByTag(from);
+    recordPhotoEdit(t('history.renameTag', { from, to }), targets);
+    await updatePhotosFields(Object.fromEntries(targets.map(p => [p.id, renameTag(p, from, to)])));
+    setTagFilter(prev => prev.includes(from) ? Array.from(new Set(prev.map(tag => (tag === from ? to : tag)))) : prev);
+  }, [recordPhotoEdit, updatePhotosFields]);
+
+  const handleDeleteTag = useCallback(async (tag: string) => {
+    const targets = await db.getPhotosByTag(tag);
+    recordPhotoEdit(t('history.deleteTag', { tag }), targets);
+    await updatePhotosFields(Object.fromEntries(targets.map(p => [p.id, removeTag(p, tag)])));
+    setTagFilter(prev => prev.filter(t => t !== tag));
+  }, [recordPhotoEdit, updatePhotosFields]);
+
+  const handleFilterByTag = useCallback((tag: string) => {
+    setTagFilter([tag]);
+    setViewMode('all');
+  }, []);
+
+  const handleOpenScope = useCallback((nextScope: PhotoScope, view: 'map' | 'calendar' | 'all') => {
+    setScope(nextScope);
+    setFocusedPhoto(null);
+    setViewMode(view);
+  }, []);
+
+  /**
+   * 統計から月・日を開く。統計はライブラリ全体で数えているため、旅行・アルバムの絞り込みは解除する
+   */
+  const handleOpenStatsMonth = useCallback((month: string) => {
+    const [year, monthIndex] = month.split('-').map(Number);
+    setScope(null);
+    setCurrentCalendarMonth(new Date(year, monthIndex - 1, 1));
+    setViewMode('calendar');
+  }, []);
+
+  const handleOpenStatsDate = useCallback((date: string) => {
+    setScope(null);
+    setSelectedDate(date);
+    setViewMode('timeline');
+  }, []);
+
+  const handleProviderSettingsChange = useCallback((settings: ProviderSettings) => {
+    setProviderSettingsState(settings);
+    setProviderSettings(settings);
+  }, []);
+
+  const handleQueueSettingsChange = useCallback((settings: QueueSettings) => {
+    setQueueSettings(settings);
+    saveQueueSettings(settings);
+  }, []);
+
+  const handleLocaleChange = useCallback((next: Locale) => {
+    setLocale(next);
+    setLocaleState(next);
   }, []);
 
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const handleCancelQueue = useCallback(() => {
+    if (!window.confirm(t('confirm.cancelQueue'))) return;
+    analysisQueue.cancelAll();
+  }, [analysisQueue]);
+
+  const handleLibraryRestored = useCallback(async () => {
+    // 復元前のライブラリに対する操作は取り消せないため履歴を消す
+    history.clear();
+    setSelectedPhotoForModal(null);
+    setFocusedPhoto(null);
+    await loadLibrary();
+    bumpRevision();
+  }, [history, loadLibrary, bumpRevision]);
+
   const handleUpdateNote = useCallback(async (photoId: string, note: string) => {
-    setDiaryNotes(prev => ({ ...prev, [photoId]: note }));
-    await db.saveNote(photoId, note);
+    const before = diaryNotesRef.current[photoId] || '';
+    history.record({
+      label: t('history.editNote'),
+      coalesceKey: `note:${photoId}`,
+      undo: () => applyNote(photoId, before),
+      redo: () => applyNote(photoId, note)
+    });
+    await applyNote(photoId, note);
+  }, [history, applyNote]);
+
+  const applyJournalEntry = useCallback(async (entryId: string, entry: JournalEntry | null) => {
+    setJournal(prev => {
+      const next = { ...prev };
+      if (entry) next[entryId] = entry;
+      else delete next[entryId];
+      return next;
+    });
+    if (entry) await db.saveJournalEntry(entry);
+    else await db.deleteJournalEntry(entryId);
   }, []);
 
+  /**
+   * 日・旅行の日記を保存する。本文を空にした場合は削除する
+   */
+  const handleUpdateJournal = useCallback(async (entry: JournalEntry, body: string) => {
+    const before = journalRef.current[entry.id] || null;
+    const after = body.trim() ? { ...entry, body, updatedAt: Date.now() } : null;
+    history.record({
+      label: t(entry.kind === 'day' ? 'history.editDayJournal' : 'history.editTripJournal'),
+      coalesceKey: `journal:${entry.id}`,
+      undo: () => applyJournalEntry(entry.id, before),
+      redo: () => applyJournalEntry(entry.id, after)
+    });
+    await applyJournalEntry(entry.id, after);
+  }, [history, applyJournalEntry]);
+
+  // 編集した内容がすぐ反映されるよう、開いている写真は最新のステートから引く
+  const modalPhoto = selectedPhotoForModal ? photosById.get(selectedPhotoForModal.id) ?? selectedPhotoForModal : null;
+
   if (isInitializing) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-slate-50 font-bold text-slate-400">
@@ -261,22 +931,69 @@ const App: React.FC = () => {
             </div>
             {photos.length > 0 && (
               <div className="flex items-center gap-3 bg-slate-100 px-4 py-1.5 rounded-full border border-slate-200">
-                <span className="text-xs font-bold text-slate-500">PHOTOS: {filteredPhotosByDate.length}</span>
+                <span className="text-xs font-bold text-slate-500">{t('header.photos', { count: filteredPhotosByDate.length })}</span>
+              </div>
+            )}
+            {scope && (
+              <div className="flex items-center gap-2 bg-indigo-50 text-indigo-700 pl-4 pr-1.5 py-1 rounded-full border border-indigo-100 max-w-xs">
+                <span className="text-xs font-black truncate">{t(scope.kind === 'trip' ? 'header.scopeTrip' : scope.kind === 'album' ? 'header.scopeAlbum' : 'header.scopeStats')}: {scope.name}</span>
+                <button onClick={() => setScope(null)} className="w-5 h-5 rounded-full hover:bg-indigo-100 text-sm font-black leading-none" title={t('header.clearScope')}>×</button>
               </div>
             )}
+            {photos.length > 0 && (viewMode === 'all' || viewMode === 'map' || viewMode === 'calendar') && (
+              <TagFilter photos={scopedPhotos} selected={tagFilter} onChange={setTagFilter} />
+            )}
+            {queueProgress && (
+              <QueueStatus
+                progress={queueProgress}
+                onPause={analysisQueue.pause}
+                onResume={analysisQueue.resume}
+                onCancel={handleCancelQueue}
+              />
+            )}
           </div>
           <div className="flex items-center gap-3">
+            {photos.length > 0 && (
+              <div className="relative hidden md:block">
+                <svg className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
+                <input
+                  type="search"
+                  value={searchQuery}
+                  onChange={(e) => handleSearchChange(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Escape') handleSearchChange(''); }}
+                  placeholder={t('header.searchPlaceholder')}
+                  className="w-56 bg-slate-100 border border-slate-200 rounded-2xl pl-9 pr-4 py-2 text-xs font-bold focus:ring-4 focus:ring-indigo-500/10 focus:bg-white outline-none transition-all"
+                />
+              </div>
+            )}
             {viewMode !== 'landing' && (
               <nav className="flex bg-slate-100 p-1 rounded-2xl">
-                <button onClick={() => setViewMode('config')} className={`px-4 py-1.5 rounded-xl text-xs font-bold ${viewMode === 'config' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}>Settings</button>
-                <button onClick={() => setViewMode('calendar')} className={`px-4 py-1.5 rounded-xl text-xs font-bold ${viewMode === 'calendar' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}>Calendar</button>
-                <button onClick={() => setViewMode('map')} className={`px-4 py-1.5 rounded-xl text-xs font-bold ${viewMode === 'map' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}>Map</button>
-                <button onClick={() => setViewMode('all')} className={`px-4 py-1.5 rounded-xl text-xs font-bold ${viewMode === 'all' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}>List</button>
+                <button onClick={() => setViewMode('config')} className={`px-4 py-1.5 rounded-xl text-xs font-bold ${viewMode === 'config' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}>{t('nav.settings')}</button>
+                <button onClick={() => setViewMode('folders')} className={`px-4 py-1.5 rounded-xl text-xs font-bold ${viewMode === 'folders' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}>{t('nav.folders')}</button>
+                <button onClick={() => setViewMode('calendar')} className={`px-4 py-1.5 rounded-xl text-xs font-bold ${viewMode === 'calendar' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}>{t('nav.calendar')}</button>
+                <button onClick={() => setViewMode('map')} className={`px-4 py-1.5 rounded-xl text-xs font-bold ${viewMode === 'map' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}>{t('nav.map')}</button>
+                <button onClick={() => setViewMode('all')} className={`px-4 py-1.5 rounded-xl text-xs font-bold ${viewMode === 'all' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}>{t('nav.list')}</button>
+                <button onClick={() => setViewMode('duplicates')} className={`px-4 py-1.5 rounded-xl text-xs font-bold ${viewMode === 'duplicates' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}>{t('nav.duplicates')}</button>
+                <button onClick={() => handleOpenReanalyze()} className={`px-4 py-1.5 rounded-xl text-xs font-bold ${viewMode === 'reanalyze' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}>{t('nav.reanalyze')}</button>
+                <button onClick={() => handleOpenBook()} className={`px-4 py-1.5 rounded-xl text-xs font-bold ${viewMode === 'book' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}>{t('nav.book')}</button>
+                <button onClick={() => setViewMode('stats')} className={`px-4 py-1.5 rounded-xl text-xs font-bold ${viewMode === 'stats' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}>{t('nav.stats')}</button>
+                <button onClick={() => setViewMode('trash')} className={`px-4 py-1.5 rounded-xl text-xs font-bold ${viewMode === 'trash' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}>{t('nav.trash')}</button>
               </nav>
             )}
+            {viewMode !== 'landing' && (
+              <HistoryPanel state={historyState} onUndo={history.undo} onRedo={history.redo} />
+            )}
+            <select
+              value={locale}
+              onChange={(e) => handleLocaleChange(e.target.value as Locale)}
+              title={t('header.language')}
+              className="bg-slate-100 border border-slate-200 rounded-2xl px-3 py-2 text-xs font-bold outline-none cursor-pointer"
+            >
+              {LOCALES.map(info => <option key={info.id} value={info.id}>{info.label}</option>)}
+            </select>
             <label className="cursor-pointer bg-slate-900 text-white px-5 py-2.5 rounded-2xl text-sm font-bold flex items-center gap-2">
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4v16m8-8H4" /></svg>
-              <span>Upload</span>
+              <span>{t('header.upload')}</span>
               <input type="file" multiple accept="image/*" className="hidden" onChange={handleFileChange} />
             </label>
           </div>
@@ -292,8 +1009,14 @@ const App: React.FC = () => {
               const photo = photos.find(p => p.id === ids[0]);
               if (photo) setSelectedPhotoForModal(photo);
             }} 
-            onUpdatePhotoLocation={updatePhotoLocation}
+            onUpdatePhotoLocation={movePhotos}
             onDeletePhoto={handleDeletePhoto}
+            fitKey={scope ? `${scope.kind}:${scope.id}` : 'library'}
+            pickLocation={locationPickIds && {
+              label: t('map.pickLocation', { count: locationPickIds.length }),
+              onPick: handleLocationPicked,
+              onCancel: () => { setLocationPickIds(null); setViewMode('all'); }
+            }}
             isVisible={viewMode === 'map'}
           />
         </div>
@@ -301,24 +1024,24 @@ const App: React.FC = () => {
         <div className={`relative z-20 h-full overflow-auto custom-scrollbar ${viewMode === 'map' ? 'pointer-events-none' : 'bg-slate-50/50'}`}>
           {viewMode === 'landing' && (
             <div className="flex flex-col items-center justify-center min-h-full py-20 px-6 text-center">
-               <h1 className="text-6xl font-black mb-8 tracking-tight">AI Memory Organizer</h1>
-               <p className="text-xl text-slate-500 mb-12 max-w-2xl">写真をアップロードするだけで、撮影日と場所を自動で特定。あなたの想い出を美しく整理します。</p>
+               <h1 className="text-6xl font-black mb-8 tracking-tight">{t('landing.title')}</h1>
+               <p className="text-xl text-slate-500 mb-12 max-w-2xl">{t('landing.lead')}</p>
                
                <div className="flex flex-col sm:flex-row flex-wrap items-center justify-center gap-6">
                  <label className="cursor-pointer bg-indigo-600 text-white px-10 py-6 rounded-3xl text-2xl font-black shadow-2xl transition-all hover:scale-[1.05] active:scale-95 flex items-center gap-3">
                    <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
-                   <span>Upload Photos</span>
+                   <span>{t('landing.upload')}</span>
                    <input type="file" multiple accept="image/*" className="hidden" onChange={handleFileChange} />
                  </label>
                  
                  <button onClick={() => setViewMode('calendar')} className="bg-white border-2 border-slate-200 hover:border-indigo-600 text-slate-700 hover:text-indigo-600 px-10 py-6 rounded-3xl text-2xl font-black shadow-xl transition-all hover:scale-[1.05] active:scale-95 flex items-center gap-3">
                    <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7V5a2 2 0 012-2h4.586a1 1 0 01.707.293l4.414 4.414a1 1 0 01.293.707V15a2 2 0 01-2 2h-2M8 7H6a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2v-2" /></svg>
-                   <span>Show Calendar</span>
+                   <span>{t('landing.calendar')}</span>
                  </button>
 
                  <button onClick={() => setViewMode('map')} className="bg-white border-2 border-slate-200 hover:border-indigo-600 text-slate-700 hover:text-indigo-600 px-10 py-6 rounded-3xl text-2xl font-black shadow-xl transition-all hover:scale-[1.05] active:scale-95 flex items-center gap-3">
                    <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" /></svg>
-                   <span>Show Map</span>
+                   <span>{t('landing.map')}</span>
                  </button>
                </div>
             </div>
@@ -332,12 +1055,12 @@ const App: React.FC = () => {
                     <div className="w-10 h-10 bg-indigo-100 text-indigo-600 rounded-xl flex items-center justify-center">
                       <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" /></svg>
                     </div>
-                    <h2 className="text-2xl font-black text-slate-900">Date Range Filter</h2>
+                    <h2 className="text-2xl font-black text-slate-900">{t('dateFilter.title')}</h2>
                   </div>
-                  <p className="text-slate-500 font-medium">指定した期間の写真のみをマップおよびリストに表示します。</p>
+                  <p className="text-slate-500 font-medium">{t('dateFilter.description')}</p>
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
                     <div className="flex flex-col gap-2">
-                      <label className="text-xs font-black text-slate-400 uppercase tracking-widest ml-1">From / 開始日</label>
+                      <label className="text-xs font-black text-slate-400 uppercase tracking-widest ml-1">{t('dateFilter.from')}</label>
                       <input 
                         type="date" 
                         value={dateRange.start} 
@@ -346,7 +1069,7 @@ const App: React.FC = () => {
                       />
                     </div>
                     <div className="flex flex-col gap-2">
-                      <label className="text-xs font-black text-slate-400 uppercase tracking-widest ml-1">To / 終了日</label>
+                      <label className="text-xs font-black text-slate-400 uppercase tracking-widest ml-1">{t('dateFilter.to')}</label>
                       <input 
                         type="date" 
                         value={dateRange.end} 
@@ -360,89 +1083,197 @@ const App: React.FC = () => {
                     className="w-full bg-indigo-600 hover:bg-indigo-700 text-white py-5 rounded-2xl font-black text-lg shadow-lg shadow-indigo-200 transition-all active:scale-95 flex items-center justify-center gap-2"
                   >
                     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 13l4 4L19 7" /></svg>
-                    Apply Filter / フィルターを適用
+                    {t('dateFilter.apply')}
                   </button>
                 </section>
+
+                <ProviderSettingsPanel settings={providerSettings} onChange={handleProviderSettingsChange} />
+
+                <QueueSettingsPanel settings={queueSettings} onChange={handleQueueSettingsChange} />
+
+                <GeotagPanel photos={photos} onApply={applyTrackLocations} />
+
+                <GeoDataPanel photos={photos} filteredPhotos={filteredPhotosByDate} onApply={applyImportedPlaces} />
+
+                <TagManagerPanel revision={libraryRevision} onRename={handleRenameTag} onDelete={handleDeleteTag} onFilter={handleFilterByTag} />
+
+                <BackupPanel onRestored={handleLibraryRestored} />
               </div>
             </div>
           )}
 
           {viewMode === 'calendar' && (
             <CalendarView 
-              photos={photos} 
+              photoCounts={calendarCounts} 
+              journalMarks={calendarJournalMarks}
               onDateSelect={(date) => { setSelectedDate(date); setViewMode('timeline'); }} 
               currentMonth={currentCalendarMonth}
               onMonthChange={setCurrentCalendarMonth}
             />
           )}
 
-          {viewMode === 'timeline' && selectedDate && (
+          {viewMode === 'timeline' && selectedDate && dayEntry && (
             <TimelineView 
               date={selectedDate} 
-              photos={photos} 
+              revision={libraryRevision}
+              scopeIds={scopeIds}
               notes={diaryNotes} 
               onUpdateNote={handleUpdateNote}
+              dayEntry={dayEntry}
+              tripEntry={tripEntry}
+              onUpdateJournal={handleUpdateJournal}
               onBack={() => setViewMode('calendar')}
             />
           )}
 
-  {viewMode === 'all' && (
-            <div className="max-w-[1400px] mx-auto p-10">
-              <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-6 pb-20">
-                {filteredPhotosByDate?.map(p => (
-                  <div 
-                    key={p.id} 
-                    onClick={() => setSelectedPhotoForModal(p)} 
-                    className="cursor-pointer transition-transform hover:scale-[1.02]"
-                  >
-                    <PhotoCard photo={p} onFocus={() => handleFocusPhoto(p)} />
-                  </div>
-                ))}
+          {viewMode === 'search' && (
+            <SearchView
+              query={searchQuery}
+              results={searchResults}
+              photosById={photosById}
+              getFieldText={searchIndex.getFieldText}
+              onSelect={setSelectedPhotoForModal}
+            />
+          )}
 
-                {(!filteredPhotosByDate || filteredPhotosByDate.length === 0) && (
-                  <div className="col-span-full flex flex-col items-center justify-center py-20 text-slate-400">
-                    <svg className="w-16 h-16 mb-4 opacity-20" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                    </svg>
-                    <p className="font-bold text-lg">写真がありません</p>
-                    <p className="text-sm">上のUploadボタンから写真を追加してください</p>
-                  </div>
-                )}
-              </div>
-            </div>
+          {viewMode === 'folders' && (
+            <FoldersView
+              photos={photos}
+              albums={albums}
+              onOpenScope={handleOpenScope}
+              onSaveAlbums={saveAlbums}
+              onCreateBook={handleOpenBook}
+            />
+          )}
+
+          {viewMode === 'book' && (
+            <TravelBookView
+              key={bookTripId || 'range'}
+              photos={photos}
+              notes={diaryNotes}
+              journal={journal}
+              initialTripId={bookTripId}
+              onBack={() => setViewMode(bookTripId ? 'folders' : 'all')}
+            />
+          )}
+
+          {viewMode === 'stats' && (
+            <StatsView
+              photos={photos}
+              onOpenScope={handleOpenScope}
+              onOpenMonth={handleOpenStatsMonth}
+              onOpenDate={handleOpenStatsDate}
+            />
+          )}
+
+          {viewMode === 'duplicates' && (
+            <DuplicateReviewView
+              photos={photos}
+              onMerge={handleMergeDuplicates}
+              onDiscard={handleDiscardDuplicates}
+              onBack={() => setViewMode('all')}
+            />
+          )}
+
+          {viewMode === 'reanalyze' && (
+            <ReanalyzeView
+              photos={photos}
+              selectedIds={reanalyzeIds}
+              onApply={handleApplyReanalysis}
+              onBack={() => setViewMode('all')}
+            />
+          )}
+
+          {viewMode === 'trash' && (
+            <TrashView
+              revision={libraryRevision}
+              onRestore={handleRestoreFromTrash}
+              onPurge={handlePurgeTrash}
+            />
+          )}
+
+  {viewMode === 'all' && (
+            <PhotoGridView
+              photos={filteredPhotosByDate}
+              albums={albums}
+              onOpen={setSelectedPhotoForModal}
+              onFocus={handleFocusPhoto}
+              onSetDate={handleBatchSetDate}
+              onPickLocation={handleStartLocationPick}
+              onCopyLocation={(ids, source) => handleBatchSetLocation(ids, source.latitude, source.longitude, source)}
+              onAddToAlbum={handleAddToAlbum}
+              onAddTag={handleBatchAddTag}
+              onReanalyze={handleOpenReanalyze}
+              onExport={handleBatchExport}
+              onDelete={handleBatchDelete}
+            />
           )}
         </div>
       </main>
 
-      {selectedPhotoForModal && (
+      {modalPhoto && (
         <div className="fixed inset-0 z-[100] bg-black/80 flex items-center justify-center p-6" onClick={() => setSelectedPhotoForModal(null)}>
           <div className="bg-white rounded-[2.5rem] overflow-hidden w-full max-w-4xl flex flex-col md:flex-row max-h-[90vh]" onClick={e => e.stopPropagation()}>
             <div className="flex-1 bg-black flex items-center justify-center relative">
-              <img src={selectedPhotoForModal.url} className="w-full h-full object-contain" />
+              <img src={modalPhoto.url} className="w-full h-full object-contain" />
             </div>
-            <div className="w-full md:w-80 p-8 flex flex-col justify-between">
+            <div className="w-full md:w-80 p-8 flex flex-col justify-between overflow-y-auto custom-scrollbar">
               <div className="space-y-6">
-                <p className="text-xs font-black text-indigo-500 uppercase">{selectedPhotoForModal.date}</p>
-                <h3 className="text-2xl font-black">{selectedPhotoForModal.locationName}</h3>
-                <p className="text-slate-500 italic mb-4">{selectedPhotoForModal.description}</p>
+                <MetadataEditor photo={modalPhoto} onSave={(field, patch) => handleEditMetadata(modalPhoto.id, field, patch)} />
+                <TagEditor photo={modalPhoto} suggestions={allTagNames} onChange={(fields, label) => handleUpdateTags(modalPhoto.id, fields, label)} />
+
+                <div className="flex flex-col gap-2">
+                  <label className="text-xs font-black text-slate-400 uppercase tracking-widest">{t('modal.album')}</label>
+                  <select
+                    value=""
+                    onChange={(e) => { if (e.target.value) handleAddToAlbum([modalPhoto.id], e.target.value); }}
+                    className="bg-slate-50 border border-slate-200 rounded-2xl px-4 py-3 font-bold text-sm outline-none cursor-pointer"
+                  >
+                    <option value="">{t('modal.addToAlbum')}</option>
+                    {albums.filter(a => !a.photoIds.includes(modalPhoto.id)).map(a => (
+                      <option key={a.id} value={a.id}>{a.name}</option>
+                    ))}
+                    <option value="__new__">{t('modal.newAlbum')}</option>
+                  </select>
+                  {albums.some(a => a.photoIds.includes(modalPhoto.id)) && (
+                    <p className="text-[11px] font-bold text-slate-400">
+                      {albums.filter(a => a.photoIds.includes(modalPhoto.id)).map(a => a.name).join(' · ')}
+                    </p>
+                  )}
+                </div>
                 
+                <button
+                  onClick={() => handleOpenReanalyze([modalPhoto.id])}
+                  disabled={modalPhoto.isProcessing}
+                  className="w-full bg-slate-100 hover:bg-slate-200 disabled:opacity-40 text-slate-700 py-3 rounded-2xl font-black text-sm transition-all active:scale-95"
+                >
+                  {t('modal.reanalyze')}
+                </button>
+                <button
+                  onClick={() => handleDownloadWithMetadata(modalPhoto)}
+                  disabled={!modalPhoto.fileSize && !modalPhoto.fileBlob}
+                  className="w-full bg-slate-100 hover:bg-slate-200 disabled:opacity-40 text-slate-700 py-3 rounded-2xl font-black text-sm transition-all active:scale-95"
+                >
+                  {t('modal.downloadWithMetadata')}
+                </button>
+
                 <div className="pt-6 border-t border-slate-100">
                   <button 
                     onPointerDown={(e) => { e.stopPropagation(); }}
                     onClick={(e) => { 
                       e.stopPropagation(); 
-                      handleDeletePhoto(selectedPhotoForModal.id); 
+                      handleDeletePhoto(modalPhoto.id); 
                     }}
                     className="relative z-[1000] w-full flex items-center justify-center gap-2 text-red-600 font-black hover:bg-red-50 p-5 rounded-2xl transition-all border-2 border-dashed border-red-100 active:scale-95 shadow-sm"
                   >
                     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
                     </svg>
-                    <span>この写真を完全に削除</span>
+                    <span>{t('modal.trash')}</span>
                   </button>
                 </div>
               </div>
-              <button onClick={() => setSelectedPhotoForModal(null)} className="w-full bg-slate-900 text-white py-4 rounded-2xl font-bold mt-4 active:scale-95 transition-transform">Close</button>
+              <button onClick={() => setSelectedPhotoForModal(null)} className="w-full bg-slate-900 text-white py-4 rounded-2xl font-bold mt-4 active:scale-95 transition-transform">{t('common.close')}</button>
             </div>
           </div>
         </div>
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { ConflictStrategy, exportLibrary, restoreLibrary, RestoreMode, RestoreSummary } from '../services/backupService';
+import { downloadBlob, todayStamp } from '../services/fileUtils';
+import { t } from '../services/i18nService';
+
+interface BackupPanelProps {
+  onRestored: () => void;
+}
+
+const labelClassName = "text-xs font-black text-slate-400 uppercase tracking-widest ml-1";
+const selectClassName = "bg-slate-50 border border-slate-200 rounded-2xl px-6 py-4 font-bold focus:ring-4 focus:ring-indigo-500/10 outline-none transition-all cursor-pointer";
+
+export const BackupPanel: React.FC<BackupPanelProps> = ({ onRestored }) => {
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [conflict, setConflict] = useState<ConflictStrategy>('keep-local');
+  const [busy, setBusy] = useState<'export' | 'import' | null>(null);
+  const [summary, setSummary] = useState<RestoreSummary | null>(null);
+
+  const handleExport = async () => {
+    setBusy('export');
+    try {
+      const archive = await exportLibrary();
+      downloadBlob(archive, `visionsort-backup-${todayStamp()}.zip`);
+    } catch (err) {
+      console.error("[VisionSort] Backup Error:", err);
+      alert(t('backup.exportFailed'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (mode === 'replace' && !window.confirm(t('backup.confirmReplace'))) {
+      return;
+    }
+
+    setBusy('import');
+    setSummary(null);
+    try {
+      const result = await restoreLibrary(file, mode, conflict);
+      setSummary(result);
+      onRestored();
+    } catch (err) {
+      console.error("[VisionSort] Restore Error:", err);
+      alert(t('backup.restoreFailed', { error: err instanceof Error ? err.message : String(err) }));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <section className="space-y-6">
+      <div className="flex items-center gap-3 mb-2">
+        <div className="w-10 h-10 bg-indigo-100 text-indigo-600 rounded-xl flex items-center justify-center">
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" /></svg>
+        </div>
+        <h2 className="text-2xl font-black text-slate-900">{t('backup.title')}</h2>
+      </div>
+      <p className="text-slate-500 font-medium">{t('backup.description')}</p>
+
+      <button
+        onClick={handleExport}
+        disabled={busy !== null}
+        className="w-full bg-slate-900 hover:bg-slate-800 disabled:opacity-50 text-white py-5 rounded-2xl font-black text-lg transition-all active:scale-95"
+      >
+        {busy === 'export' ? t('backup.exporting') : t('backup.export')}
+      </button>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+        <div className="flex flex-col gap-2">
+          <label className={labelClassName}>{t('backup.mode')}</label>
+          <select value={mode} onChange={(e) => setMode(e.target.value as RestoreMode)} className={selectClassName}>
+            <option value="merge">{t('backup.merge')}</option>
+            <option value="replace">{t('backup.replace')}</option>
+          </select>
+        </div>
+        <div className="flex flex-col gap-2">
+          <label className={labelClassName}>{t('backup.conflict')}</label>
+          <select
+            value={conflict}
+            disabled={mode === 'replace'}
+            onChange={(e) => setConflict(e.target.value as ConflictStrategy)}
+            className={`${selectClassName} disabled:opacity-50`}
+          >
+            <option value="keep-local">{t('backup.keepLocal')}</option>
+            <option value="use-backup">{t('backup.useBackup')}</option>
+          </select>
+        </div>
+      </div>
+
+      <label className={`w-full border-2 border-dashed border-slate-200 hover:border-indigo-500 text-slate-600 hover:text-indigo-600 py-5 rounded-2xl font-black text-lg transition-all flex items-center justify-center ${busy ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+        {busy === 'import' ? t('backup.restoring') : t('backup.import')}
+        <input type="file" accept=".zip,application/zip" className="hidden" onChange={handleImport} />
+      </label>
+
+      {summary && (
+        <p className="text-sm font-bold text-indigo-600 bg-indigo-50 rounded-2xl p-4">
+          {t('backup.summary', { ...summary })}
+        </p>
+      )}
+    </section>
+  );
+};
@@ -1,24 +1,17 @@
 
 import React, { useMemo } from 'react';
-import { PhotoMetadata } from '../types';
+import { JournalMark } from '../services/journalService';
+import { formatYear, monthNames, t, weekdayNames } from '../services/i18nService';
 
 interface CalendarViewProps {
-  photos: PhotoMetadata[];
+  photoCounts: Record<string, number>; // 日付（YYYY-MM-DD）ごとの枚数
+  journalMarks: Record<string, JournalMark>;
   onDateSelect: (date: string) => void;
   currentMonth: Date;
   onMonthChange: (date: Date) => void;
 }
 
-export const CalendarView: React.FC<CalendarViewProps> = ({ photos, onDateSelect, currentMonth, onMonthChange }) => {
-  // 保存形式が YYYY-MM-DD なのでそのままカウント
-  const photoCountsByDate = useMemo(() => {
-    return photos.reduce((acc, p) => {
-      const date = p.date;
-      acc[date] = (acc[date] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-  }, [photos]);
-
+export const CalendarView: React.FC<CalendarViewProps> = ({ photoCounts, journalMarks, onDateSelect, currentMonth, onMonthChange }) => {
   const daysInMonth = useMemo(() => {
     const year = currentMonth.getFullYear();
     const month = currentMonth.getMonth();
@@ -52,12 +45,8 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ photos, onDateSelect
     return res;
   }, []);
 
-  const months = [
-    { label: '1月', value: 0 }, { label: '2月', value: 1 }, { label: '3月', value: 2 },
-    { label: '4月', value: 3 }, { label: '5月', value: 4 }, { label: '6月', value: 5 },
-    { label: '7月', value: 6 }, { label: '8月', value: 7 }, { label: '9月', value: 8 },
-    { label: '10月', value: 9 }, { label: '11月', value: 10 }, { label: '12月', value: 11 }
-  ];
+  // 月・曜日の名前は表示言語で毎回作る（言語を切り替えたときに追従させるためメモ化しない）
+  const months = monthNames().map((label, value) => ({ label, value }));
 
   return (
     <div className="max-w-4xl mx-auto px-6 py-12 w-full animate-in fade-in duration-500">
@@ -70,7 +59,7 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ photos, onDateSelect
                 onChange={(e) => handleYearChange(parseInt(e.target.value))}
                 className="appearance-none bg-slate-50 border border-slate-200 rounded-2xl px-6 py-3 font-black text-xl text-slate-900 focus:ring-4 focus:ring-indigo-500/10 outline-none cursor-pointer pr-12"
               >
-                {years.map(y => <option key={y} value={y}>{y}年</option>)}
+                {years.map(y => <option key={y} value={y}>{formatYear(y)}</option>)}
               </select>
               <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none text-slate-400">
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7" /></svg>
@@ -91,24 +80,24 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ photos, onDateSelect
           </div>
 
           <div className="flex gap-2">
-            <button onClick={() => changeMonth(-1)} className="p-3 bg-slate-50 hover:bg-slate-100 rounded-2xl transition-all border border-slate-200 shadow-sm" title="Previous Month">
+            <button onClick={() => changeMonth(-1)} className="p-3 bg-slate-50 hover:bg-slate-100 rounded-2xl transition-all border border-slate-200 shadow-sm" title={t('calendar.previousMonth')}>
               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 19l-7-7 7-7" /></svg>
             </button>
             <button 
               onClick={() => onMonthChange(new Date())} 
               className="px-4 py-2 bg-indigo-50 text-indigo-600 rounded-2xl font-black text-xs uppercase tracking-widest hover:bg-indigo-100 transition-colors border border-indigo-100 shadow-sm"
-              title="Today"
+              title={t('calendar.today')}
             >
-              Today
+              {t('calendar.today')}
             </button>
-            <button onClick={() => changeMonth(1)} className="p-3 bg-slate-50 hover:bg-slate-100 rounded-2xl transition-all border border-slate-200 shadow-sm" title="Next Month">
+            <button onClick={() => changeMonth(1)} className="p-3 bg-slate-50 hover:bg-slate-100 rounded-2xl transition-all border border-slate-200 shadow-sm" title={t('calendar.nextMonth')}>
               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5l7 7-7 7" /></svg>
             </button>
           </div>
         </div>
 
         <div className="grid grid-cols-7 gap-4">
-          {['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'].map(day => (
+          {weekdayNames().map(day => (
             <div key={day} className="text-center text-[10px] font-black text-slate-400 py-2 tracking-widest">{day}</div>
           ))}
           {daysInMonth.map((day, idx) => {
@@ -116,21 +105,32 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ photos, onDateSelect
             
             // YYYY-MM-DD 形式でキーを生成
             const dateStr = `${day.getFullYear()}-${String(day.getMonth() + 1).padStart(2, '0')}-${String(day.getDate()).padStart(2, '0')}`;
-            const count = photoCountsByDate[dateStr] || 0;
+            const count = photoCounts[dateStr] || 0;
+            const mark = journalMarks[dateStr];
             
+            // 写真のない日も日記を書けるよう開けるようにする
             return (
               <button
                 key={dateStr}
-                onClick={() => count > 0 && onDateSelect(dateStr)}
-                className={`aspect-square rounded-3xl p-2 flex flex-col items-center justify-center transition-all border-2 group ${
+                onClick={() => onDateSelect(dateStr)}
+                title={mark?.day ? t('calendar.hasJournal') : undefined}
+                className={`relative aspect-square rounded-3xl p-2 flex flex-col items-center justify-center transition-all border-2 group overflow-hidden ${
                   count > 0 
                   ? 'bg-indigo-50 border-indigo-100 hover:border-indigo-500 hover:scale-105 active:scale-95 shadow-sm hover:shadow-md' 
-                  : 'bg-slate-50 border-transparent opacity-40'
+                  : mark?.day
+                    ? 'bg-amber-50 border-amber-100 hover:border-amber-400'
+                    : 'bg-slate-50 border-transparent opacity-40 hover:opacity-100'
                 }`}
               >
+                {mark?.day && (
+                  <span className="absolute top-2 right-2 w-5 h-5 rounded-full bg-amber-400 text-white flex items-center justify-center shadow-sm">
+                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" /></svg>
+                  </span>
+                )}
+                {mark?.trip && <span className="absolute bottom-0 left-0 right-0 h-1 bg-amber-300" title={t('calendar.hasTripJournal')} />}
                 <span className={`text-lg font-black ${count > 0 ? 'text-indigo-900' : 'text-slate-400'}`}>{day.getDate()}</span>
                 {count > 0 && (
-                  <span className="text-[10px] font-black text-indigo-500 mt-1 bg-white px-2 py-0.5 rounded-full shadow-sm group-hover:bg-indigo-600 group-hover:text-white transition-colors">{count}枚</span>
+                  <span className="text-[10px] font-black text-indigo-500 mt-1 bg-white px-2 py-0.5 rounded-full shadow-sm group-hover:bg-indigo-600 group-hover:text-white transition-colors">{t('common.photos', { count })}</span>
                 )}
               </button>
             );
@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from 'react';
+import { PhotoMetadata } from '../types';
+import { groupNearDuplicates } from '../services/hashService';
+import { t } from '../services/i18nService';
+
+interface DuplicateReviewViewProps {
+  photos: PhotoMetadata[];
+  onMerge: (keepId: string, removeIds: string[]) => void;
+  onDiscard: (removeIds: string[]) => void;
+  onBack: () => void;
+}
+
+const DISMISSED_STORAGE_KEY = "visionsort.dismissedDuplicateGroups";
+
+const groupKey = (group: PhotoMetadata[]) => group.map(p => p.id).sort().join('|');
+
+const loadDismissed = (): Set<string> => {
+  try {
+    return new Set(JSON.parse(localStorage.getItem(DISMISSED_STORAGE_KEY) || '[]'));
+  } catch {
+    return new Set();
+  }
+};
+
+/**
+ * 見た目がほぼ同じ写真（連写など）をグループごとに確認し、統合・破棄する画面
+ */
+export const DuplicateReviewView: React.FC<DuplicateReviewViewProps> = ({ photos, onMerge, onDiscard, onBack }) => {
+  const [threshold, setThreshold] = useState(6);
+  const [dismissed, setDismissed] = useState<Set<string>>(loadDismissed);
+  const [keepByGroup, setKeepByGroup] = useState<Record<string, string>>({});
+
+  const groups = useMemo(() => {
+    return groupNearDuplicates(photos, threshold)
+      .map(group => [...group].sort((a, b) => (a.captureTime || a.date).localeCompare(b.captureTime || b.date)))
+      .filter(group => !dismissed.has(groupKey(group)));
+  }, [photos, threshold, dismissed]);
+
+  const dismissGroup = (key: string) => {
+    const next = new Set(dismissed);
+    next.add(key);
+    setDismissed(next);
+    localStorage.setItem(DISMISSED_STORAGE_KEY, JSON.stringify(Array.from(next)));
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-6 py-12 w-full animate-in slide-in-from-bottom-8 duration-500">
+      <div className="flex items-center gap-6 mb-10">
+        <button onClick={onBack} className="p-3 bg-white hover:bg-slate-50 rounded-2xl transition-all border border-slate-200 shadow-sm">
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 19l-7-7 7-7" /></svg>
+        </button>
+        <div className="flex-1">
+          <h2 className="text-4xl font-black text-slate-900 leading-none mb-1">{t('duplicates.title')}</h2>
+          <p className="text-sm font-bold text-indigo-500 uppercase tracking-widest">{t('duplicates.groups', { count: groups.length })}</p>
+        </div>
+        <div className="flex flex-col gap-1 items-end">
+          <label className="text-xs font-black text-slate-400 uppercase tracking-widest">{t('duplicates.threshold', { value: threshold })}</label>
+          <input type="range" min={0} max={16} value={threshold} onChange={(e) => setThreshold(parseInt(e.target.value, 10))} className="w-48 accent-indigo-600" />
+        </div>
+      </div>
+
+      <div className="space-y-8">
+        {groups.map(group => {
+          const key = groupKey(group);
+          const keepId = keepByGroup[key] || group[0].id;
+          const removeIds = group.filter(p => p.id !== keepId).map(p => p.id);
+
+          return (
+            <div key={key} className="bg-white rounded-[2.5rem] shadow-xl border border-slate-100 p-8 space-y-6">
+              <div className="flex gap-4 overflow-x-auto custom-scrollbar pb-2">
+                {group.map(photo => (
+                  <button
+                    key={photo.id}
+                    onClick={() => setKeepByGroup(prev => ({ ...prev, [key]: photo.id }))}
+                    className={`w-40 shrink-0 rounded-3xl overflow-hidden border-4 transition-all text-left ${photo.id === keepId ? 'border-indigo-600 shadow-lg' : 'border-transparent opacity-60 hover:opacity-100'}`}
+                  >
+                    <div className="aspect-square bg-slate-100">
+                      <img src={photo.url} alt={photo.name} className="w-full h-full object-cover" />
+                    </div>
+                    <div className="p-2">
+                      <p className="text-[10px] font-black text-slate-700 truncate" title={photo.name}>{photo.name}</p>
+                      <p className="text-[10px] font-bold text-slate-400 truncate">{photo.captureTime?.replace('T', ' ') || photo.date}</p>
+                      {photo.id === keepId && <p className="text-[10px] font-black text-indigo-600 uppercase">{t('duplicates.keep')}</p>}
+                    </div>
+                  </button>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-3">
+                <button
+                  onClick={() => onMerge(keepId, removeIds)}
+                  className="px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-2xl font-black text-sm transition-all active:scale-95"
+                  title={t('duplicates.mergeHint')}
+                >
+                  {t('duplicates.merge')}
+                </button>
+                <button
+                  onClick={() => onDiscard(removeIds)}
+                  className="px-6 py-3 bg-white border-2 border-red-100 text-red-600 hover:bg-red-50 rounded-2xl font-black text-sm transition-all active:scale-95"
+                >
+                  {t('duplicates.discard')}
+                </button>
+                <button
+                  onClick={() => dismissGroup(key)}
+                  className="px-6 py-3 text-slate-400 hover:text-slate-700 rounded-2xl font-black text-sm transition-colors"
+                >
+                  {t('duplicates.dismiss')}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+
+        {groups.length === 0 && (
+          <div className="text-center py-20">
+            <p className="text-slate-400 font-bold">{t('duplicates.none')}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
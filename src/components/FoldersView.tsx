@@ -0,0 +1,251 @@
+import React, { useMemo, useState } from 'react';
+import { Album, PhotoMetadata, PhotoScope, TripSettings } from '../types';
+import { getTripSettings, saveTripSettings, segmentTrips } from '../services/tripService';
+import { albumCover, albumPhotos, createAlbum, mergeAlbums, removePhotosFromAlbum, splitAlbum } from '../services/albumService';
+import { formatDateRange, MessageKey, t } from '../services/i18nService';
+
+type ScopedView = 'map' | 'calendar' | 'all';
+
+interface FoldersViewProps {
+  photos: PhotoMetadata[];
+  albums: Album[];
+  onOpenScope: (scope: PhotoScope, view: ScopedView) => void;
+  onSaveAlbums: (save: Album[], removeIds?: string[]) => Promise<void>;
+  onCreateBook: (tripId: string) => void;
+}
+
+const ScopeButtons: React.FC<{ onOpen: (view: ScopedView) => void }> = ({ onOpen }) => (
+  <div className="flex gap-1">
+    {([['map', 'nav.map'], ['calendar', 'nav.calendar'], ['all', 'nav.list']] as [ScopedView, MessageKey][]).map(([view, label]) => (
+      <button
+        key={view}
+        onClick={(e) => { e.stopPropagation(); onOpen(view); }}
+        className="px-3 py-1.5 rounded-xl text-[10px] font-black bg-slate-100 text-slate-500 hover:bg-indigo-600 hover:text-white transition-colors"
+      >
+        {t(label)}
+      </button>
+    ))}
+  </div>
+);
+
+const Cover: React.FC<{ photo?: PhotoMetadata }> = ({ photo }) => (
+  <div className="aspect-[4/3] bg-slate-100 overflow-hidden">
+    {photo && <img src={photo.url} alt={photo.name} className="w-full h-full object-cover" />}
+  </div>
+);
+
+export const FoldersView: React.FC<FoldersViewProps> = ({ photos, albums, onOpenScope, onSaveAlbums, onCreateBook }) => {
+  const [tab, setTab] = useState<'trips' | 'albums'>('trips');
+  const [tripSettings, setTripSettings] = useState<TripSettings>(getTripSettings);
+  const [openAlbumId, setOpenAlbumId] = useState<string | null>(null);
+  const [mergeSelection, setMergeSelection] = useState<Set<string>>(new Set());
+
+  const photosById = useMemo(() => new Map(photos.map(p => [p.id, p])), [photos]);
+  const trips = useMemo(() => segmentTrips(photos, tripSettings), [photos, tripSettings]);
+  const sortedAlbums = useMemo(() => [...albums].sort((a, b) => b.updatedAt - a.updatedAt), [albums]);
+  const openAlbum = albums.find(a => a.id === openAlbumId) || null;
+  const openAlbumPhotos = useMemo(() => openAlbum ? albumPhotos(openAlbum, photos) : [], [openAlbum, photos]);
+
+  const updateTripSettings = (patch: Partial<TripSettings>) => {
+    const next = { ...tripSettings, ...patch };
+    setTripSettings(next);
+    saveTripSettings(next);
+  };
+
+  const handleCreateAlbum = async (photoIds: string[] = [], suggestedName = "", coverPhotoId?: string) => {
+    const name = window.prompt(t('prompt.albumName'), suggestedName);
+    if (name === null) return;
+    await onSaveAlbums([createAlbum(name, photoIds, coverPhotoId)]);
+    setTab('albums');
+  };
+
+  const handleRename = async (album: Album) => {
+    const name = window.prompt(t('folders.renamePrompt'), album.name);
+    if (!name || name.trim() === album.name) return;
+    await onSaveAlbums([{ ...album, name: name.trim(), updatedAt: Date.now() }]);
+  };
+
+  const handleDelete = async (album: Album) => {
+    if (!window.confirm(t('folders.confirmDelete', { name: album.name }))) return;
+    if (openAlbumId === album.id) setOpenAlbumId(null);
+    await onSaveAlbums([], [album.id]);
+  };
+
+  const toggleMergeSelection = (albumId: string) => {
+    setMergeSelection(prev => {
+      const next = new Set(prev);
+      if (next.has(albumId)) next.delete(albumId);
+      else next.add(albumId);
+      return next;
+    });
+  };
+
+  const handleMerge = async () => {
+    // 最後に更新されたアルバムに残りをまとめる
+    const selected = sortedAlbums.filter(a => mergeSelection.has(a.id));
+    if (selected.length < 2) return;
+    const [target, ...sources] = selected;
+    if (!window.confirm(t('folders.confirmMerge', { count: selected.length, name: target.name }))) return;
+    await onSaveAlbums([mergeAlbums(target, sources)], sources.map(a => a.id));
+    setMergeSelection(new Set());
+  };
+
+  const handleSplit = async (album: Album, photoId: string) => {
+    const name = window.prompt(t('folders.splitPrompt'), `${album.name} (2)`);
+    if (name === null) return;
+    const result = splitAlbum(album, photos, photoId, name);
+    if (result) await onSaveAlbums(result);
+  };
+
+  const tabClassName = (active: boolean) => `px-5 py-2 rounded-xl text-sm font-black ${active ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`;
+
+  return (
+    <div className="max-w-[1400px] mx-auto px-6 py-12 w-full animate-in slide-in-from-bottom-8 duration-500">
+      <div className="flex flex-wrap items-center gap-6 mb-10">
+        <div className="flex-1">
+          <h2 className="text-4xl font-black text-slate-900 leading-none mb-1">{t('folders.title')}</h2>
+          <p className="text-sm font-bold text-indigo-500 uppercase tracking-widest">{t('folders.summary', { trips: trips.length, albums: albums.length })}</p>
+        </div>
+        <div className="flex bg-slate-100 p-1 rounded-2xl">
+          <button onClick={() => setTab('trips')} className={tabClassName(tab === 'trips')}>{t('folders.trips')}</button>
+          <button onClick={() => setTab('albums')} className={tabClassName(tab === 'albums')}>{t('folders.albums')}</button>
+        </div>
+      </div>
+
+      {tab === 'trips' && (
+        <>
+          <div className="flex flex-wrap gap-6 mb-8">
+            <div className="flex flex-col gap-1">
+              <label className="text-xs font-black text-slate-400 uppercase tracking-widest ml-1">{t('folders.gap', { hours: tripSettings.maxGapHours })}</label>
+              <input type="range" min={6} max={168} step={6} value={tripSettings.maxGapHours} onChange={(e) => updateTripSettings({ maxGapHours: parseInt(e.target.value, 10) })} className="w-56 accent-indigo-600" />
+            </div>
+            <div className="flex flex-col gap-1">
+              <label className="text-xs font-black text-slate-400 uppercase tracking-widest ml-1">{t('folders.jump', { km: tripSettings.maxJumpKm })}</label>
+              <input type="range" min={50} max={5000} step={50} value={tripSettings.maxJumpKm} onChange={(e) => updateTripSettings({ maxJumpKm: parseInt(e.target.value, 10) })} className="w-56 accent-indigo-600" />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 pb-20">
+            {trips.map(trip => {
+              const scope: PhotoScope = { kind: 'trip', id: trip.id, name: trip.name, photoIds: trip.photoIds };
+              return (
+                <div key={trip.id} className="bg-white rounded-[2rem] shadow-xl border border-slate-100 overflow-hidden">
+                  <Cover photo={photosById.get(trip.coverPhotoId)} />
+                  <div className="p-5 space-y-3">
+                    <div>
+                      <h3 className="font-black text-slate-900 truncate">{trip.name}</h3>
+                      <p className="text-[11px] font-bold text-slate-400">{formatDateRange(trip.startDate, trip.endDate)} · {t('common.photos', { count: trip.photoIds.length })}</p>
+                    </div>
+                    <div className="flex items-center justify-between gap-2">
+                      <ScopeButtons onOpen={(view) => onOpenScope(scope, view)} />
+                      <div className="flex flex-col items-end gap-1">
+                        <button
+                          onClick={() => handleCreateAlbum(trip.photoIds, `${trip.name} ${trip.startDate.slice(0, 7).replace('-', '/')}`, trip.coverPhotoId)}
+                          className="text-[10px] font-black text-indigo-600 hover:underline"
+                        >
+                          {t('folders.saveAsAlbum')}
+                        </button>
+                        <button onClick={() => onCreateBook(trip.id)} className="text-[10px] font-black text-indigo-600 hover:underline">
+                          {t('folders.travelBook')}
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+            {trips.length === 0 && (
+              <p className="col-span-full text-center py-20 text-slate-400 font-bold">{t('folders.noPhotos')}</p>
+            )}
+          </div>
+        </>
+      )}
+
+      {tab === 'albums' && !openAlbum && (
+        <>
+          <div className="flex flex-wrap gap-3 mb-8">
+            <button onClick={() => handleCreateAlbum()} className="px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-2xl font-black text-sm transition-all active:scale-95">
+              {t('folders.newAlbum')}
+            </button>
+            <button
+              onClick={handleMerge}
+              disabled={mergeSelection.size < 2}
+              className="px-6 py-3 bg-white border-2 border-slate-200 text-slate-600 hover:border-indigo-500 hover:text-indigo-600 disabled:opacity-40 rounded-2xl font-black text-sm transition-all"
+            >
+              {t('folders.mergeSelected', { count: mergeSelection.size })}
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 pb-20">
+            {sortedAlbums.map(album => {
+              const count = album.photoIds.filter(id => photosById.has(id)).length;
+              const scope: PhotoScope = { kind: 'album', id: album.id, name: album.name, photoIds: album.photoIds };
+              return (
+                <div key={album.id} className={`bg-white rounded-[2rem] shadow-xl border-4 overflow-hidden transition-colors ${mergeSelection.has(album.id) ? 'border-indigo-500' : 'border-transparent'}`}>
+                  <button onClick={() => setOpenAlbumId(album.id)} className="block w-full">
+                    <Cover photo={albumCover(album, photos)} />
+                  </button>
+                  <div className="p-5 space-y-3">
+                    <div className="flex items-start gap-2">
+                      <input type="checkbox" checked={mergeSelection.has(album.id)} onChange={() => toggleMergeSelection(album.id)} className="mt-1 w-4 h-4 accent-indigo-600" title={t('folders.selectToMerge')} />
+                      <div className="flex-1 min-w-0">
+                        <h3 className="font-black text-slate-900 truncate">{album.name}</h3>
+                        <p className="text-[11px] font-bold text-slate-400">{t('common.photos', { count })}</p>
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between gap-2">
+                      <ScopeButtons onOpen={(view) => onOpenScope(scope, view)} />
+                      <div className="flex gap-2">
+                        <button onClick={() => handleRename(album)} className="text-[10px] font-black text-slate-400 hover:text-indigo-600">{t('folders.rename')}</button>
+                        <button onClick={() => handleDelete(album)} className="text-[10px] font-black text-slate-400 hover:text-red-600">{t('folders.delete')}</button>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+            {albums.length === 0 && (
+              <p className="col-span-full text-center py-20 text-slate-400 font-bold">{t('folders.noAlbums')}</p>
+            )}
+          </div>
+        </>
+      )}
+
+      {tab === 'albums' && openAlbum && (
+        <div className="space-y-8 pb-20">
+          <div className="flex items-center gap-4">
+            <button onClick={() => setOpenAlbumId(null)} className="p-3 bg-white hover:bg-slate-50 rounded-2xl transition-all border border-slate-200 shadow-sm">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 19l-7-7 7-7" /></svg>
+            </button>
+            <div className="flex-1 min-w-0">
+              <h3 className="text-2xl font-black text-slate-900 truncate">{openAlbum.name}</h3>
+              <p className="text-xs font-bold text-slate-400">{t('common.photos', { count: openAlbumPhotos.length })}</p>
+            </div>
+            <ScopeButtons onOpen={(view) => onOpenScope({ kind: 'album', id: openAlbum.id, name: openAlbum.name, photoIds: openAlbum.photoIds }, view)} />
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
+            {openAlbumPhotos.map((photo, index) => {
+              const isCover = albumCover(openAlbum, photos)?.id === photo.id;
+              return (
+                <div key={photo.id} className={`group relative rounded-2xl overflow-hidden bg-slate-100 border-4 ${isCover ? 'border-indigo-500' : 'border-transparent'}`}>
+                  <img src={photo.url} alt={photo.name} className="w-full aspect-square object-cover" />
+                  <div className="absolute inset-x-0 bottom-0 p-2 bg-gradient-to-t from-black/70 to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex flex-wrap gap-1">
+                    {!isCover && (
+                      <button onClick={() => onSaveAlbums([{ ...openAlbum, coverPhotoId: photo.id, updatedAt: Date.now() }])} className="px-2 py-1 rounded-lg bg-white/90 text-[10px] font-black text-slate-700">{t('folders.setCover')}</button>
+                    )}
+                    {index > 0 && (
+                      <button onClick={() => handleSplit(openAlbum, photo.id)} className="px-2 py-1 rounded-lg bg-white/90 text-[10px] font-black text-slate-700" title={t('folders.splitHint')}>{t('folders.split')}</button>
+                    )}
+                    <button onClick={() => onSaveAlbums([removePhotosFromAlbum(openAlbum, [photo.id])])} className="px-2 py-1 rounded-lg bg-white/90 text-[10px] font-black text-red-600">{t('folders.remove')}</button>
+                  </div>
+                  {isCover && <span className="absolute top-2 left-2 bg-indigo-600 text-white text-[9px] font-black px-2 py-0.5 rounded-full">{t('folders.cover')}</span>}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
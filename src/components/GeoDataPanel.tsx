@@ -0,0 +1,129 @@
+import React, { useMemo, useState } from 'react';
+import { PhotoMetadata } from '../types';
+import { hasLocation } from '../services/geoUtils';
+import { ImportedPlace, matchPlacesToPhotos, parsePlaceFile, PlaceMatch, photosToGeoJson, photosToKml } from '../services/geoDataService';
+import { downloadBlob, todayStamp } from '../services/fileUtils';
+import { t } from '../services/i18nService';
+
+interface GeoDataPanelProps {
+  photos: PhotoMetadata[];
+  filteredPhotos: PhotoMetadata[]; // 旅行・アルバム・タグ・期間で絞り込んだ表示中の写真
+  onApply: (matches: PlaceMatch[], includeNames: boolean) => Promise<void>;
+}
+
+type ExportTarget = 'all' | 'filtered';
+
+/**
+ * 写真の位置の GeoJSON / KML への書き出しと、他のツールで編集した位置の読み込み
+ */
+export const GeoDataPanel: React.FC<GeoDataPanelProps> = ({ photos, filteredPhotos, onApply }) => {
+  const [target, setTarget] = useState<ExportTarget>('all');
+  const [places, setPlaces] = useState<ImportedPlace[]>([]);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [includeNames, setIncludeNames] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const exportPhotos = (target === 'all' ? photos : filteredPhotos).filter(hasLocation);
+  const result = useMemo(() => matchPlacesToPhotos(places, photos), [places, photos]);
+  const matchedById = result.matches.filter(match => match.matchedBy === 'id').length;
+
+  const handleExport = (format: 'geojson' | 'kml') => {
+    const blob = format === 'geojson'
+      ? new Blob([photosToGeoJson(exportPhotos)], { type: 'application/geo+json' })
+      : new Blob([photosToKml(exportPhotos)], { type: 'application/vnd.google-earth.kml+xml' });
+    downloadBlob(blob, `visionsort-places-${todayStamp()}.${format}`);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setPlaces(await parsePlaceFile(file));
+      setFileName(file.name);
+    } catch (err) {
+      console.error("[VisionSort] Place Import Error:", err);
+      alert(err instanceof Error ? err.message : t('geoData.loadFailed'));
+    }
+  };
+
+  const handleApply = async () => {
+    if (result.matches.length === 0) return;
+    setIsApplying(true);
+    try {
+      await onApply(result.matches, includeNames);
+      alert(t('geoData.applied', { count: result.matches.length }));
+      setPlaces([]);
+      setFileName(null);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <section className="space-y-6">
+      <div className="flex items-center gap-3 mb-2">
+        <div className="w-10 h-10 bg-indigo-100 text-indigo-600 rounded-xl flex items-center justify-center">
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3.055 11H5a2 2 0 012 2v1a2 2 0 002 2 2 2 0 012 2v2.945M8 3.935V5.5A2.5 2.5 0 0010.5 8h.5a2 2 0 012 2 2 2 0 104 0 2 2 0 012-2h1.064M15 20.488V18a2 2 0 012-2h3.064M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+        </div>
+        <h2 className="text-2xl font-black text-slate-900">GeoJSON / KML</h2>
+      </div>
+      <p className="text-slate-500 font-medium">{t('geoData.description')}</p>
+
+      <div className="flex flex-wrap gap-2">
+        {([['all', t('geoData.allPhotos', { count: photos.filter(hasLocation).length })], ['filtered', t('geoData.filteredPhotos', { count: filteredPhotos.filter(hasLocation).length })]] as [ExportTarget, string][]).map(([value, label]) => (
+          <button
+            key={value}
+            onClick={() => setTarget(value)}
+            className={`px-4 py-2 rounded-xl text-xs font-black transition-all ${target === value ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <button
+          onClick={() => handleExport('geojson')}
+          disabled={exportPhotos.length === 0}
+          className="bg-slate-900 disabled:opacity-50 text-white py-4 rounded-2xl font-black transition-all active:scale-95"
+        >
+          {t('geoData.exportGeoJson')}
+        </button>
+        <button
+          onClick={() => handleExport('kml')}
+          disabled={exportPhotos.length === 0}
+          className="bg-slate-900 disabled:opacity-50 text-white py-4 rounded-2xl font-black transition-all active:scale-95"
+        >
+          {t('geoData.exportKml')}
+        </button>
+      </div>
+
+      <label className="w-full border-2 border-dashed border-slate-200 hover:border-indigo-500 text-slate-600 hover:text-indigo-600 py-5 rounded-2xl font-black text-lg transition-all flex items-center justify-center cursor-pointer">
+        {fileName ? t('geoData.loaded', { file: fileName, count: places.length }) : t('geoData.import')}
+        <input type="file" accept=".geojson,.json,.kml,application/geo+json,application/vnd.google-earth.kml+xml" className="hidden" onChange={handleFile} />
+      </label>
+
+      {places.length > 0 && (
+        <>
+          <div className="bg-slate-50 rounded-2xl p-4 space-y-1 text-sm font-bold text-slate-600">
+            <p>{t('geoData.matchable')} <span className="text-indigo-600">{t('common.photos', { count: result.matches.length })}</span>{t('geoData.matchedBy', { byId: matchedById, byName: result.matches.length - matchedById })}</p>
+            {result.ambiguous.length > 0 && <p className="text-amber-600">{t('geoData.ambiguous', { count: result.ambiguous.length })}</p>}
+            {result.unmatched.length > 0 && <p className="text-slate-400">{t('geoData.unmatched', { count: result.unmatched.length })}</p>}
+          </div>
+          <label className="flex items-center gap-3 ml-1 font-bold text-slate-600 cursor-pointer">
+            <input type="checkbox" checked={includeNames} onChange={(e) => setIncludeNames(e.target.checked)} className="w-5 h-5 accent-indigo-600" />
+            {t('geoData.includeNames')}
+          </label>
+        </>
+      )}
+
+      <button
+        onClick={handleApply}
+        disabled={result.matches.length === 0 || isApplying}
+        className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white py-5 rounded-2xl font-black text-lg shadow-lg shadow-indigo-200 transition-all active:scale-95"
+      >
+        {isApplying ? t('geoData.applying') : t('geoData.apply', { count: result.matches.length })}
+      </button>
+    </section>
+  );
+};
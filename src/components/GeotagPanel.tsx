@@ -0,0 +1,126 @@
+import React, { useMemo, useState } from 'react';
+import { GeotagSettings, PhotoMetadata, TrackPoint } from '../types';
+import { GeotagMatch, getGeotagSettings, matchPhotosToTrack, mergeTracks, parseTrackFile, photoTimestamp, saveGeotagSettings } from '../services/trackLogService';
+import { getLocaleInfo, t } from '../services/i18nService';
+
+interface GeotagPanelProps {
+  photos: PhotoMetadata[];
+  onApply: (matches: GeotagMatch[]) => Promise<void>;
+}
+
+const labelClassName = "text-xs font-black text-slate-400 uppercase tracking-widest ml-1";
+const inputClassName = "bg-slate-50 border border-slate-200 rounded-2xl px-6 py-4 font-bold focus:ring-4 focus:ring-indigo-500/10 outline-none transition-all";
+
+const formatTrackTime = (time: number) => new Date(time).toLocaleString(getLocaleInfo().tag);
+
+export const GeotagPanel: React.FC<GeotagPanelProps> = ({ photos, onApply }) => {
+  const [settings, setSettings] = useState<GeotagSettings>(getGeotagSettings);
+  const [track, setTrack] = useState<TrackPoint[]>([]);
+  const [trackNames, setTrackNames] = useState<string[]>([]);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const updateSettings = (patch: Partial<GeotagSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveGeotagSettings(next);
+  };
+
+  const matches = useMemo(() => matchPhotosToTrack(photos, track, settings), [photos, track, settings]);
+  const photosWithoutTime = useMemo(() => photos.filter(p => photoTimestamp(p) === null).length, [photos]);
+
+  const handleTrackFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    e.target.value = '';
+    if (files.length === 0) return;
+    try {
+      const tracks = await Promise.all(files.map(parseTrackFile));
+      setTrack(mergeTracks(tracks));
+      setTrackNames(files.map(f => f.name));
+    } catch (err) {
+      console.error("[VisionSort] Track Import Error:", err);
+      alert(err instanceof Error ? err.message : t('geotag.loadFailed'));
+    }
+  };
+
+  const handleApply = async () => {
+    if (matches.length === 0) return;
+    setIsApplying(true);
+    try {
+      await onApply(matches);
+      alert(t('geotag.applied', { count: matches.length }));
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <section className="space-y-6">
+      <div className="flex items-center gap-3 mb-2">
+        <div className="w-10 h-10 bg-indigo-100 text-indigo-600 rounded-xl flex items-center justify-center">
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
+        </div>
+        <h2 className="text-2xl font-black text-slate-900">{t('geotag.title')}</h2>
+      </div>
+      <p className="text-slate-500 font-medium">{t('geotag.description')}</p>
+
+      <label className="w-full border-2 border-dashed border-slate-200 hover:border-indigo-500 text-slate-600 hover:text-indigo-600 py-5 rounded-2xl font-black text-lg transition-all flex items-center justify-center cursor-pointer">
+        {trackNames.length > 0 ? t('geotag.loaded', { tracks: trackNames.length, points: track.length }) : t('geotag.load')}
+        <input type="file" multiple accept=".gpx,.geojson,.json,application/gpx+xml,application/geo+json" className="hidden" onChange={handleTrackFiles} />
+      </label>
+      {track.length > 0 && (
+        <p className="text-xs font-bold text-slate-400 ml-1">
+          {formatTrackTime(track[0].time)} – {formatTrackTime(track[track.length - 1].time)}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+        <div className="flex flex-col gap-2">
+          <label className={labelClassName}>{t('geotag.offset')}</label>
+          <input
+            type="number"
+            value={settings.offsetMinutes}
+            onChange={(e) => { const v = parseInt(e.target.value, 10); if (!isNaN(v)) updateSettings({ offsetMinutes: v }); }}
+            className={inputClassName}
+          />
+        </div>
+        <div className="flex flex-col gap-2">
+          <label className={labelClassName}>{t('geotag.maxGap')}</label>
+          <input
+            type="number"
+            min={1}
+            max={1440}
+            value={settings.maxGapMinutes}
+            onChange={(e) => { const v = parseInt(e.target.value, 10); if (!isNaN(v)) updateSettings({ maxGapMinutes: Math.min(1440, Math.max(1, v)) }); }}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <p className="text-xs font-medium text-slate-400 ml-1">{t('geotag.offsetNote')}</p>
+
+      <label className="flex items-center gap-3 ml-1 font-bold text-slate-600 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.overwriteAiLocations}
+          onChange={(e) => updateSettings({ overwriteAiLocations: e.target.checked })}
+          className="w-5 h-5 accent-indigo-600"
+        />
+        {t('geotag.overwriteAi')}
+      </label>
+
+      {track.length > 0 && (
+        <div className="bg-slate-50 rounded-2xl p-4 space-y-1 text-sm font-bold text-slate-600">
+          <p>{t('geotag.matchable')} <span className="text-indigo-600">{t('common.photos', { count: matches.length })}</span></p>
+          {photosWithoutTime > 0 && <p className="text-slate-400">{t('geotag.withoutTime', { count: photosWithoutTime })}</p>}
+        </div>
+      )}
+
+      <button
+        onClick={handleApply}
+        disabled={matches.length === 0 || isApplying}
+        className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white py-5 rounded-2xl font-black text-lg shadow-lg shadow-indigo-200 transition-all active:scale-95"
+      >
+        {isApplying ? t('geotag.applying') : t('geotag.apply', { count: matches.length })}
+      </button>
+    </section>
+  );
+};
@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { HistoryState } from '../services/historyService';
+import { getLocaleInfo, t } from '../services/i18nService';
+
+interface HistoryPanelProps {
+  state: HistoryState;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(getLocaleInfo().tag, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/**
+ * ヘッダーに表示する取り消し・やり直しボタンと操作履歴の一覧
+ */
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ state, onUndo, onRedo }) => {
+  const [open, setOpen] = useState(false);
+  const canUndo = state.past.length > 0 && !state.busy;
+  const canRedo = state.future.length > 0 && !state.busy;
+
+  return (
+    <div className="relative flex items-center gap-1 bg-slate-100 p-1 rounded-2xl">
+      <button onClick={onUndo} disabled={!canUndo} className="p-1.5 rounded-xl text-slate-600 hover:bg-white disabled:opacity-30 transition-colors" title={t('historyPanel.undo')}>
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 10h10a5 5 0 010 10H9M3 10l4-4M3 10l4 4" /></svg>
+      </button>
+      <button onClick={onRedo} disabled={!canRedo} className="p-1.5 rounded-xl text-slate-600 hover:bg-white disabled:opacity-30 transition-colors" title={t('historyPanel.redo')}>
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 10H11a5 5 0 000 10h4M21 10l-4-4M21 10l-4 4" /></svg>
+      </button>
+      <button onClick={() => setOpen(!open)} className={`px-3 py-1.5 rounded-xl text-xs font-bold ${open ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}>
+        {t('historyPanel.button')}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-80 max-h-96 overflow-auto custom-scrollbar bg-white rounded-3xl shadow-2xl border border-slate-100 p-4 space-y-1 z-[60]">
+          <p className="text-xs font-black text-slate-400 uppercase tracking-widest ml-1 mb-2">{t('historyPanel.title')}</p>
+          {[...state.future].reverse().map(entry => (
+            <div key={entry.id} className="flex justify-between gap-3 px-3 py-2 rounded-xl text-slate-300">
+              <span className="text-xs font-bold truncate line-through">{entry.label}</span>
+              <span className="text-[10px] font-bold shrink-0">{formatTime(entry.timestamp)}</span>
+            </div>
+          ))}
+          {[...state.past].reverse().map((entry, i) => (
+            <div key={entry.id} className={`flex justify-between gap-3 px-3 py-2 rounded-xl ${i === 0 ? 'bg-indigo-50 text-indigo-700' : 'text-slate-600'}`}>
+              <span className="text-xs font-bold truncate">{entry.label}</span>
+              <span className="text-[10px] font-bold text-slate-400 shrink-0">{formatTime(entry.timestamp)}</span>
+            </div>
+          ))}
+          {state.past.length === 0 && state.future.length === 0 && (
+            <p className="text-xs font-bold text-slate-400 text-center py-6">{t('historyPanel.empty')}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
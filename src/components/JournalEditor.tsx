@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { JournalEntry } from '../types';
+import { MarkdownPreview } from './MarkdownPreview';
+import { t } from '../services/i18nService';
+
+interface JournalEditorProps {
+  entry: JournalEntry;
+  label: string;   // 「この日の日記」など
+  caption?: string; // 旅行名と期間など
+  onChange: (entry: JournalEntry, body: string) => void;
+}
+
+/**
+ * 日・旅行の日記の Markdown エディター。編集とプレビューをタブで切り替える
+ */
+export const JournalEditor: React.FC<JournalEditorProps> = ({ entry, label, caption, onChange }) => {
+  // 既に書いてある日記はプレビューで開く
+  const [mode, setMode] = useState<'edit' | 'preview'>(entry.body.trim() ? 'preview' : 'edit');
+
+  const tabClassName = (active: boolean) =>
+    `px-4 py-1.5 rounded-xl text-xs font-black transition-colors ${active ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`;
+
+  return (
+    <div className="bg-white rounded-[2rem] border border-slate-200 shadow-sm p-8 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <p className="text-xs font-black text-indigo-500 uppercase tracking-widest">{label}</p>
+          {caption && <p className="text-sm font-bold text-slate-500 truncate">{caption}</p>}
+        </div>
+        <div className="flex bg-slate-100 rounded-2xl p-1 shrink-0">
+          <button onClick={() => setMode('edit')} className={tabClassName(mode === 'edit')}>{t('journal.write')}</button>
+          <button onClick={() => setMode('preview')} className={tabClassName(mode === 'preview')}>{t('journal.preview')}</button>
+        </div>
+      </div>
+
+      {mode === 'edit' ? (
+        <>
+          <textarea
+            value={entry.body}
+            onChange={(e) => onChange(entry, e.target.value)}
+            placeholder={t('journal.placeholder')}
+            className="w-full min-h-[200px] bg-slate-50 border border-slate-200 rounded-2xl p-6 text-slate-700 font-medium font-mono text-sm focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all resize-y"
+          />
+          <p className="text-[10px] font-bold text-slate-400">{t('journal.deleteHint')}</p>
+        </>
+      ) : (
+        <div className="min-h-[80px]" onDoubleClick={() => setMode('edit')}>
+          <MarkdownPreview source={entry.body} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,18 +2,32 @@
 import React, { useState, useRef, useMemo, useEffect, useCallback } from 'react';
 import L from 'leaflet';
 import { PhotoMetadata } from '../types';
+import { CLUSTER_MAX_ZOOM, createClusterIndex, PhotoCluster, projectToWorld } from '../services/clusterService';
+import { buildRouteLegs, formatDistance, RouteLeg, summarizeRouteByDay, totalDistanceKm } from '../services/routeService';
+import { formatDate, photoPlaceLabel, t } from '../services/i18nService';
+import { countryName } from '../services/geocoderService';
+import { escapeHtml } from '../services/markdownService';
 
 interface MapViewProps {
   photos: PhotoMetadata[];
   focusedPhoto?: PhotoMetadata | null;
   isVisible: boolean;
   onMarkerClick: (locationName: string, photoIds: string[]) => void;
-  onUpdatePhotoLocation: (id: string, lat: number, lng: number) => void;
+  onUpdatePhotoLocation: (ids: string[], lat: number, lng: number) => void; // クラスタを動かした場合は含まれる写真すべて
   onDeletePhoto?: (id: string) => void;
+  fitKey?: string; // 変わったときに表示中の写真全体が収まるように地図を合わせ直す
+  pickLocation?: LocationPick | null; // 指定されている間は地図をクリックした位置を返す
+}
+
+interface LocationPick {
+  label: string;
+  onPick: (lat: number, lng: number) => void;
+  onCancel: () => void;
 }
 
 /**
  * 写真マーカーコンポーネントのHTML構造を生成する
+ * divIcon の html はそのまま HTML として描かれるため、差し込む文字列はエスケープする
  */
 const createPhotoMarkerHtml = (thumbnailUrl: string, count: number) => {
   const borderColor = '#FF69B4'; // ネオンピンク
@@ -25,7 +39,7 @@ const createPhotoMarkerHtml = (thumbnailUrl: string, count: number) => {
       
       <!-- メインの丸型フォトマーカー -->
       <div class="w-14 h-14 bg-white p-0.5 rounded-full shadow-2xl border-2 border-[${borderColor}] overflow-hidden relative z-10">
-        <img src="${thumbnailUrl}" class="w-full h-full object-cover rounded-full" />
+        <img src="${escapeHtml(thumbnailUrl)}" class="w-full h-full object-cover rounded-full" />
         <div class="absolute inset-0 bg-black/0 group-hover:bg-black/10 transition-colors rounded-full"></div>
       </div>
 
@@ -42,17 +56,60 @@ const createPhotoMarkerHtml = (thumbnailUrl: string, count: number) => {
   `;
 };
 
+type RouteMode = 'off' | 'day' | 'range' | 'all';
+
+// 区間が多いときは距離ラベルを省き、矢印だけを描く
+const MAX_LABELED_LEGS = 150;
+
+// 未配置の写真のうち、解析中のものと国の分からないものをまとめるフォルダのキー
+const PROCESSING_FOLDER = "__processing__";
+const NO_COUNTRY_FOLDER = "__noCountry__";
+
+const folderLabel = (folder: string) =>
+  folder === PROCESSING_FOLDER ? t('map.trayProcessing')
+    : folder === NO_COUNTRY_FOLDER ? t('map.trayNoCountry')
+    : countryName(folder);
+
+/**
+ * ツールチップの中身。Leaflet は文字列を HTML として描くため、写真の地名は textContent で入れる
+ */
+const createTooltipContent = (text: string) => {
+  const element = document.createElement('span');
+  element.textContent = text;
+  return element;
+};
+
+/**
+ * ルートの区間の中点に置く、進行方向の矢印と距離のラベル
+ */
+const createLegMarkerHtml = (leg: RouteLeg, showLabel: boolean) => {
+  const from = projectToWorld(leg.from[0], leg.from[1]);
+  const to = projectToWorld(leg.to[0], leg.to[1]);
+  const angle = Math.atan2(to.y - from.y, to.x - from.x) * 180 / Math.PI;
+  return `
+    <div class="relative flex items-center justify-center pointer-events-none">
+      <svg class="w-5 h-5 text-indigo-600 drop-shadow" style="transform: rotate(${angle}deg)" viewBox="0 0 24 24" fill="currentColor"><path d="M4 4l16 8-16 8 4-8z" /></svg>
+      ${showLabel ? `<span class="absolute top-5 whitespace-nowrap bg-white/90 text-indigo-700 text-[10px] font-black px-1.5 py-0.5 rounded-full shadow">${formatDistance(leg.distanceKm)}</span>` : ''}
+    </div>
+  `;
+};
+
 /**
  * React.memo を外して常に最新のステート/関数（onDeletePhoto）が反映されるようにします
  */
-export const MapView: React.FC<MapViewProps> = ({ photos, focusedPhoto, isVisible, onMarkerClick, onUpdatePhotoLocation, onDeletePhoto }) => {
+export const MapView: React.FC<MapViewProps> = ({ photos, focusedPhoto, isVisible, onMarkerClick, onUpdatePhotoLocation, onDeletePhoto, fitKey, pickLocation }) => {
   const [showUnknownTray, setShowUnknownTray] = useState(false);
   const [selectedCountryFolder, setSelectedCountryFolder] = useState<string | null>(null);
   const [isDraggingOver, setIsDraggingOver] = useState(false);
+  const [openCluster, setOpenCluster] = useState<PhotoCluster | null>(null);
+  const [routeMode, setRouteMode] = useState<RouteMode>('off');
+  const [routeDay, setRouteDay] = useState('');
+  const [routeRange, setRouteRange] = useState({ start: '', end: '' });
   
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
   const markersLayerRef = useRef<L.LayerGroup | null>(null);
+  const routeLayerRef = useRef<L.LayerGroup | null>(null);
   const initialFitRef = useRef(false);
   const isInternalDragging = useRef(false);
 
@@ -76,9 +133,9 @@ export const MapView: React.FC<MapViewProps> = ({ photos, focusedPhoto, isVisibl
 
   const unknownFolders = useMemo<Record<string, PhotoMetadata[]>>(() => {
     return unknownPhotos.reduce((acc, photo) => {
-      let countryLabel = photo.isProcessing ? "Analyzing..." : (photo.country || "Unmapped");
-      if (!acc[countryLabel]) acc[countryLabel] = [];
-      acc[countryLabel].push(photo);
+      const folder = photo.isProcessing ? PROCESSING_FOLDER : (photo.country || NO_COUNTRY_FOLDER);
+      if (!acc[folder]) acc[folder] = [];
+      acc[folder].push(photo);
       return acc;
     }, {} as Record<string, PhotoMetadata[]>);
   }, [unknownPhotos]);
@@ -89,6 +146,7 @@ export const MapView: React.FC<MapViewProps> = ({ photos, focusedPhoto, isVisibl
     L.tileLayer('https://mt1.google.com/vt/lyrs=m&x={x}&y={y}&z={z}', { maxZoom: 21 }).addTo(map);
     L.control.zoom({ position: 'bottomright' }).addTo(map);
     mapInstanceRef.current = map;
+    routeLayerRef.current = L.layerGroup().addTo(map);
     markersLayerRef.current = L.layerGroup().addTo(map);
     const resizeObserver = new ResizeObserver(() => map.invalidateSize());
     resizeObserver.observe(mapContainerRef.current);
@@ -108,68 +166,165 @@ export const MapView: React.FC<MapViewProps> = ({ photos, focusedPhoto, isVisibl
   }, [isVisible]);
 
   useEffect(() => {
-    if (!mapInstanceRef.current || !markersLayerRef.current || isInternalDragging.current) return;
-    markersLayerRef.current.clearLayers();
+    initialFitRef.current = false;
+  }, [fitKey]);
+
+  // 表示中のマーカーはクラスタのキーで管理し、変わったクラスタのマーカーだけを作り直す
+  const clusterIndex = useMemo(() => createClusterIndex(mappedPhotos), [mappedPhotos]);
+  const photosById = useMemo(() => new Map(mappedPhotos.map(p => [p.id, p])), [mappedPhotos]);
+  const renderedMarkersRef = useRef(new Map<string, { marker: L.Marker; signature: string }>());
+  const renderClustersRef = useRef<() => void>(() => {});
+  // 使い回すマーカーのイベントからも最新のクラスタと関数を参照できるようにする
+  const visibleClustersRef = useRef(new Map<string, PhotoCluster>());
+  const clusterHandlersRef = useRef({ onClick: (_cluster: PhotoCluster) => {}, onUpdatePhotoLocation });
+
+  renderClustersRef.current = () => {
     const map = mapInstanceRef.current;
-    if (mappedPhotos.length === 0) return;
-
-    interface ClusterItem { 
-      name: string; 
-      count: number; 
-      lat: number; 
-      lng: number; 
-      photoIds: string[]; 
-      thumbnailUrl: string; 
-    }
-    
-    const clusters = mappedPhotos.reduce<Record<string, ClusterItem>>((acc, photo) => {
-      const key = `${Number(photo.latitude).toFixed(6)}-${Number(photo.longitude).toFixed(6)}`;
-      if (!acc[key]) {
-        acc[key] = { 
-          name: photo.locationName, 
-          count: 0, 
-          lat: Number(photo.latitude), 
-          lng: Number(photo.longitude), 
-          photoIds: [], 
-          thumbnailUrl: photo.url 
-        };
-      }
-      acc[key].count++;
-      acc[key].photoIds.push(photo.id);
-      return acc;
-    }, {});
+    const layer = markersLayerRef.current;
+    if (!map || !layer || isInternalDragging.current) return;
+
+    const viewBounds = map.getBounds().pad(0.25);
+    const clusters = clusterIndex.getClusters(map.getZoom(), {
+      south: viewBounds.getSouth(),
+      west: viewBounds.getWest(),
+      north: viewBounds.getNorth(),
+      east: viewBounds.getEast()
+    });
+
+    const rendered = renderedMarkersRef.current;
+    const visibleKeys = new Set<string>();
+    visibleClustersRef.current = new Map(clusters.map(cluster => [cluster.key, cluster]));
+    clusters.forEach(cluster => {
+      const latest = () => visibleClustersRef.current.get(cluster.key) || cluster;
+      const thumbnailUrl = photosById.get(cluster.representativeId)?.url || '';
+      const signature = `${cluster.photoIds.length}|${thumbnailUrl}|${cluster.latitude},${cluster.longitude}|${cluster.name}`;
+      visibleKeys.add(cluster.key);
+      const existing = rendered.get(cluster.key);
+      if (existing && existing.signature === signature) return;
+      if (existing) layer.removeLayer(existing.marker);
 
-    const bounds = L.latLngBounds([]);
-    (Object.values(clusters) as ClusterItem[]).forEach(cluster => {
       const customIcon = L.divIcon({
         className: 'custom-photo-marker',
-        html: createPhotoMarkerHtml(cluster.thumbnailUrl, cluster.count),
+        html: createPhotoMarkerHtml(thumbnailUrl, cluster.photoIds.length),
         iconSize: [56, 56],
         iconAnchor: [28, 56]
       });
 
-      L.marker([cluster.lat, cluster.lng], { icon: customIcon, draggable: true })
-        .addTo(markersLayerRef.current!)
-        .on('click', () => onMarkerClick(cluster.name, cluster.photoIds))
+      // 離れた場所の写真をまとめたクラスタを動かすと全員が1点に集まってしまうため、同じ座標のものだけ動かせる
+      const marker = L.marker([cluster.latitude, cluster.longitude], { icon: customIcon, draggable: cluster.samePosition })
+        .addTo(layer)
+        .on('click', () => clusterHandlersRef.current.onClick(latest()))
         .on('dragstart', () => { isInternalDragging.current = true; })
         .on('dragend', (e: L.LeafletEvent) => {
           const pos = (e.target as L.Marker).getLatLng();
-          cluster.photoIds.forEach(id => onUpdatePhotoLocation(id, pos.lat, pos.lng));
-          setTimeout(() => { isInternalDragging.current = false; }, 100);
+          clusterHandlersRef.current.onUpdatePhotoLocation(latest().photoIds, pos.lat, pos.lng);
+          setTimeout(() => {
+            isInternalDragging.current = false;
+            renderClustersRef.current();
+          }, 100);
         })
-        .bindTooltip(cluster.name, { 
+        .bindTooltip(createTooltipContent(cluster.name), { 
           direction: 'top', 
           offset: [0, -60],
           className: 'bg-white border-none shadow-xl rounded-lg font-black p-2 text-slate-800' 
         });
-      bounds.extend([cluster.lat, cluster.lng]);
+      rendered.set(cluster.key, { marker, signature });
     });
 
+    rendered.forEach((entry, key) => {
+      if (visibleKeys.has(key)) return;
+      layer.removeLayer(entry.marker);
+      rendered.delete(key);
+    });
+  };
+
+  /**
+   * 1枚ならその写真を開き、複数枚なら拡大する。これ以上分かれない場合は写真の一覧を開く
+   */
+  const handleClusterClick = (cluster: PhotoCluster) => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+    if (cluster.photoIds.length === 1) {
+      onMarkerClick(cluster.name, cluster.photoIds);
+      return;
+    }
+    if (!cluster.samePosition && map.getZoom() <= CLUSTER_MAX_ZOOM) {
+      const { south, west, north, east } = cluster.bounds;
+      map.fitBounds([[south, west], [north, east]], { padding: [80, 80], maxZoom: CLUSTER_MAX_ZOOM + 1 });
+      return;
+    }
+    setOpenCluster(cluster);
+  };
+  clusterHandlersRef.current = { onClick: handleClusterClick, onUpdatePhotoLocation };
+
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+    const handleMoveEnd = () => renderClustersRef.current();
+    map.on('moveend', handleMoveEnd);
+    return () => { map.off('moveend', handleMoveEnd); };
+  }, []);
+
+  const pickLocationRef = useRef(pickLocation);
+  pickLocationRef.current = pickLocation;
+
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+    const handleClick = (e: L.LeafletMouseEvent) => pickLocationRef.current?.onPick(e.latlng.lat, e.latlng.lng);
+    map.on('click', handleClick);
+    return () => { map.off('click', handleClick); };
+  }, []);
+
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
     if (!initialFitRef.current && mappedPhotos.length > 0) {
-      map.fitBounds(bounds, { padding: [100, 100], maxZoom: 15 });
+      const bounds = L.latLngBounds(mappedPhotos.map(p => [Number(p.latitude), Number(p.longitude)] as L.LatLngTuple));
       initialFitRef.current = true;
+      map.fitBounds(bounds, { padding: [100, 100], maxZoom: 15 });
+    }
+    renderClustersRef.current();
+  }, [clusterIndex, mappedPhotos]);
+
+  const photoDates = useMemo(() => Array.from(new Set(mappedPhotos.map(p => p.date))).sort(), [mappedPhotos]);
+
+  const routePhotos = useMemo(() => {
+    if (routeMode === 'off') return [];
+    if (routeMode === 'day') {
+      const day = routeDay || photoDates[photoDates.length - 1];
+      return mappedPhotos.filter(p => p.date === day);
     }
-  }, [mappedPhotos, onMarkerClick, onUpdatePhotoLocation]);
+    if (routeMode === 'range') {
+      return mappedPhotos.filter(p => (!routeRange.start || p.date >= routeRange.start) && (!routeRange.end || p.date <= routeRange.end));
+    }
+    return mappedPhotos;
+  }, [routeMode, routeDay, routeRange, mappedPhotos, photoDates]);
+
+  const routeLegs = useMemo(() => buildRouteLegs(routePhotos), [routePhotos]);
+  const routeDays = useMemo(() => summarizeRouteByDay(routePhotos, routeLegs), [routePhotos, routeLegs]);
+
+  useEffect(() => {
+    const layer = routeLayerRef.current;
+    if (!layer) return;
+    layer.clearLayers();
+    const showLabels = routeLegs.length <= MAX_LABELED_LEGS;
+    routeLegs.forEach(leg => {
+      L.polyline([leg.from, leg.to], { color: '#6366f1', weight: 4, opacity: 0.75 }).addTo(layer);
+      L.marker([(leg.from[0] + leg.to[0]) / 2, (leg.from[1] + leg.to[1]) / 2], {
+        icon: L.divIcon({ className: 'route-leg-marker', html: createLegMarkerHtml(leg, showLabels), iconSize: [20, 20], iconAnchor: [10, 10] }),
+        interactive: false,
+        keyboard: false
+      }).addTo(layer);
+    });
+  }, [routeLegs]);
+
+  // ルートの対象を切り替えたときだけ全体が見えるように合わせる（写真の更新では動かさない）
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map || routeMode === 'off' || routePhotos.length === 0) return;
+    map.fitBounds(L.latLngBounds(routePhotos.map(p => [p.latitude, p.longitude] as L.LatLngTuple)), { padding: [80, 80], maxZoom: 15 });
+  }, [routeMode, routeDay, routeRange]);
 
   useEffect(() => {
     if (!mapInstanceRef.current || !focusedPhoto || !isVisible) return;
@@ -193,7 +348,7 @@ export const MapView: React.FC<MapViewProps> = ({ photos, focusedPhoto, isVisibl
     const photoId = e.dataTransfer.getData('photoId');
     const rect = mapContainerRef.current.getBoundingClientRect();
     const latlng = mapInstanceRef.current.containerPointToLatLng(L.point(e.clientX - rect.left, e.clientY - rect.top));
-    onUpdatePhotoLocation(photoId, latlng.lat, latlng.lng);
+    onUpdatePhotoLocation([photoId], latlng.lat, latlng.lng);
   }, [onUpdatePhotoLocation]);
 
   const trayDisplayPhotos = useMemo(() => {
@@ -204,10 +359,73 @@ export const MapView: React.FC<MapViewProps> = ({ photos, focusedPhoto, isVisibl
 
   return (
     <div className="flex-1 relative w-full h-full bg-slate-100 overflow-hidden">
-      <div ref={mapContainerRef} onDragOver={(e) => { e.preventDefault(); if (!isDraggingOver) setIsDraggingOver(true); }} onDragLeave={() => setIsDraggingOver(false)} onDrop={handleDrop} className="w-full h-full z-10" />
+      <div ref={mapContainerRef} onDragOver={(e) => { e.preventDefault(); if (!isDraggingOver) setIsDraggingOver(true); }} onDragLeave={() => setIsDraggingOver(false)} onDrop={handleDrop} className={`w-full h-full z-10 ${pickLocation ? 'cursor-crosshair' : ''}`} />
+      {pickLocation && (
+        <div className="absolute top-6 left-1/2 -translate-x-1/2 z-[1002] pointer-events-auto bg-indigo-600 text-white rounded-full shadow-2xl pl-6 pr-2 py-2 flex items-center gap-4">
+          <span className="text-sm font-black">{pickLocation.label}</span>
+          <button onClick={pickLocation.onCancel} className="px-4 py-1.5 bg-white/20 hover:bg-white/30 rounded-full text-xs font-black transition-colors">{t('map.cancel')}</button>
+        </div>
+      )}
       {isDraggingOver && (
         <div className="absolute inset-0 bg-indigo-500/10 border-4 border-indigo-500 border-dashed z-[1001] flex items-center justify-center pointer-events-none animate-in fade-in">
-           <div className="bg-white px-10 py-6 rounded-3xl shadow-2xl animate-bounce text-2xl font-black text-indigo-600">Drop Here</div>
+           <div className="bg-white px-10 py-6 rounded-3xl shadow-2xl animate-bounce text-2xl font-black text-indigo-600">{t('map.dropHere')}</div>
+        </div>
+      )}
+      <div className="absolute left-6 bottom-6 z-30 pointer-events-auto w-72 bg-white/95 backdrop-blur-xl rounded-[2rem] shadow-2xl p-5 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs font-black text-slate-400 uppercase tracking-widest">{t('map.route')}</span>
+          <select value={routeMode} onChange={(e) => setRouteMode(e.target.value as RouteMode)} className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-1.5 text-xs font-bold outline-none cursor-pointer">
+            <option value="off">{t('map.routeOff')}</option>
+            <option value="day">{t('map.routeDay')}</option>
+            <option value="range">{t('map.routeRange')}</option>
+            <option value="all">{t('map.routeAll')}</option>
+          </select>
+        </div>
+        {routeMode === 'day' && (
+          <select value={routeDay || photoDates[photoDates.length - 1] || ''} onChange={(e) => setRouteDay(e.target.value)} className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold outline-none cursor-pointer">
+            {photoDates.map(date => <option key={date} value={date}>{formatDate(date)}</option>)}
+          </select>
+        )}
+        {routeMode === 'range' && (
+          <div className="grid grid-cols-2 gap-2">
+            <input type="date" value={routeRange.start} onChange={(e) => setRouteRange(prev => ({ ...prev, start: e.target.value }))} className="bg-slate-50 border border-slate-200 rounded-xl px-2 py-2 text-xs font-bold outline-none" />
+            <input type="date" value={routeRange.end} onChange={(e) => setRouteRange(prev => ({ ...prev, end: e.target.value }))} className="bg-slate-50 border border-slate-200 rounded-xl px-2 py-2 text-xs font-bold outline-none" />
+          </div>
+        )}
+        {routeMode !== 'off' && (
+          <div className="space-y-2">
+            <p className="text-sm font-black text-indigo-600">
+              {formatDistance(totalDistanceKm(routeLegs))} · {t('map.legs', { count: routeLegs.length })}
+            </p>
+            <div className="max-h-40 overflow-y-auto custom-scrollbar space-y-1">
+              {routeDays.map(day => (
+                <div key={day.date} className="flex justify-between text-[11px] font-bold text-slate-500">
+                  <span>{formatDate(day.date)}</span>
+                  <span>{formatDistance(day.distanceKm)} · {t('map.places', { count: day.places })}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+      {openCluster && (
+        <div className="absolute left-6 top-6 bottom-6 w-80 bg-white/95 backdrop-blur-xl rounded-[2.5rem] shadow-2xl z-40 flex flex-col pointer-events-auto animate-in fade-in">
+          <div className="p-6 border-b flex items-center justify-between">
+            <h3 className="font-black truncate w-56" title={openCluster.name}>{openCluster.name}</h3>
+            <button onClick={() => setOpenCluster(null)} className="text-slate-400 font-black text-xl">×</button>
+          </div>
+          <div className="flex-1 overflow-y-auto p-4 custom-scrollbar grid grid-cols-3 gap-2 content-start">
+            {openCluster.photoIds.map(id => photosById.get(id)).filter((p): p is PhotoMetadata => !!p).map(photo => (
+              <button
+                key={photo.id}
+                onClick={() => onMarkerClick(photoPlaceLabel(photo), [photo.id])}
+                className="aspect-square rounded-xl overflow-hidden bg-slate-100 hover:ring-4 hover:ring-indigo-500/40 transition-all"
+                title={`${photoPlaceLabel(photo)} (${photo.date})`}
+              >
+                <img src={photo.url} alt={photo.name} className="w-full h-full object-cover" />
+              </button>
+            ))}
+          </div>
         </div>
       )}
       <div className="absolute top-6 right-6 z-30 pointer-events-auto">
@@ -224,7 +442,7 @@ export const MapView: React.FC<MapViewProps> = ({ photos, focusedPhoto, isVisibl
         <div className="p-6 border-b flex items-center justify-between">
           <div className="flex items-center gap-2">
             {selectedCountryFolder && <button onClick={() => setSelectedCountryFolder(null)} className="p-1 hover:bg-slate-100 rounded text-indigo-600 font-black">←</button>}
-            <h3 className="font-black truncate w-40">{selectedCountryFolder === "all" ? "すべて" : (selectedCountryFolder || "未配置の整理")}</h3>
+            <h3 className="font-black truncate w-40">{selectedCountryFolder === "all" ? t('map.trayAll') : (selectedCountryFolder ? folderLabel(selectedCountryFolder) : t('map.trayTitle'))}</h3>
           </div>
           <button onClick={() => setShowUnknownTray(false)} className="text-slate-400 font-black text-xl">×</button>
         </div>
@@ -232,12 +450,12 @@ export const MapView: React.FC<MapViewProps> = ({ photos, focusedPhoto, isVisibl
           {!selectedCountryFolder ? (
             <div className="space-y-3">
                <button onClick={() => setSelectedCountryFolder("all")} className="w-full text-left p-5 bg-indigo-50 hover:bg-indigo-100 rounded-3xl transition-colors font-black flex justify-between items-center group">
-                 <span className="text-indigo-900">すべての未配置</span>
+                 <span className="text-indigo-900">{t('map.trayAllUnmapped')}</span>
                  <span className="bg-white text-indigo-600 px-3 py-1 rounded-full text-xs shadow-sm">{unknownPhotos.length}</span>
                </button>
                {(Object.entries(unknownFolders) as [string, PhotoMetadata[]][]).map(([country, items]) => (
                  <button key={country} onClick={() => setSelectedCountryFolder(country)} className="w-full text-left p-5 bg-slate-50 hover:bg-slate-100 rounded-3xl transition-colors font-black flex justify-between items-center group">
-                   <span className="text-slate-700">{country}</span>
+                   <span className="text-slate-700">{folderLabel(country)}</span>
                    <span className="bg-white text-slate-400 group-hover:text-indigo-600 px-3 py-1 rounded-full text-xs shadow-sm">{items.length}</span>
                  </button>
                ))}
@@ -255,7 +473,7 @@ export const MapView: React.FC<MapViewProps> = ({ photos, focusedPhoto, isVisibl
                   </div>
                   <div className="flex-1 min-w-0">
                     <p className="text-xs font-black text-slate-700 truncate" title={photo.name}>{photo.name}</p>
-                    <p className="text-[10px] text-slate-400 font-bold truncate">{photo.date.replace(/-/g, '/')}</p>
+                    <p className="text-[10px] text-slate-400 font-bold truncate">{formatDate(photo.date)}</p>
                   </div>
                   
                   {/* 最前面(z-index)に配置し、onPointerDown で即座に削除関数を呼び出します */}
@@ -269,7 +487,7 @@ export const MapView: React.FC<MapViewProps> = ({ photos, focusedPhoto, isVisibl
                       }
                     }}
                     className="relative z-[10000] p-2.5 text-red-400 hover:text-red-600 hover:bg-red-50 rounded-xl transition-all shrink-0 active:scale-90"
-                    title="この写真を完全に削除"
+                    title={t('modal.trash')}
                   >
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
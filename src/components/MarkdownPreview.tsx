@@ -0,0 +1,65 @@
+import React, { useMemo } from 'react';
+import { MarkdownInline, parseMarkdown } from '../services/markdownService';
+import { t } from '../services/i18nService';
+
+interface MarkdownPreviewProps {
+  source: string;
+}
+
+const renderInlines = (inlines: MarkdownInline[]) => inlines.map((inline, i) => {
+  switch (inline.type) {
+    case 'strong':
+      return <strong key={i} className="font-black text-slate-900">{inline.text}</strong>;
+    case 'em':
+      return <em key={i}>{inline.text}</em>;
+    case 'code':
+      return <code key={i} className="bg-slate-100 text-pink-600 px-1.5 py-0.5 rounded text-[0.9em]">{inline.text}</code>;
+    case 'link':
+      return <a key={i} href={inline.href} target="_blank" rel="noopener noreferrer" className="text-indigo-600 font-bold underline">{inline.text}</a>;
+    default:
+      return <React.Fragment key={i}>{inline.text}</React.Fragment>;
+  }
+});
+
+const HEADING_CLASS_NAMES = {
+  1: 'text-2xl font-black text-slate-900',
+  2: 'text-xl font-black text-slate-900',
+  3: 'text-lg font-black text-slate-800'
+};
+
+/**
+ * 日記の Markdown を表示する
+ */
+export const MarkdownPreview: React.FC<MarkdownPreviewProps> = ({ source }) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  return (
+    <div className="space-y-4 text-slate-700 font-medium leading-relaxed">
+      {blocks.map((block, i) => {
+        switch (block.type) {
+          case 'heading': {
+            const Tag = `h${block.level}` as 'h1' | 'h2' | 'h3';
+            return <Tag key={i} className={HEADING_CLASS_NAMES[block.level]}>{renderInlines(block.inlines)}</Tag>;
+          }
+          case 'list': {
+            const Tag = block.ordered ? 'ol' : 'ul';
+            return (
+              <Tag key={i} className={`pl-6 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+                {block.items.map((item, j) => <li key={j}>{renderInlines(item)}</li>)}
+              </Tag>
+            );
+          }
+          case 'quote':
+            return <blockquote key={i} className="border-l-4 border-indigo-200 pl-4 text-slate-500 italic">{renderInlines(block.inlines)}</blockquote>;
+          case 'code':
+            return <pre key={i} className="bg-slate-900 text-slate-100 rounded-2xl p-4 text-sm overflow-x-auto"><code>{block.text}</code></pre>;
+          case 'rule':
+            return <hr key={i} className="border-slate-200" />;
+          default:
+            return <p key={i} className="whitespace-pre-wrap">{renderInlines(block.inlines)}</p>;
+        }
+      })}
+      {blocks.length === 0 && <p className="text-slate-400 font-bold">{t('markdown.empty')}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from 'react';
+import { Confidence, MetadataField, PhotoMetadata } from '../types';
+import { getFieldProvenance } from '../services/provenanceService';
+import { hasLocation } from '../services/geoUtils';
+import { formatDate, photoPlaceLabel, t } from '../services/i18nService';
+import { countryName, toCountryCode } from '../services/geocoderService';
+
+interface MetadataEditorProps {
+  photo: PhotoMetadata;
+  onSave: (field: MetadataField, patch: Partial<PhotoMetadata>) => void;
+}
+
+type Draft = Record<string, string>;
+
+const CONFIDENCE_CLASS_NAMES: Record<Confidence, string> = {
+  high: 'bg-emerald-50 text-emerald-600',
+  medium: 'bg-amber-50 text-amber-600',
+  low: 'bg-slate-100 text-slate-500'
+};
+
+const inputClassName = "w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500/20";
+
+// 項目名は t(`field.${field}`) で引く
+const ROWS: MetadataField[] = ['date', 'locationName', 'country', 'location', 'description'];
+
+const draftFor = (photo: PhotoMetadata, field: MetadataField): Draft => {
+  switch (field) {
+    case 'date':
+      return { date: photo.date, time: photo.captureTime?.slice(11, 16) || '' };
+    case 'location':
+      return hasLocation(photo)
+        ? { latitude: String(photo.latitude), longitude: String(photo.longitude) }
+        : { latitude: '', longitude: '' };
+    case 'locationName':
+      return { value: photo.locationName };
+    case 'country':
+      return { value: photo.country ? countryName(photo.country) : '' };
+    case 'description':
+      return { value: photo.description };
+  }
+};
+
+/**
+ * 入力から写真に書き込む差分を作る。値が不正な場合は null
+ */
+const patchFor = (photo: PhotoMetadata, field: MetadataField, draft: Draft): Partial<PhotoMetadata> | null => {
+  switch (field) {
+    case 'date': {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(draft.date)) return null;
+      // 時刻を消した場合は撮影時刻ごと外す。タイムゾーンは元の値を引き継ぐ
+      const zone = photo.captureTime?.slice(19) || '';
+      const seconds = photo.captureTime?.slice(16, 19) || ':00';
+      return { date: draft.date, captureTime: draft.time ? `${draft.date}T${draft.time}${seconds}${zone}` : undefined };
+    }
+    case 'location': {
+      const latitude = parseFloat(draft.latitude);
+      const longitude = parseFloat(draft.longitude);
+      if (!Number.isFinite(latitude) || !Number.isFinite(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+      return { latitude, longitude, manuallyPlaced: true, locationSource: 'manual' };
+    }
+    case 'locationName':
+      return draft.value.trim() ? { locationName: draft.value.trim() } : null;
+    case 'country':
+      return { country: draft.value.trim() ? toCountryCode(draft.value) : undefined };
+    case 'description':
+      return { description: draft.value.trim() };
+  }
+};
+
+const displayValue = (photo: PhotoMetadata, field: MetadataField): string => {
+  switch (field) {
+    case 'date':
+      return `${formatDate(photo.date)}${photo.captureTime ? ` ${photo.captureTime.slice(11, 16)}` : ''}`;
+    case 'location':
+      return hasLocation(photo) ? `${photo.latitude.toFixed(5)}, ${photo.longitude.toFixed(5)}` : t('metadata.unset');
+    case 'locationName':
+      return photoPlaceLabel(photo);
+    case 'country':
+      return photo.country ? countryName(photo.country) : t('metadata.unset');
+    case 'description':
+      return photo.description || t('metadata.unset');
+  }
+};
+
+/**
+ * 写真のメタデータを項目ごとにその場で編集する。各項目には値の出どころと確からしさを表示する
+ * 手で編集した項目は手動入力として記録され、再解析で上書きされない
+ */
+export const MetadataEditor: React.FC<MetadataEditorProps> = ({ photo, onSave }) => {
+  const [editing, setEditing] = useState<MetadataField | null>(null);
+  const [draft, setDraft] = useState<Draft>({});
+
+  useEffect(() => {
+    setEditing(null);
+  }, [photo.id]);
+
+  const startEditing = (field: MetadataField) => {
+    setDraft(draftFor(photo, field));
+    setEditing(field);
+  };
+
+  const pendingPatch = editing ? patchFor(photo, editing, draft) : null;
+
+  const save = () => {
+    if (!editing || !pendingPatch) return;
+    onSave(editing, pendingPatch);
+    setEditing(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      setEditing(null);
+    }
+    // 説明は複数行なので Ctrl/Cmd+Enter で保存する
+    if (e.key === 'Enter' && (editing !== 'description' || e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      save();
+    }
+  };
+
+  const updateDraft = (key: string, value: string) => setDraft(prev => ({ ...prev, [key]: value }));
+
+  const renderInput = (field: MetadataField) => {
+    switch (field) {
+      case 'date':
+        return (
+          <div className="flex gap-2">
+            <input type="date" autoFocus value={draft.date} onChange={(e) => updateDraft('date', e.target.value)} className={inputClassName} />
+            <input type="time" value={draft.time} onChange={(e) => updateDraft('time', e.target.value)} className={`${inputClassName} w-28`} />
+          </div>
+        );
+      case 'location':
+        return (
+          <div className="flex gap-2">
+            <input type="number" step="any" autoFocus placeholder={t('metadata.latitude')} value={draft.latitude} onChange={(e) => updateDraft('latitude', e.target.value)} className={inputClassName} />
+            <input type="number" step="any" placeholder={t('metadata.longitude')} value={draft.longitude} onChange={(e) => updateDraft('longitude', e.target.value)} className={inputClassName} />
+          </div>
+        );
+      case 'description':
+        return <textarea autoFocus rows={3} value={draft.value} onChange={(e) => updateDraft('value', e.target.value)} className={`${inputClassName} resize-none`} />;
+      default:
+        return <input type="text" autoFocus value={draft.value} onChange={(e) => updateDraft('value', e.target.value)} className={inputClassName} />;
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {ROWS.map(field => {
+        const provenance = getFieldProvenance(photo, field);
+        const isEditing = editing === field;
+        return (
+          <div key={field} className="space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t(`field.${field}`)}</label>
+              {provenance && (
+                <span
+                  className={`text-[9px] font-black px-1.5 py-0.5 rounded ${provenance.source === 'manual' ? 'bg-indigo-50 text-indigo-600' : CONFIDENCE_CLASS_NAMES[provenance.confidence]}`}
+                  title={provenance.updatedAt ? new Date(provenance.updatedAt).toLocaleString() : undefined}
+                >
+                  {t('metadata.provenance', { source: t(`source.${provenance.source}`), confidence: t(`confidence.${provenance.confidence}`) })}
+                </span>
+              )}
+            </div>
+
+            {isEditing ? (
+              <div className="space-y-2" onKeyDown={handleKeyDown}>
+                {renderInput(field)}
+                <div className="flex gap-2">
+                  <button onClick={save} disabled={!pendingPatch} className="px-3 py-1.5 bg-indigo-600 text-white rounded-xl text-xs font-black disabled:opacity-40 active:scale-95 transition-all">{t('metadata.save')}</button>
+                  <button onClick={() => setEditing(null)} className="px-3 py-1.5 text-slate-500 hover:bg-slate-100 rounded-xl text-xs font-black transition-colors">{t('metadata.cancel')}</button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={() => startEditing(field)}
+                disabled={photo.isProcessing}
+                className={`w-full text-left px-2 py-1 -mx-2 rounded-xl hover:bg-slate-50 transition-colors disabled:hover:bg-transparent ${field === 'locationName' ? 'text-2xl font-black' : field === 'description' ? 'text-sm text-slate-500 italic' : 'text-sm font-bold text-slate-700'}`}
+                title={t('metadata.clickToEdit')}
+              >
+                {displayValue(photo, field)}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,241 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Album, PhotoMetadata } from '../types';
+import { PhotoCard } from './PhotoCard';
+import { hasLocation } from '../services/geoUtils';
+import { t } from '../services/i18nService';
+
+interface PhotoGridViewProps {
+  photos: PhotoMetadata[];
+  albums: Album[];
+  onOpen: (photo: PhotoMetadata) => void;
+  onFocus: (photo: PhotoMetadata) => void;
+  onSetDate: (photoIds: string[], date: string) => void;
+  onPickLocation: (photoIds: string[]) => void;
+  onCopyLocation: (photoIds: string[], source: PhotoMetadata) => void;
+  onAddToAlbum: (photoIds: string[], albumId: string) => void;
+  onAddTag: (photoIds: string[], tag: string) => void;
+  onReanalyze: (photoIds: string[]) => void;
+  onExport: (photoIds: string[], withMetadata: boolean) => void; // withMetadata: 位置・撮影日時・説明を JPEG に書き込む
+  onDelete: (photoIds: string[]) => void;
+}
+
+interface Marquee {
+  id: number; // ドラッグごとに振る番号。同じ位置から始めたドラッグも別のものとして扱う
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+  base: Set<string>; // Ctrl/Shift を押しながら始めた場合の既存の選択
+}
+
+const toolbarButtonClassName = "px-3 py-2 rounded-xl text-xs font-black transition-all active:scale-95 disabled:opacity-40";
+
+/**
+ * 一覧表示のグリッド。チェックボックス・Shift+クリック・ドラッグの範囲選択で複数枚を選び、まとめて操作する
+ */
+export const PhotoGridView: React.FC<PhotoGridViewProps> = ({
+  photos, albums, onOpen, onFocus, onSetDate, onPickLocation, onCopyLocation, onAddToAlbum, onAddTag, onReanalyze, onExport, onDelete
+}) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [batchDate, setBatchDate] = useState('');
+  const [batchTag, setBatchTag] = useState('');
+  // 次にクリックした写真の位置を選択中の写真にコピーする
+  const [copyingLocation, setCopyingLocation] = useState(false);
+  const [marquee, setMarquee] = useState<Marquee | null>(null);
+  const anchorRef = useRef<string | null>(null);
+  const dragCountRef = useRef(0);
+  const gridRef = useRef<HTMLDivElement>(null);
+
+  // 削除などで一覧から消えた写真は選択から外す
+  useEffect(() => {
+    setSelected(prev => {
+      const ids = new Set(photos.map(p => p.id));
+      const next = new Set(Array.from(prev).filter(id => ids.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [photos]);
+
+  const selectedIds = photos.filter(p => selected.has(p.id)).map(p => p.id);
+
+  const clearSelection = () => {
+    setSelected(new Set());
+    setCopyingLocation(false);
+  };
+
+  const toggle = (photoId: string) => {
+    const next = new Set(selected);
+    if (next.has(photoId)) next.delete(photoId);
+    else next.add(photoId);
+    setSelected(next);
+    anchorRef.current = photoId;
+  };
+
+  const selectRange = (photoId: string) => {
+    const from = photos.findIndex(p => p.id === anchorRef.current);
+    const to = photos.findIndex(p => p.id === photoId);
+    if (from === -1 || to === -1) {
+      toggle(photoId);
+      return;
+    }
+    const next = new Set(selected);
+    photos.slice(Math.min(from, to), Math.max(from, to) + 1).forEach(p => next.add(p.id));
+    setSelected(next);
+  };
+
+  const handleCardClick = (e: React.MouseEvent, photo: PhotoMetadata) => {
+    if (copyingLocation) {
+      if (!selected.has(photo.id) && hasLocation(photo)) {
+        onCopyLocation(selectedIds, photo);
+        setCopyingLocation(false);
+      }
+      return;
+    }
+    if (e.shiftKey && anchorRef.current) selectRange(photo.id);
+    else if (e.ctrlKey || e.metaKey || selected.size > 0) toggle(photo.id);
+    else onOpen(photo);
+  };
+
+  // 写真のない場所からドラッグすると、囲んだ範囲の写真を選択する
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0 || copyingLocation) return;
+    if ((e.target as HTMLElement).closest('[data-photo-id]')) return;
+    e.preventDefault();
+    const base = e.ctrlKey || e.metaKey || e.shiftKey ? new Set(selected) : new Set<string>();
+    dragCountRef.current += 1;
+    setMarquee({ id: dragCountRef.current, startX: e.clientX, startY: e.clientY, x: e.clientX, y: e.clientY, base });
+  };
+
+  // 開始位置と既存の選択はドラッグの間変わらないため、ドラッグごとに1回だけ登録する
+  useEffect(() => {
+    if (!marquee) return;
+    let moved = false;
+    const handleMove = (e: MouseEvent) => {
+      moved = true;
+      const left = Math.min(marquee.startX, e.clientX);
+      const right = Math.max(marquee.startX, e.clientX);
+      const top = Math.min(marquee.startY, e.clientY);
+      const bottom = Math.max(marquee.startY, e.clientY);
+      const next = new Set(marquee.base);
+      gridRef.current?.querySelectorAll<HTMLElement>('[data-photo-id]').forEach(card => {
+        const rect = card.getBoundingClientRect();
+        if (rect.right >= left && rect.left <= right && rect.bottom >= top && rect.top <= bottom) next.add(card.dataset.photoId!);
+      });
+      setSelected(next);
+      setMarquee(prev => prev && { ...prev, x: e.clientX, y: e.clientY });
+    };
+    const handleUp = () => {
+      // ドラッグせずにクリックしただけなら選択を解除する
+      if (!moved) setSelected(marquee.base);
+      setMarquee(null);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [marquee?.id]);
+
+  return (
+    <div className="max-w-[1400px] mx-auto p-10 min-h-full select-none" onMouseDown={handleMouseDown}>
+      {selected.size > 0 && (
+        <div className="sticky top-4 z-30 mb-6 bg-white/95 backdrop-blur-xl rounded-[2rem] shadow-2xl border border-slate-100 p-4 flex flex-wrap items-center gap-3" onMouseDown={(e) => e.stopPropagation()}>
+          <span className="px-3 text-sm font-black text-indigo-600">{t('grid.selectedCount', { count: selected.size })}</span>
+          <button onClick={() => setSelected(new Set(photos.map(p => p.id)))} className={`${toolbarButtonClassName} text-slate-500 hover:bg-slate-100`}>{t('grid.selectAll')}</button>
+          <button onClick={clearSelection} className={`${toolbarButtonClassName} text-slate-500 hover:bg-slate-100`}>{t('grid.clearSelection')}</button>
+          <div className="w-px h-8 bg-slate-200" />
+
+          <div className="flex items-center gap-2">
+            <input type="date" value={batchDate} onChange={(e) => setBatchDate(e.target.value)} className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-1.5 text-xs font-bold outline-none" />
+            <button onClick={() => onSetDate(selectedIds, batchDate)} disabled={!batchDate} className={`${toolbarButtonClassName} bg-slate-100 text-slate-700 hover:bg-slate-200`}>{t('grid.setDate')}</button>
+          </div>
+          <button onClick={() => onPickLocation(selectedIds)} className={`${toolbarButtonClassName} bg-slate-100 text-slate-700 hover:bg-slate-200`}>{t('grid.pickLocation')}</button>
+          <button
+            onClick={() => setCopyingLocation(!copyingLocation)}
+            className={`${toolbarButtonClassName} ${copyingLocation ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}
+          >
+            {copyingLocation ? t('grid.copyingLocation') : t('grid.copyLocation')}
+          </button>
+          <select
+            value=""
+            onChange={(e) => { if (e.target.value) onAddToAlbum(selectedIds, e.target.value); }}
+            className="bg-slate-100 border-none rounded-xl px-3 py-2 text-xs font-black text-slate-700 outline-none cursor-pointer"
+          >
+            <option value="">{t('modal.addToAlbum')}</option>
+            {albums.map(album => <option key={album.id} value={album.id}>{album.name}</option>)}
+            <option value="__new__">{t('modal.newAlbum')}</option>
+          </select>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={batchTag}
+              onChange={(e) => setBatchTag(e.target.value)}
+              placeholder={t('grid.tagPlaceholder')}
+              className="w-24 bg-slate-50 border border-slate-200 rounded-xl px-3 py-1.5 text-xs font-bold outline-none"
+            />
+            <button
+              onClick={() => { onAddTag(selectedIds, batchTag.trim()); setBatchTag(''); }}
+              disabled={!batchTag.trim()}
+              className={`${toolbarButtonClassName} bg-slate-100 text-slate-700 hover:bg-slate-200`}
+            >
+              {t('grid.addTag')}
+            </button>
+          </div>
+          <button onClick={() => onReanalyze(selectedIds)} className={`${toolbarButtonClassName} bg-slate-100 text-slate-700 hover:bg-slate-200`}>{t('grid.reanalyze')}</button>
+          <button onClick={() => onExport(selectedIds, false)} className={`${toolbarButtonClassName} bg-slate-100 text-slate-700 hover:bg-slate-200`}>{t('grid.export')}</button>
+          <button onClick={() => onExport(selectedIds, true)} className={`${toolbarButtonClassName} bg-slate-100 text-slate-700 hover:bg-slate-200`}>{t('grid.exportWithMetadata')}</button>
+          <button onClick={() => onDelete(selectedIds)} className={`${toolbarButtonClassName} bg-white border-2 border-red-100 text-red-600 hover:bg-red-50`}>{t('grid.delete')}</button>
+        </div>
+      )}
+
+      <div ref={gridRef} className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-6 pb-20">
+        {photos.map(p => {
+          const isSelected = selected.has(p.id);
+          return (
+            <div
+              key={p.id}
+              data-photo-id={p.id}
+              onClick={(e) => handleCardClick(e, p)}
+              className={`group relative cursor-pointer transition-transform hover:scale-[1.02] rounded-xl ${isSelected ? 'ring-4 ring-indigo-500' : ''} ${copyingLocation && !isSelected && !hasLocation(p) ? 'opacity-40' : ''}`}
+            >
+              <PhotoCard photo={p} onFocus={() => onFocus(p)} />
+              <input
+                type="checkbox"
+                checked={isSelected}
+                onClick={(e) => e.stopPropagation()}
+                onChange={(e) => {
+                  if ((e.nativeEvent as MouseEvent).shiftKey && anchorRef.current) selectRange(p.id);
+                  else toggle(p.id);
+                }}
+                className={`absolute top-3 left-3 w-5 h-5 accent-indigo-600 cursor-pointer transition-opacity ${selected.size > 0 ? 'opacity-100' : 'opacity-0 group-hover:opacity-100 focus:opacity-100'}`}
+                title={t('grid.select')}
+              />
+            </div>
+          );
+        })}
+
+        {photos.length === 0 && (
+          <div className="col-span-full flex flex-col items-center justify-center py-20 text-slate-400">
+            <svg className="w-16 h-16 mb-4 opacity-20" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+            </svg>
+            <p className="font-bold text-lg">{t('grid.noPhotos')}</p>
+            <p className="text-sm">{t('grid.uploadHint')}</p>
+          </div>
+        )}
+      </div>
+
+      {marquee && (
+        <div
+          className="fixed z-40 border-2 border-indigo-500 bg-indigo-500/10 rounded pointer-events-none"
+          style={{
+            left: Math.min(marquee.startX, marquee.x),
+            top: Math.min(marquee.startY, marquee.y),
+            width: Math.abs(marquee.x - marquee.startX),
+            height: Math.abs(marquee.y - marquee.startY)
+          }}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import React from 'react';
+import { ProviderSettings } from '../types';
+import { PROVIDER_IDS } from '../services/analysisService';
+import { t } from '../services/i18nService';
+
+interface ProviderSettingsPanelProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+}
+
+const inputClassName = "bg-slate-50 border border-slate-200 rounded-2xl px-6 py-4 font-bold focus:ring-4 focus:ring-indigo-500/10 outline-none transition-all";
+const labelClassName = "text-xs font-black text-slate-400 uppercase tracking-widest ml-1";
+
+export const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ settings, onChange }) => {
+  const updateGemini = (patch: Partial<ProviderSettings['gemini']>) =>
+    onChange({ ...settings, gemini: { ...settings.gemini, ...patch } });
+
+  const updateOpenAI = (patch: Partial<ProviderSettings['openAICompatible']>) =>
+    onChange({ ...settings, openAICompatible: { ...settings.openAICompatible, ...patch } });
+
+  return (
+    <section className="space-y-6">
+      <div className="flex items-center gap-3 mb-2">
+        <div className="w-10 h-10 bg-indigo-100 text-indigo-600 rounded-xl flex items-center justify-center">
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" /></svg>
+        </div>
+        <h2 className="text-2xl font-black text-slate-900">{t('providerSettings.title')}</h2>
+      </div>
+      <p className="text-slate-500 font-medium">{t('providerSettings.description')}</p>
+
+      <div className="flex flex-col gap-2">
+        <label className={labelClassName}>{t('providerSettings.provider')}</label>
+        <select
+          value={settings.providerId}
+          onChange={(e) => onChange({ ...settings, providerId: e.target.value as ProviderSettings['providerId'] })}
+          className={`${inputClassName} cursor-pointer`}
+        >
+          {PROVIDER_IDS.map(id => <option key={id} value={id}>{t(`provider.${id}`)}</option>)}
+        </select>
+      </div>
+
+      {settings.providerId === 'gemini' && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+          <div className="flex flex-col gap-2">
+            <label className={labelClassName}>{t('providerSettings.model')}</label>
+            <input type="text" value={settings.gemini.model} onChange={(e) => updateGemini({ model: e.target.value })} className={inputClassName} />
+          </div>
+          <div className="flex flex-col gap-2">
+            <label className={labelClassName}>{t('providerSettings.apiKey')}</label>
+            <input
+              type="password"
+              value={settings.gemini.apiKey}
+              placeholder="VITE_GEMINI_API_KEY"
+              onChange={(e) => updateGemini({ apiKey: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+      )}
+
+      {settings.providerId === 'openai-compatible' && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+          <div className="flex flex-col gap-2 sm:col-span-2">
+            <label className={labelClassName}>{t('providerSettings.baseUrl')}</label>
+            <input
+              type="url"
+              value={settings.openAICompatible.baseUrl}
+              placeholder="http://localhost:11434/v1"
+              onChange={(e) => updateOpenAI({ baseUrl: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <label className={labelClassName}>{t('providerSettings.model')}</label>
+            <input type="text" value={settings.openAICompatible.model} onChange={(e) => updateOpenAI({ model: e.target.value })} className={inputClassName} />
+          </div>
+          <div className="flex flex-col gap-2">
+            <label className={labelClassName}>{t('providerSettings.apiKeyOptional')}</label>
+            <input type="password" value={settings.openAICompatible.apiKey} onChange={(e) => updateOpenAI({ apiKey: e.target.value })} className={inputClassName} />
+          </div>
+        </div>
+      )}
+
+      {settings.providerId !== 'offline' && (
+        <div className="space-y-2">
+          <label className="flex items-center gap-3 ml-1 font-bold text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.rememberApiKeys}
+              onChange={(e) => onChange({ ...settings, rememberApiKeys: e.target.checked })}
+              className="w-5 h-5 accent-indigo-600"
+            />
+            {t('providerSettings.rememberKey')}
+          </label>
+          {settings.rememberApiKeys ? (
+            <p className="text-sm text-red-500 font-bold bg-red-50 rounded-2xl p-4">{t('providerSettings.rememberKeyWarning')}</p>
+          ) : (
+            <p className="text-sm text-slate-400 font-medium ml-1">{t('providerSettings.rememberKeyNote')}</p>
+          )}
+        </div>
+      )}
+
+      {settings.providerId === 'offline' && (
+        <p className="text-sm text-slate-400 font-medium bg-slate-50 rounded-2xl p-4">
+          {t('providerSettings.offlineNote')}
+        </p>
+      )}
+
+      <label className="flex items-center gap-3 ml-1 font-bold text-slate-600 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.refineLocationNames}
+          onChange={(e) => onChange({ ...settings, refineLocationNames: e.target.checked })}
+          className="w-5 h-5 accent-indigo-600"
+        />
+        {t('providerSettings.refine')}
+      </label>
+      <p className="text-sm text-slate-400 font-medium -mt-3 ml-1">
+        {t('providerSettings.refineNote')}
+      </p>
+    </section>
+  );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { QueueSettings } from '../types';
+import { MessageKey, t } from '../services/i18nService';
+
+interface QueueSettingsPanelProps {
+  settings: QueueSettings;
+  onChange: (settings: QueueSettings) => void;
+}
+
+const FIELDS: { key: keyof QueueSettings; label: MessageKey; min: number; max: number }[] = [
+  { key: 'concurrency', label: 'queueSettings.concurrency', min: 1, max: 8 },
+  { key: 'requestsPerMinute', label: 'queueSettings.requestsPerMinute', min: 1, max: 120 },
+  { key: 'maxAttempts', label: 'queueSettings.maxAttempts', min: 1, max: 10 }
+];
+
+export const QueueSettingsPanel: React.FC<QueueSettingsPanelProps> = ({ settings, onChange }) => {
+  const update = (key: keyof QueueSettings, value: number, min: number, max: number) => {
+    if (isNaN(value)) return;
+    onChange({ ...settings, [key]: Math.min(max, Math.max(min, Math.round(value))) });
+  };
+
+  return (
+    <section className="space-y-6">
+      <div className="flex items-center gap-3 mb-2">
+        <div className="w-10 h-10 bg-indigo-100 text-indigo-600 rounded-xl flex items-center justify-center">
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 6h16M4 10h16M4 14h10M4 18h6" /></svg>
+        </div>
+        <h2 className="text-2xl font-black text-slate-900">{t('queueSettings.title')}</h2>
+      </div>
+      <p className="text-slate-500 font-medium">{t('queueSettings.description')}</p>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
+        {FIELDS.map(field => (
+          <div key={field.key} className="flex flex-col gap-2">
+            <label className="text-xs font-black text-slate-400 uppercase tracking-widest ml-1">{t(field.label)}</label>
+            <input
+              type="number"
+              min={field.min}
+              max={field.max}
+              value={settings[field.key]}
+              onChange={(e) => update(field.key, parseInt(e.target.value, 10), field.min, field.max)}
+              className="bg-slate-50 border border-slate-200 rounded-2xl px-6 py-4 font-bold focus:ring-4 focus:ring-indigo-500/10 outline-none transition-all"
+            />
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
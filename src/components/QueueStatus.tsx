@@ -0,0 +1,53 @@
+import React from 'react';
+import { QueueProgress } from '../types';
+import { t } from '../services/i18nService';
+
+interface QueueStatusProps {
+  progress: QueueProgress;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * ヘッダーに表示する解析キューの進捗と操作ボタン
+ */
+export const QueueStatus: React.FC<QueueStatusProps> = ({ progress, onPause, onResume, onCancel }) => {
+  const active = progress.queued + progress.running;
+  if (active === 0) return null;
+
+  const done = progress.completed + progress.failed;
+  const percent = progress.total > 0 ? Math.round((done / progress.total) * 100) : 0;
+
+  return (
+    <div className="flex items-center gap-3 bg-indigo-50 px-4 py-1.5 rounded-full border border-indigo-100">
+      <div className="flex flex-col gap-1 min-w-[120px]">
+        <span className="text-[10px] font-black text-indigo-600 uppercase tracking-widest">
+          {t(progress.paused ? 'queueStatus.paused' : 'queueStatus.analyzing', { done, total: progress.total })}
+          {progress.failed > 0 && <span className="text-red-500 ml-1">{t('queueStatus.failed', { count: progress.failed })}</span>}
+        </span>
+        <div className="h-1 bg-indigo-100 rounded-full overflow-hidden">
+          <div className="h-full bg-indigo-600 transition-all duration-300" style={{ width: `${percent}%` }} />
+        </div>
+      </div>
+      <button
+        onClick={progress.paused ? onResume : onPause}
+        className="p-1.5 rounded-lg text-indigo-600 hover:bg-white transition-colors"
+        title={t(progress.paused ? 'queueStatus.resume' : 'queueStatus.pause')}
+      >
+        {progress.paused ? (
+          <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z" /></svg>
+        ) : (
+          <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path d="M6 5h4v14H6zM14 5h4v14h-4z" /></svg>
+        )}
+      </button>
+      <button
+        onClick={onCancel}
+        className="p-1.5 rounded-lg text-slate-400 hover:text-red-500 hover:bg-white transition-colors"
+        title={t('queueStatus.cancel')}
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" /></svg>
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,244 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { PhotoMetadata, ProviderId } from '../types';
+import { analyzeImage, getProviderSettings, PROVIDER_IDS } from '../services/analysisService';
+import { AnalysisError } from '../services/analysisErrors';
+import { acceptedUpdate, createProposal, needsReanalysis, ReanalysisProposal, ReviewField } from '../services/reanalysisService';
+import { blobToBase64 } from '../services/fileUtils';
+import { t } from '../services/i18nService';
+import * as db from '../services/dbService';
+
+interface ReanalyzeViewProps {
+  photos: PhotoMetadata[];
+  selectedIds: string[] | null; // 一覧や詳細から開いた場合の対象。null なら失敗・位置なしの写真
+  onApply: (patches: Record<string, Partial<PhotoMetadata>>) => Promise<void>;
+  onBack: () => void;
+}
+
+type Target = 'selected' | 'needsReanalysis';
+
+const inputClassName = "bg-slate-50 border border-slate-200 rounded-2xl px-6 py-4 font-bold focus:ring-4 focus:ring-indigo-500/10 outline-none transition-all";
+const labelClassName = "text-xs font-black text-slate-400 uppercase tracking-widest ml-1";
+
+const errorMessage = (error: unknown): string =>
+  error instanceof AnalysisError ? `${error.kind}: ${error.message}` : String(error instanceof Error ? error.message : error);
+
+/**
+ * 写真を解析し直し、解析前後の値を見比べて項目ごとに採用・却下する画面
+ */
+export const ReanalyzeView: React.FC<ReanalyzeViewProps> = ({ photos, selectedIds, onApply, onBack }) => {
+  const [target, setTarget] = useState<Target>(selectedIds ? 'selected' : 'needsReanalysis');
+  const [providerId, setProviderId] = useState<ProviderId>(() => getProviderSettings().providerId);
+  const [instructions, setInstructions] = useState('');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [proposals, setProposals] = useState<ReanalysisProposal[]>([]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  // 写真ごとに採用する項目（初期状態はすべて採用）
+  const [accepted, setAccepted] = useState<Record<string, Set<ReviewField>>>({});
+  const cancelledRef = useRef(false);
+
+  // 画面を離れたら実行中の解析を止める
+  useEffect(() => () => { cancelledRef.current = true; }, []);
+
+  const photosById = useMemo(() => new Map(photos.map(p => [p.id, p])), [photos]);
+  const needsIds = useMemo(() => photos.filter(needsReanalysis).map(p => p.id), [photos]);
+  const targetIds = target === 'selected' && selectedIds ? selectedIds.filter(id => photosById.has(id)) : needsIds;
+  const running = progress !== null && progress.done < progress.total;
+
+  const run = async () => {
+    cancelledRef.current = false;
+    setProposals([]);
+    setErrors({});
+    setAccepted({});
+    setProgress({ done: 0, total: targetIds.length });
+
+    for (const photoId of targetIds) {
+      if (cancelledRef.current) break;
+      try {
+        const photo = await db.getPhoto(photoId);
+        if (!photo || !photo.fileBlob) throw new Error(t('error.photoFileMissing'));
+        const base64Data = await blobToBase64(photo.fileBlob);
+        const result = await analyzeImage(base64Data, photo.fileBlob.type, { providerId, instructions });
+        if (cancelledRef.current) break;
+        const proposal = createProposal(photo, result);
+        setProposals(prev => [...prev, proposal]);
+        setAccepted(prev => ({ ...prev, [photoId]: new Set(proposal.changes.map(change => change.field)) }));
+      } catch (error) {
+        console.error("[VisionSort] Reanalysis Error:", error);
+        setErrors(prev => ({ ...prev, [photoId]: errorMessage(error) }));
+      }
+      setProgress(prev => prev && { ...prev, done: prev.done + 1 });
+    }
+    setProgress(prev => prev && { ...prev, total: prev.done });
+  };
+
+  const toggleField = (photoId: string, field: ReviewField) => {
+    const next = new Set(accepted[photoId]);
+    if (next.has(field)) next.delete(field);
+    else next.add(field);
+    setAccepted(prev => ({ ...prev, [photoId]: next }));
+  };
+
+  const discard = (photoIds: string[]) => {
+    const removed = new Set(photoIds);
+    setProposals(prev => prev.filter(proposal => !removed.has(proposal.photoId)));
+  };
+
+  const apply = async (targets: ReanalysisProposal[]) => {
+    const patches: Record<string, Partial<PhotoMetadata>> = {};
+    targets.forEach(proposal => {
+      const photo = photosById.get(proposal.photoId);
+      if (photo) patches[proposal.photoId] = acceptedUpdate(photo, proposal, Array.from(accepted[proposal.photoId] || []));
+    });
+    if (Object.keys(patches).length > 0) await onApply(patches);
+    discard(targets.map(proposal => proposal.photoId));
+  };
+
+  const failedIds = Object.keys(errors);
+
+  return (
+    <div className="max-w-5xl mx-auto px-6 py-12 w-full animate-in slide-in-from-bottom-8 duration-500">
+      <div className="flex items-center gap-6 mb-10">
+        <button onClick={onBack} className="p-3 bg-white hover:bg-slate-50 rounded-2xl transition-all border border-slate-200 shadow-sm">
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 19l-7-7 7-7" /></svg>
+        </button>
+        <div className="flex-1">
+          <h2 className="text-4xl font-black text-slate-900 leading-none mb-1">{t('reanalyze.title')}</h2>
+          <p className="text-sm font-bold text-indigo-500 uppercase tracking-widest">{t('reanalyze.resultsToReview', { count: proposals.length })}</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-[2.5rem] shadow-xl border border-slate-100 p-8 space-y-6 mb-10">
+        <div className="flex flex-col gap-2">
+          <label className={labelClassName}>{t('reanalyze.target')}</label>
+          <div className="flex flex-wrap gap-2">
+            {selectedIds && (
+              <button
+                onClick={() => setTarget('selected')}
+                disabled={running}
+                className={`px-4 py-2 rounded-xl text-xs font-black transition-all ${target === 'selected' ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+              >
+                {t('reanalyze.selected', { count: selectedIds.length })}
+              </button>
+            )}
+            <button
+              onClick={() => setTarget('needsReanalysis')}
+              disabled={running}
+              className={`px-4 py-2 rounded-xl text-xs font-black transition-all ${target === 'needsReanalysis' ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+            >
+              {t('reanalyze.needsReanalysis', { count: needsIds.length })}
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+          <div className="flex flex-col gap-2">
+            <label className={labelClassName}>{t('reanalyze.provider')}</label>
+            <select value={providerId} onChange={(e) => setProviderId(e.target.value as ProviderId)} disabled={running} className={`${inputClassName} cursor-pointer`}>
+              {PROVIDER_IDS.map(id => <option key={id} value={id}>{t(`provider.${id}`)}</option>)}
+            </select>
+          </div>
+          <div className="flex flex-col gap-2">
+            <label className={labelClassName}>{t('reanalyze.instructions')}</label>
+            <textarea
+              value={instructions}
+              onChange={(e) => setInstructions(e.target.value)}
+              disabled={running}
+              rows={2}
+              placeholder={t('reanalyze.instructionsPlaceholder')}
+              className={`${inputClassName} resize-none`}
+            />
+          </div>
+        </div>
+        <p className="text-xs font-bold text-slate-400 ml-1">
+          {t('reanalyze.note')}
+        </p>
+
+        <div className="flex items-center gap-4">
+          {running ? (
+            <button onClick={() => { cancelledRef.current = true; }} className="px-6 py-3 bg-white border-2 border-red-100 text-red-600 hover:bg-red-50 rounded-2xl font-black text-sm transition-all active:scale-95">
+              {t('reanalyze.stop')}
+            </button>
+          ) : (
+            <button
+              onClick={run}
+              disabled={targetIds.length === 0}
+              className="px-6 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 text-white rounded-2xl font-black text-sm transition-all active:scale-95"
+            >
+              {t('reanalyze.run', { count: targetIds.length })}
+            </button>
+          )}
+          {progress && (
+            <span className="text-sm font-bold text-slate-500">
+              {progress.done} / {progress.total}{failedIds.length > 0 && t('reanalyze.failedCount', { count: failedIds.length })}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {proposals.length > 0 && (
+        <div className="flex justify-end gap-3 mb-6">
+          <button onClick={() => discard(proposals.map(p => p.photoId))} className="px-6 py-3 text-slate-500 hover:bg-slate-100 rounded-2xl font-black text-sm transition-colors">
+            {t('reanalyze.rejectAll')}
+          </button>
+          <button onClick={() => apply(proposals)} className="px-6 py-3 bg-slate-900 text-white rounded-2xl font-black text-sm transition-all active:scale-95">
+            {t('reanalyze.applyAll')}
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-6 pb-20">
+        {proposals.map(proposal => {
+          const photo = photosById.get(proposal.photoId);
+          if (!photo) return null;
+          const fields = accepted[proposal.photoId] || new Set<ReviewField>();
+          return (
+            <div key={proposal.photoId} className="bg-white rounded-[2.5rem] shadow-xl border border-slate-100 p-6 flex flex-col md:flex-row gap-6">
+              <div className="w-full md:w-40 shrink-0 space-y-2">
+                <div className="aspect-square bg-slate-100 rounded-3xl overflow-hidden">
+                  <img src={photo.url} alt={photo.name} className="w-full h-full object-cover" />
+                </div>
+                <p className="text-[10px] font-black text-slate-500 truncate" title={photo.name}>{photo.name}</p>
+              </div>
+
+              <div className="flex-1 space-y-3">
+                {proposal.changes.length === 0 && (
+                  <p className="text-sm font-bold text-slate-400 py-4">{t('reanalyze.noChanges')}</p>
+                )}
+                {proposal.changes.map(change => (
+                  <label key={change.field} className="flex items-start gap-3 p-3 rounded-2xl hover:bg-slate-50 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={fields.has(change.field)}
+                      onChange={() => toggleField(proposal.photoId, change.field)}
+                      className="w-5 h-5 mt-0.5 accent-indigo-600"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t(`field.${change.field}`)}</p>
+                      <p className={`text-sm font-bold text-slate-400 break-words ${fields.has(change.field) ? 'line-through' : ''}`}>{change.before || t('reanalyze.empty')}</p>
+                      <p className={`text-sm font-black break-words ${fields.has(change.field) ? 'text-indigo-600' : 'text-slate-300'}`}>→ {change.after || t('reanalyze.empty')}</p>
+                    </div>
+                  </label>
+                ))}
+                <div className="flex justify-end gap-2 pt-2">
+                  <button onClick={() => discard([proposal.photoId])} className="px-4 py-2 text-slate-500 hover:bg-slate-100 rounded-xl text-xs font-black transition-colors">{t('reanalyze.reject')}</button>
+                  <button onClick={() => apply([proposal])} className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-xs font-black transition-all active:scale-95">{t('reanalyze.apply')}</button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+
+        {failedIds.length > 0 && (
+          <div className="bg-red-50 rounded-[2rem] p-6 space-y-1">
+            <p className="text-xs font-black text-red-500 uppercase tracking-widest mb-2">{t('reanalyze.failed')}</p>
+            {failedIds.map(photoId => (
+              <p key={photoId} className="text-xs font-bold text-red-600 truncate">
+                {photosById.get(photoId)?.name || photoId}: {errors[photoId]}
+              </p>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
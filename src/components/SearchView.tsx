@@ -0,0 +1,93 @@
+import React from 'react';
+import { PhotoMetadata } from '../types';
+import { highlightSegments, SearchField, SearchResult } from '../services/searchService';
+import { formatDate, MessageKey, photoPlaceLabel, t } from '../services/i18nService';
+
+interface SearchViewProps {
+  query: string;
+  results: SearchResult[];
+  photosById: Map<string, PhotoMetadata>;
+  getFieldText: (photoId: string, field: SearchField) => string;
+  onSelect: (photo: PhotoMetadata) => void;
+}
+
+const FIELD_LABELS: Record<SearchField, MessageKey> = {
+  locationName: 'field.locationName',
+  country: 'field.country',
+  tags: 'field.tags',
+  description: 'field.description',
+  name: 'search.fieldName',
+  note: 'search.fieldNote'
+};
+
+const SNIPPET_CONTEXT = 40;
+
+/**
+ * 長い文章は最初に一致した箇所の前後だけを切り出す
+ */
+const snippet = (text: string, query: string) => {
+  const segments = highlightSegments(text, query);
+  const firstMatch = segments.findIndex(s => s.match);
+  if (text.length <= SNIPPET_CONTEXT * 3 || firstMatch === -1) return segments;
+
+  const offset = segments.slice(0, firstMatch).reduce((sum, s) => sum + s.text.length, 0);
+  const start = Math.max(0, offset - SNIPPET_CONTEXT);
+  const clipped = highlightSegments(text.slice(start, offset + SNIPPET_CONTEXT * 2), query);
+  if (start > 0) clipped.unshift({ text: '…', match: false });
+  return clipped;
+};
+
+const Highlighted: React.FC<{ text: string; query: string }> = ({ text, query }) => (
+  <>
+    {snippet(text, query).map((segment, i) => segment.match
+      ? <mark key={i} className="bg-yellow-200 text-slate-900 rounded px-0.5">{segment.text}</mark>
+      : <React.Fragment key={i}>{segment.text}</React.Fragment>)}
+  </>
+);
+
+export const SearchView: React.FC<SearchViewProps> = ({ query, results, photosById, getFieldText, onSelect }) => {
+  return (
+    <div className="max-w-4xl mx-auto px-6 py-12 w-full animate-in slide-in-from-bottom-8 duration-500">
+      <div className="mb-10">
+        <h2 className="text-4xl font-black text-slate-900 leading-none mb-1">{t('search.title')}</h2>
+        <p className="text-sm font-bold text-indigo-500 uppercase tracking-widest">{t('search.results', { count: results.length, query })}</p>
+      </div>
+
+      <div className="space-y-4 pb-20">
+        {results.map(result => {
+          const photo = photosById.get(result.photoId);
+          if (!photo) return null;
+          return (
+            <button
+              key={result.photoId}
+              onClick={() => onSelect(photo)}
+              className="w-full text-left bg-white rounded-[2rem] shadow-sm hover:shadow-xl border border-slate-100 p-5 flex gap-5 transition-all"
+            >
+              <div className="w-24 h-24 rounded-2xl overflow-hidden bg-slate-100 shrink-0">
+                <img src={photo.url} alt={photo.name} className="w-full h-full object-cover" />
+              </div>
+              <div className="flex-1 min-w-0 space-y-1">
+                <p className="text-[10px] font-black text-slate-400 uppercase">{formatDate(photo.date)}</p>
+                <h3 className="text-lg font-black text-slate-900 truncate">
+                  <Highlighted text={photoPlaceLabel(photo)} query={query} />
+                </h3>
+                {result.matchedFields.filter(field => field !== 'locationName').map(field => (
+                  <p key={field} className="text-sm text-slate-500 line-clamp-2">
+                    <span className="text-[10px] font-black text-indigo-400 uppercase mr-2">{t(FIELD_LABELS[field])}</span>
+                    <Highlighted text={getFieldText(result.photoId, field)} query={query} />
+                  </p>
+                ))}
+              </div>
+            </button>
+          );
+        })}
+
+        {results.length === 0 && (
+          <div className="text-center py-20">
+            <p className="text-slate-400 font-bold">{t('search.noResults')}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,245 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { PhotoMetadata, PhotoScope } from '../types';
+import { getTripSettings, segmentTrips } from '../services/tripService';
+import { formatDistance } from '../services/routeService';
+import { computeLibraryStats, formatBytes, PlaceStat } from '../services/statsService';
+import { countryName } from '../services/geocoderService';
+import { formatDate, formatYear, t } from '../services/i18nService';
+
+type ScopedView = 'map' | 'calendar' | 'all';
+type Period = 'month' | 'year';
+
+interface StatsViewProps {
+  photos: PhotoMetadata[];
+  onOpenScope: (scope: PhotoScope, view: ScopedView) => void;
+  onOpenMonth: (month: string) => void; // YYYY-MM のカレンダーを開く
+  onOpenDate: (date: string) => void;   // その日のタイムラインを開く
+}
+
+interface RankItem {
+  key: string;
+  label: string;
+  caption?: string;
+  value: number;
+  valueLabel: string;
+  onSelect: () => void;
+}
+
+const sectionClassName = "bg-white rounded-[2.5rem] shadow-xl border border-slate-100 p-8 space-y-5";
+const headingClassName = "text-xl font-black text-slate-900";
+
+const percent = (count: number, total: number) => (total > 0 ? Math.round((count / total) * 1000) / 10 : 0);
+
+/**
+ * 横棒の順位表。行をクリックすると対応する写真に絞り込む
+ */
+const RankChart: React.FC<{ items: RankItem[]; empty: string }> = ({ items, empty }) => {
+  const max = Math.max(1, ...items.map(item => item.value));
+  if (items.length === 0) return <p className="text-sm font-bold text-slate-400">{empty}</p>;
+  return (
+    <div className="space-y-1">
+      {items.map(item => (
+        <button key={item.key} onClick={item.onSelect} className="group w-full flex items-center gap-4 px-3 py-2 rounded-xl hover:bg-indigo-50 text-left transition-colors">
+          <div className="w-40 shrink-0">
+            <p className="text-sm font-black text-slate-700 truncate group-hover:text-indigo-700">{item.label}</p>
+            {item.caption && <p className="text-[10px] font-bold text-slate-400 truncate">{item.caption}</p>}
+          </div>
+          <div className="flex-1 h-3 bg-slate-100 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-400 group-hover:bg-indigo-600 rounded-full transition-colors" style={{ width: `${(item.value / max) * 100}%` }} />
+          </div>
+          <span className="w-20 shrink-0 text-right text-xs font-black text-slate-500">{item.valueLabel}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * 縦棒の枚数グラフ。件数の多い月でも潰れないよう横にスクロールする
+ */
+const PeriodChart: React.FC<{ items: { key: string; count: number }[]; onSelect: (key: string) => void }> = ({ items, onSelect }) => {
+  const [hovered, setHovered] = useState<string | null>(null);
+  const max = Math.max(1, ...items.map(item => item.count));
+  const active = items.find(item => item.key === hovered);
+  return (
+    <div className="space-y-2">
+      <p className="h-4 text-xs font-black text-indigo-600">{active ? `${active.key} · ${t('common.photos', { count: active.count })}` : ''}</p>
+      <div className="flex items-end gap-1 h-48 overflow-x-auto pb-6">
+        {items.map(item => (
+          <button
+            key={item.key}
+            onClick={() => onSelect(item.key)}
+            onMouseEnter={() => setHovered(item.key)}
+            onMouseLeave={() => setHovered(null)}
+            title={`${item.key}: ${t('common.photos', { count: item.count })}`}
+            className="relative group h-full min-w-[14px] flex-1 flex items-end"
+          >
+            <div
+              className={`w-full rounded-t-md transition-colors ${item.count === 0 ? 'bg-slate-100' : 'bg-indigo-400 group-hover:bg-indigo-600'}`}
+              style={{ height: `${Math.max(2, (item.count / max) * 100)}%` }}
+            />
+            {(item.key.length === 4 || item.key.endsWith('-01')) && (
+              <span className="absolute -bottom-5 left-0 text-[9px] font-black text-slate-400 whitespace-nowrap">{item.key.slice(0, 4)}</span>
+            )}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const ShareBar: React.FC<{ label: string; count: number; total: number; color: string; onSelect: () => void }> = ({ label, count, total, color, onSelect }) => (
+  <button onClick={onSelect} disabled={count === 0} className="group w-full text-left space-y-2 disabled:cursor-default">
+    <div className="flex justify-between text-sm font-black text-slate-700">
+      <span className="group-hover:text-indigo-700">{label}</span>
+      <span>{t('stats.share', { count, percent: percent(count, total) })}</span>
+    </div>
+    <div className="h-3 bg-slate-100 rounded-full overflow-hidden">
+      <div className={`h-full rounded-full ${color}`} style={{ width: `${percent(count, total)}%` }} />
+    </div>
+  </button>
+);
+
+const SummaryCard: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="bg-white rounded-[2rem] shadow-xl border border-slate-100 p-6">
+    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{label}</p>
+    <p className="text-2xl font-black text-slate-900 mt-1">{value}</p>
+  </div>
+);
+
+/**
+ * ライブラリ全体の統計。グラフをクリックすると一覧・地図・カレンダーに絞り込んで開く
+ */
+export const StatsView: React.FC<StatsViewProps> = ({ photos, onOpenScope, onOpenMonth, onOpenDate }) => {
+  const [period, setPeriod] = useState<Period>('month');
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+  const trips = useMemo(() => segmentTrips(photos, getTripSettings()), [photos]);
+  const stats = useMemo(() => computeLibraryStats(photos, trips), [photos, trips]);
+
+  useEffect(() => {
+    navigator.storage?.estimate?.()
+      .then(setStorageEstimate)
+      .catch(e => console.warn("[VisionSort] Storage estimate failed:", e));
+  }, [photos]);
+
+  const totalDistance = stats.trips.reduce((sum, trip) => sum + trip.distanceKm, 0);
+
+  // 国は国コードで集計しているため、表示するときに国名にする
+  const placeItems = (places: PlaceStat[], kind: 'country' | 'prefecture'): RankItem[] => places.map(place => {
+    const label = kind === 'country' ? countryName(place.name) : place.name;
+    return {
+      key: place.name,
+      label,
+      caption: t('stats.firstVisit', { date: formatDate(place.firstVisit) }),
+      value: place.photoIds.length,
+      valueLabel: t('common.photos', { count: place.photoIds.length }),
+      onSelect: () => onOpenScope({ kind: 'stats', id: `${kind}:${place.name}`, name: label, photoIds: place.photoIds }, 'map')
+    };
+  });
+
+  const openPhotos = (id: string, name: string, photoIds: string[]) =>
+    onOpenScope({ kind: 'stats', id, name, photoIds }, 'all');
+
+  const handleSelectPeriod = (key: string) => {
+    if (period === 'month') {
+      onOpenMonth(key);
+      return;
+    }
+    openPhotos(`year:${key}`, formatYear(Number(key)), photos.filter(p => p.date.startsWith(key)).map(p => p.id));
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-6 py-12 w-full animate-in slide-in-from-bottom-8 duration-500 space-y-8 pb-20">
+      <div>
+        <h2 className="text-4xl font-black text-slate-900 leading-none mb-1">{t('stats.title')}</h2>
+        <p className="text-sm font-bold text-indigo-500 uppercase tracking-widest">{t('stats.summary', { photos: stats.total, trips: trips.length })}</p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <SummaryCard label={t('stats.countries')} value={String(stats.countries.length)} />
+        <SummaryCard label={t('stats.prefectures')} value={`${stats.prefectures.length} / 47`} />
+        <SummaryCard label={t('stats.years')} value={String(stats.years.length)} />
+        <SummaryCard label={t('stats.distance')} value={formatDistance(totalDistance)} />
+        <SummaryCard label={t('stats.storage')} value={formatBytes(stats.storageBytes)} />
+      </div>
+
+      <section className={sectionClassName}>
+        <div className="flex items-center justify-between gap-4">
+          <h3 className={headingClassName}>{period === 'month' ? t('stats.photosPerMonth') : t('stats.photosPerYear')}</h3>
+          <div className="flex bg-slate-100 p-1 rounded-2xl">
+            {([['month', t('stats.month')], ['year', t('stats.year')]] as [Period, string][]).map(([value, label]) => (
+              <button key={value} onClick={() => setPeriod(value)} className={`px-4 py-1.5 rounded-xl text-xs font-bold ${period === value ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}>{label}</button>
+            ))}
+          </div>
+        </div>
+        {stats.months.length === 0
+          ? <p className="text-sm font-bold text-slate-400">{t('stats.noDates')}</p>
+          : <PeriodChart items={period === 'month' ? stats.months : stats.years} onSelect={handleSelectPeriod} />}
+        <p className="text-xs font-bold text-slate-400">{period === 'month' ? t('stats.monthHint') : t('stats.yearHint')}</p>
+      </section>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <section className={sectionClassName}>
+          <h3 className={headingClassName}>{t('stats.visitedCountries')}</h3>
+          <RankChart items={placeItems(stats.countries, 'country')} empty={t('stats.noCountries')} />
+        </section>
+        <section className={sectionClassName}>
+          <h3 className={headingClassName}>{t('stats.visitedPrefectures')}</h3>
+          <RankChart items={placeItems(stats.prefectures, 'prefecture')} empty={t('stats.noPrefectures')} />
+        </section>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <section className={sectionClassName}>
+          <h3 className={headingClassName}>{t('stats.busiestDays')}</h3>
+          <RankChart
+            items={stats.busiestDays.map(day => ({
+              key: day.date,
+              label: formatDate(day.date),
+              value: day.count,
+              valueLabel: t('common.photos', { count: day.count }),
+              onSelect: () => onOpenDate(day.date)
+            }))}
+            empty={t('stats.noDates')}
+          />
+        </section>
+        <section className={sectionClassName}>
+          <h3 className={headingClassName}>{t('stats.tripDistances')}</h3>
+          <RankChart
+            items={[...stats.trips].reverse().map(({ trip, distanceKm }) => ({
+              key: trip.id,
+              label: trip.name,
+              caption: `${formatDate(trip.startDate)} · ${t('common.photos', { count: trip.photoIds.length })}`,
+              value: distanceKm,
+              valueLabel: formatDistance(distanceKm),
+              onSelect: () => onOpenScope({ kind: 'trip', id: trip.id, name: trip.name, photoIds: trip.photoIds }, 'map')
+            }))}
+            empty={t('stats.noTrips')}
+          />
+        </section>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <section className={sectionClassName}>
+          <h3 className={headingClassName}>{t('stats.health')}</h3>
+          <ShareBar label={t('stats.unmapped')} count={stats.unmappedIds.length} total={stats.total} color="bg-amber-400" onSelect={() => openPhotos('unmapped', t('stats.unmapped'), stats.unmappedIds)} />
+          <ShareBar label={t('stats.failed')} count={stats.failedIds.length} total={stats.total} color="bg-red-400" onSelect={() => openPhotos('failed', t('stats.failed'), stats.failedIds)} />
+          <ShareBar label={t('stats.pending')} count={stats.pendingIds.length} total={stats.total} color="bg-slate-400" onSelect={() => openPhotos('pending', t('stats.pending'), stats.pendingIds)} />
+        </section>
+        <section className={sectionClassName}>
+          <h3 className={headingClassName}>{t('stats.storageTitle')}</h3>
+          <div className="space-y-1 text-sm font-bold text-slate-600">
+            <p>{t('stats.photoFiles')} <span className="text-indigo-600">{formatBytes(stats.storageBytes)}</span>{t('stats.averageSize', { size: formatBytes(stats.total > 0 ? Math.round(stats.storageBytes / stats.total) : 0) })}</p>
+            {storageEstimate?.usage !== undefined && <p>{t('stats.browserUsage', { usage: formatBytes(storageEstimate.usage) })}{storageEstimate.quota ? ` / ${formatBytes(storageEstimate.quota)}` : ''}</p>}
+          </div>
+          {storageEstimate?.usage !== undefined && storageEstimate.quota ? (
+            <div className="h-3 bg-slate-100 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-400 rounded-full" style={{ width: `${Math.max(1, percent(storageEstimate.usage, storageEstimate.quota))}%` }} />
+            </div>
+          ) : null}
+          <p className="text-xs font-bold text-slate-400">{t('stats.storageNote')}</p>
+        </section>
+      </div>
+    </div>
+  );
+};
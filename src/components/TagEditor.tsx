@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { PhotoMetadata } from '../types';
+import { addTag, removeTag } from '../services/tagService';
+import { t } from '../services/i18nService';
+
+interface TagEditorProps {
+  photo: PhotoMetadata;
+  suggestions: string[]; // 入力候補に出すライブラリの既存タグ
+  onChange: (fields: Pick<PhotoMetadata, 'tags' | 'aiTags'>, label: string) => void;
+}
+
+/**
+ * 写真のタグを付け外しする。AI が提案したタグは点線で表示し、クリックすると自分のタグとして確定する
+ */
+export const TagEditor: React.FC<TagEditorProps> = ({ photo, suggestions, onChange }) => {
+  const [draft, setDraft] = useState('');
+  const aiTags = new Set(photo.aiTags || []);
+
+  const submit = () => {
+    if (!draft.trim()) return;
+    onChange(addTag(photo, draft), t('history.addPhotoTag', { tag: draft.trim() }));
+    setDraft('');
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('tags.label')}</label>
+      <div className="flex flex-wrap gap-1.5">
+        {(photo.tags || []).map(tag => (
+          <span
+            key={tag}
+            className={`flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-lg text-xs font-bold ${aiTags.has(tag) ? 'border border-dashed border-slate-300 text-slate-500' : 'bg-indigo-50 text-indigo-600'}`}
+          >
+            <button
+              onClick={() => { if (aiTags.has(tag)) onChange(addTag(photo, tag), t('history.confirmPhotoTag', { tag })); }}
+              className={aiTags.has(tag) ? 'hover:text-indigo-600' : 'cursor-default'}
+              title={aiTags.has(tag) ? t('tags.aiSuggestion') : undefined}
+            >
+              #{tag}
+            </button>
+            <button onClick={() => onChange(removeTag(photo, tag), t('history.removePhotoTag', { tag }))} className="w-4 h-4 rounded hover:bg-black/5 leading-none" title={t('tags.remove')}>×</button>
+          </span>
+        ))}
+      </div>
+      <input
+        type="text"
+        list="visionsort-tag-suggestions"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => { if (e.key === 'Enter') submit(); }}
+        placeholder={t('tags.add')}
+        className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500/20"
+      />
+      <datalist id="visionsort-tag-suggestions">
+        {suggestions.filter(tag => !(photo.tags || []).includes(tag)).map(tag => <option key={tag} value={tag} />)}
+      </datalist>
+    </div>
+  );
+};
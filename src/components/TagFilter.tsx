@@ -0,0 +1,54 @@
+import React, { useMemo, useState } from 'react';
+import { PhotoMetadata } from '../types';
+import { countTags } from '../services/tagService';
+import { t } from '../services/i18nService';
+
+interface TagFilterProps {
+  photos: PhotoMetadata[]; // 候補として数えるタグの対象（旅行・アルバムの絞り込み後）
+  selected: string[];
+  onChange: (tags: string[]) => void;
+}
+
+/**
+ * ヘッダーに表示するタグの絞り込み。選んだタグをすべて持つ写真だけをリスト・マップ・カレンダーに表示する
+ */
+export const TagFilter: React.FC<TagFilterProps> = ({ photos, selected, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const tags = useMemo(() => countTags(photos), [photos]);
+
+  const toggle = (tag: string) => {
+    onChange(selected.includes(tag) ? selected.filter(t => t !== tag) : [...selected, tag]);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`flex items-center gap-2 px-4 py-1.5 rounded-full border text-xs font-black max-w-xs ${selected.length > 0 ? 'bg-indigo-50 text-indigo-700 border-indigo-100' : 'bg-slate-100 text-slate-500 border-slate-200'}`}
+      >
+        <span className="truncate">{selected.length > 0 ? t('tags.filterActive', { tags: selected.map(tag => `#${tag}`).join(' ') }) : t('tags.filterButton')}</span>
+      </button>
+
+      {open && (
+        <div className="absolute left-0 top-full mt-2 w-72 max-h-96 overflow-auto custom-scrollbar bg-white rounded-3xl shadow-2xl border border-slate-100 p-4 space-y-1 z-[60]">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-xs font-black text-slate-400 uppercase tracking-widest ml-1">{t('tags.filterTitle')}</p>
+            {selected.length > 0 && (
+              <button onClick={() => onChange([])} className="text-[10px] font-black text-indigo-600 hover:underline">{t('tags.clear')}</button>
+            )}
+          </div>
+          {tags.map(tag => (
+            <label key={tag.name} className="flex items-center gap-3 px-3 py-1.5 rounded-xl hover:bg-slate-50 cursor-pointer">
+              <input type="checkbox" checked={selected.includes(tag.name)} onChange={() => toggle(tag.name)} className="w-4 h-4 accent-indigo-600" />
+              <span className="flex-1 text-xs font-bold text-slate-700 truncate">#{tag.name}</span>
+              <span className="text-[10px] font-bold text-slate-400">{tag.count}</span>
+            </label>
+          ))}
+          {tags.length === 0 && (
+            <p className="text-xs font-bold text-slate-400 text-center py-6">{t('tags.noTaggedPhotos')}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
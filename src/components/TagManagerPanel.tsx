@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import * as db from '../services/dbService';
+import { normalizeTag, TagCount } from '../services/tagService';
+import { t } from '../services/i18nService';
+
+interface TagManagerPanelProps {
+  revision: number; // ライブラリが更新されるたびに変わり、タグの一覧を読み直す
+  onRename: (from: string, to: string) => Promise<void>;
+  onDelete: (tag: string) => Promise<void>;
+  onFilter: (tag: string) => void;
+}
+
+const inputClassName = "flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500/20";
+
+/**
+ * ライブラリのタグの一覧。名前の変更（既存のタグ名にすると統合）と削除を行う
+ */
+export const TagManagerPanel: React.FC<TagManagerPanelProps> = ({ revision, onRename, onDelete, onFilter }) => {
+  const [tags, setTags] = useState<TagCount[]>([]);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    db.countPhotosByTag()
+      .then(counts => {
+        if (cancelled) return;
+        setTags(Object.entries(counts)
+          .map(([name, count]) => ({ name, count }))
+          .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name)));
+      })
+      .catch(err => console.error("[VisionSort] Tag load error:", err));
+    return () => { cancelled = true; };
+  }, [revision]);
+
+  const startEditing = (tag: string) => {
+    setEditing(tag);
+    setDraft(tag);
+  };
+
+  const saveRename = async () => {
+    if (!editing) return;
+    const next = normalizeTag(draft);
+    if (!next || next === editing) {
+      setEditing(null);
+      return;
+    }
+    const target = tags.find(tag => tag.name === next);
+    if (target && !window.confirm(t('tagManager.confirmMerge', { from: editing, to: next, count: target.count }))) return;
+    setEditing(null);
+    await onRename(editing, next);
+  };
+
+  const handleDelete = async (tag: TagCount) => {
+    if (!window.confirm(t('tagManager.confirmDelete', { tag: tag.name, count: tag.count }))) return;
+    await onDelete(tag.name);
+  };
+
+  return (
+    <section className="space-y-6">
+      <div className="flex items-center gap-3 mb-2">
+        <div className="w-10 h-10 bg-indigo-100 text-indigo-600 rounded-xl flex items-center justify-center">
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" /></svg>
+        </div>
+        <h2 className="text-2xl font-black text-slate-900">{t('tagManager.title')}</h2>
+      </div>
+      <p className="text-slate-500 font-medium">{t('tagManager.description')}</p>
+
+      <div className="space-y-1 max-h-96 overflow-auto custom-scrollbar">
+        {tags.map(tag => (
+          <div key={tag.name} className="flex items-center gap-3 px-3 py-2 rounded-2xl hover:bg-slate-50">
+            {editing === tag.name ? (
+              <>
+                <input
+                  autoFocus
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') saveRename();
+                    if (e.key === 'Escape') setEditing(null);
+                  }}
+                  className={inputClassName}
+                />
+                <button onClick={saveRename} className="px-3 py-1.5 bg-indigo-600 text-white rounded-xl text-xs font-black active:scale-95 transition-all">{t('tagManager.save')}</button>
+                <button onClick={() => setEditing(null)} className="px-3 py-1.5 text-slate-500 hover:bg-slate-100 rounded-xl text-xs font-black transition-colors">{t('tagManager.cancel')}</button>
+              </>
+            ) : (
+              <>
+                <button onClick={() => onFilter(tag.name)} className="flex-1 min-w-0 text-left text-sm font-bold text-slate-700 truncate hover:text-indigo-600" title={t('tagManager.filter')}>
+                  #{tag.name}
+                </button>
+                <span className="text-xs font-black text-slate-400 shrink-0">{t('common.photos', { count: tag.count })}</span>
+                <button onClick={() => startEditing(tag.name)} className="px-3 py-1.5 text-slate-500 hover:bg-slate-100 rounded-xl text-xs font-black transition-colors">{t('tagManager.rename')}</button>
+                <button onClick={() => handleDelete(tag)} className="px-3 py-1.5 text-red-500 hover:bg-red-50 rounded-xl text-xs font-black transition-colors">{t('tagManager.delete')}</button>
+              </>
+            )}
+          </div>
+        ))}
+        {tags.length === 0 && (
+          <p className="text-sm font-bold text-slate-400 text-center py-6">{t('tagManager.empty')}</p>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -1,18 +1,42 @@
 
-import React from 'react';
-import { PhotoMetadata } from '../types';
+import React, { useEffect, useMemo, useState } from 'react';
+import { JournalEntry, PhotoMetadata } from '../types';
+import * as db from '../services/dbService';
+import { sortPhotosByTime } from '../services/tripService';
+import { buildRouteLegs, formatDistance, summarizeRouteByDay } from '../services/routeService';
+import { formatDate, formatDateRange, photoPlaceLabel, t } from '../services/i18nService';
+import { JournalEditor } from './JournalEditor';
 
 interface TimelineViewProps {
   date: string;
-  photos: PhotoMetadata[];
+  revision: number; // ライブラリが更新されるたびに変わり、その日の写真を読み直す
+  scopeIds?: Set<string> | null; // 旅行・アルバムで絞り込んでいる場合の対象
   notes: Record<string, string>;
   onUpdateNote: (photoId: string, note: string) => void;
+  dayEntry: JournalEntry;
+  tripEntry: JournalEntry | null; // この日を含む旅行の日記
+  onUpdateJournal: (entry: JournalEntry, body: string) => void;
   onBack: () => void;
 }
 
-export const TimelineView: React.FC<TimelineViewProps> = ({ date, photos, notes, onUpdateNote, onBack }) => {
-  // すべての保存形式が YYYY-MM-DD なので単純比較
-  const dayPhotos = photos.filter(p => p.date === date);
+export const TimelineView: React.FC<TimelineViewProps> = ({
+  date, revision, scopeIds, notes, onUpdateNote, dayEntry, tripEntry, onUpdateJournal, onBack
+}) => {
+  // ライブラリ全体ではなく、日付インデックスでその日の写真だけを読み込む
+  const [dayPhotos, setDayPhotos] = useState<PhotoMetadata[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    db.getPhotosByDateRange(date, date)
+      .then(result => { if (!cancelled) setDayPhotos(sortPhotosByTime(scopeIds ? result.filter(p => scopeIds.has(p.id)) : result)); })
+      .catch(err => console.error("[VisionSort] Timeline load error:", err));
+    return () => { cancelled = true; };
+  }, [date, revision, scopeIds]);
+
+  const legs = useMemo(() => buildRouteLegs(dayPhotos), [dayPhotos]);
+  const dayStats = useMemo(() => summarizeRouteByDay(dayPhotos, legs)[0], [dayPhotos, legs]);
+  // 写真ごとに、直前の地点から移動してきた区間の距離
+  const legDistanceByPhoto = useMemo(() => new Map(legs.map(leg => [leg.toId, leg.distanceKm])), [legs]);
 
   return (
     <div className="max-w-3xl mx-auto px-6 py-12 w-full animate-in slide-in-from-bottom-8 duration-500">
@@ -21,9 +45,34 @@ export const TimelineView: React.FC<TimelineViewProps> = ({ date, photos, notes,
           <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 19l-7-7 7-7" /></svg>
         </button>
         <div>
-          <h2 className="text-4xl font-black text-slate-900 leading-none mb-1">{date.replace(/-/g, '/')}</h2>
-          <p className="text-sm font-bold text-indigo-500 uppercase tracking-widest">TIMELINE DIARY</p>
+          <h2 className="text-4xl font-black text-slate-900 leading-none mb-1">{formatDate(date, 'long')}</h2>
+          <p className="text-sm font-bold text-indigo-500 uppercase tracking-widest">{t('timeline.subtitle')}</p>
         </div>
+        {dayStats && (
+          <div className="ml-auto flex gap-3">
+            <div className="bg-white border border-slate-200 rounded-2xl px-5 py-3 text-center shadow-sm">
+              <p className="text-lg font-black text-slate-900">{formatDistance(dayStats.distanceKm)}</p>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('timeline.distance')}</p>
+            </div>
+            <div className="bg-white border border-slate-200 rounded-2xl px-5 py-3 text-center shadow-sm">
+              <p className="text-lg font-black text-slate-900">{dayStats.places}</p>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('timeline.places')}</p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-6 mb-12">
+        <JournalEditor key={dayEntry.id} entry={dayEntry} label={t('timeline.dayJournal')} onChange={onUpdateJournal} />
+        {tripEntry && (
+          <JournalEditor
+            key={tripEntry.id}
+            entry={tripEntry}
+            label={t('timeline.tripJournal')}
+            caption={`${tripEntry.title || t('timeline.tripFallbackName')} (${formatDateRange(tripEntry.startDate, tripEntry.endDate)})`}
+            onChange={onUpdateJournal}
+          />
+        )}
       </div>
 
       <div className="space-y-12 relative">
@@ -31,6 +80,13 @@ export const TimelineView: React.FC<TimelineViewProps> = ({ date, photos, notes,
         
         {dayPhotos.map((photo, idx) => (
           <div key={photo.id} className="space-y-6">
+            {legDistanceByPhoto.has(photo.id) && (
+              <div className="flex justify-center">
+                <span className="bg-indigo-50 text-indigo-600 text-xs font-black px-4 py-1.5 rounded-full border border-indigo-100">
+                  ↓ {formatDistance(legDistanceByPhoto.get(photo.id)!)}
+                </span>
+              </div>
+            )}
             <div className="bg-white rounded-[2.5rem] shadow-xl overflow-hidden border border-slate-100 p-8 flex flex-col md:flex-row gap-8 hover:shadow-2xl transition-shadow">
               <div className="w-full md:w-64 aspect-square rounded-3xl overflow-hidden shrink-0 bg-slate-100">
                 <img src={photo.url} alt={photo.name} className="w-full h-full object-cover" />
@@ -40,9 +96,9 @@ export const TimelineView: React.FC<TimelineViewProps> = ({ date, photos, notes,
                   <div className="w-8 h-8 rounded-full bg-red-100 flex items-center justify-center text-red-500">
                     <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20"><path d="M5.05 4.05a7 7 0 119.9 9.9L10 18.9l-4.95-4.95a7 7 0 010-9.9zM10 11a2 2 0 100-4 2 2 0 000 4z" /></svg>
                   </div>
-                  <span className="text-xl font-black text-slate-900">{photo.locationName}</span>
+                  <span className="text-xl font-black text-slate-900">{photoPlaceLabel(photo)}</span>
                 </div>
-                <p className="text-slate-500 italic leading-relaxed text-sm mb-4">"{photo.description}"</p>
+                {photo.description && <p className="text-slate-500 italic leading-relaxed text-sm mb-4">"{photo.description}"</p>}
               </div>
             </div>
 
@@ -54,7 +110,7 @@ export const TimelineView: React.FC<TimelineViewProps> = ({ date, photos, notes,
                 <textarea
                   value={notes[photo.id] || ''}
                   onChange={(e) => onUpdateNote(photo.id, e.target.value)}
-                  placeholder="旅のメモ（移動手段、費用、感想など）を入力..."
+                  placeholder={t('timeline.notePlaceholder')}
                   className="w-full min-h-[120px] bg-white border border-slate-200 rounded-[2rem] p-8 text-slate-700 font-medium focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none transition-all resize-none shadow-sm"
                 />
               </div>
@@ -64,7 +120,7 @@ export const TimelineView: React.FC<TimelineViewProps> = ({ date, photos, notes,
 
         {dayPhotos.length === 0 && (
           <div className="text-center py-20">
-            <p className="text-slate-400 font-bold">この日の写真はありません</p>
+            <p className="text-slate-400 font-bold">{t('timeline.noPhotos')}</p>
           </div>
         )}
       </div>
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { TrashedPhoto, TrashSettings } from '../types';
+import * as db from '../services/dbService';
+import { formatDate, photoPlaceLabel, t } from '../services/i18nService';
+import { daysUntilPurge, getTrashSettings, RETENTION_OPTIONS, saveTrashSettings } from '../services/trashService';
+
+interface TrashViewProps {
+  revision: number; // ライブラリが更新されるたびに変わり、ゴミ箱を読み直す
+  onRestore: (photoIds: string[]) => Promise<void>;
+  onPurge: (photoIds: string[]) => Promise<void>;
+}
+
+/**
+ * 削除した写真の一覧。元に戻すか、完全に削除する
+ */
+export const TrashView: React.FC<TrashViewProps> = ({ revision, onRestore, onPurge }) => {
+  const [items, setItems] = useState<TrashedPhoto[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [settings, setSettings] = useState<TrashSettings>(getTrashSettings);
+
+  useEffect(() => {
+    let cancelled = false;
+    db.getTrash()
+      .then(result => {
+        if (cancelled) return;
+        setItems(result);
+        setSelected(prev => new Set(result.filter(item => prev.has(item.id)).map(item => item.id)));
+      })
+      .catch(err => console.error("[VisionSort] Trash load error:", err));
+    return () => { cancelled = true; };
+  }, [revision]);
+
+  const toggle = (photoId: string) => {
+    const next = new Set(selected);
+    if (next.has(photoId)) next.delete(photoId);
+    else next.add(photoId);
+    setSelected(next);
+  };
+
+  const updateRetention = (retentionDays: number) => {
+    const next = { ...settings, retentionDays };
+    setSettings(next);
+    saveTrashSettings(next);
+  };
+
+  const purge = async (photoIds: string[]) => {
+    if (photoIds.length === 0) return;
+    if (!window.confirm(t('trash.confirmPurge', { count: photoIds.length }))) return;
+    await onPurge(photoIds);
+  };
+
+  const selectedIds = Array.from(selected);
+
+  return (
+    <div className="max-w-[1400px] mx-auto px-6 py-12 w-full animate-in slide-in-from-bottom-8 duration-500">
+      <div className="flex flex-wrap items-end gap-6 mb-10">
+        <div className="flex-1">
+          <h2 className="text-4xl font-black text-slate-900 leading-none mb-1">{t('trash.title')}</h2>
+          <p className="text-sm font-bold text-indigo-500 uppercase tracking-widest">{t('trash.photos', { count: items.length })}</p>
+        </div>
+        <div className="flex flex-col gap-1">
+          <label className="text-xs font-black text-slate-400 uppercase tracking-widest ml-1">{t('trash.keepFor')}</label>
+          <select
+            value={settings.retentionDays}
+            onChange={(e) => updateRetention(parseInt(e.target.value, 10))}
+            className="bg-white border border-slate-200 rounded-2xl px-4 py-3 font-bold outline-none cursor-pointer"
+          >
+            {RETENTION_OPTIONS.map(days => <option key={days} value={days}>{t('trash.days', { count: days })}</option>)}
+          </select>
+        </div>
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={() => onRestore(selectedIds)}
+            disabled={selectedIds.length === 0}
+            className="px-6 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 text-white rounded-2xl font-black text-sm transition-all active:scale-95"
+          >
+            {t('trash.restore')}
+          </button>
+          <button
+            onClick={() => purge(selectedIds)}
+            disabled={selectedIds.length === 0}
+            className="px-6 py-3 bg-white border-2 border-red-100 text-red-600 hover:bg-red-50 disabled:opacity-40 rounded-2xl font-black text-sm transition-all active:scale-95"
+          >
+            {t('trash.delete')}
+          </button>
+          <button
+            onClick={() => purge(items.map(item => item.id))}
+            disabled={items.length === 0}
+            className="px-6 py-3 text-red-500 hover:text-red-700 disabled:opacity-40 rounded-2xl font-black text-sm transition-colors"
+          >
+            {t('trash.empty')}
+          </button>
+        </div>
+      </div>
+
+      <p className="text-slate-500 font-medium mb-8">
+        {t('trash.description', { days: settings.retentionDays })}
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-6 pb-20">
+        {items.map(item => {
+          const isSelected = selected.has(item.id);
+          return (
+            <button
+              key={item.id}
+              onClick={() => toggle(item.id)}
+              className={`bg-white rounded-[2rem] overflow-hidden border-4 text-left transition-all ${isSelected ? 'border-indigo-600 shadow-lg' : 'border-transparent shadow-sm hover:shadow-xl'}`}
+            >
+              <div className="aspect-square bg-slate-100">
+                <img src={item.photo.url} alt={item.photo.name} className="w-full h-full object-cover opacity-80" />
+              </div>
+              <div className="p-4 space-y-1">
+                <p className="text-sm font-black text-slate-900 truncate">{photoPlaceLabel(item.photo)}</p>
+                <p className="text-[10px] font-bold text-slate-400 truncate">{formatDate(item.photo.date)} ・ {item.photo.name}</p>
+                {item.note && <p className="text-[10px] font-bold text-slate-500 truncate">{t('trash.note', { note: item.note })}</p>}
+                <p className="text-[10px] font-black text-red-400 uppercase">{t('trash.daysLeft', { count: daysUntilPurge(item, settings) })}</p>
+              </div>
+            </button>
+          );
+        })}
+
+        {items.length === 0 && (
+          <div className="col-span-full text-center py-20">
+            <p className="text-slate-400 font-bold">{t('trash.isEmpty')}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
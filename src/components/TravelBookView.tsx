@@ -0,0 +1,168 @@
+import React, { useMemo, useState } from 'react';
+import { JournalEntry, PhotoMetadata } from '../types';
+import { getTripSettings, segmentTrips } from '../services/tripService';
+import { collectTravelBook, exportTravelBookHtml, exportTravelBookMarkdown, TravelBookSource } from '../services/travelBookService';
+import { downloadBlob } from '../services/fileUtils';
+import { formatDateRange, t } from '../services/i18nService';
+
+interface TravelBookViewProps {
+  photos: PhotoMetadata[];
+  notes: Record<string, string>;
+  journal: Record<string, JournalEntry>;
+  initialTripId: string | null; // 旅行から開いた場合はその旅行を選んでおく
+  onBack: () => void;
+}
+
+type SourceKind = 'trip' | 'range';
+type BookFormat = 'print' | 'html' | 'markdown';
+
+const inputClassName = "bg-slate-50 border border-slate-200 rounded-2xl px-6 py-4 font-bold focus:ring-4 focus:ring-indigo-500/10 outline-none transition-all";
+const labelClassName = "text-xs font-black text-slate-400 uppercase tracking-widest ml-1";
+
+/**
+ * 旅行または期間を選んで、印刷・配布用の旅行記を書き出す画面
+ */
+export const TravelBookView: React.FC<TravelBookViewProps> = ({ photos, notes, journal, initialTripId, onBack }) => {
+  const trips = useMemo(() => segmentTrips(photos, getTripSettings()), [photos]);
+  const initialTrip = trips.find(trip => trip.id === initialTripId) || trips[trips.length - 1];
+  const [kind, setKind] = useState<SourceKind>(initialTrip ? 'trip' : 'range');
+  const [tripId, setTripId] = useState(initialTrip?.id || '');
+  const [startDate, setStartDate] = useState(initialTrip?.startDate || new Date().toISOString().split('T')[0]);
+  const [endDate, setEndDate] = useState(initialTrip?.endDate || new Date().toISOString().split('T')[0]);
+  const [title, setTitle] = useState(initialTrip?.name || '');
+  const [busy, setBusy] = useState<BookFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedTrip = trips.find(trip => trip.id === tripId);
+
+  const source: TravelBookSource | null = kind === 'trip'
+    ? (selectedTrip ? { title, startDate: selectedTrip.startDate, endDate: selectedTrip.endDate, photoIds: selectedTrip.photoIds, coverPhotoId: selectedTrip.coverPhotoId } : null)
+    : (startDate && endDate && startDate <= endDate ? { title, startDate, endDate } : null);
+
+  const photoCount = !source ? 0
+    : source.photoIds ? source.photoIds.length
+    : photos.filter(p => p.date >= source.startDate && p.date <= source.endDate).length;
+
+  const selectTrip = (id: string) => {
+    const trip = trips.find(t => t.id === id);
+    setTripId(id);
+    if (trip) setTitle(trip.name);
+  };
+
+  const handleExport = async (format: BookFormat) => {
+    if (!source) return;
+    // ポップアップブロックを避けるため、書き出しを待つ前にウィンドウを開いておく
+    const printWindow = format === 'print' ? window.open('', '_blank') : null;
+    setBusy(format);
+    setError(null);
+    try {
+      const book = await collectTravelBook(source, notes, journal);
+      const fileBase = `travelbook-${source.startDate}`;
+      if (format === 'markdown') {
+        downloadBlob(await exportTravelBookMarkdown(book), `${fileBase}.zip`);
+        return;
+      }
+      const html = await exportTravelBookHtml(book);
+      if (format === 'html') {
+        downloadBlob(html, `${fileBase}.html`);
+      } else if (printWindow) {
+        // 印刷ダイアログは開いたタブのブラウザのメニューから使う
+        printWindow.location.href = URL.createObjectURL(html);
+      }
+    } catch (e) {
+      console.error("[VisionSort] Travel book export error:", e);
+      printWindow?.close();
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto px-6 py-12 w-full animate-in slide-in-from-bottom-8 duration-500">
+      <div className="flex items-center gap-6 mb-12">
+        <button onClick={onBack} className="p-3 bg-white hover:bg-slate-50 rounded-2xl transition-all border border-slate-200 shadow-sm">
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 19l-7-7 7-7" /></svg>
+        </button>
+        <div className="flex-1">
+          <h2 className="text-4xl font-black text-slate-900 leading-none mb-1">{t('bookView.title')}</h2>
+          <p className="text-sm font-bold text-indigo-500 uppercase tracking-widest">{t('bookView.photos', { count: photoCount })}</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-[2.5rem] shadow-xl border border-slate-100 p-8 space-y-6">
+        <div className="flex flex-col gap-2">
+          <label className={labelClassName}>{t('bookView.source')}</label>
+          <div className="flex flex-wrap gap-2">
+            {(([['trip', t('bookView.fromTrip')], ['range', t('bookView.fromRange')]]) as [SourceKind, string][]).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => setKind(value)}
+                disabled={value === 'trip' && trips.length === 0}
+                className={`px-4 py-2 rounded-xl text-xs font-black transition-all disabled:opacity-40 ${kind === value ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {kind === 'trip' ? (
+          <div className="flex flex-col gap-2">
+            <label className={labelClassName}>{t('bookView.trip')}</label>
+            <select value={tripId} onChange={(e) => selectTrip(e.target.value)} className={`${inputClassName} cursor-pointer`}>
+              {[...trips].reverse().map(trip => (
+                <option key={trip.id} value={trip.id}>{t('bookView.tripOption', { name: trip.name, range: formatDateRange(trip.startDate, trip.endDate), photos: t('common.photos', { count: trip.photoIds.length }) })}</option>
+              ))}
+            </select>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+            <div className="flex flex-col gap-2">
+              <label className={labelClassName}>{t('dateFilter.from')}</label>
+              <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClassName} />
+            </div>
+            <div className="flex flex-col gap-2">
+              <label className={labelClassName}>{t('dateFilter.to')}</label>
+              <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClassName} />
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-col gap-2">
+          <label className={labelClassName}>{t('bookView.bookTitle')}</label>
+          <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder={t('bookView.titlePlaceholder')} className={inputClassName} />
+        </div>
+
+        <p className="text-xs font-bold text-slate-400 ml-1">
+          {t('bookView.note')}
+        </p>
+
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={() => handleExport('print')}
+            disabled={!source || busy !== null}
+            className="px-6 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 text-white rounded-2xl font-black text-sm transition-all active:scale-95"
+          >
+            {busy === 'print' ? t('bookView.creating') : t('bookView.print')}
+          </button>
+          <button
+            onClick={() => handleExport('html')}
+            disabled={!source || busy !== null}
+            className="px-6 py-3 bg-slate-900 disabled:opacity-40 text-white rounded-2xl font-black text-sm transition-all active:scale-95"
+          >
+            {busy === 'html' ? t('bookView.creating') : t('bookView.downloadHtml')}
+          </button>
+          <button
+            onClick={() => handleExport('markdown')}
+            disabled={!source || busy !== null}
+            className="px-6 py-3 bg-slate-100 hover:bg-slate-200 disabled:opacity-40 text-slate-700 rounded-2xl font-black text-sm transition-all active:scale-95"
+          >
+            {busy === 'markdown' ? t('bookView.creating') : t('bookView.downloadMarkdown')}
+          </button>
+        </div>
+        {error && <p className="text-sm font-bold text-red-500">{t('bookView.exportFailed', { error })}</p>}
+      </div>
+    </div>
+  );
+};
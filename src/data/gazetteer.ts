@@ -0,0 +1,385 @@
+/**
+ * オフラインの逆ジオコーディング用の地名データ
+ * 都道府県庁所在地と主な観光地、世界の主要都市を収録した小さなデータセット
+ * 1行 = [日本語名, 英語名, 国コード, 地域名（都道府県・州など）, 緯度, 経度]
+ */
+
+export type GazetteerEntry = [nameJa: string, nameEn: string, country: string, region: string, latitude: number, longitude: number];
+
+export const COUNTRY_NAMES: Record<string, { ja: string; en: string }> = {
+  JP: { ja: "日本", en: "Japan" },
+  KR: { ja: "韓国", en: "South Korea" },
+  CN: { ja: "中国", en: "China" },
+  HK: { ja: "香港", en: "Hong Kong" },
+  MO: { ja: "マカオ", en: "Macau" },
+  TW: { ja: "台湾", en: "Taiwan" },
+  MN: { ja: "モンゴル", en: "Mongolia" },
+  TH: { ja: "タイ", en: "Thailand" },
+  VN: { ja: "ベトナム", en: "Vietnam" },
+  KH: { ja: "カンボジア", en: "Cambodia" },
+  LA: { ja: "ラオス", en: "Laos" },
+  MM: { ja: "ミャンマー", en: "Myanmar" },
+  MY: { ja: "マレーシア", en: "Malaysia" },
+  SG: { ja: "シンガポール", en: "Singapore" },
+  ID: { ja: "インドネシア", en: "Indonesia" },
+  PH: { ja: "フィリピン", en: "Philippines" },
+  IN: { ja: "インド", en: "India" },
+  NP: { ja: "ネパール", en: "Nepal" },
+  LK: { ja: "スリランカ", en: "Sri Lanka" },
+  MV: { ja: "モルディブ", en: "Maldives" },
+  AE: { ja: "アラブ首長国連邦", en: "United Arab Emirates" },
+  QA: { ja: "カタール", en: "Qatar" },
+  TR: { ja: "トルコ", en: "Turkey" },
+  IL: { ja: "イスラエル", en: "Israel" },
+  JO: { ja: "ヨルダン", en: "Jordan" },
+  EG: { ja: "エジプト", en: "Egypt" },
+  MA: { ja: "モロッコ", en: "Morocco" },
+  ZA: { ja: "南アフリカ", en: "South Africa" },
+  KE: { ja: "ケニア", en: "Kenya" },
+  TZ: { ja: "タンザニア", en: "Tanzania" },
+  GB: { ja: "イギリス", en: "United Kingdom" },
+  IE: { ja: "アイルランド", en: "Ireland" },
+  FR: { ja: "フランス", en: "France" },
+  BE: { ja: "ベルギー", en: "Belgium" },
+  NL: { ja: "オランダ", en: "Netherlands" },
+  LU: { ja: "ルクセンブルク", en: "Luxembourg" },
+  DE: { ja: "ドイツ", en: "Germany" },
+  AT: { ja: "オーストリア", en: "Austria" },
+  CH: { ja: "スイス", en: "Switzerland" },
+  IT: { ja: "イタリア", en: "Italy" },
+  VA: { ja: "バチカン", en: "Vatican City" },
+  ES: { ja: "スペイン", en: "Spain" },
+  PT: { ja: "ポルトガル", en: "Portugal" },
+  GR: { ja: "ギリシャ", en: "Greece" },
+  CZ: { ja: "チェコ", en: "Czechia" },
+  HU: { ja: "ハンガリー", en: "Hungary" },
+  PL: { ja: "ポーランド", en: "Poland" },
+  HR: { ja: "クロアチア", en: "Croatia" },
+  SI: { ja: "スロベニア", en: "Slovenia" },
+  DK: { ja: "デンマーク", en: "Denmark" },
+  SE: { ja: "スウェーデン", en: "Sweden" },
+  NO: { ja: "ノルウェー", en: "Norway" },
+  FI: { ja: "フィンランド", en: "Finland" },
+  IS: { ja: "アイスランド", en: "Iceland" },
+  EE: { ja: "エストニア", en: "Estonia" },
+  RU: { ja: "ロシア", en: "Russia" },
+  US: { ja: "アメリカ", en: "United States" },
+  GU: { ja: "グアム", en: "Guam" },
+  MP: { ja: "北マリアナ諸島", en: "Northern Mariana Islands" },
+  CA: { ja: "カナダ", en: "Canada" },
+  MX: { ja: "メキシコ", en: "Mexico" },
+  CU: { ja: "キューバ", en: "Cuba" },
+  PE: { ja: "ペルー", en: "Peru" },
+  BR: { ja: "ブラジル", en: "Brazil" },
+  AR: { ja: "アルゼンチン", en: "Argentina" },
+  CL: { ja: "チリ", en: "Chile" },
+  BO: { ja: "ボリビア", en: "Bolivia" },
+  EC: { ja: "エクアドル", en: "Ecuador" },
+  AU: { ja: "オーストラリア", en: "Australia" },
+  NZ: { ja: "ニュージーランド", en: "New Zealand" },
+  FJ: { ja: "フィジー", en: "Fiji" },
+  PF: { ja: "フランス領ポリネシア", en: "French Polynesia" },
+  NC: { ja: "ニューカレドニア", en: "New Caledonia" },
+  PW: { ja: "パラオ", en: "Palau" }
+};
+
+export const GAZETTEER: GazetteerEntry[] = [
+  // 日本（都道府県庁所在地）
+  ["札幌市", "Sapporo", "JP", "北海道", 43.0642, 141.3469],
+  ["青森市", "Aomori", "JP", "青森県", 40.8244, 140.7400],
+  ["盛岡市", "Morioka", "JP", "岩手県", 39.7036, 141.1527],
+  ["仙台市", "Sendai", "JP", "宮城県", 38.2682, 140.8694],
+  ["秋田市", "Akita", "JP", "秋田県", 39.7186, 140.1024],
+  ["山形市", "Yamagata", "JP", "山形県", 38.2404, 140.3633],
+  ["福島市", "Fukushima", "JP", "福島県", 37.7503, 140.4676],
+  ["水戸市", "Mito", "JP", "茨城県", 36.3418, 140.4468],
+  ["宇都宮市", "Utsunomiya", "JP", "栃木県", 36.5658, 139.8836],
+  ["前橋市", "Maebashi", "JP", "群馬県", 36.3912, 139.0609],
+  ["さいたま市", "Saitama", "JP", "埼玉県", 35.8617, 139.6455],
+  ["千葉市", "Chiba", "JP", "千葉県", 35.6073, 140.1063],
+  ["新宿区", "Shinjuku", "JP", "東京都", 35.6938, 139.7034],
+  ["横浜市", "Yokohama", "JP", "神奈川県", 35.4437, 139.6380],
+  ["新潟市", "Niigata", "JP", "新潟県", 37.9162, 139.0364],
+  ["富山市", "Toyama", "JP", "富山県", 36.6953, 137.2113],
+  ["金沢市", "Kanazawa", "JP", "石川県", 36.5613, 136.6562],
+  ["福井市", "Fukui", "JP", "福井県", 36.0652, 136.2216],
+  ["甲府市", "Kofu", "JP", "山梨県", 35.6642, 138.5684],
+  ["長野市", "Nagano", "JP", "長野県", 36.6513, 138.1810],
+  ["岐阜市", "Gifu", "JP", "岐阜県", 35.4233, 136.7607],
+  ["静岡市", "Shizuoka", "JP", "静岡県", 34.9756, 138.3828],
+  ["名古屋市", "Nagoya", "JP", "愛知県", 35.1815, 136.9066],
+  ["津市", "Tsu", "JP", "三重県", 34.7303, 136.5086],
+  ["大津市", "Otsu", "JP", "滋賀県", 35.0045, 135.8686],
+  ["京都市", "Kyoto", "JP", "京都府", 35.0116, 135.7681],
+  ["大阪市", "Osaka", "JP", "大阪府", 34.6937, 135.5023],
+  ["神戸市", "Kobe", "JP", "兵庫県", 34.6901, 135.1955],
+  ["奈良市", "Nara", "JP", "奈良県", 34.6851, 135.8048],
+  ["和歌山市", "Wakayama", "JP", "和歌山県", 34.2260, 135.1675],
+  ["鳥取市", "Tottori", "JP", "鳥取県", 35.5011, 134.2351],
+  ["松江市", "Matsue", "JP", "島根県", 35.4681, 133.0484],
+  ["岡山市", "Okayama", "JP", "岡山県", 34.6551, 133.9195],
+  ["広島市", "Hiroshima", "JP", "広島県", 34.3853, 132.4553],
+  ["山口市", "Yamaguchi", "JP", "山口県", 34.1859, 131.4714],
+  ["徳島市", "Tokushima", "JP", "徳島県", 34.0703, 134.5548],
+  ["高松市", "Takamatsu", "JP", "香川県", 34.3428, 134.0466],
+  ["松山市", "Matsuyama", "JP", "愛媛県", 33.8392, 132.7657],
+  ["高知市", "Kochi", "JP", "高知県", 33.5597, 133.5311],
+  ["福岡市", "Fukuoka", "JP", "福岡県", 33.5904, 130.4017],
+  ["佐賀市", "Saga", "JP", "佐賀県", 33.2635, 130.3009],
+  ["長崎市", "Nagasaki", "JP", "長崎県", 32.7503, 129.8779],
+  ["熊本市", "Kumamoto", "JP", "熊本県", 32.8031, 130.7079],
+  ["大分市", "Oita", "JP", "大分県", 33.2382, 131.6126],
+  ["宮崎市", "Miyazaki", "JP", "宮崎県", 31.9077, 131.4202],
+  ["鹿児島市", "Kagoshima", "JP", "鹿児島県", 31.5966, 130.5571],
+  ["那覇市", "Naha", "JP", "沖縄県", 26.2124, 127.6809],
+  // 日本（主な市区町村・観光地）
+  ["千代田区", "Chiyoda", "JP", "東京都", 35.6940, 139.7536],
+  ["中央区", "Chuo", "JP", "東京都", 35.6707, 139.7720],
+  ["港区", "Minato", "JP", "東京都", 35.6581, 139.7516],
+  ["渋谷区", "Shibuya", "JP", "東京都", 35.6640, 139.6982],
+  ["台東区", "Taito", "JP", "東京都", 35.7126, 139.7800],
+  ["墨田区", "Sumida", "JP", "東京都", 35.7107, 139.8015],
+  ["江東区", "Koto", "JP", "東京都", 35.6730, 139.8171],
+  ["品川区", "Shinagawa", "JP", "東京都", 35.6092, 139.7302],
+  ["豊島区", "Toshima", "JP", "東京都", 35.7263, 139.7163],
+  ["世田谷区", "Setagaya", "JP", "東京都", 35.6464, 139.6532],
+  ["八王子市", "Hachioji", "JP", "東京都", 35.6664, 139.3160],
+  ["立川市", "Tachikawa", "JP", "東京都", 35.6983, 139.4140],
+  ["川崎市", "Kawasaki", "JP", "神奈川県", 35.5308, 139.7029],
+  ["鎌倉市", "Kamakura", "JP", "神奈川県", 35.3192, 139.5467],
+  ["箱根町", "Hakone", "JP", "神奈川県", 35.2324, 139.1069],
+  ["浦安市", "Urayasu", "JP", "千葉県", 35.6532, 139.9019],
+  ["成田市", "Narita", "JP", "千葉県", 35.7767, 140.3184],
+  ["日光市", "Nikko", "JP", "栃木県", 36.7199, 139.6982],
+  ["那須町", "Nasu", "JP", "栃木県", 37.0197, 140.1211],
+  ["草津町", "Kusatsu", "JP", "群馬県", 36.6207, 138.5960],
+  ["郡山市", "Koriyama", "JP", "福島県", 37.4005, 140.3597],
+  ["いわき市", "Iwaki", "JP", "福島県", 37.0505, 140.8877],
+  ["函館市", "Hakodate", "JP", "北海道", 41.7687, 140.7288],
+  ["小樽市", "Otaru", "JP", "北海道", 43.1907, 140.9947],
+  ["旭川市", "Asahikawa", "JP", "北海道", 43.7706, 142.3650],
+  ["富良野市", "Furano", "JP", "北海道", 43.3420, 142.3832],
+  ["釧路市", "Kushiro", "JP", "北海道", 42.9849, 144.3820],
+  ["松本市", "Matsumoto", "JP", "長野県", 36.2380, 137.9720],
+  ["軽井沢町", "Karuizawa", "JP", "長野県", 36.3484, 138.5970],
+  ["高山市", "Takayama", "JP", "岐阜県", 36.1461, 137.2522],
+  ["富士河口湖町", "Fujikawaguchiko", "JP", "山梨県", 35.4973, 138.7553],
+  ["熱海市", "Atami", "JP", "静岡県", 35.0959, 139.0717],
+  ["浜松市", "Hamamatsu", "JP", "静岡県", 34.7108, 137.7261],
+  ["伊勢市", "Ise", "JP", "三重県", 34.4875, 136.7093],
+  ["鳥羽市", "Toba", "JP", "三重県", 34.4812, 136.8432],
+  ["姫路市", "Himeji", "JP", "兵庫県", 34.8151, 134.6853],
+  ["豊岡市", "Toyooka", "JP", "兵庫県", 35.5446, 134.8200],
+  ["白浜町", "Shirahama", "JP", "和歌山県", 33.6781, 135.3481],
+  ["出雲市", "Izumo", "JP", "島根県", 35.3669, 132.7547],
+  ["倉敷市", "Kurashiki", "JP", "岡山県", 34.5851, 133.7720],
+  ["尾道市", "Onomichi", "JP", "広島県", 34.4090, 133.2050],
+  ["廿日市市", "Hatsukaichi", "JP", "広島県", 34.2960, 132.3198],
+  ["下関市", "Shimonoseki", "JP", "山口県", 33.9578, 130.9414],
+  ["北九州市", "Kitakyushu", "JP", "福岡県", 33.8834, 130.8752],
+  ["佐世保市", "Sasebo", "JP", "長崎県", 33.1799, 129.7151],
+  ["別府市", "Beppu", "JP", "大分県", 33.2846, 131.4914],
+  ["高千穂町", "Takachiho", "JP", "宮崎県", 32.7114, 131.3078],
+  ["屋久島町", "Yakushima", "JP", "鹿児島県", 30.3483, 130.5270],
+  ["名護市", "Nago", "JP", "沖縄県", 26.5917, 127.9775],
+  ["宮古島市", "Miyakojima", "JP", "沖縄県", 24.8054, 125.2811],
+  ["石垣市", "Ishigaki", "JP", "沖縄県", 24.3448, 124.1572],
+  // アジア
+  ["ソウル", "Seoul", "KR", "", 37.5665, 126.9780],
+  ["仁川", "Incheon", "KR", "", 37.4563, 126.7052],
+  ["釜山", "Busan", "KR", "", 35.1796, 129.0756],
+  ["済州", "Jeju", "KR", "", 33.4996, 126.5312],
+  ["北京", "Beijing", "CN", "", 39.9042, 116.4074],
+  ["上海", "Shanghai", "CN", "", 31.2304, 121.4737],
+  ["大連", "Dalian", "CN", "", 38.9140, 121.6147],
+  ["杭州", "Hangzhou", "CN", "", 30.2741, 120.1551],
+  ["西安", "Xi'an", "CN", "", 34.3416, 108.9398],
+  ["成都", "Chengdu", "CN", "", 30.5728, 104.0668],
+  ["広州", "Guangzhou", "CN", "", 23.1291, 113.2644],
+  ["深圳", "Shenzhen", "CN", "", 22.5431, 114.0579],
+  ["香港", "Hong Kong", "HK", "", 22.3193, 114.1694],
+  ["マカオ", "Macau", "MO", "", 22.1987, 113.5439],
+  ["台北", "Taipei", "TW", "", 25.0330, 121.5654],
+  ["台中", "Taichung", "TW", "", 24.1477, 120.6736],
+  ["台南", "Tainan", "TW", "", 22.9999, 120.2270],
+  ["高雄", "Kaohsiung", "TW", "", 22.6273, 120.3014],
+  ["花蓮", "Hualien", "TW", "", 23.9872, 121.6016],
+  ["ウランバートル", "Ulaanbaatar", "MN", "", 47.8864, 106.9057],
+  ["バンコク", "Bangkok", "TH", "", 13.7563, 100.5018],
+  ["チェンマイ", "Chiang Mai", "TH", "", 18.7883, 98.9853],
+  ["パタヤ", "Pattaya", "TH", "", 12.9236, 100.8825],
+  ["プーケット", "Phuket", "TH", "", 7.8804, 98.3923],
+  ["ハノイ", "Hanoi", "VN", "", 21.0278, 105.8342],
+  ["ダナン", "Da Nang", "VN", "", 16.0544, 108.2022],
+  ["ホイアン", "Hoi An", "VN", "", 15.8801, 108.3380],
+  ["ホーチミン", "Ho Chi Minh City", "VN", "", 10.8231, 106.6297],
+  ["シェムリアップ", "Siem Reap", "KH", "", 13.3671, 103.8448],
+  ["プノンペン", "Phnom Penh", "KH", "", 11.5564, 104.9282],
+  ["ルアンパバーン", "Luang Prabang", "LA", "", 19.8856, 102.1347],
+  ["ビエンチャン", "Vientiane", "LA", "", 17.9757, 102.6331],
+  ["ヤンゴン", "Yangon", "MM", "", 16.8409, 96.1735],
+  ["クアラルンプール", "Kuala Lumpur", "MY", "", 3.1390, 101.6869],
+  ["ペナン", "Penang", "MY", "", 5.4141, 100.3288],
+  ["コタキナバル", "Kota Kinabalu", "MY", "", 5.9804, 116.0735],
+  ["シンガポール", "Singapore", "SG", "", 1.3521, 103.8198],
+  ["ジャカルタ", "Jakarta", "ID", "", -6.2088, 106.8456],
+  ["ジョグジャカルタ", "Yogyakarta", "ID", "", -7.7956, 110.3695],
+  ["バリ島", "Bali", "ID", "", -8.6705, 115.2126],
+  ["マニラ", "Manila", "PH", "", 14.5995, 120.9842],
+  ["セブ", "Cebu", "PH", "", 10.3157, 123.8854],
+  ["デリー", "Delhi", "IN", "", 28.6139, 77.2090],
+  ["アグラ", "Agra", "IN", "", 27.1767, 78.0081],
+  ["ジャイプール", "Jaipur", "IN", "", 26.9124, 75.7873],
+  ["ムンバイ", "Mumbai", "IN", "", 19.0760, 72.8777],
+  ["コルカタ", "Kolkata", "IN", "", 22.5726, 88.3639],
+  ["バンガロール", "Bengaluru", "IN", "", 12.9716, 77.5946],
+  ["カトマンズ", "Kathmandu", "NP", "", 27.7172, 85.3240],
+  ["コロンボ", "Colombo", "LK", "", 6.9271, 79.8612],
+  ["マレ", "Male", "MV", "", 4.1755, 73.5093],
+  ["ドバイ", "Dubai", "AE", "", 25.2048, 55.2708],
+  ["アブダビ", "Abu Dhabi", "AE", "", 24.4539, 54.3773],
+  ["ドーハ", "Doha", "QA", "", 25.2854, 51.5310],
+  ["イスタンブール", "Istanbul", "TR", "", 41.0082, 28.9784],
+  ["アンカラ", "Ankara", "TR", "", 39.9334, 32.8597],
+  ["カッパドキア", "Cappadocia", "TR", "", 38.6431, 34.8289],
+  ["エルサレム", "Jerusalem", "IL", "", 31.7683, 35.2137],
+  ["テルアビブ", "Tel Aviv", "IL", "", 32.0853, 34.7818],
+  ["アンマン", "Amman", "JO", "", 31.9539, 35.9106],
+  ["ペトラ", "Petra", "JO", "", 30.3285, 35.4444],
+  // アフリカ
+  ["カイロ", "Cairo", "EG", "", 30.0444, 31.2357],
+  ["ルクソール", "Luxor", "EG", "", 25.6872, 32.6396],
+  ["マラケシュ", "Marrakesh", "MA", "", 31.6295, -7.9811],
+  ["カサブランカ", "Casablanca", "MA", "", 33.5731, -7.5898],
+  ["ナイロビ", "Nairobi", "KE", "", -1.2921, 36.8219],
+  ["ザンジバル", "Zanzibar", "TZ", "", -6.1659, 39.2026],
+  ["ヨハネスブルグ", "Johannesburg", "ZA", "", -26.2041, 28.0473],
+  ["ケープタウン", "Cape Town", "ZA", "", -33.9249, 18.4241],
+  // ヨーロッパ
+  ["ロンドン", "London", "GB", "イングランド", 51.5074, -0.1278],
+  ["オックスフォード", "Oxford", "GB", "イングランド", 51.7520, -1.2577],
+  ["マンチェスター", "Manchester", "GB", "イングランド", 53.4808, -2.2426],
+  ["リバプール", "Liverpool", "GB", "イングランド", 53.4084, -2.9916],
+  ["エディンバラ", "Edinburgh", "GB", "スコットランド", 55.9533, -3.1883],
+  ["ダブリン", "Dublin", "IE", "", 53.3498, -6.2603],
+  ["パリ", "Paris", "FR", "", 48.8566, 2.3522],
+  ["モン・サン・ミシェル", "Mont-Saint-Michel", "FR", "", 48.6361, -1.5115],
+  ["ストラスブール", "Strasbourg", "FR", "", 48.5734, 7.7521],
+  ["リヨン", "Lyon", "FR", "", 45.7640, 4.8357],
+  ["ボルドー", "Bordeaux", "FR", "", 44.8378, -0.5792],
+  ["マルセイユ", "Marseille", "FR", "", 43.2965, 5.3698],
+  ["ニース", "Nice", "FR", "", 43.7102, 7.2620],
+  ["ブリュッセル", "Brussels", "BE", "", 50.8503, 4.3517],
+  ["ブルージュ", "Bruges", "BE", "", 51.2093, 3.2247],
+  ["アムステルダム", "Amsterdam", "NL", "", 52.3676, 4.9041],
+  ["ルクセンブルク", "Luxembourg", "LU", "", 49.6116, 6.1319],
+  ["ベルリン", "Berlin", "DE", "", 52.5200, 13.4050],
+  ["ハンブルク", "Hamburg", "DE", "", 53.5511, 9.9937],
+  ["ケルン", "Cologne", "DE", "", 50.9375, 6.9603],
+  ["フランクフルト", "Frankfurt", "DE", "", 50.1109, 8.6821],
+  ["ローテンブルク", "Rothenburg ob der Tauber", "DE", "", 49.3779, 10.1866],
+  ["ミュンヘン", "Munich", "DE", "", 48.1351, 11.5820],
+  ["フュッセン", "Füssen", "DE", "", 47.5696, 10.7004],
+  ["ウィーン", "Vienna", "AT", "", 48.2082, 16.3738],
+  ["ザルツブルク", "Salzburg", "AT", "", 47.8095, 13.0550],
+  ["ハルシュタット", "Hallstatt", "AT", "", 47.5622, 13.6493],
+  ["チューリッヒ", "Zurich", "CH", "", 47.3769, 8.5417],
+  ["ルツェルン", "Lucerne", "CH", "", 47.0502, 8.3093],
+  ["インターラーケン", "Interlaken", "CH", "", 46.6863, 7.8632],
+  ["ツェルマット", "Zermatt", "CH", "", 46.0207, 7.7491],
+  ["ジュネーブ", "Geneva", "CH", "", 46.2044, 6.1432],
+  ["ミラノ", "Milan", "IT", "", 45.4642, 9.1900],
+  ["ヴェネツィア", "Venice", "IT", "", 45.4408, 12.3155],
+  ["フィレンツェ", "Florence", "IT", "", 43.7696, 11.2558],
+  ["ピサ", "Pisa", "IT", "", 43.7228, 10.4017],
+  ["ローマ", "Rome", "IT", "", 41.9028, 12.4964],
+  ["ナポリ", "Naples", "IT", "", 40.8518, 14.2681],
+  ["アマルフィ", "Amalfi", "IT", "", 40.6340, 14.6027],
+  ["バチカン", "Vatican City", "VA", "", 41.9029, 12.4534],
+  ["マドリード", "Madrid", "ES", "", 40.4168, -3.7038],
+  ["バルセロナ", "Barcelona", "ES", "", 41.3851, 2.1734],
+  ["バレンシア", "Valencia", "ES", "", 39.4699, -0.3763],
+  ["セビリア", "Seville", "ES", "", 37.3891, -5.9845],
+  ["グラナダ", "Granada", "ES", "", 37.1773, -3.5986],
+  ["リスボン", "Lisbon", "PT", "", 38.7223, -9.1393],
+  ["ポルト", "Porto", "PT", "", 41.1579, -8.6291],
+  ["アテネ", "Athens", "GR", "", 37.9838, 23.7275],
+  ["サントリーニ島", "Santorini", "GR", "", 36.3932, 25.4615],
+  ["プラハ", "Prague", "CZ", "", 50.0755, 14.4378],
+  ["チェスキー・クルムロフ", "Český Krumlov", "CZ", "", 48.8127, 14.3175],
+  ["ブダペスト", "Budapest", "HU", "", 47.4979, 19.0402],
+  ["ワルシャワ", "Warsaw", "PL", "", 52.2297, 21.0122],
+  ["クラクフ", "Kraków", "PL", "", 50.0647, 19.9450],
+  ["ザグレブ", "Zagreb", "HR", "", 45.8150, 15.9819],
+  ["ドゥブロヴニク", "Dubrovnik", "HR", "", 42.6507, 18.0944],
+  ["リュブリャナ", "Ljubljana", "SI", "", 46.0569, 14.5058],
+  ["コペンハーゲン", "Copenhagen", "DK", "", 55.6761, 12.5683],
+  ["ストックホルム", "Stockholm", "SE", "", 59.3293, 18.0686],
+  ["オスロ", "Oslo", "NO", "", 59.9139, 10.7522],
+  ["ベルゲン", "Bergen", "NO", "", 60.3913, 5.3221],
+  ["トロムソ", "Tromsø", "NO", "", 69.6492, 18.9553],
+  ["ヘルシンキ", "Helsinki", "FI", "", 60.1699, 24.9384],
+  ["ロヴァニエミ", "Rovaniemi", "FI", "", 66.5039, 25.7294],
+  ["レイキャビク", "Reykjavík", "IS", "", 64.1466, -21.9426],
+  ["タリン", "Tallinn", "EE", "", 59.4370, 24.7536],
+  ["モスクワ", "Moscow", "RU", "", 55.7558, 37.6173],
+  ["サンクトペテルブルク", "Saint Petersburg", "RU", "", 59.9311, 30.3609],
+  ["ウラジオストク", "Vladivostok", "RU", "", 43.1198, 131.8869],
+  // 北米・中南米
+  ["ニューヨーク", "New York", "US", "ニューヨーク州", 40.7128, -74.0060],
+  ["ボストン", "Boston", "US", "マサチューセッツ州", 42.3601, -71.0589],
+  ["ワシントンD.C.", "Washington, D.C.", "US", "", 38.9072, -77.0369],
+  ["シカゴ", "Chicago", "US", "イリノイ州", 41.8781, -87.6298],
+  ["マイアミ", "Miami", "US", "フロリダ州", 25.7617, -80.1918],
+  ["オーランド", "Orlando", "US", "フロリダ州", 28.5383, -81.3792],
+  ["ニューオーリンズ", "New Orleans", "US", "ルイジアナ州", 29.9511, -90.0715],
+  ["ヒューストン", "Houston", "US", "テキサス州", 29.7604, -95.3698],
+  ["ダラス", "Dallas", "US", "テキサス州", 32.7767, -96.7970],
+  ["デンバー", "Denver", "US", "コロラド州", 39.7392, -104.9903],
+  ["グランドキャニオン", "Grand Canyon", "US", "アリゾナ州", 36.0544, -112.1401],
+  ["ラスベガス", "Las Vegas", "US", "ネバダ州", 36.1699, -115.1398],
+  ["ロサンゼルス", "Los Angeles", "US", "カリフォルニア州", 34.0522, -118.2437],
+  ["サンディエゴ", "San Diego", "US", "カリフォルニア州", 32.7157, -117.1611],
+  ["サンフランシスコ", "San Francisco", "US", "カリフォルニア州", 37.7749, -122.4194],
+  ["ヨセミテ", "Yosemite", "US", "カリフォルニア州", 37.8651, -119.5383],
+  ["シアトル", "Seattle", "US", "ワシントン州", 47.6062, -122.3321],
+  ["アンカレッジ", "Anchorage", "US", "アラスカ州", 61.2181, -149.9003],
+  ["ホノルル", "Honolulu", "US", "ハワイ州", 21.3069, -157.8583],
+  ["マウイ島", "Maui", "US", "ハワイ州", 20.8893, -156.4729],
+  ["コナ", "Kona", "US", "ハワイ州", 19.6400, -155.9969],
+  ["グアム", "Guam", "GU", "", 13.4443, 144.7937],
+  ["サイパン", "Saipan", "MP", "", 15.1850, 145.7467],
+  ["バンクーバー", "Vancouver", "CA", "ブリティッシュコロンビア州", 49.2827, -123.1207],
+  ["バンフ", "Banff", "CA", "アルバータ州", 51.1784, -115.5708],
+  ["トロント", "Toronto", "CA", "オンタリオ州", 43.6532, -79.3832],
+  ["モントリオール", "Montreal", "CA", "ケベック州", 45.5017, -73.5673],
+  ["ケベック・シティー", "Quebec City", "CA", "ケベック州", 46.8139, -71.2080],
+  ["メキシコシティ", "Mexico City", "MX", "", 19.4326, -99.1332],
+  ["カンクン", "Cancún", "MX", "", 21.1619, -86.8515],
+  ["ハバナ", "Havana", "CU", "", 23.1136, -82.3666],
+  ["リマ", "Lima", "PE", "", -12.0464, -77.0428],
+  ["クスコ", "Cusco", "PE", "", -13.5319, -71.9675],
+  ["マチュピチュ", "Machu Picchu", "PE", "", -13.1631, -72.5450],
+  ["ウユニ", "Uyuni", "BO", "", -20.4631, -66.8250],
+  ["キト", "Quito", "EC", "", -0.1807, -78.4678],
+  ["ガラパゴス諸島", "Galápagos Islands", "EC", "", -0.7430, -90.3138],
+  ["リオデジャネイロ", "Rio de Janeiro", "BR", "", -22.9068, -43.1729],
+  ["サンパウロ", "São Paulo", "BR", "", -23.5505, -46.6333],
+  ["ブエノスアイレス", "Buenos Aires", "AR", "", -34.6037, -58.3816],
+  ["サンティアゴ", "Santiago", "CL", "", -33.4489, -70.6693],
+  // オセアニア
+  ["シドニー", "Sydney", "AU", "ニューサウスウェールズ州", -33.8688, 151.2093],
+  ["メルボルン", "Melbourne", "AU", "ビクトリア州", -37.8136, 144.9631],
+  ["ブリスベン", "Brisbane", "AU", "クイーンズランド州", -27.4698, 153.0251],
+  ["ゴールドコースト", "Gold Coast", "AU", "クイーンズランド州", -28.0167, 153.4000],
+  ["ケアンズ", "Cairns", "AU", "クイーンズランド州", -16.9186, 145.7781],
+  ["ウルル", "Uluru", "AU", "ノーザンテリトリー", -25.3444, 131.0369],
+  ["パース", "Perth", "AU", "西オーストラリア州", -31.9505, 115.8605],
+  ["オークランド", "Auckland", "NZ", "", -36.8485, 174.7633],
+  ["クライストチャーチ", "Christchurch", "NZ", "", -43.5321, 172.6362],
+  ["クイーンズタウン", "Queenstown", "NZ", "", -45.0312, 168.6626],
+  ["ナンディ", "Nadi", "FJ", "", -17.7765, 177.4356],
+  ["タヒチ島", "Tahiti", "PF", "", -17.5516, -149.5585],
+  ["ヌメア", "Nouméa", "NC", "", -22.2758, 166.4580],
+  ["コロール", "Koror", "PW", "", 7.3419, 134.4792]
+];
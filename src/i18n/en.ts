@@ -0,0 +1,463 @@
+import { MessageKey } from "./ja";
+
+/**
+ * 英語のメッセージカタログ
+ */
+export const en: Record<MessageKey, string> = {
+  // 共通
+  'common.photos': '{count} photos',
+  'common.close': 'Close',
+
+  // ヘッダーとナビゲーション
+  'nav.settings': 'Settings',
+  'nav.folders': 'Folders',
+  'nav.calendar': 'Calendar',
+  'nav.map': 'Map',
+  'nav.list': 'List',
+  'nav.duplicates': 'Duplicates',
+  'nav.reanalyze': 'Re-analyze',
+  'nav.book': 'Book',
+  'nav.stats': 'Stats',
+  'nav.trash': 'Trash',
+  'header.photos': 'PHOTOS: {count}',
+  'header.scopeTrip': 'TRIP',
+  'header.scopeAlbum': 'ALBUM',
+  'header.scopeStats': 'STATS',
+  'header.clearScope': 'Clear filter',
+  'header.searchPlaceholder': 'Search places, descriptions and notes',
+  'header.upload': 'Upload',
+  'header.language': 'Language',
+
+  // トップ画面
+  'landing.title': 'AI Memory Organizer',
+  'landing.lead': 'Just upload your photos and the date and place are identified automatically, so your memories stay beautifully organised.',
+  'landing.upload': 'Upload Photos',
+  'landing.calendar': 'Show Calendar',
+  'landing.map': 'Show Map',
+
+  // 期間の絞り込み
+  'dateFilter.title': 'Date Range Filter',
+  'dateFilter.description': 'Only photos taken within this period are shown on the map and in the list.',
+  'dateFilter.from': 'From',
+  'dateFilter.to': 'To',
+  'dateFilter.apply': 'Apply Filter',
+
+  // 写真の詳細
+  'modal.album': 'Album',
+  'modal.addToAlbum': 'Add to album...',
+  'modal.newAlbum': '+ New album',
+  'modal.reanalyze': 'Re-analyze with AI and compare',
+  'modal.downloadWithMetadata': 'Download with metadata',
+  'modal.trash': 'Move this photo to the trash',
+
+  // 確認・通知
+  'alert.moveError': 'Could not save the moved photos.',
+  'alert.deleteError': 'An error occurred while deleting. The database may be locked.',
+  'alert.importSkipped': '{count} photos were not imported because they are already in the library.',
+  'alert.exportError': 'An error occurred while exporting.',
+  'alert.exportUnchanged': '{count} photos are not JPEGs, so they were exported unchanged without metadata.',
+  'alert.metadataWriteError': 'Could not write the metadata.',
+  'confirm.discardDuplicates': 'Move {count} photos to the trash?',
+  'confirm.cancelQueue': 'Cancel all pending analyses?',
+  'prompt.albumName': 'Enter an album name',
+  'map.pickLocation': 'Click the map to set the location of {count} photos',
+
+  // 取り消し履歴の操作名
+  'history.deletePhoto': 'Delete "{name}"',
+  'history.deletePhotos': 'Delete {count} photos',
+  'history.discardDuplicates': 'Delete {count} duplicates',
+  'history.mergeDuplicates': 'Merge {count} duplicates',
+  'history.movePhoto': 'Move "{name}"',
+  'history.movePhotos': 'Move {count} photos',
+  'history.trackLog': 'Set {count} locations from a track log',
+  'history.importPlaces': 'Import {count} locations from a file',
+  'history.setDate': 'Change the date of {count} photos to {date}',
+  'history.setLocation': 'Move {count} photos to "{name}"',
+  'history.applyReanalysis': 'Apply re-analysis to {count} photos',
+  'history.editField': 'Edit the {field} of "{name}"',
+  'history.addTag': 'Add tag "{tag}" to {count} photos',
+  'history.renameTag': 'Rename tag "{from}" to "{to}"',
+  'history.deleteTag': 'Delete tag "{tag}"',
+  'history.editNote': 'Edit note',
+  'history.editDayJournal': 'Edit journal',
+  'history.editTripJournal': 'Edit trip journal',
+
+  // 項目名
+  'field.date': 'date',
+  'field.location': 'coordinates',
+  'field.locationName': 'place name',
+  'field.country': 'country',
+  'field.description': 'description',
+  'field.tags': 'tags',
+
+  // 地名
+  'geo.nearCoordinates': 'Near {lat}, {lng}',
+  'geo.vicinity': 'Near {place}',
+
+  // カレンダー
+  'calendar.previousMonth': 'Previous month',
+  'calendar.nextMonth': 'Next month',
+  'calendar.today': 'Today',
+  'calendar.hasJournal': 'Has a journal entry',
+  'calendar.hasTripJournal': 'Has a trip journal entry',
+
+  // タイムライン
+  'timeline.subtitle': 'Timeline diary',
+  'timeline.distance': 'Distance',
+  'timeline.places': 'Places',
+  'timeline.dayJournal': 'Day journal',
+  'timeline.tripJournal': 'Trip journal',
+  'timeline.tripFallbackName': 'Trip',
+  'timeline.notePlaceholder': 'Travel notes (transport, costs, impressions...)',
+  'timeline.noPhotos': 'No photos on this day',
+
+  // 写真カード
+  'photoCard.viewOnMap': 'View on map',
+
+  // 解析の状態
+  'status.processing': 'Finding where...',
+  'status.failed': 'Analysis failed',
+
+  // 値の出どころと確からしさ
+  'source.exif': 'EXIF',
+  'source.filename': 'File name',
+  'source.fileTime': 'File time',
+  'source.ai': 'AI estimate',
+  'source.track': 'Track log',
+  'source.geocoder': 'Place data',
+  'source.manual': 'Entered manually',
+  'confidence.high': 'high',
+  'confidence.medium': 'medium',
+  'confidence.low': 'low',
+
+  // 解析プロバイダとキュー
+  'provider.gemini': 'Google Gemini',
+  'provider.openai-compatible': 'OpenAI-compatible (Ollama, llava, etc.)',
+  'provider.offline': 'Offline (for development and testing)',
+  'queue.cancelled': 'Analysis was cancelled',
+
+  // 地図・旅行・アルバムの名前
+  'map.clusterName': '{name} and {count} more',
+  'trip.defaultName': 'Trip',
+  'trip.nameWithOthers': '{name} and more',
+  'album.defaultName': 'New album',
+
+  // 旅行記の書き出し
+  'book.days': '{count} days',
+  'book.distance': '{distance} traveled',
+  'book.places': '{count} places',
+  'book.dayJournal': 'Journal for the day',
+  'book.tripJournal': 'Trip journal',
+  'book.route': 'Route',
+  'book.dayRoute': 'Route on {date}',
+  'book.footer': 'Made with VisionSort · {date}',
+
+  // 読み込み・書き出しのエラー
+  'error.backupNoManifest': 'manifest.json was not found. This may not be a VisionSort backup.',
+  'error.backupFormat': 'This is not a VisionSort backup.',
+  'error.backupTooNew': 'This backup was created by a newer version of the app and cannot be read.',
+  'error.exifTooLarge': 'The EXIF data is too large to write.',
+  'error.notJpeg': 'Metadata can only be written to JPEG photos.',
+  'error.jpegStructure': 'Could not read the structure of the JPEG.',
+  'error.photoFileMissing': 'The photo file was not found.',
+  'error.kmlParse': 'Could not read the KML file.',
+  'error.noPlaces': '{file} has no Point features.',
+  'error.gpxParse': 'Could not read the GPX file.',
+  'error.noTrackPoints': '{file} has no track points with timestamps.',
+
+  // AI プロバイダの設定
+  'providerSettings.title': 'AI Provider',
+  'providerSettings.description': 'Choose the AI used to analyze photos. Changes apply from the next analysis.',
+  'providerSettings.provider': 'Provider',
+  'providerSettings.model': 'Model',
+  'providerSettings.apiKey': 'API key',
+  'providerSettings.apiKeyOptional': 'API key (optional)',
+  'providerSettings.baseUrl': 'Endpoint',
+  'providerSettings.rememberKey': 'Remember API keys in this browser',
+  'providerSettings.rememberKeyNote': 'API keys are forgotten when this tab is closed.',
+  'providerSettings.rememberKeyWarning': 'API keys are stored unencrypted in the browser (localStorage), where anyone using this device and browser extensions can read them. Do not enable this on a shared device.',
+  'providerSettings.offlineNote': 'Returns a fixed dummy result for each image without using the network. For development and testing.',
+  'providerSettings.refine': 'Use AI to refine the place name of photos whose pin was moved',
+  'providerSettings.refineNote': 'A place name is first assigned instantly from the bundled place data. When off, no image is sent to the AI.',
+
+  // 解析キュー
+  'queueSettings.title': 'Analysis Queue',
+  'queueSettings.description': 'Set the analysis pace for large imports. When rate limited, analyses are retried automatically after a pause.',
+  'queueSettings.concurrency': 'Concurrency',
+  'queueSettings.requestsPerMinute': 'Requests / min',
+  'queueSettings.maxAttempts': 'Max attempts',
+  'queueStatus.analyzing': 'Analyzing {done}/{total}',
+  'queueStatus.paused': 'Paused {done}/{total}',
+  'queueStatus.failed': '({count} failed)',
+  'queueStatus.pause': 'Pause',
+  'queueStatus.resume': 'Resume',
+  'queueStatus.cancel': 'Cancel all pending analyses',
+
+  // 操作履歴
+  'historyPanel.undo': 'Undo (Ctrl+Z)',
+  'historyPanel.redo': 'Redo (Ctrl+Shift+Z)',
+  'historyPanel.button': 'History',
+  'historyPanel.title': 'History',
+  'historyPanel.empty': 'Nothing to undo yet',
+
+  // タグ
+  'tags.label': 'Tags',
+  'tags.add': 'Add a tag (Enter)',
+  'tags.aiSuggestion': 'Suggested by AI (click to keep)',
+  'tags.remove': 'Remove tag',
+  'tags.filterButton': 'Tags',
+  'tags.filterActive': 'TAGS: {tags}',
+  'tags.filterTitle': 'Filter by tags',
+  'tags.clear': 'Clear',
+  'tags.noTaggedPhotos': 'No photos have tags',
+  'history.addPhotoTag': 'Add tag "{tag}"',
+  'history.confirmPhotoTag': 'Keep tag "{tag}"',
+  'history.removePhotoTag': 'Remove tag "{tag}"',
+
+  // 日記
+  'journal.write': 'Write',
+  'journal.preview': 'Preview',
+  'journal.placeholder': '# Heading\nWrite about your day in Markdown (**bold**, - lists, > quotes, [links](https://...))',
+  'journal.deleteHint': 'Clearing the text deletes the journal entry',
+
+
+  // 検索
+  'search.fieldName': 'file name',
+  'search.fieldNote': 'note',
+  'search.title': 'Search',
+  'search.results': '{count} RESULTS FOR "{query}"',
+  'search.noResults': 'No matching photos',
+
+  // 重複の確認
+  'duplicates.title': 'Duplicates',
+  'duplicates.groups': '{count} GROUPS TO REVIEW',
+  'duplicates.threshold': 'Similarity: {value}',
+  'duplicates.keep': 'Keep',
+  'duplicates.merge': 'Merge',
+  'duplicates.mergeHint': 'Keep the selected photo and carry over the notes and analysis of the others',
+  'duplicates.discard': 'Discard others',
+  'duplicates.dismiss': 'Not duplicates',
+  'duplicates.none': 'No similar photos found',
+
+  // Markdown のプレビュー
+  'markdown.empty': 'Nothing written yet',
+
+  // メタデータの編集
+  'metadata.unset': 'Not set',
+  'metadata.provenance': '{source} · {confidence} confidence',
+  'metadata.latitude': 'Latitude',
+  'metadata.longitude': 'Longitude',
+  'metadata.save': 'Save',
+  'metadata.cancel': 'Cancel',
+  'metadata.clickToEdit': 'Click to edit',
+
+  // 再解析
+  'reanalyze.title': 'Re-analyze',
+  'reanalyze.resultsToReview': '{count} RESULTS TO REVIEW',
+  'reanalyze.target': 'Photos',
+  'reanalyze.selected': 'Selected photos ({count})',
+  'reanalyze.needsReanalysis': 'All failed or unmapped ({count})',
+  'reanalyze.provider': 'Provider',
+  'reanalyze.instructions': 'Extra prompt',
+  'reanalyze.instructionsPlaceholder': 'e.g. These photos are from a 2019 trip to Hokkaido',
+  'reanalyze.note': 'Results are not saved right away. Compare the before and after below, choose the fields to keep and then apply them. Fields set manually are never changed.',
+  'reanalyze.stop': 'Stop',
+  'reanalyze.run': 'Analyze {count} photos',
+  'reanalyze.failedCount': ' ({count} failed)',
+  'reanalyze.rejectAll': 'Reject all',
+  'reanalyze.applyAll': 'Apply all selected fields',
+  'reanalyze.noChanges': 'Nothing would change',
+  'reanalyze.empty': '(none)',
+  'reanalyze.reject': 'Reject',
+  'reanalyze.apply': 'Apply',
+  'reanalyze.failed': 'Failed',
+
+  // 統計
+  'stats.title': 'Statistics',
+  'stats.summary': '{photos} PHOTOS · {trips} TRIPS',
+  'stats.countries': 'Countries',
+  'stats.prefectures': 'Prefectures',
+  'stats.years': 'Years',
+  'stats.distance': 'Distance',
+  'stats.storage': 'Storage',
+  'stats.photosPerMonth': 'Photos per month',
+  'stats.photosPerYear': 'Photos per year',
+  'stats.month': 'Month',
+  'stats.year': 'Year',
+  'stats.noDates': 'No photos have a known date.',
+  'stats.monthHint': 'Click a month to open the calendar.',
+  'stats.yearHint': 'Click a year to list its photos.',
+  'stats.visitedCountries': 'Countries visited',
+  'stats.noCountries': 'No photos have a known country.',
+  'stats.visitedPrefectures': 'Prefectures visited',
+  'stats.noPrefectures': 'No photos have a location in Japan.',
+  'stats.firstVisit': 'First visit {date}',
+  'stats.busiestDays': 'Busiest days',
+  'stats.tripDistances': 'Distance per trip',
+  'stats.noTrips': 'No trips yet.',
+  'stats.health': 'Library health',
+  'stats.unmapped': 'No location',
+  'stats.failed': 'Analysis failed',
+  'stats.pending': 'Waiting for analysis',
+  'stats.share': '{count} photos · {percent}%',
+  'stats.storageTitle': 'Storage',
+  'stats.photoFiles': 'Original photo files:',
+  'stats.averageSize': ' ({size} per photo on average)',
+  'stats.browserUsage': 'Browser storage used: {usage}',
+  'stats.storageNote': 'Browser storage also includes photo metadata and photos in the trash.',
+
+  // フォルダ（旅行とアルバム）
+  'folders.title': 'Folders',
+  'folders.summary': '{trips} TRIPS · {albums} ALBUMS',
+  'folders.trips': 'Trips',
+  'folders.albums': 'Albums',
+  'folders.gap': 'Gap: {hours}h',
+  'folders.jump': 'Jump: {km}km',
+  'folders.saveAsAlbum': 'Save as album',
+  'folders.travelBook': 'Travel book',
+  'folders.noPhotos': 'No photos',
+  'folders.newAlbum': '+ New album',
+  'folders.mergeSelected': 'Merge selected ({count})',
+  'folders.selectToMerge': 'Select to merge',
+  'folders.rename': 'Rename',
+  'folders.delete': 'Delete',
+  'folders.noAlbums': 'No albums yet. Create one from a trip or add photos from the photo details.',
+  'folders.setCover': 'Cover',
+  'folders.split': 'Split',
+  'folders.splitHint': 'Move this photo and the ones after it to a new album',
+  'folders.remove': 'Remove',
+  'folders.cover': 'COVER',
+  'folders.renamePrompt': 'New album name',
+  'folders.confirmDelete': 'Delete the album "{name}"? The photos are not deleted.',
+  'folders.confirmMerge': 'Merge {count} albums into "{name}"?',
+  'folders.splitPrompt': 'Name of the new album for this photo and the ones after it',
+
+  // 写真の一覧
+  'grid.selectedCount': '{count} selected',
+  'grid.selectAll': 'Select all',
+  'grid.clearSelection': 'Clear selection',
+  'grid.setDate': 'Set date',
+  'grid.pickLocation': 'Set location on map',
+  'grid.copyingLocation': 'Click the photo to copy from…',
+  'grid.copyLocation': 'Copy location from another photo',
+  'grid.tagPlaceholder': 'Tag',
+  'grid.addTag': 'Add tag',
+  'grid.reanalyze': 'Re-analyze with AI',
+  'grid.export': 'Export',
+  'grid.exportWithMetadata': 'Export with metadata',
+  'grid.delete': 'Delete',
+  'grid.select': 'Select',
+  'grid.noPhotos': 'No photos',
+  'grid.uploadHint': 'Add photos with the Upload button above',
+
+  // 地図
+  'map.cancel': 'Cancel',
+  'map.dropHere': 'Drop Here',
+  'map.route': 'Route',
+  'map.routeOff': 'Off',
+  'map.routeDay': 'Day',
+  'map.routeRange': 'Range',
+  'map.routeAll': 'All shown',
+  'map.legs': '{count} legs',
+  'map.places': '{count} places',
+  'map.trayTitle': 'Unmapped photos',
+  'map.trayAll': 'All',
+  'map.trayAllUnmapped': 'All unmapped',
+  'map.trayProcessing': 'Analyzing...',
+  'map.trayNoCountry': 'Unmapped',
+
+  // 旅行記の作成
+  'bookView.title': 'Travel Book',
+  'bookView.photos': '{count} PHOTOS',
+  'bookView.source': 'Source',
+  'bookView.fromTrip': 'From a trip',
+  'bookView.fromRange': 'Date range',
+  'bookView.trip': 'Trip',
+  'bookView.tripOption': '{name} ({range} · {photos})',
+  'bookView.bookTitle': 'Title',
+  'bookView.titlePlaceholder': 'Leave empty to use the dates as the title',
+  'bookView.note': 'Combines a cover, each day\'s photos in shooting order, place names, notes, journals and route maps. The HTML is a single file with the photos embedded that can be printed or saved as PDF from the browser. The Markdown export puts the text and photos in a ZIP.',
+  'bookView.creating': 'Creating...',
+  'bookView.print': 'Print',
+  'bookView.downloadHtml': 'Download HTML',
+  'bookView.downloadMarkdown': 'Download Markdown (ZIP)',
+  'bookView.exportFailed': 'Export failed: {error}',
+
+  // バックアップと復元
+  'backup.title': 'Backup & Restore',
+  'backup.description': 'Exports all photos, notes, albums and journals to a single ZIP file. Keep it to move to another computer or in case the browser data is cleared.',
+  'backup.exporting': 'Exporting...',
+  'backup.export': 'Export Library',
+  'backup.mode': 'Mode',
+  'backup.merge': 'Merge',
+  'backup.replace': 'Replace',
+  'backup.conflict': 'Same photo',
+  'backup.keepLocal': 'Keep local',
+  'backup.useBackup': 'Use backup',
+  'backup.restoring': 'Restoring...',
+  'backup.import': 'Import Backup',
+  'backup.summary': 'Restored: {added} added / {updated} updated / {skipped} skipped / {notes} notes / {albums} albums / {journal} journal entries',
+  'backup.exportFailed': 'Could not create the backup.',
+  'backup.confirmReplace': 'This deletes the current library (photos, notes, albums and journals) and replaces it with the backup. Continue?',
+  'backup.restoreFailed': 'Restore failed: {error}',
+
+  // ゴミ箱
+  'trash.title': 'Trash',
+  'trash.photos': '{count} PHOTOS',
+  'trash.keepFor': 'Keep for',
+  'trash.days': '{count} days',
+  'trash.restore': 'Restore',
+  'trash.delete': 'Delete',
+  'trash.empty': 'Empty trash',
+  'trash.description': 'Deleted photos and notes are kept here for {days} days and then deleted permanently at startup.',
+  'trash.note': 'Note: {note}',
+  'trash.daysLeft': 'Deleted in {count} days',
+  'trash.isEmpty': 'The trash is empty',
+  'trash.confirmPurge': 'Permanently delete {count} photos? This cannot be undone.',
+
+  // タグの管理
+  'tagManager.title': 'Tags',
+  'tagManager.description': 'Tags suggested by AI and tags you added. Renaming a tag to an existing name merges them.',
+  'tagManager.save': 'Save',
+  'tagManager.cancel': 'Cancel',
+  'tagManager.filter': 'Filter by this tag',
+  'tagManager.rename': 'Rename',
+  'tagManager.delete': 'Delete',
+  'tagManager.empty': 'No tags yet',
+  'tagManager.confirmMerge': 'Merge "{from}" into the existing tag "{to}" ({count} photos)?',
+  'tagManager.confirmDelete': 'Remove the tag "{tag}" from {count} photos?',
+
+  // トラックログで位置を補完
+  'geotag.title': 'Track Log Geotagging',
+  'geotag.description': 'Load GPX or GeoJSON tracks recorded with a GPS logger or phone and fill in the location of photos without GPS from their capture time.',
+  'geotag.loaded': '{tracks} track(s) / {points} points',
+  'geotag.load': 'Load GPX / GeoJSON',
+  'geotag.offset': 'Time offset (min)',
+  'geotag.maxGap': 'Max gap (min)',
+  'geotag.offsetNote': 'Enter a positive value if the camera clock was behind. Photos without a recorded time zone are treated as taken in this browser\'s time zone.',
+  'geotag.overwriteAi': 'Also replace locations estimated by AI',
+  'geotag.matchable': 'Photos that can be located:',
+  'geotag.withoutTime': 'Photos without a capture time: {count} (skipped)',
+  'geotag.applying': 'Applying...',
+  'geotag.apply': 'Apply to {count} photos',
+  'geotag.loadFailed': 'Could not read the track log.',
+  'geotag.applied': 'Set locations from the track log on {count} photos.',
+
+  // GeoJSON / KML の読み書き
+  'geoData.description': 'Export located photos in formats usable in GIS tools and Google Earth. Importing an edited file matches photos by ID (or file name) and sets their locations in one go.',
+  'geoData.allPhotos': 'All photos ({count})',
+  'geoData.filteredPhotos': 'Current filter ({count})',
+  'geoData.exportGeoJson': 'Export GeoJSON',
+  'geoData.exportKml': 'Export KML',
+  'geoData.loaded': '{file} / {count} features',
+  'geoData.import': 'Import GeoJSON / KML',
+  'geoData.matchable': 'Photos that can be located:',
+  'geoData.matchedBy': ' ({byId} by ID / {byName} by file name)',
+  'geoData.ambiguous': 'Features matching several photos with the same file name: {count}',
+  'geoData.unmatched': 'Features without a matching photo: {count}',
+  'geoData.includeNames': 'Also import the place name (locationName) and country from the file',
+  'geoData.applying': 'Applying...',
+  'geoData.apply': 'Apply to {count} photos',
+  'geoData.loadFailed': 'Could not read the location file.',
+  'geoData.applied': 'Set locations on {count} photos.'
+};
@@ -0,0 +1,464 @@
+/**
+ * 日本語のメッセージカタログ（キーの一覧の基準。他の言語はすべてのキーを揃える）
+ * {name} の部分は t() の params で置き換える
+ */
+export const ja = {
+  // 共通
+  'common.photos': '{count}枚',
+  'common.close': '閉じる',
+
+  // ヘッダーとナビゲーション
+  'nav.settings': '設定',
+  'nav.folders': 'フォルダ',
+  'nav.calendar': 'カレンダー',
+  'nav.map': 'マップ',
+  'nav.list': '一覧',
+  'nav.duplicates': '重複',
+  'nav.reanalyze': '再解析',
+  'nav.book': '旅行記',
+  'nav.stats': '統計',
+  'nav.trash': 'ゴミ箱',
+  'header.photos': '写真: {count}',
+  'header.scopeTrip': '旅行',
+  'header.scopeAlbum': 'アルバム',
+  'header.scopeStats': '統計',
+  'header.clearScope': '絞り込みを解除',
+  'header.searchPlaceholder': '場所・説明・メモを検索',
+  'header.upload': 'アップロード',
+  'header.language': '表示言語',
+
+  // トップ画面
+  'landing.title': 'AI Memory Organizer',
+  'landing.lead': '写真をアップロードするだけで、撮影日と場所を自動で特定。あなたの想い出を美しく整理します。',
+  'landing.upload': '写真をアップロード',
+  'landing.calendar': 'カレンダーを見る',
+  'landing.map': 'マップを見る',
+
+  // 期間の絞り込み
+  'dateFilter.title': '期間で絞り込む',
+  'dateFilter.description': '指定した期間の写真のみをマップおよびリストに表示します。',
+  'dateFilter.from': '開始日',
+  'dateFilter.to': '終了日',
+  'dateFilter.apply': 'フィルターを適用',
+
+  // 写真の詳細
+  'modal.album': 'アルバム',
+  'modal.addToAlbum': 'アルバムに追加...',
+  'modal.newAlbum': '+ 新しいアルバム',
+  'modal.reanalyze': 'AIで再解析して比較',
+  'modal.downloadWithMetadata': '位置・日付を書き込んで保存',
+  'modal.trash': 'この写真をゴミ箱に移す',
+
+  // 確認・通知
+  'alert.moveError': '写真の移動を保存できませんでした。',
+  'alert.deleteError': '削除中にエラーが発生しました。DBがロックされている可能性があります。',
+  'alert.importSkipped': '{count}枚はすでにライブラリにあるため取り込みませんでした。',
+  'alert.exportError': '書き出し中にエラーが発生しました。',
+  'alert.exportUnchanged': '{count}枚は JPEG ではないため、メタデータを書き込まずに元のファイルのまま書き出しました。',
+  'alert.metadataWriteError': 'メタデータを書き込めませんでした。',
+  'confirm.discardDuplicates': '{count}枚の写真をゴミ箱に移してもよろしいですか？',
+  'confirm.cancelQueue': '待機中の解析をすべてキャンセルしますか？',
+  'prompt.albumName': 'アルバム名を入力してください',
+  'map.pickLocation': '{count}枚の写真の位置をクリックで指定',
+
+  // 取り消し履歴の操作名
+  'history.deletePhoto': '「{name}」を削除',
+  'history.deletePhotos': '{count}枚を削除',
+  'history.discardDuplicates': '重複した{count}枚を削除',
+  'history.mergeDuplicates': '重複した{count}枚を統合',
+  'history.movePhoto': '「{name}」を移動',
+  'history.movePhotos': '{count}枚の写真を移動',
+  'history.trackLog': 'トラックログで{count}枚に位置を設定',
+  'history.importPlaces': 'ファイルから{count}枚の位置を読み込み',
+  'history.setDate': '{count}枚の日付を {date} に変更',
+  'history.setLocation': '{count}枚の位置を「{name}」に変更',
+  'history.applyReanalysis': '{count}枚に再解析の結果を反映',
+  'history.editField': '「{name}」の{field}を編集',
+  'history.addTag': '{count}枚にタグ「{tag}」を追加',
+  'history.renameTag': 'タグ「{from}」を「{to}」に変更',
+  'history.deleteTag': 'タグ「{tag}」を削除',
+  'history.editNote': 'メモを編集',
+  'history.editDayJournal': '日記を編集',
+  'history.editTripJournal': '旅行の日記を編集',
+
+  // 項目名
+  'field.date': '撮影日',
+  'field.location': '座標',
+  'field.locationName': '地名',
+  'field.country': '国',
+  'field.description': '説明',
+  'field.tags': 'タグ',
+
+  // 地名
+  'geo.nearCoordinates': '緯度 {lat}, 経度 {lng} 付近',
+  'geo.vicinity': '{place} 近郊',
+
+  // カレンダー
+  'calendar.previousMonth': '前の月',
+  'calendar.nextMonth': '次の月',
+  'calendar.today': '今日',
+  'calendar.hasJournal': '日記あり',
+  'calendar.hasTripJournal': '旅行の日記あり',
+
+  // タイムライン
+  'timeline.subtitle': 'タイムライン日記',
+  'timeline.distance': '移動距離',
+  'timeline.places': '訪問地点',
+  'timeline.dayJournal': 'この日の日記',
+  'timeline.tripJournal': '旅行の日記',
+  'timeline.tripFallbackName': '旅行',
+  'timeline.notePlaceholder': '旅のメモ（移動手段、費用、感想など）を入力...',
+  'timeline.noPhotos': 'この日の写真はありません',
+
+  // 写真カード
+  'photoCard.viewOnMap': '地図で見る',
+
+  // 解析の状態
+  'status.processing': '場所を特定中...',
+  'status.failed': '解析失敗',
+
+  // 値の出どころと確からしさ
+  'source.exif': 'EXIF',
+  'source.filename': 'ファイル名',
+  'source.fileTime': 'ファイル日時',
+  'source.ai': 'AI 推定',
+  'source.track': 'トラックログ',
+  'source.geocoder': '地名データ',
+  'source.manual': '手動入力',
+  'confidence.high': '高',
+  'confidence.medium': '中',
+  'confidence.low': '低',
+
+  // 解析プロバイダとキュー
+  'provider.gemini': 'Google Gemini',
+  'provider.openai-compatible': 'OpenAI 互換（Ollama / llava など）',
+  'provider.offline': 'オフライン（開発・テスト用）',
+  'queue.cancelled': '解析をキャンセルしました',
+
+  // 地図・旅行・アルバムの名前
+  'map.clusterName': '{name} ほか{count}枚',
+  'trip.defaultName': '旅行',
+  'trip.nameWithOthers': '{name} ほか',
+  'album.defaultName': '新しいアルバム',
+
+  // 旅行記の書き出し
+  'book.days': '{count}日',
+  'book.distance': '移動 {distance}',
+  'book.places': '{count}地点',
+  'book.dayJournal': 'この日の日記',
+  'book.tripJournal': '旅行の日記',
+  'book.route': 'ルート',
+  'book.dayRoute': '{date} のルート',
+  'book.footer': 'VisionSort で作成 · {date}',
+
+  // 読み込み・書き出しのエラー
+  'error.backupNoManifest': 'manifest.json が見つかりません。VisionSort のバックアップではない可能性があります。',
+  'error.backupFormat': 'VisionSort のバックアップ形式ではありません。',
+  'error.backupTooNew': 'このバックアップは新しいバージョンのアプリで作成されたため読み込めません。',
+  'error.exifTooLarge': 'EXIF が大きすぎるため書き込めませんでした。',
+  'error.notJpeg': 'JPEG 以外の写真にはメタデータを書き込めません。',
+  'error.jpegStructure': 'JPEG の構造を読み取れませんでした。',
+  'error.photoFileMissing': '写真のファイルが見つかりません。',
+  'error.kmlParse': 'KML ファイルを読み取れませんでした。',
+  'error.noPlaces': '{file} に位置（Point）の地物がありません。',
+  'error.gpxParse': 'GPX ファイルを読み取れませんでした。',
+  'error.noTrackPoints': '{file} に時刻付きのトラック点がありません。',
+
+  // AI プロバイダの設定
+  'providerSettings.title': 'AI プロバイダ',
+  'providerSettings.description': '写真の解析に使うAIを選択します。変更は次の解析から反映されます。',
+  'providerSettings.provider': 'プロバイダ',
+  'providerSettings.model': 'モデル',
+  'providerSettings.apiKey': 'API キー',
+  'providerSettings.apiKeyOptional': 'API キー（任意）',
+  'providerSettings.baseUrl': 'ベースURL',
+  'providerSettings.rememberKey': 'API キーをこのブラウザに保存する',
+  'providerSettings.rememberKeyNote': 'API キーはこのタブを閉じると消えます。',
+  'providerSettings.rememberKeyWarning': 'API キーは暗号化されずにブラウザ（localStorage）に保存され、この端末を使う人や拡張機能から読み取れます。共有の端末では有効にしないでください。',
+  'providerSettings.offlineNote': 'ネットワークを使わず、画像ごとに決まったダミー結果を返します。開発・動作確認用です。',
+  'providerSettings.refine': 'ピンを移動した写真の地名をAIでも詳しく特定する',
+  'providerSettings.refineNote': '地名はまず端末内の地名データから即座に付けられます。オフの場合はAIへ画像を送りません。',
+
+  // 解析キュー
+  'queueSettings.title': '解析キュー',
+  'queueSettings.description': '大量の写真を取り込むときの解析ペースを設定します。レート制限を受けた場合は自動で間隔を空けて再試行します。',
+  'queueSettings.concurrency': '同時実行数',
+  'queueSettings.requestsPerMinute': '1分あたりのリクエスト数',
+  'queueSettings.maxAttempts': '試行回数',
+  'queueStatus.analyzing': '解析中 {done}/{total}',
+  'queueStatus.paused': '一時停止中 {done}/{total}',
+  'queueStatus.failed': '（{count}件失敗）',
+  'queueStatus.pause': '一時停止',
+  'queueStatus.resume': '再開',
+  'queueStatus.cancel': '待機中の解析をすべてキャンセル',
+
+  // 操作履歴
+  'historyPanel.undo': '元に戻す (Ctrl+Z)',
+  'historyPanel.redo': 'やり直す (Ctrl+Shift+Z)',
+  'historyPanel.button': '履歴',
+  'historyPanel.title': '操作履歴',
+  'historyPanel.empty': 'まだ操作はありません',
+
+  // タグ
+  'tags.label': 'タグ',
+  'tags.add': 'タグを追加（Enter）',
+  'tags.aiSuggestion': 'AI の提案（クリックで確定）',
+  'tags.remove': 'タグを外す',
+  'tags.filterButton': 'タグ',
+  'tags.filterActive': 'タグ: {tags}',
+  'tags.filterTitle': 'タグで絞り込む',
+  'tags.clear': '解除',
+  'tags.noTaggedPhotos': 'タグの付いた写真がありません',
+  'history.addPhotoTag': 'タグ「{tag}」を追加',
+  'history.confirmPhotoTag': 'タグ「{tag}」を確定',
+  'history.removePhotoTag': 'タグ「{tag}」を削除',
+
+  // 日記
+  'journal.write': '編集',
+  'journal.preview': 'プレビュー',
+  'journal.placeholder': '# 見出し\n今日の出来事や感想を Markdown で書けます（**太字**、- 箇条書き、> 引用、[リンク](https://...)）',
+  'journal.deleteHint': '本文を空にすると日記は削除されます',
+
+
+  // 検索
+  'search.fieldName': 'ファイル名',
+  'search.fieldNote': 'メモ',
+  'search.title': '検索',
+  'search.results': '「{query}」の検索結果: {count}件',
+  'search.noResults': '一致する写真は見つかりませんでした',
+
+  // 重複の確認
+  'duplicates.title': '重複',
+  'duplicates.groups': '確認する組: {count}',
+  'duplicates.threshold': '判定の厳しさ: {value}',
+  'duplicates.keep': '残す',
+  'duplicates.merge': '統合',
+  'duplicates.mergeHint': '選んだ1枚を残し、他の写真のメモと解析結果を引き継ぐ',
+  'duplicates.discard': '他を削除',
+  'duplicates.dismiss': '重複ではない',
+  'duplicates.none': '類似した写真は見つかりませんでした',
+
+  // Markdown のプレビュー
+  'markdown.empty': 'まだ何も書かれていません',
+
+  // メタデータの編集
+  'metadata.unset': '未設定',
+  'metadata.provenance': '{source} · 確度{confidence}',
+  'metadata.latitude': '緯度',
+  'metadata.longitude': '経度',
+  'metadata.save': '保存',
+  'metadata.cancel': 'キャンセル',
+  'metadata.clickToEdit': 'クリックして編集',
+
+  // 再解析
+  'reanalyze.title': '再解析',
+  'reanalyze.resultsToReview': '確認待ちの結果: {count}',
+  'reanalyze.target': '対象',
+  'reanalyze.selected': '選択した写真（{count}枚）',
+  'reanalyze.needsReanalysis': '解析失敗・位置なしのすべて（{count}枚）',
+  'reanalyze.provider': 'プロバイダ',
+  'reanalyze.instructions': '追加の指示',
+  'reanalyze.instructionsPlaceholder': '例: 2019年の北海道旅行の写真です',
+  'reanalyze.note': '結果はすぐには保存されません。下で解析前後を見比べ、採用する項目を選んでから適用してください。手動で設定した項目は変更されません。',
+  'reanalyze.stop': '中止',
+  'reanalyze.run': '{count}枚を解析',
+  'reanalyze.failedCount': '（失敗 {count}枚）',
+  'reanalyze.rejectAll': 'すべて却下',
+  'reanalyze.applyAll': '選んだ項目をすべて適用',
+  'reanalyze.noChanges': '変更される項目はありません',
+  'reanalyze.empty': '（なし）',
+  'reanalyze.reject': '却下',
+  'reanalyze.apply': '適用',
+  'reanalyze.failed': '解析できなかった写真',
+
+  // 統計
+  'stats.title': '統計',
+  'stats.summary': '写真 {photos}枚 · 旅行 {trips}件',
+  'stats.countries': '国',
+  'stats.prefectures': '都道府県',
+  'stats.years': '年',
+  'stats.distance': '移動距離',
+  'stats.storage': '容量',
+  'stats.photosPerMonth': '月ごとの枚数',
+  'stats.photosPerYear': '年ごとの枚数',
+  'stats.month': '月',
+  'stats.year': '年',
+  'stats.noDates': '撮影日の分かる写真がありません。',
+  'stats.monthHint': '月をクリックするとカレンダーを開きます。',
+  'stats.yearHint': '年をクリックするとその年の写真の一覧を開きます。',
+  'stats.visitedCountries': '訪れた国',
+  'stats.noCountries': '国の分かる写真がありません。',
+  'stats.visitedPrefectures': '訪れた都道府県',
+  'stats.noPrefectures': '日本国内で位置の分かる写真がありません。',
+  'stats.firstVisit': '初訪問 {date}',
+  'stats.busiestDays': '撮影の多い日',
+  'stats.tripDistances': '旅行ごとの移動距離',
+  'stats.noTrips': '旅行がありません。',
+  'stats.health': '整理の状況',
+  'stats.unmapped': '位置が未設定',
+  'stats.failed': '解析に失敗',
+  'stats.pending': '解析待ち',
+  'stats.share': '{count}枚 · {percent}%',
+  'stats.storageTitle': '保存容量',
+  'stats.photoFiles': '写真の元ファイル:',
+  'stats.averageSize': '（1枚あたり平均 {size}）',
+  'stats.browserUsage': 'ブラウザの使用量: {usage}',
+  'stats.storageNote': 'ブラウザの使用量には写真のメタデータやゴミ箱の写真も含まれます。',
+
+  // フォルダ（旅行とアルバム）
+  'folders.title': 'フォルダ',
+  'folders.summary': '旅行 {trips}件 · アルバム {albums}件',
+  'folders.trips': '旅行',
+  'folders.albums': 'アルバム',
+  'folders.gap': '間隔: {hours}時間',
+  'folders.jump': '移動距離: {km}km',
+  'folders.saveAsAlbum': 'アルバムとして保存',
+  'folders.travelBook': '旅行記',
+  'folders.noPhotos': '写真がありません',
+  'folders.newAlbum': '+ 新しいアルバム',
+  'folders.mergeSelected': '選択したアルバムを統合 ({count})',
+  'folders.selectToMerge': '統合する',
+  'folders.rename': '名前を変更',
+  'folders.delete': '削除',
+  'folders.noAlbums': 'アルバムはまだありません。旅行から作成するか、写真の詳細からアルバムに追加してください。',
+  'folders.setCover': '表紙にする',
+  'folders.split': '分割',
+  'folders.splitHint': 'この写真以降を新しいアルバムに分ける',
+  'folders.remove': '外す',
+  'folders.cover': '表紙',
+  'folders.renamePrompt': '新しいアルバム名',
+  'folders.confirmDelete': 'アルバム「{name}」を削除しますか？写真は削除されません。',
+  'folders.confirmMerge': '{count}件のアルバムを「{name}」に統合しますか？',
+  'folders.splitPrompt': 'この写真以降を移す新しいアルバムの名前',
+
+  // 写真の一覧
+  'grid.selectedCount': '{count}枚を選択中',
+  'grid.selectAll': 'すべて選択',
+  'grid.clearSelection': '選択を解除',
+  'grid.setDate': '日付を設定',
+  'grid.pickLocation': '地図で位置を指定',
+  'grid.copyingLocation': 'コピー元の写真をクリック…',
+  'grid.copyLocation': '他の写真から位置をコピー',
+  'grid.tagPlaceholder': 'タグ',
+  'grid.addTag': 'タグを追加',
+  'grid.reanalyze': 'AIで再解析',
+  'grid.export': '書き出し',
+  'grid.exportWithMetadata': 'メタデータ付きで書き出し',
+  'grid.delete': '削除',
+  'grid.select': '選択',
+  'grid.noPhotos': '写真がありません',
+  'grid.uploadHint': '上の「アップロード」ボタンから写真を追加してください',
+
+  // 地図
+  'map.cancel': 'キャンセル',
+  'map.dropHere': 'ここにドロップ',
+  'map.route': 'ルート',
+  'map.routeOff': 'オフ',
+  'map.routeDay': '日',
+  'map.routeRange': '期間',
+  'map.routeAll': '表示中すべて',
+  'map.legs': '{count}区間',
+  'map.places': '{count}地点',
+  'map.trayTitle': '未配置の整理',
+  'map.trayAll': 'すべて',
+  'map.trayAllUnmapped': 'すべての未配置',
+  'map.trayProcessing': '解析中',
+  'map.trayNoCountry': '国が不明',
+
+  // 旅行記の作成
+  'bookView.title': '旅行記',
+  'bookView.photos': '写真 {count}枚',
+  'bookView.source': '対象',
+  'bookView.fromTrip': '旅行から作る',
+  'bookView.fromRange': '期間を指定',
+  'bookView.trip': '旅行',
+  'bookView.tripOption': '{name}（{range} · {photos}）',
+  'bookView.bookTitle': 'タイトル',
+  'bookView.titlePlaceholder': '未入力の場合は期間をタイトルにします',
+  'bookView.note': '表紙・日ごとの写真（撮影順）・地名・メモ・日記・ルート図をまとめます。HTML は写真を埋め込んだ1つのファイルで、ブラウザから印刷や PDF 保存ができます。Markdown は本文と写真を ZIP にまとめます。',
+  'bookView.creating': '作成中...',
+  'bookView.print': '印刷用に開く',
+  'bookView.downloadHtml': 'HTML をダウンロード',
+  'bookView.downloadMarkdown': 'Markdown（ZIP）をダウンロード',
+  'bookView.exportFailed': '書き出しに失敗しました: {error}',
+
+  // バックアップと復元
+  'backup.title': 'バックアップと復元',
+  'backup.description': '写真・メモ・アルバム・日記をすべて1つの ZIP ファイルに書き出します。別のパソコンへの移行やブラウザのデータ消去に備えて保存してください。',
+  'backup.exporting': '書き出し中...',
+  'backup.export': 'バックアップを作成',
+  'backup.mode': '復元方法',
+  'backup.merge': '既存に追加',
+  'backup.replace': 'すべて置き換え',
+  'backup.conflict': '同じ写真がある場合',
+  'backup.keepLocal': '今のデータを残す',
+  'backup.useBackup': 'バックアップで上書き',
+  'backup.restoring': '復元中...',
+  'backup.import': 'バックアップから復元',
+  'backup.summary': '復元しました: 追加 {added} 枚 / 上書き {updated} 枚 / スキップ {skipped} 枚 / メモ {notes} 件 / アルバム {albums} 件 / 日記 {journal} 件',
+  'backup.exportFailed': 'バックアップの作成に失敗しました。',
+  'backup.confirmReplace': '現在のライブラリ（写真・メモ・アルバム・日記）をすべて消してバックアップの内容に置き換えます。よろしいですか？',
+  'backup.restoreFailed': '復元に失敗しました: {error}',
+
+  // ゴミ箱
+  'trash.title': 'ゴミ箱',
+  'trash.photos': '写真 {count}枚',
+  'trash.keepFor': '保管期間',
+  'trash.days': '{count}日',
+  'trash.restore': '元に戻す',
+  'trash.delete': '完全に削除',
+  'trash.empty': 'ゴミ箱を空にする',
+  'trash.description': '削除した写真とメモは{days}日間ここに保管され、その後は起動時に完全に削除されます。',
+  'trash.note': 'メモ: {note}',
+  'trash.daysLeft': 'あと{count}日で削除',
+  'trash.isEmpty': 'ゴミ箱は空です',
+  'trash.confirmPurge': '{count}枚の写真を完全に削除してもよろしいですか？この操作は取り消せません。',
+
+  // タグの管理
+  'tagManager.title': 'タグ',
+  'tagManager.description': 'AI が提案したタグと自分で付けたタグの一覧です。既存のタグと同じ名前に変更すると1つに統合されます。',
+  'tagManager.save': '保存',
+  'tagManager.cancel': 'キャンセル',
+  'tagManager.filter': 'このタグで絞り込む',
+  'tagManager.rename': '名前を変更',
+  'tagManager.delete': '削除',
+  'tagManager.empty': 'まだタグはありません',
+  'tagManager.confirmMerge': '「{from}」を既存のタグ「{to}」（{count}枚）に統合しますか？',
+  'tagManager.confirmDelete': 'タグ「{tag}」を{count}枚の写真から外しますか？',
+
+  // トラックログで位置を補完
+  'geotag.title': 'トラックログで位置を補完',
+  'geotag.description': 'GPS ロガーやスマートフォンで記録した GPX / GeoJSON のトラックを読み込み、撮影時刻から GPS のない写真の位置を補完します。',
+  'geotag.loaded': 'トラック {tracks}本 / {points}点',
+  'geotag.load': 'GPX / GeoJSON のトラックを読み込む',
+  'geotag.offset': '時刻の補正（分）',
+  'geotag.maxGap': '最大間隔（分）',
+  'geotag.offsetNote': 'カメラの時計が遅れている場合は正の値を入力します。タイムゾーンの記録がない写真は、このブラウザのタイムゾーンで撮影されたものとして扱います。',
+  'geotag.overwriteAi': 'AI が推測した位置もトラックで置き換える',
+  'geotag.matchable': '位置を設定できる写真:',
+  'geotag.withoutTime': '撮影時刻の記録がない写真: {count}枚（対象外）',
+  'geotag.applying': '設定中...',
+  'geotag.apply': '{count}枚に位置を設定',
+  'geotag.loadFailed': 'トラックログを読み込めませんでした。',
+  'geotag.applied': '{count}枚の写真にトラックログの位置を設定しました。',
+
+  // GeoJSON / KML の読み書き
+  'geoData.description': '位置の分かる写真を GIS ツールや Google Earth で使える形式で書き出します。編集したファイルを読み込むと、写真ID（なければファイル名）で対応付けて位置をまとめて設定できます。',
+  'geoData.allPhotos': 'すべての写真（{count}枚）',
+  'geoData.filteredPhotos': '表示中の絞り込み（{count}枚）',
+  'geoData.exportGeoJson': 'GeoJSON を書き出す',
+  'geoData.exportKml': 'KML を書き出す',
+  'geoData.loaded': '{file} / 地物 {count}件',
+  'geoData.import': 'GeoJSON / KML から位置を読み込む',
+  'geoData.matchable': '位置を設定できる写真:',
+  'geoData.matchedBy': '（ID {byId}枚 / ファイル名 {byName}枚）',
+  'geoData.ambiguous': '同じファイル名の写真が複数あり対応付けできない地物: {count}件',
+  'geoData.unmatched': '対応する写真がない地物: {count}件',
+  'geoData.includeNames': 'ファイルの地名（locationName）と国（country）も取り込む',
+  'geoData.applying': '設定中...',
+  'geoData.apply': '{count}枚に位置を設定',
+  'geoData.loadFailed': '位置のファイルを読み込めませんでした。',
+  'geoData.applied': '{count}枚の写真に位置を設定しました。'
+};
+
+export type MessageKey = keyof typeof ja;
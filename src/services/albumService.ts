@@ -0,0 +1,70 @@
+import { Album, PhotoMetadata } from "../types";
+import { sortPhotosByTime } from "./tripService";
+import { t } from "./i18nService";
+
+/**
+ * アルバムの作成・統合・分割（DB への保存は呼び出し側で行う）
+ */
+
+const newAlbumId = () => `album-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createAlbum = (name: string, photoIds: string[] = [], coverPhotoId?: string): Album => {
+  const now = Date.now();
+  return {
+    id: newAlbumId(),
+    name: name.trim() || t('album.defaultName'),
+    photoIds: Array.from(new Set(photoIds)),
+    coverPhotoId,
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+export const addPhotosToAlbum = (album: Album, photoIds: string[]): Album => ({
+  ...album,
+  photoIds: Array.from(new Set([...album.photoIds, ...photoIds])),
+  updatedAt: Date.now()
+});
+
+export const removePhotosFromAlbum = (album: Album, photoIds: string[]): Album => {
+  const removed = new Set(photoIds);
+  return {
+    ...album,
+    photoIds: album.photoIds.filter(id => !removed.has(id)),
+    coverPhotoId: album.coverPhotoId && removed.has(album.coverPhotoId) ? undefined : album.coverPhotoId,
+    updatedAt: Date.now()
+  };
+};
+
+/**
+ * sources の写真を target にまとめる。表紙と名前は target のものを残す
+ */
+export const mergeAlbums = (target: Album, sources: Album[]): Album =>
+  addPhotosToAlbum(target, sources.flatMap(album => album.photoIds));
+
+/**
+ * アルバムを撮影順に並べ、splitAtPhotoId 以降の写真を新しいアルバムに移す
+ */
+export const splitAlbum = (album: Album, photos: PhotoMetadata[], splitAtPhotoId: string, newName: string): [Album, Album] | null => {
+  const ordered = albumPhotos(album, photos).map(p => p.id);
+  const index = ordered.indexOf(splitAtPhotoId);
+  if (index <= 0) return null;
+
+  const moved = ordered.slice(index);
+  const remaining = removePhotosFromAlbum(album, moved);
+  const created = createAlbum(newName, moved, album.coverPhotoId && moved.includes(album.coverPhotoId) ? album.coverPhotoId : undefined);
+  return [remaining, created];
+};
+
+/**
+ * アルバムに含まれる写真を撮影順に返す（削除済みの写真は含めない）
+ */
+export const albumPhotos = (album: Album, photos: PhotoMetadata[]): PhotoMetadata[] => {
+  const ids = new Set(album.photoIds);
+  return sortPhotosByTime(photos.filter(p => ids.has(p.id)));
+};
+
+export const albumCover = (album: Album, photos: PhotoMetadata[]): PhotoMetadata | undefined => {
+  const cover = album.coverPhotoId ? photos.find(p => p.id === album.coverPhotoId) : undefined;
+  return cover || albumPhotos(album, photos)[0];
+};
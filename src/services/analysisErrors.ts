@@ -0,0 +1,51 @@
+/**
+ * AI 解析の失敗を表す型付きエラー
+ * 呼び出し側は kind を見て再試行・設定見直し・失敗表示を判断する
+ */
+
+export type AnalysisErrorKind =
+  | 'invalid_response' // 応答がスキーマに合わない
+  | 'rate_limited'     // 429 など、時間を置けば成功しうる
+  | 'network'          // 通信失敗・5xx
+  | 'configuration'    // APIキー未設定・認証エラーなど、再試行しても直らない
+  | 'unknown';
+
+export class AnalysisError extends Error {
+  readonly kind: AnalysisErrorKind;
+  readonly issues: string[];
+
+  constructor(kind: AnalysisErrorKind, message: string, issues: string[] = []) {
+    super(message);
+    this.name = 'AnalysisError';
+    this.kind = kind;
+    this.issues = issues;
+  }
+
+  get retryable(): boolean {
+    return this.kind === 'invalid_response' || this.kind === 'rate_limited' || this.kind === 'network';
+  }
+}
+
+/**
+ * HTTP ステータスコードをエラー種別に変換する
+ */
+export const errorKindFromStatus = (status: number | undefined): AnalysisErrorKind => {
+  if (status === undefined) return 'network';
+  if (status === 429) return 'rate_limited';
+  if (status === 400 || status === 401 || status === 403 || status === 404) return 'configuration';
+  if (status >= 500) return 'network';
+  return 'unknown';
+};
+
+/**
+ * 任意の例外を AnalysisError に正規化する
+ */
+export const toAnalysisError = (error: unknown): AnalysisError => {
+  if (error instanceof AnalysisError) return error;
+  if (error instanceof TypeError) {
+    // fetch の通信失敗は TypeError になる
+    return new AnalysisError('network', error.message);
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new AnalysisError('unknown', message);
+};
@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AnalysisJob, QueueSettings } from "../types";
+import { AnalysisError } from "./analysisErrors";
+import { createAnalysisQueue } from "./analysisQueue";
+import * as db from "./dbService";
+
+vi.mock("./dbService", () => ({
+  saveJobs: vi.fn(async () => {}),
+  deleteJobs: vi.fn(async () => {})
+}));
+
+interface Run {
+  job: AnalysisJob;
+  signal: AbortSignal;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+// runJob の呼び出しを記録し、テストから1件ずつ終わらせる
+const setup = (settings: Partial<QueueSettings> = {}) => {
+  const runs: Run[] = [];
+  const onJobFailed = vi.fn();
+  const queue = createAnalysisQueue({
+    getSettings: () => ({ concurrency: 2, requestsPerMinute: 100, maxAttempts: 3, ...settings }),
+    runJob: (job, signal) => new Promise<void>((resolve, reject) => runs.push({ job, signal, resolve, reject })),
+    onJobFailed,
+    onProgress: () => {}
+  });
+  return { queue, runs, onJobFailed };
+};
+
+// ジョブの保存・実行・後片付けの Promise を進める
+const settle = () => vi.advanceTimersByTimeAsync(0);
+
+const savedJob = (fields: Partial<AnalysisJob>): AnalysisJob => ({
+  id: "photo",
+  photoId: "photo",
+  status: "queued",
+  attempts: 0,
+  nextAttemptAt: 0,
+  createdAt: 0,
+  ...fields
+});
+
+describe("createAnalysisQueue", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, "random").mockReturnValue(0.5); // バックオフのゆらぎをなくす
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("同時実行数を超えて実行せず、終わった分だけ次を始める", async () => {
+    const { queue, runs } = setup({ concurrency: 2 });
+
+    await queue.enqueue(["a", "b", "c"]);
+    await settle();
+    expect(runs.map(run => run.job.photoId)).toEqual(["a", "b"]);
+    expect(queue.getProgress()).toMatchObject({ running: 2, queued: 1 });
+
+    runs[0].resolve();
+    await settle();
+    expect(runs.map(run => run.job.photoId)).toEqual(["a", "b", "c"]);
+    expect(queue.getProgress()).toMatchObject({ completed: 1, running: 2, queued: 0 });
+    expect(db.deleteJobs).toHaveBeenCalledWith(["a"]);
+  });
+
+  it("1分あたりのリクエスト数を超えたら、枠が空くまで待つ", async () => {
+    const { queue, runs } = setup({ requestsPerMinute: 1 });
+
+    await queue.enqueue(["a", "b"]);
+    await settle();
+    runs[0].resolve();
+    await settle();
+    expect(runs).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(runs.map(run => run.job.photoId)).toEqual(["a", "b"]);
+  });
+
+  it("再試行できる失敗は指数バックオフで待ってから試行回数を増やして再実行する", async () => {
+    const { queue, runs, onJobFailed } = setup();
+
+    await queue.enqueue(["a"]);
+    await settle();
+    runs[0].reject(new AnalysisError("network", "offline"));
+    await settle();
+    expect(queue.getProgress()).toMatchObject({ running: 0, queued: 1 });
+    expect(db.saveJobs).toHaveBeenLastCalledWith([expect.objectContaining({ id: "a", status: "queued", attempts: 1, lastError: "offline" })]);
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(runs).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(runs[1].job.attempts).toBe(2);
+
+    runs[1].reject(new AnalysisError("network", "offline"));
+    await vi.advanceTimersByTimeAsync(10 * 1000);
+    expect(runs[2].job.attempts).toBe(3);
+    expect(onJobFailed).not.toHaveBeenCalled();
+  });
+
+  it("最大試行回数に達するか再試行できない失敗なら、失敗として通知する", async () => {
+    const { queue, runs, onJobFailed } = setup({ maxAttempts: 1 });
+    const error = new AnalysisError("network", "offline");
+
+    await queue.enqueue(["a"]);
+    await settle();
+    runs[0].reject(error);
+    await settle();
+
+    expect(onJobFailed).toHaveBeenCalledWith(expect.objectContaining({ id: "a", attempts: 1 }), error);
+    expect(db.deleteJobs).toHaveBeenCalledWith(["a"]);
+    expect(queue.getProgress()).toMatchObject({ running: 0, queued: 0 });
+  });
+
+  it("前回のセッションのジョブは取り込み順に再開し、同じ写真を二重に入れない", async () => {
+    const { queue, runs } = setup({ concurrency: 1 });
+
+    queue.restore([
+      savedJob({ id: "later", photoId: "later", status: "running", attempts: 1, createdAt: 2 }),
+      savedJob({ id: "earlier", photoId: "earlier", createdAt: 1 }),
+      savedJob({ id: "locationName:earlier", photoId: "earlier", kind: "locationName", createdAt: 3 })
+    ]);
+    await queue.enqueue(["later"]);
+    await settle();
+
+    expect(runs[0].job).toMatchObject({ id: "earlier", status: "running", attempts: 1 });
+    runs[0].resolve();
+    await settle();
+    expect(runs[1].job).toMatchObject({ id: "later", attempts: 2 });
+    runs[1].resolve();
+    await settle();
+    expect(runs[2].job).toMatchObject({ id: "locationName:earlier", kind: "locationName" });
+    expect(queue.getProgress().total).toBe(3);
+  });
+
+  it("一時停止すると実行中の通信を打ち切って待機中に戻し、再開で同じ試行回数からやり直す", async () => {
+    const { queue, runs, onJobFailed } = setup();
+
+    await queue.enqueue(["a"]);
+    await settle();
+    queue.pause();
+    expect(runs[0].signal.aborted).toBe(true);
+    expect(queue.getProgress()).toMatchObject({ running: 0, queued: 1, paused: true });
+    runs[0].reject(new DOMException("Aborted", "AbortError"));
+    await settle();
+    expect(runs).toHaveLength(1);
+
+    queue.resume();
+    await settle();
+    expect(runs[1].job).toMatchObject({ id: "a", attempts: 1 });
+    expect(onJobFailed).not.toHaveBeenCalled();
+  });
+
+  it("すべてキャンセルすると、待機中と実行中のジョブをそのまま失敗として通知する", async () => {
+    const { queue, runs, onJobFailed } = setup({ concurrency: 1 });
+
+    await queue.enqueue(["a"], "locationName");
+    await queue.enqueue(["b"]);
+    await settle();
+    await queue.cancelAll();
+
+    expect(runs[0].signal.aborted).toBe(true);
+    expect(onJobFailed.mock.calls.map(([job]) => job)).toEqual([
+      expect.objectContaining({ id: "b", photoId: "b", status: "queued" }),
+      expect.objectContaining({ id: "locationName:a", photoId: "a", kind: "locationName", status: "running", attempts: 1 })
+    ]);
+    expect(db.deleteJobs).toHaveBeenCalledWith(["b", "locationName:a"]);
+    expect(queue.getProgress()).toMatchObject({ running: 0, queued: 0 });
+  });
+});
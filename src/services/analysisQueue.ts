@@ -0,0 +1,259 @@
+import { AnalysisJob, AnalysisJobKind, QueueProgress, QueueSettings } from "../types";
+import { AnalysisError } from "./analysisErrors";
+import { backoffDelay } from "./retry";
+import * as db from "./dbService";
+import { t } from "./i18nService";
+
+/**
+ * IndexedDB に永続化される解析ジョブキュー
+ * 同時実行数と1分あたりのリクエスト数を制限し、失敗したジョブは指数バックオフで再試行する
+ */
+
+const SETTINGS_STORAGE_KEY = "visionsort.queueSettings";
+const RATE_WINDOW_MS = 60 * 1000;
+const RETRY_BASE_DELAY_MS = 5000;
+const RETRY_MAX_DELAY_MS = 2 * 60 * 1000;
+
+export const DEFAULT_QUEUE_SETTINGS: QueueSettings = {
+  concurrency: 2,
+  requestsPerMinute: 15,
+  maxAttempts: 4
+};
+
+export const getQueueSettings = (): QueueSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (saved) return { ...DEFAULT_QUEUE_SETTINGS, ...JSON.parse(saved) };
+  } catch (e) {
+    console.warn("[VisionSort] Failed to read queue settings:", e);
+  }
+  return DEFAULT_QUEUE_SETTINGS;
+};
+
+export const saveQueueSettings = (settings: QueueSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+interface AnalysisQueueOptions {
+  getSettings: () => QueueSettings;
+  // 1回分の解析を行う。signal が中断されたら結果を保存してはいけない
+  runJob: (job: AnalysisJob, signal: AbortSignal) => Promise<void>;
+  // 再試行しても成功しなかった、またはキャンセルされたジョブ
+  onJobFailed: (job: AnalysisJob, error: unknown) => void | Promise<void>;
+  onProgress: (progress: QueueProgress) => void;
+}
+
+export interface AnalysisQueue {
+  enqueue: (photoIds: string[], kind?: AnalysisJobKind) => Promise<void>;
+  restore: (jobs: AnalysisJob[]) => void;
+  pause: () => void;
+  resume: () => void;
+  cancelAll: () => Promise<void>;
+  getProgress: () => QueueProgress;
+}
+
+const isRetryable = (error: unknown) => error instanceof AnalysisError && error.retryable;
+
+// 同じ写真でも種類の違うジョブは別々に持てるよう、analyze 以外は種類をIDに含める
+const jobId = (photoId: string, kind: AnalysisJobKind) => kind === 'analyze' ? photoId : `${kind}:${photoId}`;
+
+export const createAnalysisQueue = (options: AnalysisQueueOptions): AnalysisQueue => {
+  let pending: AnalysisJob[] = [];
+  // 実行中のジョブ。一時停止・キャンセルで中断したジョブを戻したり通知したりするため、ジョブ自体も持っておく
+  const running = new Map<string, { controller: AbortController; job: AnalysisJob }>();
+  const requestTimes: number[] = [];
+  let paused = false;
+  let cooldownUntil = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let completed = 0;
+  let failed = 0;
+
+  const getProgress = (): QueueProgress => ({
+    total: completed + failed + running.size + pending.length,
+    completed,
+    failed,
+    running: running.size,
+    queued: pending.length,
+    paused
+  });
+
+  const report = () => {
+    // すべて終わったらバッチの集計をリセットする
+    if (pending.length === 0 && running.size === 0) {
+      options.onProgress(getProgress());
+      completed = 0;
+      failed = 0;
+      return;
+    }
+    options.onProgress(getProgress());
+  };
+
+  const schedule = (delayMs: number) => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => { timer = null; pump(); }, Math.max(0, delayMs));
+  };
+
+  /**
+   * レート制限の残り待ち時間（0 なら今すぐ実行できる）
+   */
+  const rateLimitWait = (now: number): number => {
+    while (requestTimes.length > 0 && requestTimes[0] <= now - RATE_WINDOW_MS) requestTimes.shift();
+    const { requestsPerMinute } = options.getSettings();
+    const cooldown = Math.max(0, cooldownUntil - now);
+    if (requestTimes.length < requestsPerMinute) return cooldown;
+    return Math.max(cooldown, requestTimes[0] + RATE_WINDOW_MS - now);
+  };
+
+  const pump = () => {
+    if (paused) return;
+    const { concurrency } = options.getSettings();
+
+    while (running.size < concurrency && pending.length > 0) {
+      const now = Date.now();
+      const wait = rateLimitWait(now);
+      if (wait > 0) {
+        schedule(wait);
+        return;
+      }
+
+      const readyIndex = pending.findIndex(job => job.nextAttemptAt <= now);
+      if (readyIndex === -1) {
+        schedule(Math.min(...pending.map(job => job.nextAttemptAt)) - now);
+        return;
+      }
+
+      const [job] = pending.splice(readyIndex, 1);
+      requestTimes.push(now);
+      start(job);
+    }
+  };
+
+  const start = (job: AnalysisJob) => {
+    const controller = new AbortController();
+    const runningJob: AnalysisJob = { ...job, status: 'running', attempts: job.attempts + 1 };
+    running.set(job.id, { controller, job: runningJob });
+    report();
+
+    db.saveJobs([runningJob])
+      .then(() => controller.signal.aborted ? undefined : options.runJob(runningJob, controller.signal))
+      .then(async () => {
+        if (controller.signal.aborted) return;
+        completed++;
+        await db.deleteJobs([job.id]);
+      })
+      .catch(async (error) => {
+        if (controller.signal.aborted) return;
+        const { maxAttempts } = options.getSettings();
+        if (isRetryable(error) && runningJob.attempts < maxAttempts) {
+          const delay = backoffDelay(runningJob.attempts, RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS);
+          if (error instanceof AnalysisError && error.kind === 'rate_limited') {
+            // レート制限を受けたら他のジョブもまとめて待たせる
+            cooldownUntil = Math.max(cooldownUntil, Date.now() + delay);
+          }
+          const retryJob: AnalysisJob = {
+            ...runningJob,
+            status: 'queued',
+            nextAttemptAt: Date.now() + delay,
+            lastError: error instanceof Error ? error.message : String(error)
+          };
+          pending.push(retryJob);
+          await db.saveJobs([retryJob]);
+          return;
+        }
+        failed++;
+        await db.deleteJobs([job.id]);
+        await options.onJobFailed(runningJob, error);
+      })
+      .catch(error => console.error("[VisionSort] Queue bookkeeping error:", error))
+      .finally(() => {
+        if (running.get(job.id)?.controller === controller) running.delete(job.id);
+        report();
+        pump();
+      });
+  };
+
+  const hasJob = (id: string) => running.has(id) || pending.some(job => job.id === id);
+
+  return {
+    enqueue: async (photoIds, kind = 'analyze') => {
+      const now = Date.now();
+      const jobs: AnalysisJob[] = photoIds
+        .filter(photoId => !hasJob(jobId(photoId, kind)))
+        .map((photoId, index) => ({
+          id: jobId(photoId, kind),
+          photoId,
+          kind,
+          status: 'queued',
+          attempts: 0,
+          nextAttemptAt: now,
+          createdAt: now + index // 取り込み順を保つ
+        }));
+      if (jobs.length === 0) return;
+      await db.saveJobs(jobs);
+      pending.push(...jobs);
+      report();
+      pump();
+    },
+
+    /**
+     * 前回のセッションで中断されたジョブを再開する
+     */
+    restore: (jobs) => {
+      const restored = jobs
+        .filter(job => !hasJob(job.id))
+        .map(job => ({ ...job, status: 'queued' as const }))
+        .sort((a, b) => a.createdAt - b.createdAt);
+      if (restored.length === 0) return;
+      pending.push(...restored);
+      report();
+      pump();
+    },
+
+    /**
+     * 新しいジョブを始めず、実行中のジョブも通信を打ち切って待機中に戻す（中断した分は試行回数に数えない）
+     */
+    pause: () => {
+      paused = true;
+      if (timer) clearTimeout(timer);
+      timer = null;
+
+      const requeued = Array.from(running.values()).map(({ controller, job }): AnalysisJob => {
+        controller.abort();
+        return { ...job, status: 'queued', attempts: job.attempts - 1 };
+      });
+      running.clear();
+      if (requeued.length > 0) {
+        pending.unshift(...requeued);
+        db.saveJobs(requeued).catch(error => console.error("[VisionSort] Queue bookkeeping error:", error));
+      }
+      report();
+    },
+
+    resume: () => {
+      paused = false;
+      report();
+      pump();
+    },
+
+    /**
+     * 待機中のジョブを破棄し、実行中のジョブの結果も捨てる
+     */
+    cancelAll: async () => {
+      const cancelled = [...pending];
+      pending = [];
+      running.forEach(({ controller }) => controller.abort());
+      const runningJobs = Array.from(running.values(), ({ job }) => job);
+      running.clear();
+      if (timer) clearTimeout(timer);
+      timer = null;
+
+      await db.deleteJobs([...cancelled, ...runningJobs].map(job => job.id));
+      const cancelError = new Error(t('queue.cancelled'));
+      for (const job of [...cancelled, ...runningJobs]) await options.onJobFailed(job, cancelError);
+      failed += cancelled.length + runningJobs.length;
+      report();
+    },
+
+    getProgress
+  };
+};
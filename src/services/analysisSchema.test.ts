@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AnalysisError } from "./analysisErrors";
+import { normalizeAnalysisDate, parseAnalysisResponse, validateAnalysisResult, validateLocationName } from "./analysisSchema";
+import { withRetry } from "./retry";
+
+const valid = {
+  locationName: "清水寺",
+  country: "Japan",
+  latitude: 34.9949,
+  longitude: 135.785,
+  date: "2023/10/05",
+  description: "寺社の境内",
+  tags: ["#temple", " temple ", "紅葉"]
+};
+
+const issuesOf = (raw: unknown) => {
+  try {
+    validateAnalysisResult(raw);
+  } catch (error) {
+    expect(error).toBeInstanceOf(AnalysisError);
+    expect((error as AnalysisError).kind).toBe("invalid_response");
+    return (error as AnalysisError).issues;
+  }
+  throw new Error("validation passed");
+};
+
+describe("validateAnalysisResult", () => {
+  it("正しい応答は日付を YYYY-MM-DD にし、タグを正規化する", () => {
+    expect(validateAnalysisResult(valid)).toEqual({
+      locationName: "清水寺",
+      country: "Japan",
+      latitude: 34.9949,
+      longitude: 135.785,
+      date: "2023-10-05",
+      description: "寺社の境内",
+      tags: ["temple", "紅葉"]
+    });
+  });
+
+  it("「不明」を表す値と (0, 0) の座標は null にする", () => {
+    expect(validateAnalysisResult({ ...valid, country: "Unknown", date: "不明", latitude: 0, longitude: 0, tags: undefined }))
+      .toMatchObject({ country: null, date: null, latitude: null, longitude: null, tags: [] });
+  });
+
+  it("範囲外の座標・片方だけの座標・実在しない日付を問題として挙げる", () => {
+    expect(issuesOf({ ...valid, latitude: 91 })).toEqual(["latitude: expected a number between -90 and 90"]);
+    expect(issuesOf({ ...valid, longitude: null })).toEqual(["latitude/longitude: both or neither must be provided"]);
+    expect(issuesOf({ ...valid, date: "2023/02/30" })[0]).toMatch(/^date:/);
+    expect(issuesOf({ ...valid, locationName: "unknown", description: 1 })).toEqual([
+      "locationName: expected a non-empty place name",
+      "description: expected string"
+    ]);
+  });
+
+  it("オブジェクトでない応答はエラーにする", () => {
+    expect(issuesOf(["清水寺"])).toEqual(["root: expected object"]);
+  });
+});
+
+describe("normalizeAnalysisDate", () => {
+  it("1900年より前と未来の日付は受け付けない", () => {
+    expect(normalizeAnalysisDate("1899-12-31")).toBeNull();
+    expect(normalizeAnalysisDate(`${new Date().getFullYear() + 1}/01/01`)).toBeNull();
+    expect(normalizeAnalysisDate("2020-2-9")).toBe("2020-02-09");
+  });
+});
+
+describe("parseAnalysisResponse / validateLocationName", () => {
+  it("コードフェンスで囲まれた JSON も読み取る", () => {
+    expect(parseAnalysisResponse("```json\n" + JSON.stringify(valid) + "\n```").locationName).toBe("清水寺");
+  });
+
+  it("JSON でない応答は invalid_response にする", () => {
+    expect(() => parseAnalysisResponse("清水寺です")).toThrow(AnalysisError);
+  });
+
+  it("場所名は引用符を外し、複数行は受け付けない", () => {
+    expect(validateLocationName("「清水寺」")).toBe("清水寺");
+    expect(() => validateLocationName("清水寺\n京都")).toThrow("Location name is not a single short line");
+  });
+});
+
+describe("withRetry", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const options = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 10000, shouldRetry: () => true };
+
+  it("失敗するたびに待ち時間を倍にして再試行し、成功した結果を返す", async () => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    const onRetry = vi.fn();
+    const task = vi.fn(async (attempt: number) => {
+      if (attempt < 3) throw new AnalysisError("network", "offline");
+      return "ok";
+    });
+
+    const result = withRetry(task, { ...options, onRetry });
+    await vi.runAllTimersAsync();
+
+    expect(await result).toBe("ok");
+    expect(onRetry.mock.calls.map(([, attempt, delay]) => [attempt, delay])).toEqual([[1, 1000], [2, 2000]]);
+  });
+
+  it("再試行しない失敗と最後の試行の失敗はそのまま投げる", async () => {
+    const error = new AnalysisError("configuration", "no key");
+    const task = vi.fn(async () => { throw error; });
+
+    await expect(withRetry(task, { ...options, shouldRetry: (e) => e instanceof AnalysisError && e.retryable })).rejects.toBe(error);
+    expect(task).toHaveBeenCalledTimes(1);
+    await expect(withRetry(task, { ...options, maxAttempts: 1 })).rejects.toBe(error);
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+});
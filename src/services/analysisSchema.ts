@@ -0,0 +1,149 @@
+import { AnalysisResult } from "../types";
+import { AnalysisError } from "./analysisErrors";
+import { MAX_AI_TAGS, normalizeTags } from "./tagService";
+
+/**
+ * AI 応答の JSON スキーマと検証
+ * モデルには構造化出力としてこのスキーマを渡し、受け取った値もここで検証する
+ */
+
+export const ANALYSIS_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    locationName: { type: 'string', description: 'Specific place name' },
+    country: { type: ['string', 'null'], description: 'Country name, or null if unknown' },
+    latitude: { type: ['number', 'null'], description: 'Latitude in decimal degrees (-90..90), or null if unknown' },
+    longitude: { type: ['number', 'null'], description: 'Longitude in decimal degrees (-180..180), or null if unknown' },
+    date: { type: ['string', 'null'], description: 'Capture date as YYYY/MM/DD, or null if unknown' },
+    description: { type: 'string', description: 'Very short description (max 5 words)' },
+    tags: { type: 'array', items: { type: 'string' }, description: 'Up to 8 short tags: scene, objects, food, landmark type' }
+  },
+  required: ['locationName', 'country', 'latitude', 'longitude', 'date', 'description', 'tags'],
+  additionalProperties: false
+} as const;
+
+const MAX_LOCATION_NAME_LENGTH = 200;
+const MAX_COUNTRY_LENGTH = 60;
+const MAX_DESCRIPTION_LENGTH = 120;
+const EARLIEST_YEAR = 1900;
+
+// モデルが「不明」のつもりで返しがちな値は null として扱う
+const UNKNOWN_VALUES = new Set(['', 'unknown', 'n/a', 'none', 'null', '不明', '不明な国', '不明な場所']);
+
+const isUnknown = (value: string) => UNKNOWN_VALUES.has(value.trim().toLowerCase());
+
+/**
+ * "YYYY/MM/DD" または "YYYY-MM-DD" を実在する日付として検証し、YYYY-MM-DD に正規化する
+ */
+export const normalizeAnalysisDate = (value: string): string | null => {
+  const match = value.trim().match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/);
+  if (!match) return null;
+  const y = parseInt(match[1], 10);
+  const m = parseInt(match[2], 10);
+  const d = parseInt(match[3], 10);
+
+  const date = new Date(y, m - 1, d);
+  if (date.getFullYear() !== y || date.getMonth() !== m - 1 || date.getDate() !== d) return null;
+  if (y < EARLIEST_YEAR || date.getTime() > Date.now()) return null;
+  return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * 任意の値を AnalysisResult として検証する。問題があれば invalid_response の AnalysisError を投げる
+ */
+export const validateAnalysisResult = (raw: unknown): AnalysisResult => {
+  if (!isObject(raw)) {
+    throw new AnalysisError('invalid_response', 'Response is not a JSON object', ['root: expected object']);
+  }
+  const issues: string[] = [];
+
+  const locationName = typeof raw.locationName === 'string' ? raw.locationName.trim() : '';
+  if (!locationName || isUnknown(locationName)) issues.push('locationName: expected a non-empty place name');
+  else if (locationName.length > MAX_LOCATION_NAME_LENGTH) issues.push('locationName: too long');
+
+  let country: string | null = null;
+  if (typeof raw.country === 'string' && !isUnknown(raw.country)) {
+    country = raw.country.trim();
+    if (country.length > MAX_COUNTRY_LENGTH) issues.push('country: too long');
+    else if (/[\d{}[\]<>]/.test(country)) issues.push('country: not a country name');
+  } else if (raw.country !== null && raw.country !== undefined && typeof raw.country !== 'string') {
+    issues.push('country: expected string or null');
+  }
+
+  let latitude: number | null = null;
+  let longitude: number | null = null;
+  const hasLat = raw.latitude !== null && raw.latitude !== undefined;
+  const hasLng = raw.longitude !== null && raw.longitude !== undefined;
+  if (hasLat !== hasLng) {
+    issues.push('latitude/longitude: both or neither must be provided');
+  } else if (hasLat) {
+    if (typeof raw.latitude !== 'number' || !isFinite(raw.latitude) || Math.abs(raw.latitude) > 90) {
+      issues.push('latitude: expected a number between -90 and 90');
+    }
+    if (typeof raw.longitude !== 'number' || !isFinite(raw.longitude) || Math.abs(raw.longitude) > 180) {
+      issues.push('longitude: expected a number between -180 and 180');
+    }
+    // (0, 0) は「分からない」の代わりに返されることが多いので座標なしとして扱う
+    if (issues.length === 0 && (raw.latitude !== 0 || raw.longitude !== 0)) {
+      latitude = raw.latitude as number;
+      longitude = raw.longitude as number;
+    }
+  }
+
+  let date: string | null = null;
+  if (typeof raw.date === 'string' && !isUnknown(raw.date)) {
+    date = normalizeAnalysisDate(raw.date);
+    if (!date) issues.push(`date: "${raw.date}" is not a real past date in YYYY/MM/DD format`);
+  } else if (raw.date !== null && raw.date !== undefined && typeof raw.date !== 'string') {
+    issues.push('date: expected string or null');
+  }
+
+  const description = typeof raw.description === 'string' ? raw.description.trim() : '';
+  if (typeof raw.description !== 'string') issues.push('description: expected string');
+  else if (description.length > MAX_DESCRIPTION_LENGTH) issues.push('description: too long');
+
+  // タグに対応していないモデルもあるため、無い場合は空として扱う
+  let tags: string[] = [];
+  if (Array.isArray(raw.tags)) {
+    tags = normalizeTags(raw.tags.filter((tag): tag is string => typeof tag === 'string')).slice(0, MAX_AI_TAGS);
+  } else if (raw.tags !== null && raw.tags !== undefined) {
+    issues.push('tags: expected an array of strings');
+  }
+
+  if (issues.length > 0) {
+    throw new AnalysisError('invalid_response', `Invalid analysis response: ${issues.join('; ')}`, issues);
+  }
+  return { locationName, country, latitude, longitude, date, description, tags };
+};
+
+/**
+ * 構造化出力のテキストをパースして検証する
+ * 一部の OpenAI 互換サーバーはコードフェンスで囲んで返すため、それだけは取り除く
+ */
+export const parseAnalysisResponse = (text: string): AnalysisResult => {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch {
+    throw new AnalysisError('invalid_response', 'Response is not valid JSON', ['root: invalid JSON']);
+  }
+  return validateAnalysisResult(parsed);
+};
+
+/**
+ * 場所名だけを返すプロンプトの応答を検証する
+ */
+export const validateLocationName = (text: string): string => {
+  const name = text.trim().replace(/^["「]|["」]$/g, '').trim();
+  if (!name || isUnknown(name)) {
+    throw new AnalysisError('invalid_response', 'Empty location name', ['locationName: empty']);
+  }
+  if (name.length > MAX_LOCATION_NAME_LENGTH || name.includes('\n')) {
+    throw new AnalysisError('invalid_response', 'Location name is not a single short line', ['locationName: malformed']);
+  }
+  return name;
+};
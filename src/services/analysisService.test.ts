@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const SETTINGS_KEY = "visionsort.providerSettings";
+
+// 設定はモジュール内にキャッシュされるため、ページの読み込み直しに合わせてモジュールも読み込み直す
+const load = async () => {
+  vi.resetModules();
+  return import("./analysisService");
+};
+
+describe("provider settings", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  it("既定では API キーを localStorage に書かず、同じタブでは読み込み直しても使える", async () => {
+    const service = await load();
+    service.setProviderSettings({ ...service.getProviderSettings(), providerId: "gemini", gemini: { apiKey: "secret", model: "m" } });
+
+    expect(localStorage.getItem(SETTINGS_KEY)).not.toContain("secret");
+    expect((await load()).getProviderSettings().gemini).toEqual({ apiKey: "secret", model: "m" });
+
+    sessionStorage.clear(); // タブを閉じた
+    expect((await load()).getProviderSettings().gemini.apiKey).toBe("");
+  });
+
+  it("保存を選んだときだけ localStorage に残す", async () => {
+    const service = await load();
+    service.setProviderSettings({ ...service.getProviderSettings(), rememberApiKeys: true, gemini: { apiKey: "secret", model: "m" } });
+    sessionStorage.clear();
+
+    expect((await load()).getProviderSettings().gemini.apiKey).toBe("secret");
+  });
+
+  it("以前のバージョンで平文で保存されたキーは sessionStorage に移す", async () => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify({ providerId: "gemini", gemini: { apiKey: "legacy", model: "m" } }));
+
+    const settings = (await load()).getProviderSettings();
+
+    expect(settings).toMatchObject({ rememberApiKeys: false, gemini: { apiKey: "legacy" } });
+    expect(localStorage.getItem(SETTINGS_KEY)).not.toContain("legacy");
+    expect(sessionStorage.getItem("visionsort.providerApiKeys")).toContain("legacy");
+  });
+});
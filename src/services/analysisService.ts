@@ -0,0 +1,176 @@
+import { AnalysisProvider, AnalysisResult, AnalyzeOptions, ProviderId, ProviderSettings } from "../types";
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from "./providers/geminiProvider";
+import { createOpenAICompatibleProvider, DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL } from "./providers/openAICompatibleProvider";
+import { offlineProvider } from "./providers/offlineProvider";
+import { AnalysisError, toAnalysisError } from "./analysisErrors";
+import { validateAnalysisResult } from "./analysisSchema";
+import { RetryOptions, withRetry } from "./retry";
+
+const SETTINGS_STORAGE_KEY = "visionsort.providerSettings";
+// rememberApiKeys がオフの間、APIキーは設定とは別にこのタブの sessionStorage に置く
+const API_KEYS_STORAGE_KEY = "visionsort.providerApiKeys";
+
+// 表示名は t(`provider.${id}`) で引く
+export const PROVIDER_IDS: ProviderId[] = ['gemini', 'openai-compatible', 'offline'];
+
+const getDefaultSettings = (): ProviderSettings => {
+  const env = (import.meta as any).env || {};
+  const envProvider = env.VITE_ANALYSIS_PROVIDER as ProviderId | undefined;
+  const isKnownProvider = PROVIDER_IDS.some(id => id === envProvider);
+
+  return {
+    // 明示的な指定がなく Gemini のキーもなければ、オフラインで動かす
+    providerId: isKnownProvider ? envProvider! : (env.VITE_GEMINI_API_KEY ? 'gemini' : 'offline'),
+    gemini: { apiKey: '', model: DEFAULT_GEMINI_MODEL },
+    openAICompatible: {
+      baseUrl: env.VITE_OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+      apiKey: '',
+      model: env.VITE_OPENAI_MODEL || DEFAULT_OPENAI_MODEL
+    },
+    refineLocationNames: true,
+    rememberApiKeys: false
+  };
+};
+
+interface ApiKeys {
+  gemini: string;
+  openAICompatible: string;
+}
+
+const readSessionApiKeys = (): Partial<ApiKeys> => {
+  try {
+    return JSON.parse(sessionStorage.getItem(API_KEYS_STORAGE_KEY) || "{}");
+  } catch (e) {
+    console.warn("[VisionSort] Failed to read API keys:", e);
+    return {};
+  }
+};
+
+const withoutApiKeys = (settings: ProviderSettings): ProviderSettings => ({
+  ...settings,
+  gemini: { ...settings.gemini, apiKey: '' },
+  openAICompatible: { ...settings.openAICompatible, apiKey: '' }
+});
+
+let currentSettings: ProviderSettings | null = null;
+
+/**
+ * 保存済みのプロバイダ設定を読み込む（未保存ならデフォルト）
+ */
+export const getProviderSettings = (): ProviderSettings => {
+  if (currentSettings) return currentSettings;
+
+  const defaults = getDefaultSettings();
+  try {
+    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved) as Partial<ProviderSettings>;
+      const rememberApiKeys = parsed.rememberApiKeys ?? defaults.rememberApiKeys;
+      const sessionKeys = rememberApiKeys ? {} : readSessionApiKeys();
+      currentSettings = {
+        providerId: parsed.providerId || defaults.providerId,
+        gemini: { ...defaults.gemini, ...parsed.gemini, ...(sessionKeys.gemini && { apiKey: sessionKeys.gemini }) },
+        openAICompatible: {
+          ...defaults.openAICompatible,
+          ...parsed.openAICompatible,
+          ...(sessionKeys.openAICompatible && { apiKey: sessionKeys.openAICompatible })
+        },
+        refineLocationNames: parsed.refineLocationNames ?? defaults.refineLocationNames,
+        rememberApiKeys
+      };
+      // 以前のバージョンで localStorage に平文で保存されたキーは sessionStorage へ移す
+      if (!rememberApiKeys && (parsed.gemini?.apiKey || parsed.openAICompatible?.apiKey)) setProviderSettings(currentSettings);
+      return currentSettings;
+    }
+  } catch (e) {
+    console.warn("[VisionSort] Failed to read provider settings:", e);
+  }
+  currentSettings = defaults;
+  return currentSettings;
+};
+
+/**
+ * 設定を保存する。APIキーは rememberApiKeys のときだけ localStorage に書き、それ以外は sessionStorage に置く
+ */
+export const setProviderSettings = (settings: ProviderSettings) => {
+  currentSettings = settings;
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings.rememberApiKeys ? settings : withoutApiKeys(settings)));
+  if (settings.rememberApiKeys) {
+    sessionStorage.removeItem(API_KEYS_STORAGE_KEY);
+  } else {
+    const keys: ApiKeys = { gemini: settings.gemini.apiKey, openAICompatible: settings.openAICompatible.apiKey };
+    sessionStorage.setItem(API_KEYS_STORAGE_KEY, JSON.stringify(keys));
+  }
+};
+
+export const createProvider = (settings: ProviderSettings): AnalysisProvider => {
+  switch (settings.providerId) {
+    case 'gemini':
+      return createGeminiProvider(settings.gemini);
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(settings.openAICompatible);
+    case 'offline':
+    default:
+      return offlineProvider;
+  }
+};
+
+export const getActiveProvider = (): AnalysisProvider => createProvider(getProviderSettings());
+
+// 不正な応答・レート制限・通信失敗は最大3回まで、1秒→2秒と間隔を空けて再試行する
+const RETRY_OPTIONS: Omit<RetryOptions, 'onRetry'> = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 8000,
+  shouldRetry: (error) => error instanceof AnalysisError && error.retryable
+};
+
+const logRetry = (providerId: string) => (error: unknown, attempt: number, delayMs: number) => {
+  console.warn(`[VisionSort] ${providerId} attempt ${attempt} failed, retrying in ${delayMs}ms:`, error);
+};
+
+export interface AnalysisRunOptions extends AnalyzeOptions {
+  providerId?: ProviderId; // 指定した場合は設定中のプロバイダの代わりに使う（接続設定は保存済みのもの）
+  // false の場合は1回だけ試す。解析キューは自分で再試行し、試行ごとにレート制限を数えるため false で呼ぶ
+  retry?: boolean;
+}
+
+/**
+ * 画像を解析する。再試行しても有効な結果が得られなければ AnalysisError を投げる
+ */
+export const analyzeImage = async (base64Data: string, mimeType: string, options: AnalysisRunOptions = {}): Promise<AnalysisResult> => {
+  const { providerId, retry = true, ...analyzeOptions } = options;
+  const provider = providerId ? createProvider({ ...getProviderSettings(), providerId }) : getActiveProvider();
+  return withRetry(async () => {
+    try {
+      return validateAnalysisResult(await provider.analyzeImage(base64Data, mimeType, analyzeOptions));
+    } catch (error) {
+      throw toAnalysisError(error);
+    }
+  }, {
+    ...RETRY_OPTIONS,
+    maxAttempts: retry ? RETRY_OPTIONS.maxAttempts : 1,
+    signal: analyzeOptions.signal,
+    onRetry: logRetry(provider.id)
+  });
+};
+
+/**
+ * 座標と画像から場所名をAIに推測させる。失敗時は AnalysisError を投げる
+ */
+export const identifyLocation = async (lat: number, lng: number, base64Data: string, mimeType: string, options: Pick<AnalysisRunOptions, 'signal' | 'retry'> = {}): Promise<string> => {
+  const { retry = true, signal } = options;
+  const provider = getActiveProvider();
+  return withRetry(async () => {
+    try {
+      return await provider.identifyLocation(lat, lng, base64Data, mimeType, { signal });
+    } catch (error) {
+      throw toAnalysisError(error);
+    }
+  }, {
+    ...RETRY_OPTIONS,
+    maxAttempts: retry ? RETRY_OPTIONS.maxAttempts : 1,
+    signal,
+    onRetry: logRetry(provider.id)
+  });
+};
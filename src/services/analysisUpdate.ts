@@ -0,0 +1,86 @@
+import { AnalysisResult, FieldSource, MetadataProvenance, PhotoMetadata } from "../types";
+import { createProvenance, getFieldProvenance, isManualField, mergeProvenance } from "./provenanceService";
+import { withAiTags } from "./tagService";
+import { toCountryCode } from "./geocoderService";
+
+/**
+ * 取り込み時と解析後に写真のメタデータを決める
+ */
+
+/**
+ * ファイル名から YYYYMMDD 形式の8桁の数字を抽出する
+ */
+export const extractDateFromFilename = (filename: string): string | null => {
+  const match = filename.match(/(\d{4})(\d{2})(\d{2})/);
+  if (match) {
+    const y = parseInt(match[1], 10);
+    const m = parseInt(match[2], 10);
+    const d = parseInt(match[3], 10);
+    if (y > 1980 && y < 2100 && m >= 1 && m <= 12 && d >= 1 && d <= 31) {
+      const iso = `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+      return iso;
+    }
+  }
+  return null;
+};
+
+/**
+ * 日付解析のスマートロジック
+ * 優先順位: EXIF/XMP の撮影日 > ファイル名 > AI の推測 > ファイルの更新日時
+ * AI の日付は analysisSchema で YYYY-MM-DD に検証済み
+ */
+export const parseSmartDate = (exifDate: string | undefined, filename: string, aiDate: string | null, fileDate: string): { date: string; source: FieldSource } => {
+  if (exifDate) return { date: exifDate, source: 'exif' };
+
+  const filenameDate = extractDateFromFilename(filename);
+  if (filenameDate) return { date: filenameDate, source: 'filename' };
+
+  if (aiDate) return { date: aiDate, source: 'ai' };
+  return { date: fileDate, source: 'fileTime' };
+};
+
+/**
+ * 解析結果を写真に反映する差分を作る
+ * EXIF にある項目と手動で配置した座標はそのまま使い、AI の推測は欠けている項目だけに使う
+ * ユーザーが手で設定した項目とユーザーのタグは上書きしない
+ */
+export const buildAnalysisUpdate = (photo: PhotoMetadata, result: AnalysisResult): Partial<PhotoMetadata> => {
+  const exif = photo.exif || {};
+  const hasExifLocation = exif.latitude !== undefined && exif.longitude !== undefined;
+  const keepLocation = hasExifLocation || photo.manuallyPlaced || photo.locationSource === 'track' || isManualField(photo, 'location');
+  const hasAiLocation = result.latitude !== null && result.longitude !== null;
+  const update: Partial<PhotoMetadata> = { isProcessing: false, analysisStatus: 'done', analysisError: undefined };
+  const provenance: MetadataProvenance = {};
+
+  if (!keepLocation) {
+    Object.assign(update, {
+      latitude: result.latitude ?? 0,
+      longitude: result.longitude ?? 0,
+      locationSource: hasAiLocation ? 'ai' : undefined
+    });
+    provenance.location = hasAiLocation ? createProvenance('ai', 'low') : undefined;
+  }
+  if (!isManualField(photo, 'locationName')) {
+    update.locationName = result.locationName;
+    provenance.locationName = createProvenance('ai');
+  }
+  if (!isManualField(photo, 'country')) {
+    update.country = result.country ? toCountryCode(result.country) : undefined;
+    provenance.country = result.country ? createProvenance('ai') : undefined;
+  }
+  if (!isManualField(photo, 'description')) {
+    update.description = result.description;
+    provenance.description = createProvenance('ai');
+  }
+  if (!isManualField(photo, 'date')) {
+    const smartDate = parseSmartDate(exif.date, photo.name, result.date, photo.date);
+    update.date = smartDate.date;
+    // AI も日付を推測できなかった場合は今の日付とその出どころをそのまま残す
+    provenance.date = smartDate.source === 'fileTime'
+      ? getFieldProvenance(photo, 'date') ?? createProvenance('fileTime')
+      : createProvenance(smartDate.source, smartDate.source === 'ai' ? 'low' : undefined);
+  }
+  update.provenance = mergeProvenance(photo, provenance);
+  Object.assign(update, withAiTags(photo, result.tags));
+  return update;
+};
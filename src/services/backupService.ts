@@ -0,0 +1,183 @@
+import { Album, JournalEntry, PhotoMetadata } from "../types";
+import * as db from "./dbService";
+import { canonicalizeCountry, clearLegacyPlaceholders, DB_VERSION } from "./dbMigrations";
+import { createZip, readZip, ZipInput } from "./zipService";
+import { extensionFor } from "./fileUtils";
+import { writePhotoMetadata } from "./exifWriter";
+import { t } from "./i18nService";
+
+/**
+ * ライブラリ全体（写真・メモ・アルバム・日記）を1つの ZIP にバックアップし、復元する
+ * ZIP の中身: manifest.json（メタデータ）と photos/ 以下の元画像ファイル
+ */
+
+const BACKUP_FORMAT = "visionsort-backup";
+const BACKUP_FORMAT_VERSION = 1;
+const MANIFEST_NAME = "manifest.json";
+
+type PhotoRecord = Omit<PhotoMetadata, 'url' | 'fileBlob'>;
+
+interface BackupPhotoEntry extends PhotoRecord {
+  file?: string; // ZIP 内のパス
+  mimeType?: string;
+}
+
+interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  dbVersion: number;
+  photos: BackupPhotoEntry[];
+  notes: Record<string, string>;
+  albums?: Album[];
+  journal?: JournalEntry[];
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+// merge 時に同じIDの写真が既にある場合の扱い
+export type ConflictStrategy = 'keep-local' | 'use-backup';
+
+export interface RestoreSummary {
+  added: number;
+  updated: number;
+  skipped: number;
+  notes: number;
+  albums: number;
+  journal: number;
+}
+
+/**
+ * ライブラリを ZIP として書き出す
+ */
+export const exportLibrary = async (): Promise<Blob> => {
+  const [photos, notes, albums, journal] = await Promise.all([
+    db.getAllPhotos(), db.getAllNotes(), db.getAllAlbums(), db.getAllJournalEntries()
+  ]);
+  const files: ZipInput[] = [];
+
+  const entries: BackupPhotoEntry[] = photos.map(photo => {
+    const { url, fileBlob, ...record } = photo;
+    if (!fileBlob) return record;
+    const file = `photos/${photo.id}.${extensionFor(fileBlob, photo.name)}`;
+    files.push({ name: file, data: fileBlob });
+    return { ...record, file, mimeType: fileBlob.type };
+  });
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    dbVersion: DB_VERSION,
+    photos: entries,
+    notes,
+    albums,
+    journal
+  };
+
+  return createZip([{ name: MANIFEST_NAME, data: JSON.stringify(manifest, null, 2) }, ...files]);
+};
+
+export interface PhotoExportResult {
+  archive: Blob;
+  unchanged: string[]; // メタデータを書き込めず元のまま入れたファイル名（JPEG 以外など）
+}
+
+/**
+ * 選んだ写真の元ファイルだけを ZIP にまとめる（ファイル名は「撮影日_元のファイル名」）
+ * withMetadata の場合は JPEG に位置・撮影日時・説明を書き込む
+ */
+export const exportPhotoFiles = async (photos: PhotoMetadata[], withMetadata = false): Promise<PhotoExportResult> => {
+  const usedNames = new Set<string>();
+  const files: ZipInput[] = [];
+  const unchanged: string[] = [];
+  for (const photo of photos) {
+    if (!photo.fileBlob) continue;
+    const base = `${photo.date}_${photo.name.replace(/\.[a-z0-9]+$/i, '')}`;
+    const extension = extensionFor(photo.fileBlob, photo.name);
+    let name = `${base}.${extension}`;
+    for (let i = 2; usedNames.has(name); i++) name = `${base}_${i}.${extension}`;
+    usedNames.add(name);
+
+    let data: Blob = photo.fileBlob;
+    if (withMetadata) {
+      try {
+        data = await writePhotoMetadata(photo);
+      } catch (err) {
+        console.warn(`[VisionSort] Metadata was not written to ${photo.name}:`, err);
+        unchanged.push(name);
+      }
+    }
+    files.push({ name, data });
+  }
+  return { archive: await createZip(files), unchanged };
+};
+
+const readManifest = async (archive: Blob) => {
+  const entries = await readZip(archive);
+  const manifestEntry = entries.find(entry => entry.name === MANIFEST_NAME);
+  if (!manifestEntry) throw new Error(t('error.backupNoManifest'));
+
+  const manifest = JSON.parse(await (await manifestEntry.read()).text()) as BackupManifest;
+  if (manifest.format !== BACKUP_FORMAT || !Array.isArray(manifest.photos)) {
+    throw new Error(t('error.backupFormat'));
+  }
+  if (manifest.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new Error(t('error.backupTooNew'));
+  }
+  return { manifest, entries: new Map(entries.map(entry => [entry.name, entry])) };
+};
+
+/**
+ * バックアップ ZIP を読み込んでライブラリに書き戻す
+ */
+export const restoreLibrary = async (archive: Blob, mode: RestoreMode, conflict: ConflictStrategy): Promise<RestoreSummary> => {
+  const { manifest, entries } = await readManifest(archive);
+  const localIds = new Set(mode === 'merge' ? await db.getAllPhotoIds() : []);
+  const trashedIds = new Set(mode === 'merge' ? await db.getTrashIds() : []);
+  const localNotes = mode === 'merge' ? await db.getAllNotes() : {};
+  const localAlbumIds = new Set(mode === 'merge' ? (await db.getAllAlbums()).map(album => album.id) : []);
+  const localJournalIds = new Set(mode === 'merge' ? (await db.getAllJournalEntries()).map(entry => entry.id) : []);
+  const summary: RestoreSummary = { added: 0, updated: 0, skipped: 0, notes: 0, albums: 0, journal: 0 };
+
+  const photos: PhotoMetadata[] = [];
+  const keptLocal = new Set<string>();
+  for (const { file, mimeType, ...record } of manifest.photos) {
+    // ゴミ箱にある写真はこの端末で削除したものなので取り込まない（戻すときはゴミ箱から戻す）
+    if (trashedIds.has(record.id) || (localIds.has(record.id) && conflict === 'keep-local')) {
+      keptLocal.add(record.id);
+      summary.skipped++;
+      continue;
+    }
+
+    const entry = file ? entries.get(file) : undefined;
+    const blob = entry ? await entry.read() : undefined;
+    const fileBlob = blob ? new Blob([blob], { type: mimeType || blob.type }) : undefined;
+    const photo: PhotoMetadata = { ...record, url: "", fileBlob };
+    clearLegacyPlaceholders(photo);
+    canonicalizeCountry(photo);
+    photos.push(photo);
+    if (localIds.has(record.id)) summary.updated++;
+    else summary.added++;
+  }
+
+  // ローカルの写真を残した場合、ローカルにメモがなければバックアップのメモを使う
+  const notes: Record<string, string> = {};
+  Object.entries(manifest.notes || {}).forEach(([id, note]) => {
+    if (!note || trashedIds.has(id)) return;
+    if (keptLocal.has(id) && localNotes[id]) return;
+    notes[id] = note;
+    summary.notes++;
+  });
+
+  // アルバムは写真と同じ方針で、同じIDがある場合は conflict に従う
+  const albums = (manifest.albums || []).filter(album => !(localAlbumIds.has(album.id) && conflict === 'keep-local'));
+  summary.albums = albums.length;
+
+  // 日記もアルバムと同じく、同じ日・旅行の日記がある場合は conflict に従う
+  const journal = (manifest.journal || []).filter(entry => !(localJournalIds.has(entry.id) && conflict === 'keep-local'));
+  summary.journal = journal.length;
+
+  await db.restoreRecords(photos, notes, albums, journal, mode === 'replace');
+  return summary;
+};
@@ -0,0 +1,120 @@
+import { PhotoMetadata } from "../types";
+import { GeoBounds } from "./dbService";
+import { photoPlaceLabel, t } from "./i18nService";
+
+/**
+ * ズームレベルに応じた写真マーカーのクラスタリング
+ * 写真の位置を一度だけメルカトル座標に変換し、ズームごとに画面上のグリッドでまとめた結果をキャッシュする
+ */
+
+const TILE_SIZE = 256;
+export const CLUSTER_RADIUS_PX = 72;
+// これより拡大したらクラスタにせず、同じ座標の写真だけをまとめる
+export const CLUSTER_MAX_ZOOM = 17;
+
+export interface PhotoCluster {
+  key: string;
+  latitude: number;
+  longitude: number;
+  photoIds: string[];
+  representativeId: string; // サムネイルに使う写真（最も新しい写真）
+  name: string;
+  bounds: GeoBounds;
+  samePosition: boolean; // すべての写真が同じ座標にある（拡大しても分かれない）
+}
+
+interface ProjectedPhoto {
+  id: string;
+  name: string;
+  date: string;
+  latitude: number;
+  longitude: number;
+  x: number; // 0〜1 に正規化したメルカトル座標
+  y: number;
+}
+
+/**
+ * 緯度経度を 0〜1 のメルカトル座標に変換する
+ */
+export const projectToWorld = (lat: number, lng: number): { x: number; y: number } => {
+  const sin = Math.min(Math.max(Math.sin(lat * Math.PI / 180), -0.9999), 0.9999);
+  return {
+    x: (lng + 180) / 360,
+    y: 0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)
+  };
+};
+
+const inBounds = (lat: number, lng: number, bounds: GeoBounds) => {
+  if (lat < bounds.south || lat > bounds.north) return false;
+  if (bounds.east - bounds.west >= 360) return true;
+  // 地図を横にスクロールすると経度が ±180 を超えるため、範囲を -180〜180 に戻して判定する
+  const wrap = (value: number) => ((value + 540) % 360) - 180;
+  const west = wrap(bounds.west);
+  const east = wrap(bounds.east);
+  return west <= east ? lng >= west && lng <= east : lng >= west || lng <= east;
+};
+
+const buildCluster = (key: string, members: ProjectedPhoto[]): PhotoCluster => {
+  let latSum = 0, lngSum = 0;
+  let south = 90, north = -90, west = 180, east = -180;
+  let representative = members[0];
+  members.forEach(p => {
+    latSum += p.latitude;
+    lngSum += p.longitude;
+    south = Math.min(south, p.latitude);
+    north = Math.max(north, p.latitude);
+    west = Math.min(west, p.longitude);
+    east = Math.max(east, p.longitude);
+    if (p.date > representative.date) representative = p;
+  });
+  return {
+    key,
+    latitude: latSum / members.length,
+    longitude: lngSum / members.length,
+    photoIds: members.map(p => p.id),
+    representativeId: representative.id,
+    name: members.length > 1 ? t('map.clusterName', { name: representative.name, count: members.length - 1 }) : representative.name,
+    bounds: { south, west, north, east },
+    samePosition: south === north && west === east
+  };
+};
+
+export interface ClusterIndex {
+  getClusters: (zoom: number, bounds: GeoBounds) => PhotoCluster[];
+}
+
+/**
+ * 写真の一覧からクラスタのインデックスを作る。写真が変わったら作り直す
+ */
+export const createClusterIndex = (photos: PhotoMetadata[]): ClusterIndex => {
+  const projected: ProjectedPhoto[] = photos.map(p => {
+    const latitude = Number(p.latitude);
+    const longitude = Number(p.longitude);
+    return { id: p.id, name: photoPlaceLabel(p), date: p.captureTime || p.date, latitude, longitude, ...projectToWorld(latitude, longitude) };
+  });
+  const cache = new Map<number, PhotoCluster[]>();
+
+  const clustersAtZoom = (zoom: number): PhotoCluster[] => {
+    const cached = cache.get(zoom);
+    if (cached) return cached;
+
+    const groups = new Map<string, ProjectedPhoto[]>();
+    const scale = TILE_SIZE * Math.pow(2, zoom) / CLUSTER_RADIUS_PX;
+    projected.forEach(p => {
+      const key = zoom > CLUSTER_MAX_ZOOM
+        ? `${p.latitude.toFixed(6)},${p.longitude.toFixed(6)}`
+        : `${zoom}/${Math.floor(p.x * scale)}/${Math.floor(p.y * scale)}`;
+      const group = groups.get(key);
+      if (group) group.push(p);
+      else groups.set(key, [p]);
+    });
+
+    const clusters = Array.from(groups.entries()).map(([key, members]) => buildCluster(key, members));
+    cache.set(zoom, clusters);
+    return clusters;
+  };
+
+  return {
+    getClusters: (zoom, bounds) => clustersAtZoom(Math.round(zoom)).filter(c => inBounds(c.latitude, c.longitude, bounds))
+  };
+};
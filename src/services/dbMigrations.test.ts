@@ -0,0 +1,144 @@
+import { IDBFactory } from "fake-indexeddb";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  DB_VERSION,
+  INDEX_COUNTRY,
+  INDEX_DATE,
+  INDEX_LATITUDE,
+  INDEX_STATUS,
+  INDEX_TAGS,
+  MIGRATIONS,
+  runMigrations,
+  STORE_ALBUMS,
+  STORE_JOBS,
+  STORE_JOURNAL,
+  STORE_NOTES,
+  STORE_PHOTOS,
+  STORE_TRASH
+} from "./dbMigrations";
+
+const DB_NAME = "MigrationTestDB";
+
+const requestResult = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const open = (factory: IDBFactory, version: number, upgrade: (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number) => void) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = factory.open(DB_NAME, version);
+    request.onupgradeneeded = (event) => upgrade(request.result, request.transaction!, event.oldVersion);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * 指定したバージョンのスキーマで保存されたDBを作り、レコードを入れておく
+ */
+const createDatabaseAt = async (factory: IDBFactory, version: number, records: { [store: string]: object[] } = {}) => {
+  const db = await open(factory, version, (database, transaction) => MIGRATIONS
+    .filter(migration => migration.version <= version)
+    .forEach(migration => migration.migrate?.(database, transaction)));
+  const storeNames = Object.keys(records);
+  if (storeNames.length > 0) {
+    const transaction = db.transaction(storeNames, "readwrite");
+    storeNames.forEach(name => records[name].forEach(record => transaction.objectStore(name).put(record)));
+    await new Promise(resolve => (transaction.oncomplete = resolve));
+  }
+  db.close();
+};
+
+const upgrade = (factory: IDBFactory) => open(factory, DB_VERSION, runMigrations);
+
+const getRecord = (db: IDBDatabase, store: string, id: string) =>
+  requestResult(db.transaction(store).objectStore(store).get(id));
+
+describe("dbMigrations", () => {
+  let factory: IDBFactory;
+
+  beforeEach(() => {
+    factory = new IDBFactory();
+  });
+
+  it("バージョンは1から連番で、DB_VERSION は最後のステップ", () => {
+    MIGRATIONS.forEach((migration, i) => expect(migration.version).toBe(i + 1));
+    expect(DB_VERSION).toBe(MIGRATIONS[MIGRATIONS.length - 1].version);
+  });
+
+  it("新規のDBにはすべてのストアとインデックスを作る", async () => {
+    const db = await upgrade(factory);
+
+    expect(Array.from(db.objectStoreNames).sort()).toEqual(
+      [STORE_PHOTOS, STORE_NOTES, STORE_JOBS, STORE_ALBUMS, STORE_TRASH, STORE_JOURNAL].sort()
+    );
+    const photos = db.transaction(STORE_PHOTOS).objectStore(STORE_PHOTOS);
+    expect(Array.from(photos.indexNames).sort()).toEqual([INDEX_COUNTRY, INDEX_DATE, INDEX_LATITUDE, INDEX_STATUS, INDEX_TAGS].sort());
+    expect(photos.index(INDEX_TAGS).multiEntry).toBe(true);
+    db.close();
+  });
+
+  it("v1 のレコードには解析状態の補完・仮の文言の消去・国コード化をすべて適用する", async () => {
+    await createDatabaseAt(factory, 1, {
+      [STORE_PHOTOS]: [{ id: "legacy", isProcessing: false, locationName: "特定失敗", description: "Error", country: "日本" }]
+    });
+
+    const db = await upgrade(factory);
+
+    expect(await getRecord(db, STORE_PHOTOS, "legacy")).toMatchObject({
+      analysisStatus: "failed", locationName: "", description: "", country: "JP"
+    });
+    const failed = db.transaction(STORE_PHOTOS).objectStore(STORE_PHOTOS).index(INDEX_STATUS).getAllKeys("failed");
+    expect(await requestResult(failed)).toEqual(["legacy"]);
+    db.close();
+  });
+
+  it("v2 のDBでは解析状態を補完し、仮の文言を消して国をコードにする", async () => {
+    await createDatabaseAt(factory, 2, {
+      [STORE_PHOTOS]: [
+        { id: "pending", isProcessing: true, locationName: "特定中...", description: "AIが解析しています" },
+        { id: "done", isProcessing: false, locationName: "清水寺", description: "寺社の境内", country: "Japan" }
+      ]
+    });
+
+    const db = await upgrade(factory);
+
+    expect(await getRecord(db, STORE_PHOTOS, "pending")).toMatchObject({ analysisStatus: "pending", locationName: "", description: "" });
+    expect(await getRecord(db, STORE_PHOTOS, "done")).toMatchObject({ analysisStatus: "done", locationName: "清水寺", description: "寺社の境内", country: "JP" });
+    expect(db.objectStoreNames.contains(STORE_TRASH)).toBe(true);
+    expect(db.objectStoreNames.contains(STORE_JOURNAL)).toBe(true);
+    db.close();
+  });
+
+  it("v7 のDBではゴミ箱の写真も移行する", async () => {
+    await createDatabaseAt(factory, 7, {
+      [STORE_TRASH]: [{ id: "trashed", photo: { id: "trashed", locationName: "地点名を特定中...", description: "", country: "France" }, deletedAt: 1 }]
+    });
+
+    const db = await upgrade(factory);
+
+    expect((await getRecord(db, STORE_TRASH, "trashed"))?.photo).toMatchObject({ locationName: "", country: "FR" });
+    db.close();
+  });
+
+  it("分からない国名はそのまま残す", async () => {
+    await createDatabaseAt(factory, 8, {
+      [STORE_PHOTOS]: [{ id: "unknown", locationName: "アトランティス", description: "", country: "Atlantis", analysisStatus: "done" }]
+    });
+
+    const db = await upgrade(factory);
+
+    expect((await getRecord(db, STORE_PHOTOS, "unknown"))?.country).toBe("Atlantis");
+    db.close();
+  });
+
+  it("最新のDBには何もしない", async () => {
+    await createDatabaseAt(factory, DB_VERSION, {
+      [STORE_PHOTOS]: [{ id: "current", locationName: "特定失敗", description: "", country: "日本", analysisStatus: "done" }]
+    });
+
+    const db = await upgrade(factory);
+
+    expect(await getRecord(db, STORE_PHOTOS, "current")).toMatchObject({ locationName: "特定失敗", country: "日本" });
+    db.close();
+  });
+});
@@ -0,0 +1,184 @@
+import { toCountryCode } from "./geocoderService";
+
+/**
+ * IndexedDB のスキーマ移行
+ * バージョンごとの変更はここに一度だけ宣言し、古いDBは足りない手順だけを順番に適用する
+ * 既に公開したステップは書き換えず、変更が必要なら新しいバージョンを追加すること
+ */
+
+export const DB_NAME = "VisionSortDB";
+export const STORE_PHOTOS = "photos";
+export const STORE_NOTES = "notes";
+export const STORE_JOBS = "jobs";
+export const STORE_ALBUMS = "albums";
+export const STORE_TRASH = "trash";
+export const STORE_JOURNAL = "journal";
+
+export const INDEX_DATE = "date";
+export const INDEX_COUNTRY = "country";
+export const INDEX_STATUS = "analysisStatus";
+export const INDEX_LATITUDE = "latitude";
+export const INDEX_TAGS = "tags";
+
+// 以前のバージョンが解析中・解析失敗を表すために地名と説明へ保存していた文言
+const LEGACY_FAILED_LOCATION_NAME = "特定失敗";
+const LEGACY_PLACEHOLDER_LOCATION_NAMES = new Set(["特定中...", LEGACY_FAILED_LOCATION_NAME, "地点名を特定中...", "特定できませんでした"]);
+const LEGACY_PLACEHOLDER_DESCRIPTIONS = new Set(["AIが解析しています", "Error"]);
+
+/**
+ * 古いレコードに残っている仮の文言を空にする。変更した場合は true を返す
+ * 解析の状態は analysisStatus と isProcessing だけに持たせ、表示する文言は画面で決める
+ */
+export const clearLegacyPlaceholders = (photo: { locationName?: string; description?: string }): boolean => {
+  let changed = false;
+  if (photo.locationName && LEGACY_PLACEHOLDER_LOCATION_NAMES.has(photo.locationName)) {
+    photo.locationName = "";
+    changed = true;
+  }
+  if (photo.description && LEGACY_PLACEHOLDER_DESCRIPTIONS.has(photo.description)) {
+    photo.description = "";
+    changed = true;
+  }
+  return changed;
+};
+
+/**
+ * 国名で保存されている国を、表示言語に依らない国コードにする。変更した場合は true を返す
+ */
+export const canonicalizeCountry = (photo: { country?: string }): boolean => {
+  if (!photo.country) return false;
+  const code = toCountryCode(photo.country);
+  if (code === photo.country) return false;
+  photo.country = code;
+  return true;
+};
+
+// 1件のレコードを書き換える。変更した場合は true を返す
+type RecordRewrite<T> = (record: T) => boolean;
+
+interface StoredPhotoRecord {
+  isProcessing?: boolean;
+  analysisStatus?: string;
+  locationName?: string;
+  description?: string;
+  country?: string;
+}
+
+interface TrashRecord {
+  photo?: StoredPhotoRecord;
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  // versionchange トランザクション内で同期的にリクエストを発行する（await は使えない）
+  migrate?: (db: IDBDatabase, transaction: IDBTransaction) => void;
+  // 既存レコードの書き換え。カーソルを並行して開くと後のステップが古い値を書き戻すため、
+  // runMigrations が適用する全ステップ分をストアごとに1回の走査でまとめて行う
+  rewritePhoto?: RecordRewrite<StoredPhotoRecord>;
+  rewriteTrash?: RecordRewrite<TrashRecord>;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "photos / notes ストアを作成",
+    migrate: (db) => {
+      db.createObjectStore(STORE_PHOTOS, { keyPath: "id" });
+      db.createObjectStore(STORE_NOTES, { keyPath: "id" });
+    }
+  },
+  {
+    version: 2,
+    description: "解析キューの jobs ストアを作成",
+    migrate: (db) => {
+      db.createObjectStore(STORE_JOBS, { keyPath: "id" });
+    }
+  },
+  {
+    version: 3,
+    description: "photos に日付・国・解析状態・緯度のインデックスを追加し、解析状態を補完",
+    migrate: (_db, transaction) => {
+      const photos = transaction.objectStore(STORE_PHOTOS);
+      photos.createIndex(INDEX_DATE, "date");
+      photos.createIndex(INDEX_COUNTRY, "country");
+      photos.createIndex(INDEX_STATUS, "analysisStatus");
+      photos.createIndex(INDEX_LATITUDE, "latitude");
+    },
+    // analysisStatus がない古いレコードはインデックスに載らないため補完する
+    rewritePhoto: (photo) => {
+      if (photo.analysisStatus) return false;
+      photo.analysisStatus = photo.isProcessing ? 'pending' : (photo.locationName === LEGACY_FAILED_LOCATION_NAME ? 'failed' : 'done');
+      return true;
+    }
+  },
+  {
+    version: 4,
+    description: "アルバムの albums ストアを作成",
+    migrate: (db) => {
+      db.createObjectStore(STORE_ALBUMS, { keyPath: "id" });
+    }
+  },
+  {
+    version: 5,
+    description: "削除した写真を一時的に保管する trash ストアを作成",
+    migrate: (db) => {
+      db.createObjectStore(STORE_TRASH, { keyPath: "id" });
+    }
+  },
+  {
+    version: 6,
+    description: "photos にタグのインデックスを追加（1枚の写真を各タグで引けるよう multiEntry）",
+    migrate: (_db, transaction) => {
+      transaction.objectStore(STORE_PHOTOS).createIndex(INDEX_TAGS, "tags", { multiEntry: true });
+    }
+  },
+  {
+    version: 7,
+    description: "日・旅行単位の日記の journal ストアを作成",
+    migrate: (db) => {
+      db.createObjectStore(STORE_JOURNAL, { keyPath: "id" });
+    }
+  },
+  {
+    version: 8,
+    description: "解析中・解析失敗の仮の文言を photos と trash の地名・説明から消す",
+    rewritePhoto: clearLegacyPlaceholders,
+    rewriteTrash: (item) => !!item.photo && clearLegacyPlaceholders(item.photo)
+  },
+  {
+    version: 9,
+    description: "photos と trash の国名を国コードに置き換える（国のインデックスを表示言語に依らないものにする）",
+    rewritePhoto: canonicalizeCountry,
+    rewriteTrash: (item) => !!item.photo && canonicalizeCountry(item.photo)
+  }
+];
+
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * ストアの全レコードに書き換えをバージョン順に適用する（1回の走査で、変更があったレコードだけ保存する）
+ */
+const rewriteStore = <T>(transaction: IDBTransaction, storeName: string, rewrites: RecordRewrite<T>[]) => {
+  if (rewrites.length === 0) return;
+  transaction.objectStore(storeName).openCursor().onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (!cursor) return;
+    const record = cursor.value;
+    // 先のステップの結果を後のステップが見られるよう、短絡させずにすべて適用する
+    const changed = rewrites.reduce((acc, rewrite) => rewrite(record) || acc, false);
+    if (changed) cursor.update(record);
+    cursor.continue();
+  };
+};
+
+/**
+ * oldVersion より新しい移行ステップを順に適用する
+ * スキーマの変更を先にすべて行い、レコードの書き換えはストアごとにまとめて1回だけ走査する
+ */
+export const runMigrations = (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number) => {
+  const pending = MIGRATIONS.filter(migration => migration.version > oldVersion);
+  pending.forEach(migration => migration.migrate?.(db, transaction));
+  rewriteStore(transaction, STORE_PHOTOS, pending.flatMap(migration => migration.rewritePhoto ? [migration.rewritePhoto] : []));
+  rewriteStore(transaction, STORE_TRASH, pending.flatMap(migration => migration.rewriteTrash ? [migration.rewriteTrash] : []));
+};
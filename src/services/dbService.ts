@@ -1,26 +1,72 @@
+import { Album, AnalysisJob, AnalysisStatus, JournalEntry, PhotoMetadata, TrashedPhoto } from "../types";
+import {
+  DB_NAME, DB_VERSION, INDEX_COUNTRY, INDEX_DATE, INDEX_LATITUDE, INDEX_STATUS, INDEX_TAGS,
+  STORE_ALBUMS, STORE_JOBS, STORE_JOURNAL, STORE_NOTES, STORE_PHOTOS, STORE_TRASH, runMigrations
+} from "./dbMigrations";
 
-import { PhotoMetadata } from "../types";
-
-const DB_NAME = "VisionSortDB";
-const DB_VERSION = 1;
-const STORE_PHOTOS = "photos";
-const STORE_NOTES = "notes";
+let dbPromise: Promise<IDBDatabase> | null = null;
 
+/**
+ * DB への接続を開く。接続は使い回し、別タブでバージョンが上がったら閉じて次回開き直す
+ */
 export const initDB = (): Promise<IDBDatabase> => {
-  return new Promise((resolve, reject) => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
 
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_PHOTOS)) {
-        db.createObjectStore(STORE_PHOTOS, { keyPath: "id" });
-      }
-      if (!db.objectStoreNames.contains(STORE_NOTES)) {
-        db.createObjectStore(STORE_NOTES, { keyPath: "id" });
-      }
+      const db = request.result;
+      runMigrations(db, request.transaction!, event.oldVersion);
     };
 
-    request.onsuccess = () => resolve(request.result);
+    request.onsuccess = () => {
+      const db = request.result;
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+    request.onblocked = () => console.warn("[VisionSort] DB upgrade is blocked by another open tab");
+  });
+  return dbPromise;
+};
+
+// 同じ写真に対して表示用URLを何度も作らないようにキャッシュする
+const objectUrls = new Map<string, string>();
+
+// DB に保存されている写真（表示用URLは保存しない）
+type StoredPhoto = Omit<PhotoMetadata, 'url'>;
+
+const toPhoto = (record: StoredPhoto): PhotoMetadata => {
+  let url = objectUrls.get(record.id) || "";
+  if (!url && record.fileBlob) {
+    url = URL.createObjectURL(record.fileBlob);
+    objectUrls.set(record.id, url);
+  }
+  return { ...record, url };
+};
+
+const releaseUrl = (photoId: string) => {
+  const url = objectUrls.get(photoId);
+  if (url) URL.revokeObjectURL(url);
+  objectUrls.delete(photoId);
+};
+
+/**
+ * インデックスを使って写真を取得する
+ */
+const queryPhotosByIndex = async (indexName: string, range: IDBKeyRange | IDBValidKey): Promise<PhotoMetadata[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_PHOTOS, "readonly");
+    const request = transaction.objectStore(STORE_PHOTOS).index(indexName).getAll(range);
+    request.onsuccess = () => resolve(request.result.map(toPhoto));
     request.onerror = () => reject(request.error);
   });
 };
@@ -34,6 +80,7 @@ export const savePhoto = async (photo: PhotoMetadata) => {
     // URLはセッションごとに生成し直すため、保存しない（Blobを元に復元する）
     const dataToSave = { ...photo };
     delete (dataToSave as any).url;
+    delete dataToSave.fileSize;
 
     const request = store.put(dataToSave);
     request.onsuccess = () => resolve();
@@ -41,13 +88,59 @@ export const savePhoto = async (photo: PhotoMetadata) => {
   });
 };
 
+/**
+ * 複数の写真の一部の項目を1つのトランザクションで書き換える（一括編集用）
+ * 途中で失敗した場合はどの写真も変更しない。存在しない写真は無視する
+ */
+export const patchPhotos = async (patches: Record<string, Partial<PhotoMetadata>>) => {
+  const db = await initDB();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_PHOTOS, "readwrite");
+    const store = transaction.objectStore(STORE_PHOTOS);
+    Object.entries(patches).forEach(([photoId, patch]) => {
+      const request = store.get(photoId);
+      request.onsuccess = () => {
+        if (!request.result) return;
+        const dataToSave = { ...request.result, ...patch };
+        delete (dataToSave as any).url;
+        store.put(dataToSave);
+      };
+    });
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * アルバムに含まれる写真IDを置き換える（newId が null なら取り除く）
+ * 写真の削除やID付け替えと同じトランザクション内で呼び出す
+ */
+const replaceInAlbums = (albums: IDBObjectStore, oldId: string, newId: string | null) => {
+  albums.openCursor().onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (!cursor) return;
+    const album: Album = cursor.value;
+    if (album.photoIds.includes(oldId)) {
+      const photoIds = album.photoIds.map(id => id === oldId ? newId : id).filter((id): id is string => !!id);
+      const coverPhotoId = album.coverPhotoId === oldId ? (newId ?? undefined) : album.coverPhotoId;
+      cursor.update({ ...album, photoIds: Array.from(new Set(photoIds)), coverPhotoId });
+    }
+    cursor.continue();
+  };
+};
+
 export const deletePhoto = async (photoId: string) => {
   const db = await initDB();
   return new Promise<void>((resolve, reject) => {
-    const transaction = db.transaction([STORE_PHOTOS, STORE_NOTES], "readwrite");
+    const transaction = db.transaction([STORE_PHOTOS, STORE_NOTES, STORE_JOBS, STORE_ALBUMS], "readwrite");
     transaction.objectStore(STORE_PHOTOS).delete(photoId);
     transaction.objectStore(STORE_NOTES).delete(photoId);
-    transaction.oncomplete = () => resolve();
+    transaction.objectStore(STORE_JOBS).delete(photoId);
+    replaceInAlbums(transaction.objectStore(STORE_ALBUMS), photoId, null);
+    transaction.oncomplete = () => {
+      releaseUrl(photoId);
+      resolve();
+    };
     transaction.onerror = () => reject(transaction.error);
   });
 };
@@ -59,12 +152,189 @@ export const getAllPhotos = async (): Promise<PhotoMetadata[]> => {
     const store = transaction.objectStore(STORE_PHOTOS);
     const request = store.getAll();
 
+    request.onsuccess = () => resolve(request.result.map(toPhoto));
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * ライブラリ全体の一覧に使う写真。元ファイルの Blob は持たせず、大きさだけを fileSize に入れる
+ * 元ファイルが必要な処理（解析・書き出しなど）は getPhoto で1枚ずつ読み込む
+ */
+export const toLibraryPhoto = (photo: PhotoMetadata): PhotoMetadata => {
+  const { fileBlob, ...rest } = photo;
+  return { ...rest, fileSize: fileBlob?.size ?? photo.fileSize };
+};
+
+export const getLibraryPhotos = async (): Promise<PhotoMetadata[]> => (await getAllPhotos()).map(toLibraryPhoto);
+
+/**
+ * 日付（YYYY-MM-DD）が start〜end の写真のIDを日付順に取得する（レコード本体は読み込まない）
+ */
+export const getPhotoIdsByDateRange = async (start: string, end: string): Promise<string[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_PHOTOS, "readonly");
+    const request = transaction.objectStore(STORE_PHOTOS).index(INDEX_DATE).getAllKeys(IDBKeyRange.bound(start, end));
+    request.onsuccess = () => resolve(request.result as string[]);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * 日付（YYYY-MM-DD）が start〜end の写真を取得する
+ */
+export const getPhotosByDateRange = (start: string, end: string): Promise<PhotoMetadata[]> =>
+  queryPhotosByIndex(INDEX_DATE, IDBKeyRange.bound(start, end));
+
+export const getPhotosByCountry = (country: string): Promise<PhotoMetadata[]> =>
+  queryPhotosByIndex(INDEX_COUNTRY, country);
+
+export const getPhotosByStatus = (status: AnalysisStatus): Promise<PhotoMetadata[]> =>
+  queryPhotosByIndex(INDEX_STATUS, status);
+
+export const getPhotosByTag = (tag: string): Promise<PhotoMetadata[]> =>
+  queryPhotosByIndex(INDEX_TAGS, tag);
+
+export interface GeoBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+/**
+ * 表示範囲内の写真を取得する。緯度はインデックスで絞り、経度は取得後に判定する
+ * west > east の場合は日付変更線をまたぐ範囲として扱う
+ */
+export const getPhotosInBounds = async (bounds: GeoBounds): Promise<PhotoMetadata[]> => {
+  const candidates = await queryPhotosByIndex(INDEX_LATITUDE, IDBKeyRange.bound(bounds.south, bounds.north));
+  const crossesAntimeridian = bounds.west > bounds.east;
+  return candidates.filter(p => {
+    if (p.latitude === 0 && p.longitude === 0) return false;
+    return crossesAntimeridian
+      ? p.longitude >= bounds.west || p.longitude <= bounds.east
+      : p.longitude >= bounds.west && p.longitude <= bounds.east;
+  });
+};
+
+/**
+ * 日付ごとの写真枚数を数える（レコード本体は読み込まない）
+ */
+export const countPhotosByDate = async (start: string, end: string): Promise<Record<string, number>> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const counts: Record<string, number> = {};
+    const transaction = db.transaction(STORE_PHOTOS, "readonly");
+    const request = transaction.objectStore(STORE_PHOTOS).index(INDEX_DATE).openKeyCursor(IDBKeyRange.bound(start, end));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(counts);
+        return;
+      }
+      const date = cursor.key as string;
+      counts[date] = (counts[date] || 0) + 1;
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * タグごとの写真枚数を数える（レコード本体は読み込まない）
+ */
+export const countPhotosByTag = async (): Promise<Record<string, number>> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const counts: Record<string, number> = {};
+    const transaction = db.transaction(STORE_PHOTOS, "readonly");
+    const request = transaction.objectStore(STORE_PHOTOS).index(INDEX_TAGS).openKeyCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(counts);
+        return;
+      }
+      const tag = cursor.key as string;
+      counts[tag] = (counts[tag] || 0) + 1;
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getAllPhotoIds = async (): Promise<string[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_PHOTOS, "readonly");
+    const request = transaction.objectStore(STORE_PHOTOS).getAllKeys();
+    request.onsuccess = () => resolve(request.result as string[]);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * 写真のIDを付け替える（メモ・解析ジョブ・アルバムも新しいIDへ移す）
+ * 付け替え先に既に写真がある場合は既存の写真を残し、メモだけ結合する
+ */
+export const replacePhotoId = async (oldId: string, photo: PhotoMetadata) => {
+  const db = await initDB();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction([STORE_PHOTOS, STORE_NOTES, STORE_JOBS, STORE_ALBUMS], "readwrite");
+    const photos = transaction.objectStore(STORE_PHOTOS);
+    const notes = transaction.objectStore(STORE_NOTES);
+    const jobs = transaction.objectStore(STORE_JOBS);
+    const newId = photo.id;
+    replaceInAlbums(transaction.objectStore(STORE_ALBUMS), oldId, newId);
+
+    const existingRequest = photos.get(newId);
+    existingRequest.onsuccess = () => {
+      const targetExists = !!existingRequest.result;
+      if (!targetExists) {
+        const dataToSave = { ...photo };
+        delete (dataToSave as any).url;
+        photos.put(dataToSave);
+      }
+      photos.delete(oldId);
+
+      releaseUrl(oldId);
+      const oldNoteRequest = notes.get(oldId);
+      const newNoteRequest = notes.get(newId);
+      newNoteRequest.onsuccess = () => {
+        const oldNote: string | undefined = oldNoteRequest.result?.note;
+        const newNote: string | undefined = newNoteRequest.result?.note;
+        if (oldNote) {
+          notes.put({ id: newId, note: newNote ? `${newNote}\n\n${oldNote}` : oldNote });
+        }
+        notes.delete(oldId);
+      };
+
+      const jobRequest = jobs.get(oldId);
+      jobRequest.onsuccess = () => {
+        if (jobRequest.result && !targetExists) {
+          jobs.put({ ...jobRequest.result, id: newId, photoId: newId });
+        }
+        jobs.delete(oldId);
+      };
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * 1件の写真レコードを取得する（表示用URLは生成しない）
+ */
+export const getPhoto = async (photoId: string): Promise<PhotoMetadata | null> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_PHOTOS, "readonly");
+    const request = transaction.objectStore(STORE_PHOTOS).get(photoId);
     request.onsuccess = () => {
-      const photos = request.result.map((p: any) => ({
-        ...p,
-        url: p.fileBlob ? URL.createObjectURL(p.fileBlob) : ""
-      }));
-      resolve(photos);
+      const p = request.result;
+      resolve(p ? { ...p, url: "" } : null);
     };
     request.onerror = () => reject(request.error);
   });
@@ -99,13 +369,298 @@ export const getAllNotes = async (): Promise<Record<string, string>> => {
   });
 };
 
+export const saveJobs = async (jobs: AnalysisJob[]) => {
+  const db = await initDB();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_JOBS, "readwrite");
+    const store = transaction.objectStore(STORE_JOBS);
+    jobs.forEach(job => store.put(job));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const deleteJobs = async (jobIds: string[]) => {
+  const db = await initDB();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_JOBS, "readwrite");
+    const store = transaction.objectStore(STORE_JOBS);
+    jobIds.forEach(id => store.delete(id));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const getAllJobs = async (): Promise<AnalysisJob[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_JOBS, "readonly");
+    const request = transaction.objectStore(STORE_JOBS).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveAlbum = async (album: Album) => {
+  const db = await initDB();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_ALBUMS, "readwrite");
+    const request = transaction.objectStore(STORE_ALBUMS).put(album);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * 複数のアルバムの保存と削除を1つのトランザクションで行う（統合・分割用）
+ */
+export const updateAlbums = async (save: Album[], removeIds: string[] = []) => {
+  const db = await initDB();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_ALBUMS, "readwrite");
+    const store = transaction.objectStore(STORE_ALBUMS);
+    removeIds.forEach(id => store.delete(id));
+    save.forEach(album => store.put(album));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const deleteAlbum = (albumId: string) => updateAlbums([], [albumId]);
+
+export const getAllAlbums = async (): Promise<Album[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_ALBUMS, "readonly");
+    const request = transaction.objectStore(STORE_ALBUMS).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveJournalEntry = async (entry: JournalEntry) => {
+  const db = await initDB();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_JOURNAL, "readwrite");
+    const request = transaction.objectStore(STORE_JOURNAL).put(entry);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const deleteJournalEntry = async (entryId: string) => {
+  const db = await initDB();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_JOURNAL, "readwrite");
+    const request = transaction.objectStore(STORE_JOURNAL).delete(entryId);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getAllJournalEntries = async (): Promise<JournalEntry[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_JOURNAL, "readonly");
+    const request = transaction.objectStore(STORE_JOURNAL).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * 写真をゴミ箱に移す。メモと所属アルバムを記録してから、写真・メモ・解析ジョブ・アルバムから取り除く
+ * 表示用URLは元に戻したときに使えるよう、完全に削除するまで残す
+ */
+export const moveToTrash = async (photoIds: string[]) => {
+  const db = await initDB();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction([STORE_PHOTOS, STORE_NOTES, STORE_JOBS, STORE_ALBUMS, STORE_TRASH], "readwrite");
+    const photos = transaction.objectStore(STORE_PHOTOS);
+    const notes = transaction.objectStore(STORE_NOTES);
+    const albums = transaction.objectStore(STORE_ALBUMS);
+    const trash = transaction.objectStore(STORE_TRASH);
+    const deletedAt = Date.now();
+
+    const albumsRequest = albums.getAll();
+    albumsRequest.onsuccess = () => {
+      const allAlbums: Album[] = albumsRequest.result;
+      photoIds.forEach(photoId => {
+        const photoRequest = photos.get(photoId);
+        const noteRequest = notes.get(photoId);
+        noteRequest.onsuccess = () => {
+          if (!photoRequest.result) return;
+          const record: TrashedPhoto = {
+            id: photoId,
+            photo: photoRequest.result,
+            note: noteRequest.result?.note || "",
+            albumIds: allAlbums.filter(album => album.photoIds.includes(photoId)).map(album => album.id),
+            deletedAt
+          };
+          trash.put(record);
+          photos.delete(photoId);
+          notes.delete(photoId);
+          transaction.objectStore(STORE_JOBS).delete(photoId);
+        };
+      });
+
+      const removed = new Set(photoIds);
+      allAlbums.filter(album => album.photoIds.some(id => removed.has(id))).forEach(album => {
+        albums.put({
+          ...album,
+          photoIds: album.photoIds.filter(id => !removed.has(id)),
+          coverPhotoId: album.coverPhotoId && removed.has(album.coverPhotoId) ? undefined : album.coverPhotoId
+        });
+      });
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * ゴミ箱の写真を新しく削除した順に取得する
+ */
+export const getTrash = async (): Promise<TrashedPhoto[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_TRASH, "readonly");
+    const request = transaction.objectStore(STORE_TRASH).getAll();
+    request.onsuccess = () => {
+      const items: TrashedPhoto[] = request.result.map((item: TrashedPhoto) => ({ ...item, photo: toPhoto(item.photo) }));
+      resolve(items.sort((a, b) => b.deletedAt - a.deletedAt));
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getTrashIds = async (): Promise<string[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_TRASH, "readonly");
+    const request = transaction.objectStore(STORE_TRASH).getAllKeys();
+    request.onsuccess = () => resolve(request.result as string[]);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * ゴミ箱の写真を元に戻す。メモと、まだ残っているアルバムへの所属も復元する
+ * 同じ写真が取り込み直されていた場合は既存の写真を残し、メモだけ結合する
+ */
+export const restoreFromTrash = async (photoIds: string[]) => {
+  const db = await initDB();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction([STORE_PHOTOS, STORE_NOTES, STORE_ALBUMS, STORE_TRASH], "readwrite");
+    const photos = transaction.objectStore(STORE_PHOTOS);
+    const notes = transaction.objectStore(STORE_NOTES);
+    const albums = transaction.objectStore(STORE_ALBUMS);
+    const trash = transaction.objectStore(STORE_TRASH);
+
+    photoIds.forEach(photoId => {
+      const trashRequest = trash.get(photoId);
+      const existingRequest = photos.get(photoId);
+      const noteRequest = notes.get(photoId);
+      noteRequest.onsuccess = () => {
+        const item: TrashedPhoto | undefined = trashRequest.result;
+        if (!item) return;
+        if (!existingRequest.result) photos.put(item.photo);
+        if (item.note) {
+          const currentNote: string | undefined = noteRequest.result?.note;
+          notes.put({ id: photoId, note: currentNote ? `${currentNote}\n\n${item.note}` : item.note });
+        }
+        item.albumIds.forEach(albumId => {
+          const albumRequest = albums.get(albumId);
+          albumRequest.onsuccess = () => {
+            const album: Album | undefined = albumRequest.result;
+            if (album && !album.photoIds.includes(photoId)) albums.put({ ...album, photoIds: [...album.photoIds, photoId] });
+          };
+        });
+        trash.delete(photoId);
+      };
+    });
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * ゴミ箱の写真を完全に削除する
+ */
+export const purgeTrash = async (photoIds: string[]) => {
+  const db = await initDB();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE_TRASH, "readwrite");
+    const store = transaction.objectStore(STORE_TRASH);
+    photoIds.forEach(id => store.delete(id));
+    transaction.oncomplete = () => {
+      photoIds.forEach(releaseUrl);
+      resolve();
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/**
+ * バックアップから写真・メモ・アルバム・日記を書き戻す（1つのトランザクションで行い、途中で失敗したら何も変更しない）
+ * replace が true の場合は既存の写真・メモ・解析ジョブ・アルバム・日記をすべて消してから書き込む
+ * ゴミ箱はバックアップに含めないため、置き換えでも残す
+ */
+export const restoreRecords = async (
+  photos: PhotoMetadata[],
+  notes: Record<string, string>,
+  albums: Album[],
+  journal: JournalEntry[],
+  replace: boolean
+) => {
+  const db = await initDB();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction([STORE_PHOTOS, STORE_NOTES, STORE_JOBS, STORE_ALBUMS, STORE_JOURNAL], "readwrite");
+    const photoStore = transaction.objectStore(STORE_PHOTOS);
+    const noteStore = transaction.objectStore(STORE_NOTES);
+    const albumStore = transaction.objectStore(STORE_ALBUMS);
+    const journalStore = transaction.objectStore(STORE_JOURNAL);
+    if (replace) {
+      photoStore.clear();
+      noteStore.clear();
+      albumStore.clear();
+      journalStore.clear();
+      transaction.objectStore(STORE_JOBS).clear();
+    }
+    photos.forEach(photo => {
+      const dataToSave = { ...photo };
+      delete (dataToSave as any).url;
+      photoStore.put(dataToSave);
+    });
+    Object.entries(notes).forEach(([id, note]) => noteStore.put({ id, note }));
+    albums.forEach(album => albumStore.put(album));
+    journal.forEach(entry => journalStore.put(entry));
+
+    transaction.oncomplete = () => {
+      if (replace) Array.from(objectUrls.keys()).forEach(releaseUrl);
+      else photos.forEach(photo => releaseUrl(photo.id));
+      resolve();
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
 export const clearAllData = async () => {
   const db = await initDB();
   return new Promise<void>((resolve, reject) => {
-    const transaction = db.transaction([STORE_PHOTOS, STORE_NOTES], "readwrite");
+    const transaction = db.transaction([STORE_PHOTOS, STORE_NOTES, STORE_JOBS, STORE_ALBUMS, STORE_JOURNAL, STORE_TRASH], "readwrite");
     transaction.objectStore(STORE_PHOTOS).clear();
     transaction.objectStore(STORE_NOTES).clear();
-    transaction.oncomplete = () => resolve();
+    transaction.objectStore(STORE_JOBS).clear();
+    transaction.objectStore(STORE_ALBUMS).clear();
+    transaction.objectStore(STORE_JOURNAL).clear();
+    transaction.objectStore(STORE_TRASH).clear();
+    transaction.oncomplete = () => {
+      Array.from(objectUrls.keys()).forEach(releaseUrl);
+      resolve();
+    };
     transaction.onerror = () => reject(transaction.error);
   });
 };
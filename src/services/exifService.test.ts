@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { parseXmp } from "./exifService";
+
+const xmp = (dateTime: string) => `<x:xmpmeta><rdf:Description exif:DateTimeOriginal="${dateTime}"/></x:xmpmeta>`;
+
+describe("parseXmp", () => {
+  it("1980年の撮影日時は読み取る", () => {
+    expect(parseXmp(xmp("1980-01-01T10:00:00Z"))).toEqual({ date: "1980-01-01", captureTime: "1980-01-01T10:00:00+00:00" });
+  });
+
+  it("時計が未設定の年や実在しない月日は撮影日時として扱わない", () => {
+    expect(parseXmp(xmp("1979-12-31T10:00:00"))).toEqual({});
+    expect(parseXmp(xmp("2023-13-05T10:00:00"))).toEqual({});
+    expect(parseXmp(xmp("2023-00-05T10:00:00"))).toEqual({});
+    expect(parseXmp(xmp("2023-10-32T10:00:00"))).toEqual({});
+    expect(parseXmp(xmp("2023-10-00"))).toEqual({});
+  });
+});
@@ -0,0 +1,293 @@
+import { ExifData } from "../types";
+
+/**
+ * JPEG / TIFF / XMP からの撮影メタデータ読み取り
+ * 外部ライブラリを使わず、必要なタグ（撮影日時と GPS）だけを解析する
+ */
+
+// EXIF/XMP は通常ファイル先頭にあるため、先頭部分だけを読む
+const HEADER_READ_BYTES = 256 * 1024;
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATETIME = 0x0132;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_DATETIME_DIGITIZED = 0x9004;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LAT_REF = 0x0001;
+const TAG_GPS_LAT = 0x0002;
+const TAG_GPS_LNG_REF = 0x0003;
+const TAG_GPS_LNG = 0x0004;
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+type TagValue = string | number | number[];
+
+interface IfdEntries {
+  [tag: number]: TagValue;
+}
+
+const readAscii = (view: DataView, offset: number, length: number): string => {
+  let out = '';
+  for (let i = 0; i < length; i++) {
+    const c = view.getUint8(offset + i);
+    if (c === 0) break;
+    out += String.fromCharCode(c);
+  }
+  return out;
+};
+
+/**
+ * TIFF 構造の IFD を1つ読み、タグ番号→値のマップを返す
+ */
+const readIfd = (view: DataView, tiffStart: number, ifdOffset: number, little: boolean): IfdEntries => {
+  const entries: IfdEntries = {};
+  const base = tiffStart + ifdOffset;
+  if (base + 2 > view.byteLength) return entries;
+
+  const count = view.getUint16(base, little);
+  for (let i = 0; i < count; i++) {
+    const entry = base + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const num = view.getUint32(entry + 4, little);
+    const size = (TYPE_SIZES[type] || 0) * num;
+    if (size === 0) continue;
+
+    const valueOffset = size > 4 ? tiffStart + view.getUint32(entry + 8, little) : entry + 8;
+    if (valueOffset + size > view.byteLength) continue;
+
+    switch (type) {
+      case 2:
+        entries[tag] = readAscii(view, valueOffset, num);
+        break;
+      case 3:
+        entries[tag] = num === 1 ? view.getUint16(valueOffset, little) : Array.from({ length: num }, (_, k) => view.getUint16(valueOffset + k * 2, little));
+        break;
+      case 4:
+        entries[tag] = num === 1 ? view.getUint32(valueOffset, little) : Array.from({ length: num }, (_, k) => view.getUint32(valueOffset + k * 4, little));
+        break;
+      case 5:
+      case 10: {
+        const values: number[] = [];
+        for (let k = 0; k < num; k++) {
+          const numerator = type === 5 ? view.getUint32(valueOffset + k * 8, little) : view.getInt32(valueOffset + k * 8, little);
+          const denominator = type === 5 ? view.getUint32(valueOffset + k * 8 + 4, little) : view.getInt32(valueOffset + k * 8 + 4, little);
+          values.push(denominator === 0 ? 0 : numerator / denominator);
+        }
+        entries[tag] = values;
+        break;
+      }
+      default:
+        break;
+    }
+  }
+  return entries;
+};
+
+/**
+ * カメラの時計が未設定のときに入る値（0000:00:00 や 1980年以前）と実在しない月日を除く
+ */
+const isPlausibleDate = (y: string, m: string, d: string): boolean => {
+  const year = parseInt(y, 10);
+  const month = parseInt(m, 10);
+  const day = parseInt(d, 10);
+  return year >= 1980 && year < 2100 && month >= 1 && month <= 12 && day >= 1 && day <= 31;
+};
+
+/**
+ * "YYYY:MM:DD HH:MM:SS" 形式の EXIF 日時を ISO 風の文字列に変換する
+ */
+const parseExifDateTime = (value: TagValue | undefined, offset?: TagValue): { date: string; captureTime: string } | null => {
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^(\d{4})[:-](\d{2})[:-](\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return null;
+
+  const [, y, m, d, hh, mm, ss] = match;
+  if (!isPlausibleDate(y, m, d)) return null;
+
+  const tz = typeof offset === 'string' && /^[+-]\d{2}:\d{2}$/.test(offset.trim()) ? offset.trim() : '';
+  return {
+    date: `${y}-${m}-${d}`,
+    captureTime: `${y}-${m}-${d}T${hh}:${mm}:${ss}${tz}`
+  };
+};
+
+const toDecimalDegrees = (dms: TagValue | undefined, ref: TagValue | undefined): number | null => {
+  if (!Array.isArray(dms) || dms.length < 3) return null;
+  const value = dms[0] + dms[1] / 60 + dms[2] / 3600;
+  if (!isFinite(value)) return null;
+  return ref === 'S' || ref === 'W' ? -value : value;
+};
+
+const isValidCoordinate = (lat: number | null, lng: number | null): lat is number => {
+  if (lat === null || lng === null) return false;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return false;
+  // 0,0 は「GPS未取得」のカメラが書き込むことが多いため無視する
+  return lat !== 0 || lng !== 0;
+};
+
+/**
+ * TIFF ヘッダ（"II*\0" または "MM\0*"）から撮影日時と GPS を読む
+ */
+const parseTiff = (view: DataView, tiffStart: number): ExifData => {
+  const result: ExifData = {};
+  const byteOrder = view.getUint16(tiffStart);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return result;
+  const little = byteOrder === 0x4949;
+  if (view.getUint16(tiffStart + 2, little) !== 42) return result;
+
+  const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+
+  const exifPointer = ifd0[TAG_EXIF_IFD];
+  const exifIfd = typeof exifPointer === 'number' ? readIfd(view, tiffStart, exifPointer, little) : {};
+  const dateTime =
+    parseExifDateTime(exifIfd[TAG_DATETIME_ORIGINAL], exifIfd[TAG_OFFSET_TIME_ORIGINAL]) ||
+    parseExifDateTime(exifIfd[TAG_DATETIME_DIGITIZED]) ||
+    parseExifDateTime(ifd0[TAG_DATETIME]);
+  if (dateTime) {
+    result.date = dateTime.date;
+    result.captureTime = dateTime.captureTime;
+  }
+
+  const gpsPointer = ifd0[TAG_GPS_IFD];
+  if (typeof gpsPointer === 'number') {
+    const gps = readIfd(view, tiffStart, gpsPointer, little);
+    const lat = toDecimalDegrees(gps[TAG_GPS_LAT], gps[TAG_GPS_LAT_REF]);
+    const lng = toDecimalDegrees(gps[TAG_GPS_LNG], gps[TAG_GPS_LNG_REF]);
+    if (isValidCoordinate(lat, lng)) {
+      result.latitude = lat;
+      result.longitude = lng!;
+    }
+  }
+  return result;
+};
+
+/**
+ * XMP の座標表記（"35,41.1234N" または "35.6895"）を10進数に変換する
+ */
+const parseXmpCoordinate = (value: string | undefined): number | null => {
+  if (!value) return null;
+  const trimmed = value.trim();
+  const dms = trimmed.match(/^(\d+),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?([NSEW])$/i);
+  if (dms) {
+    const deg = parseFloat(dms[1]) + parseFloat(dms[2]) / 60 + (dms[3] ? parseFloat(dms[3]) / 3600 : 0);
+    return /[SW]/i.test(dms[4]) ? -deg : deg;
+  }
+  const decimal = parseFloat(trimmed);
+  return isNaN(decimal) ? null : decimal;
+};
+
+/**
+ * XMP パケットから属性形式・要素形式どちらのプロパティも取り出す
+ */
+const readXmpProperty = (xmp: string, name: string): string | undefined => {
+  const attr = xmp.match(new RegExp(`${name}="([^"]*)"`));
+  if (attr) return attr[1];
+  const element = xmp.match(new RegExp(`<${name}>([^<]*)</${name}>`));
+  return element ? element[1] : undefined;
+};
+
+const parseXmpDateTime = (value: string | undefined): { date: string; captureTime: string } | null => {
+  if (!value) return null;
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?(Z|[+-]\d{2}:\d{2})?)?/);
+  if (!match) return null;
+  const [, y, m, d, hh = '00', mm = '00', ss = '00', tz = ''] = match;
+  if (!isPlausibleDate(y, m, d)) return null;
+  return {
+    date: `${y}-${m}-${d}`,
+    captureTime: `${y}-${m}-${d}T${hh}:${mm}:${ss}${tz === 'Z' ? '+00:00' : tz}`
+  };
+};
+
+export const parseXmp = (xmp: string): ExifData => {
+  const result: ExifData = {};
+  const dateTime =
+    parseXmpDateTime(readXmpProperty(xmp, 'exif:DateTimeOriginal')) ||
+    parseXmpDateTime(readXmpProperty(xmp, 'photoshop:DateCreated')) ||
+    parseXmpDateTime(readXmpProperty(xmp, 'xmp:CreateDate'));
+  if (dateTime) {
+    result.date = dateTime.date;
+    result.captureTime = dateTime.captureTime;
+  }
+
+  const lat = parseXmpCoordinate(readXmpProperty(xmp, 'exif:GPSLatitude'));
+  const lng = parseXmpCoordinate(readXmpProperty(xmp, 'exif:GPSLongitude'));
+  if (isValidCoordinate(lat, lng)) {
+    result.latitude = lat;
+    result.longitude = lng!;
+  }
+  return result;
+};
+
+const XMP_SIGNATURE = 'http://ns.adobe.com/xap/1.0/\0';
+
+const stripUndefined = (data: ExifData): ExifData =>
+  Object.fromEntries(Object.entries(data).filter(([, v]) => v !== undefined)) as ExifData;
+
+/**
+ * JPEG のマーカーを走査し、APP1 の Exif と XMP を読む
+ */
+const parseJpeg = (view: DataView): ExifData => {
+  let exif: ExifData = {};
+  let xmp: ExifData = {};
+  let offset = 2;
+
+  while (offset + 4 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) break;
+    const marker = view.getUint8(offset + 1);
+    // SOS 以降は画像データなのでメタデータは存在しない
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = view.getUint16(offset + 2);
+    const segmentStart = offset + 4;
+
+    if (marker === 0xe1 && segmentStart + 6 <= view.byteLength) {
+      if (readAscii(view, segmentStart, 4) === 'Exif') {
+        exif = parseTiff(view, segmentStart + 6);
+      } else if (readAscii(view, segmentStart, XMP_SIGNATURE.length - 1) === XMP_SIGNATURE.slice(0, -1)) {
+        const xmpStart = segmentStart + XMP_SIGNATURE.length;
+        const xmpEnd = Math.min(segmentStart + length - 2, view.byteLength);
+        xmp = parseXmp(new TextDecoder().decode(new Uint8Array(view.buffer, view.byteOffset + xmpStart, Math.max(0, xmpEnd - xmpStart))));
+      }
+    }
+    offset = segmentStart + length - 2;
+  }
+
+  // Exif を優先し、欠けている項目だけ XMP で補う
+  return { ...xmp, ...stripUndefined(exif) };
+};
+
+/**
+ * JPEG 以外（PNG, HEIC, WebP など）は XMP パケットを文字列検索する
+ */
+const scanForXmp = (buffer: ArrayBuffer): ExifData => {
+  const text = new TextDecoder('utf-8', { fatal: false }).decode(buffer);
+  const start = text.indexOf('<x:xmpmeta');
+  if (start === -1) return {};
+  const end = text.indexOf('</x:xmpmeta>', start);
+  return parseXmp(text.slice(start, end === -1 ? undefined : end));
+};
+
+/**
+ * ファイルから撮影日時と GPS 座標を読み取る。読めない場合は空オブジェクトを返す
+ */
+export const readExifData = async (file: Blob): Promise<ExifData> => {
+  try {
+    const buffer = await file.slice(0, HEADER_READ_BYTES).arrayBuffer();
+    const view = new DataView(buffer);
+    if (view.byteLength < 4) return {};
+
+    if (view.getUint16(0) === 0xffd8) return parseJpeg(view);
+
+    const byteOrder = view.getUint16(0);
+    if (byteOrder === 0x4949 || byteOrder === 0x4d4d) {
+      return { ...scanForXmp(buffer), ...stripUndefined(parseTiff(view, 0)) };
+    }
+    return scanForXmp(buffer);
+  } catch (error) {
+    console.warn("[VisionSort] EXIF read failed:", error);
+    return {};
+  }
+};
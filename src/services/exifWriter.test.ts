@@ -0,0 +1,137 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { readExifData } from "./exifService";
+import { writeJpegMetadata } from "./exifWriter";
+import { setLocale, t } from "./i18nService";
+import { photo } from "./testFixtures";
+
+// SOI・JFIF・SOS・画像データ・EOI だけの最小の JPEG
+const IMAGE_DATA = [0xff, 0xda, 0x00, 0x08, 0x01, 0x01, 0x00, 0x00, 0x3f, 0x00, 0x12, 0x34, 0xff, 0xd9];
+const JPEG = Uint8Array.from([
+  0xff, 0xd8,
+  0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00,
+  ...IMAGE_DATA
+]);
+
+// 既存の XMP を APP1 に持つ JPEG
+const withXmp = (xmp: string) => {
+  const payload = new TextEncoder().encode(`http://ns.adobe.com/xap/1.0/\0${xmp}`);
+  return Uint8Array.from([0xff, 0xd8, 0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff, ...payload, ...IMAGE_DATA]);
+};
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+const textOf = async (blob: Blob) => new TextDecoder().decode(await blob.arrayBuffer());
+
+const countExifSegments = (bytes: Uint8Array) => {
+  let count = 0;
+  for (let i = 0; i + 9 < bytes.length; i++) {
+    if (bytes[i] === 0xff && bytes[i + 1] === 0xe1 && new TextDecoder().decode(bytes.subarray(i + 4, i + 8)) === "Exif") count++;
+  }
+  return count;
+};
+
+// 新しく作る Exif はビッグエンディアンで書かれる
+const rationalBytes = (values: [number, number][]) => {
+  const bytes = new Uint8Array(values.length * 8);
+  const view = new DataView(bytes.buffer);
+  values.forEach(([numerator, denominator], i) => {
+    view.setUint32(i * 8, numerator);
+    view.setUint32(i * 8 + 4, denominator);
+  });
+  return Array.from(bytes).join(",");
+};
+
+describe("writeJpegMetadata", () => {
+  beforeEach(() => {
+    setLocale("ja");
+  });
+
+  it("撮影日時と座標を書き込み、読み戻せる", async () => {
+    const written = await writeJpegMetadata(new Blob([JPEG]), photo("photo", {
+      date: "2023-10-05",
+      captureTime: "2023-10-05T14:30:15+09:00",
+      latitude: 35.6812,
+      longitude: 139.7671,
+      provenance: { date: { source: "manual", confidence: "high" } }
+    }));
+
+    const exif = await readExifData(written);
+    expect(exif.date).toBe("2023-10-05");
+    expect(exif.captureTime).toBe("2023-10-05T14:30:15+09:00");
+    expect(exif.latitude).toBeCloseTo(35.6812, 6);
+    expect(exif.longitude).toBeCloseTo(139.7671, 6);
+  });
+
+  it("南半球・西半球の座標は方位を付けて書く", async () => {
+    const written = await writeJpegMetadata(new Blob([JPEG]), photo("photo", { latitude: -33.8568, longitude: -70.6483 }));
+
+    const exif = await readExifData(written);
+    expect(exif.latitude).toBeCloseTo(-33.8568, 6);
+    expect(exif.longitude).toBeCloseTo(-70.6483, 6);
+  });
+
+  it("秒が60に丸められる座標は分・度に繰り上げる", async () => {
+    const written = await writeJpegMetadata(new Blob([JPEG]), photo("photo", { latitude: 35.99999999, longitude: 139.5 }));
+
+    const bytes = Array.from(await bytesOf(written)).join(",");
+    expect(bytes).toContain(rationalBytes([[36, 1], [0, 1], [0, 10000]]));
+    expect(bytes).toContain(rationalBytes([[139, 1], [30, 1], [0, 10000]]));
+    expect((await readExifData(written)).latitude).toBe(36);
+  });
+
+  it("AI が推測した撮影日は書き込まない", async () => {
+    const written = await writeJpegMetadata(new Blob([JPEG]), photo("photo", {
+      date: "2023-10-05",
+      latitude: 35.6812,
+      longitude: 139.7671,
+      provenance: { date: { source: "ai", confidence: "low" } }
+    }));
+
+    const exif = await readExifData(written);
+    expect(exif.date).toBeUndefined();
+    expect(exif.latitude).toBeCloseTo(35.6812, 6);
+  });
+
+  it("説明は解析が終わった写真だけ書き込む", async () => {
+    const done = await writeJpegMetadata(new Blob([JPEG]), photo("photo", { description: "朝の清水寺", analysisStatus: "done" }));
+    const failed = await writeJpegMetadata(new Blob([JPEG]), photo("photo", { description: "朝の清水寺", analysisStatus: "failed" }));
+
+    expect(await textOf(done)).toContain("朝の清水寺");
+    expect(await textOf(failed)).not.toContain("朝の清水寺");
+  });
+
+  it("既存の XMP は他のプロパティを残して該当するプロパティだけ置き換える", async () => {
+    const existing = withXmp(
+      '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">' +
+      '<rdf:Description rdf:about="" xmlns:exif="http://ns.adobe.com/exif/1.0/" xmlns:xmp="http://ns.adobe.com/xap/1.0/" exif:GPSLatitude="1,0.0N" xmp:Rating="5">' +
+      '<dc:description><rdf:Alt><rdf:li xml:lang="x-default">古い説明</rdf:li></rdf:Alt></dc:description>' +
+      '</rdf:Description></rdf:RDF></x:xmpmeta>'
+    );
+
+    const written = await writeJpegMetadata(new Blob([existing]), photo("photo", {
+      latitude: 35.6812, longitude: 139.7671, description: "<清水寺> & 音羽の滝", analysisStatus: "done"
+    }));
+
+    const text = await textOf(written);
+    expect(text).toContain('xmp:Rating="5"');
+    expect(text).not.toContain("1,0.0N");
+    expect(text).not.toContain("古い説明");
+    expect(text).toContain("&lt;清水寺&gt; &amp; 音羽の滝");
+    expect(text.match(/xmlns:exif=/g)).toHaveLength(1);
+    expect((await readExifData(written)).latitude).toBeCloseTo(35.6812, 6);
+  });
+
+  it("画像データはそのまま残し、書き直しても Exif は1つだけ", async () => {
+    const target = photo("photo", { latitude: 35.6812, longitude: 139.7671 });
+    const once = await writeJpegMetadata(new Blob([JPEG]), target);
+    const twice = await bytesOf(await writeJpegMetadata(once, target));
+
+    expect(Array.from(twice.subarray(0, 2))).toEqual([0xff, 0xd8]);
+    expect(Array.from(twice.subarray(twice.length - IMAGE_DATA.length))).toEqual(IMAGE_DATA);
+    expect(countExifSegments(twice)).toBe(1);
+  });
+
+  it("JPEG でないファイルはエラーにする", async () => {
+    await expect(writeJpegMetadata(new Blob([Uint8Array.from([0x89, 0x50, 0x4e, 0x47])]), photo("photo")))
+      .rejects.toThrow(t("error.notJpeg"));
+  });
+});
@@ -0,0 +1,384 @@
+import { FieldSource, PhotoMetadata } from "../types";
+import { hasLocation } from "./geoUtils";
+import { getFieldProvenance, isManualField } from "./provenanceService";
+import { t } from "./i18nService";
+
+/**
+ * 修正した撮影日時・GPS・説明を JPEG の EXIF と XMP に書き込む
+ * 画像データ（SOS 以降）は再エンコードせずそのまま残し、メタデータのセグメントだけを作り直す
+ * 既存の EXIF のタグは引き継ぐが、サムネイル（IFD1）は書き出さない
+ */
+
+const TAG_IMAGE_DESCRIPTION = 0x010e;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_INTEROP_IFD = 0xa005;
+const TAG_EXIF_VERSION = 0x9000;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_MAKER_NOTE = 0x927c;
+const TAG_GPS_VERSION = 0x0000;
+const TAG_GPS_LAT_REF = 0x0001;
+const TAG_GPS_LAT = 0x0002;
+const TAG_GPS_LNG_REF = 0x0003;
+const TAG_GPS_LNG = 0x0004;
+
+const TYPE_BYTE = 1;
+const TYPE_ASCII = 2;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+const TYPE_UNDEFINED = 7;
+const TYPE_IFD = 13;
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 13: 4 };
+
+const POINTER_TAGS = [TAG_EXIF_IFD, TAG_GPS_IFD, TAG_INTEROP_IFD];
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0, 0]; // "Exif\0\0"
+const XMP_SIGNATURE = 'http://ns.adobe.com/xap/1.0/\0';
+// APP1 セグメントの長さの上限（長さフィールド自身の2バイトを含めて 0xffff）
+const MAX_SEGMENT_PAYLOAD = 0xffff - 2;
+
+// 値は元のファイルのバイト順のまま保持し、同じバイト順で書き戻す
+interface RawEntry {
+  type: number;
+  count: number;
+  data: Uint8Array;
+}
+
+interface Ifd {
+  entries: Map<number, RawEntry>;
+  children: Map<number, Ifd>; // Exif / GPS / 互換性 IFD へのポインタ
+}
+
+const createIfd = (): Ifd => ({ entries: new Map(), children: new Map() });
+
+const readIfd = (bytes: Uint8Array, view: DataView, tiffStart: number, ifdOffset: number, little: boolean, depth = 0): Ifd => {
+  const ifd = createIfd();
+  const base = tiffStart + ifdOffset;
+  if (depth > 2 || base + 2 > view.byteLength) return ifd;
+
+  const count = view.getUint16(base, little);
+  for (let i = 0; i < count; i++) {
+    const entry = base + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const num = view.getUint32(entry + 4, little);
+    const size = (TYPE_SIZES[type] || 0) * num;
+    if (size === 0) continue;
+
+    if (POINTER_TAGS.includes(tag) && (type === TYPE_LONG || type === TYPE_IFD)) {
+      ifd.children.set(tag, readIfd(bytes, view, tiffStart, view.getUint32(entry + 8, little), little, depth + 1));
+      continue;
+    }
+    const valueOffset = size > 4 ? tiffStart + view.getUint32(entry + 8, little) : entry + 8;
+    if (valueOffset + size > view.byteLength) continue;
+    ifd.entries.set(tag, { type, count: num, data: bytes.slice(valueOffset, valueOffset + size) });
+  }
+  return ifd;
+};
+
+const concatBytes = (chunks: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach(chunk => {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return out;
+};
+
+// TIFF の値はワード境界に揃える
+const padEven = (data: Uint8Array) => (data.length % 2 === 0 ? data : concatBytes([data, new Uint8Array(1)]));
+
+/**
+ * IFD と、その子の IFD を offset（TIFF 先頭からの位置）から連続して並べたバイト列にする
+ */
+const serializeIfd = (ifd: Ifd, offset: number, little: boolean): Uint8Array => {
+  const tags = Array.from(new Set([...ifd.entries.keys(), ...ifd.children.keys()])).sort((a, b) => a - b);
+  const dirSize = 2 + tags.length * 12 + 4;
+  const dir = new Uint8Array(dirSize);
+  const view = new DataView(dir.buffer);
+  const chunks: Uint8Array[] = [];
+  const positions = new Map<number, number>();
+  let cursor = offset + dirSize;
+
+  tags.forEach(tag => {
+    const entry = ifd.entries.get(tag);
+    if (!entry || entry.data.length <= 4) return;
+    const data = padEven(entry.data);
+    positions.set(tag, cursor);
+    chunks.push(data);
+    cursor += data.length;
+  });
+  tags.forEach(tag => {
+    const child = ifd.children.get(tag);
+    if (!child) return;
+    const data = serializeIfd(child, cursor, little);
+    positions.set(tag, cursor);
+    chunks.push(data);
+    cursor += data.length;
+  });
+
+  view.setUint16(0, tags.length, little);
+  tags.forEach((tag, i) => {
+    const p = 2 + i * 12;
+    view.setUint16(p, tag, little);
+    const entry = ifd.entries.get(tag);
+    if (!entry) {
+      view.setUint16(p + 2, TYPE_LONG, little);
+      view.setUint32(p + 4, 1, little);
+      view.setUint32(p + 8, positions.get(tag)!, little);
+      return;
+    }
+    view.setUint16(p + 2, entry.type, little);
+    view.setUint32(p + 4, entry.count, little);
+    if (entry.data.length > 4) view.setUint32(p + 8, positions.get(tag)!, little);
+    else dir.set(entry.data, p + 8);
+  });
+  // 次の IFD（IFD1）へのオフセットは 0 のままにする
+  return concatBytes([dir, ...chunks]);
+};
+
+const asciiEntry = (value: string): RawEntry => {
+  // ASCII 型だが、日本語の説明も読めるよう UTF-8 で書く（多くのツールが UTF-8 として読む）
+  const data = new TextEncoder().encode(`${value}\0`);
+  return { type: TYPE_ASCII, count: data.length, data };
+};
+
+const rationalEntry = (values: [number, number][], little: boolean): RawEntry => {
+  const data = new Uint8Array(values.length * 8);
+  const view = new DataView(data.buffer);
+  values.forEach(([numerator, denominator], i) => {
+    view.setUint32(i * 8, numerator, little);
+    view.setUint32(i * 8 + 4, denominator, little);
+  });
+  return { type: TYPE_RATIONAL, count: values.length, data };
+};
+
+const toDms = (decimal: number): [number, number][] => {
+  // 秒は 1/10000 秒単位で丸めるため、60秒に繰り上がった分は分・度に足す
+  const totalSeconds = Math.round(Math.abs(decimal) * 3600 * 10000);
+  const degrees = Math.floor(totalSeconds / (3600 * 10000));
+  const minutes = Math.floor((totalSeconds % (3600 * 10000)) / (60 * 10000));
+  const seconds = totalSeconds % (60 * 10000);
+  return [[degrees, 1], [minutes, 1], [seconds, 10000]];
+};
+
+const buildGpsIfd = (latitude: number, longitude: number, little: boolean): Ifd => {
+  const gps = createIfd();
+  gps.entries.set(TAG_GPS_VERSION, { type: TYPE_BYTE, count: 4, data: Uint8Array.from([2, 3, 0, 0]) });
+  gps.entries.set(TAG_GPS_LAT_REF, asciiEntry(latitude < 0 ? 'S' : 'N'));
+  gps.entries.set(TAG_GPS_LAT, rationalEntry(toDms(latitude), little));
+  gps.entries.set(TAG_GPS_LNG_REF, asciiEntry(longitude < 0 ? 'W' : 'E'));
+  gps.entries.set(TAG_GPS_LNG, rationalEntry(toDms(longitude), little));
+  return gps;
+};
+
+interface PhotoTags {
+  dateTime?: { exif: string; iso: string; zone?: string };
+  latitude?: number;
+  longitude?: number;
+  description?: string;
+}
+
+// 撮影日として書き込む出どころ。ファイルの更新日時や AI の推測は撮影日時として残さない
+const WRITABLE_DATE_SOURCES: FieldSource[] = ['exif', 'filename', 'manual'];
+
+/**
+ * 書き込む値。撮影時刻が分からない写真は撮影日の0時として書く（並べ替えと同じ扱い）
+ */
+const photoTags = (photo: PhotoMetadata): PhotoTags => {
+  const tags: PhotoTags = {};
+  const dateSource = getFieldProvenance(photo, 'date')?.source;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(photo.date) && dateSource && WRITABLE_DATE_SOURCES.includes(dateSource)) {
+    const time = photo.captureTime?.match(/T(\d{2}:\d{2}:\d{2})/)?.[1] || '00:00:00';
+    const zone = photo.captureTime?.match(/([+-]\d{2}:\d{2})$/)?.[1];
+    tags.dateTime = { exif: `${photo.date.replace(/-/g, ':')} ${time}`, iso: `${photo.date}T${time}${zone || ''}`, zone };
+  }
+  if (hasLocation(photo)) {
+    tags.latitude = photo.latitude;
+    tags.longitude = photo.longitude;
+  }
+  // 解析が終わっていない・失敗した写真の説明は AI の結果ではないため、手動で書いたもの以外は書き込まない
+  const description = photo.description?.trim();
+  if (description && (photo.analysisStatus === 'done' || isManualField(photo, 'description'))) tags.description = description;
+  return tags;
+};
+
+const buildTiff = (ifd0: Ifd, little: boolean): Uint8Array => {
+  const header = new Uint8Array(8);
+  const view = new DataView(header.buffer);
+  view.setUint16(0, little ? 0x4949 : 0x4d4d);
+  view.setUint16(2, 42, little);
+  view.setUint32(4, 8, little);
+  return concatBytes([header, serializeIfd(ifd0, 8, little)]);
+};
+
+const app1Segment = (payload: Uint8Array): Uint8Array => {
+  const header = new Uint8Array(4);
+  const view = new DataView(header.buffer);
+  view.setUint16(0, 0xffe1);
+  view.setUint16(2, payload.length + 2);
+  return concatBytes([header, payload]);
+};
+
+const buildExifSegment = (ifd0: Ifd, little: boolean, tags: PhotoTags): Uint8Array => {
+  if (tags.description) ifd0.entries.set(TAG_IMAGE_DESCRIPTION, asciiEntry(tags.description));
+  if (tags.dateTime) {
+    let exifIfd = ifd0.children.get(TAG_EXIF_IFD);
+    if (!exifIfd) {
+      exifIfd = createIfd();
+      exifIfd.entries.set(TAG_EXIF_VERSION, { type: TYPE_UNDEFINED, count: 4, data: new TextEncoder().encode('0232') });
+      ifd0.children.set(TAG_EXIF_IFD, exifIfd);
+    }
+    exifIfd.entries.set(TAG_DATETIME_ORIGINAL, asciiEntry(tags.dateTime.exif));
+    if (tags.dateTime.zone) exifIfd.entries.set(TAG_OFFSET_TIME_ORIGINAL, asciiEntry(tags.dateTime.zone));
+  }
+  // 位置を直した場合、元の高度や測位時刻は合わなくなるため GPS IFD ごと作り直す
+  if (tags.latitude !== undefined && tags.longitude !== undefined) {
+    ifd0.children.set(TAG_GPS_IFD, buildGpsIfd(tags.latitude, tags.longitude, little));
+  }
+
+  let payload = concatBytes([Uint8Array.from(EXIF_HEADER), buildTiff(ifd0, little)]);
+  // 大きなメーカーノートで上限を超える場合はメーカーノートを外す
+  if (payload.length > MAX_SEGMENT_PAYLOAD) {
+    ifd0.children.get(TAG_EXIF_IFD)?.entries.delete(TAG_MAKER_NOTE);
+    payload = concatBytes([Uint8Array.from(EXIF_HEADER), buildTiff(ifd0, little)]);
+  }
+  if (payload.length > MAX_SEGMENT_PAYLOAD) throw new Error(t('error.exifTooLarge'));
+  return app1Segment(payload);
+};
+
+const NS_RDF = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+const XMP_NAMESPACES: Record<string, string> = {
+  dc: 'http://purl.org/dc/elements/1.1/',
+  exif: 'http://ns.adobe.com/exif/1.0/',
+  photoshop: 'http://ns.adobe.com/photoshop/1.0/'
+};
+const XMP_PROPERTIES = ['exif:GPSLatitude', 'exif:GPSLongitude', 'exif:GPSVersionID', 'exif:DateTimeOriginal', 'photoshop:DateCreated', 'dc:description'];
+const EMPTY_XMP = `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="${NS_RDF}"><rdf:Description rdf:about=""/></rdf:RDF></x:xmpmeta>`;
+
+// XMP の座標は「度,分（小数）」と方位で表す
+const xmpCoordinate = (decimal: number, positive: string, negative: string): string => {
+  const abs = Math.abs(decimal);
+  const degrees = Math.floor(abs);
+  return `${degrees},${((abs - degrees) * 60).toFixed(6)}${decimal < 0 ? negative : positive}`;
+};
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// プロパティを属性形式・要素形式のどちらで書いていても取り除く
+const removeXmpProperty = (xmp: string, name: string): string => xmp
+  .replace(new RegExp(`\\s${name}\\s*=\\s*("[^"]*"|'[^']*')`, 'g'), '')
+  .replace(new RegExp(`<${name}(?=[\\s/>])[^>]*/>`, 'g'), '')
+  .replace(new RegExp(`<${name}(?=[\\s>])[^>]*>[\\s\\S]*?</${name}>`, 'g'), '');
+
+/**
+ * 既存の XMP の該当プロパティを置き換える（他のプロパティは残す）。XMP がなければ新しく作る
+ * 読み取り側（exifService）と同じく、プロパティは標準の接頭辞で書かれているものとして文字列で扱う
+ */
+const buildXmpPacket = (existing: string | null, tags: PhotoTags): string => {
+  const start = existing?.indexOf('<x:xmpmeta') ?? -1;
+  const end = existing?.indexOf('</x:xmpmeta>') ?? -1;
+  let xmp = start >= 0 && end > start ? existing!.slice(start, end + '</x:xmpmeta>'.length) : EMPTY_XMP;
+  if (!/<rdf:Description[\s/>]/.test(xmp)) xmp = EMPTY_XMP;
+  xmp = XMP_PROPERTIES.reduce(removeXmpProperty, xmp);
+
+  const attributes: [string, string][] = [];
+  if (tags.latitude !== undefined && tags.longitude !== undefined) {
+    attributes.push(['exif:GPSVersionID', '2.3.0.0']);
+    attributes.push(['exif:GPSLatitude', xmpCoordinate(tags.latitude, 'N', 'S')]);
+    attributes.push(['exif:GPSLongitude', xmpCoordinate(tags.longitude, 'E', 'W')]);
+  }
+  if (tags.dateTime) {
+    attributes.push(['exif:DateTimeOriginal', tags.dateTime.iso]);
+    attributes.push(['photoshop:DateCreated', tags.dateTime.iso]);
+  }
+  const prefixes = new Set(attributes.map(([name]) => name.split(':')[0]));
+  if (tags.description) prefixes.add('dc');
+
+  // 最初の rdf:Description に名前空間の宣言とプロパティを書き足す
+  xmp = xmp.replace(/<rdf:Description(?=[\s/>])([^>]*?)(\/?)>/, (_, existingAttributes: string, selfClosing: string) => {
+    const declarations = Array.from(prefixes)
+      .filter(prefix => !new RegExp(`\\sxmlns:${prefix}\\s*=`).test(existingAttributes))
+      .map(prefix => ` xmlns:${prefix}="${XMP_NAMESPACES[prefix]}"`);
+    const open = `<rdf:Description${existingAttributes}${declarations.join('')}${attributes.map(([name, value]) => ` ${name}="${escapeXml(value)}"`).join('')}`;
+    if (!tags.description) return `${open}${selfClosing}>`;
+    const description = `<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(tags.description)}</rdf:li></rdf:Alt></dc:description>`;
+    return selfClosing ? `${open}>${description}</rdf:Description>` : `${open}>${description}`;
+  });
+
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>\n${xmp}\n<?xpacket end="w"?>`;
+};
+
+const startsWith = (bytes: Uint8Array, offset: number, signature: string) =>
+  signature.split('').every((c, i) => bytes[offset + i] === c.charCodeAt(0));
+
+/**
+ * JPEG に写真の撮影日時・GPS・説明を書き込んだ新しい Blob を返す。JPEG でなければエラーにする
+ */
+export const writeJpegMetadata = async (blob: Blob, photo: PhotoMetadata): Promise<Blob> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  if (bytes.length < 4 || view.getUint16(0) !== 0xffd8) throw new Error(t('error.notJpeg'));
+
+  let ifd0: Ifd | null = null;
+  let little = false;
+  let xmpText: string | null = null;
+  let originalXmp: Uint8Array | null = null;
+  let jfif: Uint8Array | null = null;
+  const segments: Uint8Array[] = [];
+
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) throw new Error(t('error.jpegStructure'));
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++; // 埋め草のバイト
+      continue;
+    }
+    // SOS 以降の画像データはそのまま残す
+    if (marker === 0xda) break;
+    const end = offset + 2 + view.getUint16(offset + 2);
+    const segment = bytes.subarray(offset, end);
+    const payload = offset + 4;
+
+    if (marker === 0xe1 && !ifd0 && startsWith(bytes, payload, 'Exif\0\0')) {
+      const tiffStart = payload + 6;
+      const byteOrder = view.getUint16(tiffStart);
+      if (byteOrder === 0x4949 || byteOrder === 0x4d4d) {
+        little = byteOrder === 0x4949;
+        ifd0 = readIfd(bytes, view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+      }
+    } else if (marker === 0xe1 && xmpText === null && startsWith(bytes, payload, XMP_SIGNATURE)) {
+      xmpText = new TextDecoder().decode(bytes.subarray(payload + XMP_SIGNATURE.length, end));
+      originalXmp = segment;
+    } else if (marker === 0xe0 && segments.length === 0 && !jfif && startsWith(bytes, payload, 'JFIF\0')) {
+      jfif = segment;
+    } else {
+      segments.push(segment);
+    }
+    offset = end;
+  }
+
+  const tags = photoTags(photo);
+  const exifSegment = buildExifSegment(ifd0 || createIfd(), little, tags);
+  const xmpPayload = concatBytes([new TextEncoder().encode(XMP_SIGNATURE), new TextEncoder().encode(buildXmpPacket(xmpText, tags))]);
+  let xmpSegment: Uint8Array | null = originalXmp;
+  if (xmpPayload.length <= MAX_SEGMENT_PAYLOAD) xmpSegment = app1Segment(xmpPayload);
+  else console.warn("[VisionSort] XMP too large to rewrite, keeping the original packet:", photo.name);
+
+  const parts = [Uint8Array.from([0xff, 0xd8]), jfif, exifSegment, xmpSegment, ...segments, bytes.subarray(offset)]
+    .filter((part): part is Uint8Array => !!part);
+  return new Blob(parts as BlobPart[], { type: 'image/jpeg' });
+};
+
+/**
+ * 写真の元ファイルにメタデータを書き込む
+ */
+export const writePhotoMetadata = async (photo: PhotoMetadata): Promise<Blob> => {
+  if (!photo.fileBlob) throw new Error(t('error.photoFileMissing'));
+  return writeJpegMetadata(photo.fileBlob, photo);
+};
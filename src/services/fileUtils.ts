@@ -0,0 +1,55 @@
+/**
+ * ファイルのダウンロードなどブラウザ側のファイル操作
+ */
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // クリック直後に解放するとダウンロードが始まらないブラウザがあるため少し待つ
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const EXTENSIONS_BY_MIME: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/heic': 'heic',
+  'image/heif': 'heif',
+  'image/tiff': 'tif'
+};
+
+/**
+ * Blob の MIME タイプ（分からなければ元のファイル名）から拡張子を決める
+ */
+export const extensionFor = (blob: Blob, fallbackName = ''): string => {
+  const fromMime = EXTENSIONS_BY_MIME[blob.type];
+  if (fromMime) return fromMime;
+  const match = fallbackName.match(/\.([a-z0-9]+)$/i);
+  return match ? match[1].toLowerCase() : 'bin';
+};
+
+/**
+ * Blob を data URL の base64 部分に変換する（AI への画像送信用）
+ */
+export const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const base64String = (reader.result as string).split(',')[1];
+      resolve(base64String);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const todayStamp = (): string => {
+  const now = new Date();
+  return `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, '0')}${String(now.getDate()).padStart(2, '0')}`;
+};
@@ -0,0 +1,207 @@
+import { PhotoMetadata } from "../types";
+import { hasLocation } from "./geoUtils";
+import { countryName, toCountryCode } from "./geocoderService";
+import { pointPosition, toGeoJsonFeatures } from "./geoJsonUtils";
+import { escapeHtml } from "./markdownService";
+import { t } from "./i18nService";
+import { createProvenance, mergeProvenance } from "./provenanceService";
+
+/**
+ * 写真の位置を GeoJSON / KML として書き出し、GIS ツールなどで編集した位置を読み込んで写真に戻す
+ * 読み込んだ地物は写真ID、なければファイル名で写真と対応付ける
+ */
+
+export interface ImportedPlace {
+  photoId?: string;
+  filename?: string;
+  latitude: number;
+  longitude: number;
+  locationName?: string;
+  country?: string;
+}
+
+export interface PlaceMatch {
+  photoId: string;
+  place: ImportedPlace;
+  matchedBy: 'id' | 'filename';
+}
+
+export interface PlaceMatchResult {
+  matches: PlaceMatch[];
+  unmatched: ImportedPlace[];
+  ambiguous: ImportedPlace[]; // 同じファイル名の写真が複数あり、どれか決められなかったもの
+}
+
+const placeProperties = (photo: PhotoMetadata) => ({
+  id: photo.id,
+  name: photo.name,
+  locationName: photo.locationName,
+  date: photo.date,
+  captureTime: photo.captureTime,
+  description: photo.description,
+  country: photo.country && countryName(photo.country)
+});
+
+export const photosToGeoJson = (photos: PhotoMetadata[]): string => JSON.stringify({
+  type: "FeatureCollection",
+  features: photos.filter(hasLocation).map(photo => ({
+    type: "Feature",
+    id: photo.id,
+    geometry: { type: "Point", coordinates: [photo.longitude, photo.latitude] },
+    properties: placeProperties(photo)
+  }))
+}, null, 2);
+
+export const photosToKml = (photos: PhotoMetadata[]): string => {
+  const placemarks = photos.filter(hasLocation).map(photo => {
+    const data = Object.entries(placeProperties(photo))
+      .filter(([, value]) => value)
+      .map(([name, value]) => `<Data name="${name}"><value>${escapeHtml(String(value))}</value></Data>`)
+      .join("");
+    return `  <Placemark>
+    <name>${escapeHtml(photo.locationName || photo.name)}</name>
+    <description>${escapeHtml(photo.description || "")}</description>
+    <TimeStamp><when>${escapeHtml(photo.captureTime || photo.date)}</when></TimeStamp>
+    <ExtendedData>${data}</ExtendedData>
+    <Point><coordinates>${photo.longitude},${photo.latitude}</coordinates></Point>
+  </Placemark>`;
+  }).join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+<Document>
+  <name>VisionSort</name>
+${placemarks}
+</Document>
+</kml>
+`;
+};
+
+const isValidCoordinate = (latitude: number, longitude: number) =>
+  !isNaN(latitude) && !isNaN(longitude) && Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
+
+const textValue = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() ? value.trim() : (typeof value === "number" ? String(value) : undefined);
+
+/**
+ * GeoJSON の Point を読み取る。ID は properties.id / photoId か Feature の id、ファイル名は properties.name / filename から取る
+ */
+export const parseGeoJsonPlaces = (text: string): ImportedPlace[] => {
+  return toGeoJsonFeatures(JSON.parse(text)).flatMap(feature => {
+    const position = pointPosition(feature.geometry);
+    if (!position) return [];
+    const [longitude, latitude] = position;
+    if (!isValidCoordinate(latitude, longitude)) return [];
+    const props = feature.properties;
+    return [{
+      photoId: textValue(props.id ?? props.photoId ?? feature.id),
+      filename: textValue(props.name ?? props.filename ?? props.fileName),
+      latitude,
+      longitude,
+      locationName: textValue(props.locationName),
+      country: textValue(props.country)
+    }];
+  });
+};
+
+/**
+ * KML の Point の Placemark を読み取る。ID・ファイル名などは ExtendedData の Data / SimpleData から取る
+ */
+export const parseKmlPlaces = (text: string): ImportedPlace[] => {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) throw new Error(t('error.kmlParse'));
+
+  return Array.from(doc.getElementsByTagNameNS("*", "Placemark")).flatMap(placemark => {
+    const coordinates = placemark.getElementsByTagNameNS("*", "Point")[0]?.getElementsByTagNameNS("*", "coordinates")[0]?.textContent;
+    if (!coordinates) return [];
+    const [longitude, latitude] = coordinates.trim().split(/[\s,]+/).map(Number);
+    if (!isValidCoordinate(latitude, longitude)) return [];
+
+    const data: Record<string, string> = {};
+    Array.from(placemark.getElementsByTagNameNS("*", "Data")).forEach(el => {
+      const value = el.getElementsByTagNameNS("*", "value")[0]?.textContent?.trim();
+      if (el.getAttribute("name") && value) data[el.getAttribute("name")!] = value;
+    });
+    Array.from(placemark.getElementsByTagNameNS("*", "SimpleData")).forEach(el => {
+      const value = el.textContent?.trim();
+      if (el.getAttribute("name") && value) data[el.getAttribute("name")!] = value;
+    });
+
+    return [{
+      photoId: data.id || data.photoId || placemark.getAttribute("id") || undefined,
+      filename: data.name || data.filename || data.fileName,
+      latitude,
+      longitude,
+      locationName: data.locationName,
+      country: data.country
+    }];
+  });
+};
+
+/**
+ * 拡張子（または中身）から形式を判定して読み込む
+ */
+export const parsePlaceFile = async (file: File): Promise<ImportedPlace[]> => {
+  const text = await file.text();
+  const isJson = /\.(geo)?json$/i.test(file.name) || text.trimStart().startsWith("{");
+  const places = isJson ? parseGeoJsonPlaces(text) : parseKmlPlaces(text);
+  if (places.length === 0) throw new Error(t('error.noPlaces', { file: file.name }));
+  return places;
+};
+
+const filenameKey = (name: string) => name.split(/[\\/]/).pop()!.trim().toLowerCase();
+
+/**
+ * 地物を写真に対応付ける。同じ写真に複数の地物が対応した場合は後のものを使う
+ */
+export const matchPlacesToPhotos = (places: ImportedPlace[], photos: PhotoMetadata[]): PlaceMatchResult => {
+  const photoIds = new Set(photos.map(p => p.id));
+  const byFilename = new Map<string, string[]>();
+  photos.forEach(photo => {
+    const key = filenameKey(photo.name);
+    byFilename.set(key, [...(byFilename.get(key) || []), photo.id]);
+  });
+
+  const matches = new Map<string, PlaceMatch>();
+  const unmatched: ImportedPlace[] = [];
+  const ambiguous: ImportedPlace[] = [];
+  places.forEach(place => {
+    if (place.photoId && photoIds.has(place.photoId)) {
+      matches.set(place.photoId, { photoId: place.photoId, place, matchedBy: 'id' });
+      return;
+    }
+    const candidates = place.filename ? byFilename.get(filenameKey(place.filename)) || [] : [];
+    if (candidates.length === 1) matches.set(candidates[0], { photoId: candidates[0], place, matchedBy: 'filename' });
+    else if (candidates.length > 1) ambiguous.push(place);
+    else unmatched.push(place);
+  });
+  return { matches: Array.from(matches.values()), unmatched, ambiguous };
+};
+
+// 他のツールで作られたファイルの地名は長さを制限して保存する
+const MAX_IMPORTED_NAME_LENGTH = 200;
+
+const importedName = (value: string | undefined): string | undefined =>
+  value?.replace(/\s+/g, " ").trim().slice(0, MAX_IMPORTED_NAME_LENGTH) || undefined;
+
+/**
+ * 読み込んだ位置を写真に適用する変更。別のツールでユーザーが編集した位置なので手動の設定として扱う
+ */
+export const placeUpdate = (photo: PhotoMetadata, place: ImportedPlace, includeNames: boolean): Partial<PhotoMetadata> => {
+  const locationName = includeNames ? importedName(place.locationName) : undefined;
+  const importedCountry = includeNames ? importedName(place.country) : undefined;
+  const country = importedCountry && toCountryCode(importedCountry);
+  return {
+    latitude: place.latitude,
+    longitude: place.longitude,
+    manuallyPlaced: true,
+    locationSource: 'manual',
+    ...(locationName && { locationName }),
+    ...(country && { country }),
+    provenance: mergeProvenance(photo, {
+      location: createProvenance('manual'),
+      ...(locationName && { locationName: createProvenance('manual') }),
+      ...(country && { country: createProvenance('manual') })
+    })
+  };
+};
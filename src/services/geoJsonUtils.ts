@@ -0,0 +1,64 @@
+/**
+ * GeoJSON の読み取りの共通処理（写真の位置の読み込みとトラックログで使う）
+ * 必要な範囲の型だけを定義し、形の合わない要素は読み飛ばす
+ */
+
+export type GeoJsonPosition = number[]; // [経度, 緯度, 標高?, 時刻?]
+
+export interface GeoJsonGeometry {
+  type: string;
+  coordinates?: unknown;
+}
+
+export interface GeoJsonFeature {
+  type: "Feature";
+  id?: string | number;
+  geometry: GeoJsonGeometry | null;
+  properties: Record<string, unknown>;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isGeometry = (value: unknown): value is GeoJsonGeometry =>
+  isObject(value) && typeof value.type === "string";
+
+export const isGeoJsonFeature = (value: unknown): value is GeoJsonFeature =>
+  isObject(value) && value.type === "Feature" && (value.geometry == null || isGeometry(value.geometry));
+
+/**
+ * FeatureCollection・Feature・Geometry のいずれも Feature の配列にそろえる
+ */
+export const toGeoJsonFeatures = (json: unknown): GeoJsonFeature[] => {
+  if (!isObject(json)) return [];
+  const candidates: unknown[] = json.type === "FeatureCollection" ? (Array.isArray(json.features) ? json.features : [])
+    : json.type === "Feature" ? [json]
+    : isGeometry(json) ? [{ type: "Feature", geometry: json }]
+    : [];
+  return candidates.filter(isGeoJsonFeature).map(feature => ({
+    ...feature,
+    geometry: feature.geometry || null,
+    properties: isObject(feature.properties) ? feature.properties : {}
+  }));
+};
+
+const toPosition = (value: unknown): GeoJsonPosition | null =>
+  Array.isArray(value) && value.length >= 2 ? value.map(Number) : null;
+
+const toLine = (value: unknown): GeoJsonPosition[] =>
+  Array.isArray(value) ? value.map(toPosition).filter((p): p is GeoJsonPosition => !!p) : [];
+
+/**
+ * Point の座標。Point でなければ null
+ */
+export const pointPosition = (geometry: GeoJsonGeometry | null): GeoJsonPosition | null =>
+  geometry?.type === "Point" ? toPosition(geometry.coordinates) : null;
+
+/**
+ * LineString / MultiLineString の線ごとの座標。線でなければ空
+ */
+export const linePositions = (geometry: GeoJsonGeometry | null): GeoJsonPosition[][] => {
+  if (geometry?.type === "LineString") return [toLine(geometry.coordinates)];
+  if (geometry?.type === "MultiLineString" && Array.isArray(geometry.coordinates)) return geometry.coordinates.map(toLine);
+  return [];
+};
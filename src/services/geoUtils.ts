@@ -0,0 +1,28 @@
+import { PhotoMetadata } from "../types";
+
+/**
+ * 座標まわりの共通処理
+ */
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+/**
+ * 2点間の大円距離（km）
+ */
+export const haversineKm = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+/**
+ * 位置が分かっている写真か（0,0 は未配置として扱う）
+ */
+export const hasLocation = (photo: PhotoMetadata): boolean => {
+  const lat = Number(photo.latitude);
+  const lng = Number(photo.longitude);
+  return !isNaN(lat) && !isNaN(lng) && (lat !== 0 || lng !== 0);
+};
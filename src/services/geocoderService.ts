@@ -0,0 +1,144 @@
+import { COUNTRY_NAMES, GAZETTEER, GazetteerEntry } from "../data/gazetteer";
+import { haversineKm } from "./geoUtils";
+import { getLocale, getLocaleInfo, Locale, LOCALES, t } from "./i18nService";
+
+/**
+ * 同梱の地名データを使ったオフラインの逆ジオコーディング
+ * 最も近い地名からの距離に応じて「都道府県 市区町村」「〜近郊」「国名のみ」と粗さを変える
+ * 地名は表示言語で付ける（英語では都道府県の代わりに国名を添える）
+ * 国は表示言語に依らない ISO 3166-1 の2文字のコードで返し、表示するときに countryName で国名にする
+ */
+
+// この距離以内ならその地名の場所として扱う
+const NEAR_KM = 25;
+// この距離以内なら「〜近郊」とする
+const VICINITY_KM = 150;
+// この距離以内なら国名だけ分かったものとする（これより遠い海上などは名付けない）
+const COUNTRY_KM = 800;
+
+export interface ReverseGeocodeResult {
+  locationName: string;
+  country: string; // 国コード
+  distanceKm: number;
+}
+
+export interface RegionResult {
+  countryCode: string;
+  region: string; // 都道府県・州など
+}
+
+const findNearest = (lat: number, lng: number): { nearest: GazetteerEntry; nearestKm: number } => {
+  let nearest = GAZETTEER[0];
+  let nearestKm = Infinity;
+  GAZETTEER.forEach(entry => {
+    const km = haversineKm(lat, lng, entry[4], entry[5]);
+    if (km < nearestKm) {
+      nearest = entry;
+      nearestKm = km;
+    }
+  });
+  return { nearest, nearestKm };
+};
+
+/**
+ * 座標から地名と国名を求める。近くに収録地名がなければ null
+ */
+export const reverseGeocode = (lat: number, lng: number): ReverseGeocodeResult | null => {
+  const { nearest, nearestKm } = findNearest(lat, lng);
+  if (nearestKm > COUNTRY_KM) return null;
+
+  const [nameJa, nameEn, countryCode, region] = nearest;
+  const isJa = getLocale() === 'ja';
+  const country = countryName(countryCode);
+  const place = isJa ? (region ? `${region} ${nameJa}` : nameJa) : `${nameEn}, ${country}`;
+  let locationName: string;
+  if (nearestKm <= NEAR_KM) locationName = place;
+  else if (nearestKm <= VICINITY_KM) locationName = t('geo.vicinity', { place });
+  else locationName = (isJa && region) || country;
+
+  return { locationName, country: countryCode, distanceKm: nearestKm };
+};
+
+// AI やファイルが返しがちな、正式名以外の国名
+const COUNTRY_ALIASES: Record<string, string> = {
+  "USA": "US",
+  "United States of America": "US",
+  "America": "US",
+  "UK": "GB",
+  "England": "GB",
+  "Great Britain": "GB",
+  "Korea": "KR",
+  "Republic of Korea": "KR",
+  "大韓民国": "KR",
+  "中華人民共和国": "CN",
+  "英国": "GB",
+  "米国": "US"
+};
+
+const ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+// Intl が名前を返すが国ではない地域コード
+const NON_COUNTRY_CODES = new Set(["EU", "EZ", "QO", "UN", "XA", "XB", "ZZ"]);
+
+let countryCodesByName: Map<string, string> | null = null;
+
+/**
+ * 国名（各言語の表記・別名）から国コードを引く表。初めて使うときに作る
+ */
+const getCountryCodesByName = (): Map<string, string> => {
+  if (countryCodesByName) return countryCodesByName;
+  const index = new Map<string, string>();
+  const add = (name: string, code: string) => {
+    const key = name.trim().toLowerCase();
+    if (key && !index.has(key)) index.set(key, code);
+  };
+  Object.entries(COUNTRY_NAMES).forEach(([code, names]) => LOCALES.forEach(locale => add(names[locale.id], code)));
+  Object.entries(COUNTRY_ALIASES).forEach(([name, code]) => add(name, code));
+  LOCALES.forEach(locale => {
+    const regionNames = new Intl.DisplayNames([locale.tag], { type: 'region', fallback: 'none' });
+    for (const first of ALPHABET) {
+      for (const second of ALPHABET) {
+        const code = first + second;
+        if (NON_COUNTRY_CODES.has(code)) continue;
+        const name = regionNames.of(code);
+        if (name) add(name, code);
+      }
+    }
+  });
+  countryCodesByName = index;
+  return index;
+};
+
+const isCountryCode = (value: string) => /^[A-Z]{2}$/.test(value);
+
+/**
+ * 国名を保存用の国コードにする。どの言語の国名でも同じコードになり、分からない国名はそのまま返す
+ */
+export const toCountryCode = (country: string): string => {
+  const trimmed = country.trim();
+  return getCountryCodesByName().get(trimmed.toLowerCase()) || trimmed;
+};
+
+/**
+ * 保存している国（国コード）を表示言語の国名にする。コードでなければそのまま返す
+ */
+export const countryName = (country: string, locale: Locale = getLocale()): string => {
+  if (!isCountryCode(country)) return country;
+  return COUNTRY_NAMES[country]?.[locale]
+    || new Intl.DisplayNames([getLocaleInfo(locale).tag], { type: 'region', fallback: 'none' }).of(country)
+    || country;
+};
+
+/**
+ * 近くに収録地名がない場所の仮の地名
+ */
+export const coordinateLocationName = (lat: number, lng: number): string =>
+  t('geo.nearCoordinates', { lat: lat.toFixed(4), lng: lng.toFixed(4) });
+
+/**
+ * 座標の属する地域（都道府県など）。「〜近郊」と呼べる距離に収録地名がなければ null
+ */
+export const regionAt = (lat: number, lng: number): RegionResult | null => {
+  const { nearest, nearestKm } = findNearest(lat, lng);
+  if (nearestKm > VICINITY_KM || !nearest[3]) return null;
+  return { countryCode: nearest[2], region: nearest[3] };
+};
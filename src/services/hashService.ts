@@ -0,0 +1,105 @@
+/**
+ * 写真の同一性判定に使うハッシュ
+ * - SHA-256: 完全に同じファイルかどうか（写真IDにも使う）
+ * - dHash: 見た目が近いかどうか（連写・再圧縮された画像の検出）
+ */
+
+const CONTENT_ID_PATTERN = /^photo-[0-9a-f]{64}$/;
+
+export const sha256Hex = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const photoIdFromHash = (contentHash: string): string => `photo-${contentHash}`;
+
+/**
+ * 内容ハッシュから作られたIDかどうか（旧形式: photo-{name}-{size}-{lastModified}）
+ */
+export const isContentHashId = (id: string): boolean => CONTENT_ID_PATTERN.test(id);
+
+const DHASH_WIDTH = 9;
+const DHASH_HEIGHT = 8;
+
+/**
+ * 9x8 に縮小したグレースケール画像の横方向の明暗差から 64bit の dHash を作る
+ * デコードできない形式（HEIC など）は undefined を返す
+ */
+export const computePerceptualHash = async (blob: Blob): Promise<string | undefined> => {
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const canvas = document.createElement('canvas');
+    canvas.width = DHASH_WIDTH;
+    canvas.height = DHASH_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return undefined;
+    ctx.drawImage(bitmap, 0, 0, DHASH_WIDTH, DHASH_HEIGHT);
+    bitmap.close();
+
+    const { data } = ctx.getImageData(0, 0, DHASH_WIDTH, DHASH_HEIGHT);
+    const gray = (x: number, y: number) => {
+      const i = (y * DHASH_WIDTH + x) * 4;
+      return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+    };
+
+    let hex = '';
+    for (let y = 0; y < DHASH_HEIGHT; y++) {
+      let byte = 0;
+      for (let x = 0; x < DHASH_WIDTH - 1; x++) {
+        byte = (byte << 1) | (gray(x, y) > gray(x + 1, y) ? 1 : 0);
+      }
+      hex += byte.toString(16).padStart(2, '0');
+    }
+    return hex;
+  } catch (error) {
+    console.warn("[VisionSort] Perceptual hash failed:", error);
+    return undefined;
+  }
+};
+
+const popcount32 = (n: number): number => {
+  n = n - ((n >>> 1) & 0x55555555);
+  n = (n & 0x33333333) + ((n >>> 2) & 0x33333333);
+  return (((n + (n >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+};
+
+/**
+ * 2つの dHash（16桁の16進数）の異なるビット数
+ */
+export const hammingDistance = (a: string, b: string): number => {
+  const high = parseInt(a.slice(0, 8), 16) ^ parseInt(b.slice(0, 8), 16);
+  const low = parseInt(a.slice(8, 16), 16) ^ parseInt(b.slice(8, 16), 16);
+  return popcount32(high) + popcount32(low);
+};
+
+/**
+ * dHash の距離が threshold 以下の写真をまとめる（連結成分ごとに1グループ）
+ * 全ペアを比較するため O(n^2) だが、1比較はビット演算のみで軽い
+ */
+export const groupNearDuplicates = <T extends { id: string; perceptualHash?: string }>(items: T[], threshold: number): T[][] => {
+  const hashed = items.filter(item => item.perceptualHash);
+  const parent = hashed.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  for (let i = 0; i < hashed.length; i++) {
+    for (let j = i + 1; j < hashed.length; j++) {
+      if (hammingDistance(hashed[i].perceptualHash!, hashed[j].perceptualHash!) <= threshold) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, T[]>();
+  hashed.forEach((item, i) => {
+    const root = find(i);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(item);
+  });
+  return Array.from(groups.values()).filter(group => group.length > 1);
+};
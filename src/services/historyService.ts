@@ -0,0 +1,98 @@
+/**
+ * ライブラリ編集の取り消し・やり直し履歴
+ * 各操作は DB への書き込みを含む undo/redo の組として記録し、1つずつ順番に実行する
+ */
+
+const HISTORY_LIMIT = 100;
+// 同じ対象への連続した編集（メモの入力など）はこの間隔内なら1つの操作にまとめる
+const COALESCE_MS = 2000;
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  timestamp: number;
+  coalesceKey?: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+export type HistoryCommand = Omit<HistoryEntry, 'id' | 'timestamp'>;
+
+export interface HistoryState {
+  past: HistoryEntry[]; // 古い順
+  future: HistoryEntry[]; // 次にやり直す操作が先頭
+  busy: boolean;
+}
+
+export interface History {
+  record: (command: HistoryCommand) => void;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  clear: () => void;
+  getState: () => HistoryState;
+}
+
+export const createHistory = (onChange: (state: HistoryState) => void): History => {
+  let past: HistoryEntry[] = [];
+  let future: HistoryEntry[] = [];
+  let busy = false;
+  let nextId = 1;
+  // 取り消し・やり直しが重ならないよう直列に実行する
+  let chain: Promise<void> = Promise.resolve();
+
+  const getState = (): HistoryState => ({ past, future, busy });
+  const notify = () => onChange(getState());
+
+  const record = (command: HistoryCommand) => {
+    const now = Date.now();
+    const last = past[past.length - 1];
+    if (last && command.coalesceKey && last.coalesceKey === command.coalesceKey && now - last.timestamp < COALESCE_MS) {
+      // 最初の編集前の状態に戻せるよう undo は古いものを残す
+      past = [...past.slice(0, -1), { ...last, timestamp: now, redo: command.redo }];
+    } else {
+      past = [...past, { ...command, id: nextId++, timestamp: now }].slice(-HISTORY_LIMIT);
+    }
+    future = [];
+    notify();
+  };
+
+  const run = (step: () => Promise<void>) => {
+    chain = chain.then(async () => {
+      busy = true;
+      notify();
+      try {
+        await step();
+      } catch (e) {
+        console.error("[VisionSort] History step failed:", e);
+      } finally {
+        busy = false;
+        notify();
+      }
+    });
+    return chain;
+  };
+
+  const undo = () => run(async () => {
+    const entry = past[past.length - 1];
+    if (!entry) return;
+    await entry.undo();
+    past = past.slice(0, -1);
+    future = [entry, ...future];
+  });
+
+  const redo = () => run(async () => {
+    const entry = future[0];
+    if (!entry) return;
+    await entry.redo();
+    future = future.slice(1);
+    past = [...past, entry];
+  });
+
+  const clear = () => {
+    past = [];
+    future = [];
+    notify();
+  };
+
+  return { record, undo, redo, clear, getState };
+};
@@ -0,0 +1,118 @@
+import { ja, MessageKey } from "../i18n/ja";
+import { en } from "../i18n/en";
+import { PhotoMetadata } from "../types";
+
+/**
+ * UI の表示言語（メッセージカタログと日付の書式）と、AI に返してもらう言語
+ * 言語を増やすときは i18n/ にカタログを足し、LOCALES に登録する
+ */
+
+export type Locale = 'ja' | 'en';
+
+export type { MessageKey };
+
+export interface LocaleInfo {
+  id: Locale;
+  label: string;          // 切り替えメニューに出す名前（その言語での表記）
+  tag: string;            // Intl に渡す BCP 47 の言語タグ
+  promptLanguage: string; // プロンプトで指定する言語名（英語）
+}
+
+export const LOCALES: LocaleInfo[] = [
+  { id: 'ja', label: '日本語', tag: 'ja-JP', promptLanguage: 'Japanese' },
+  { id: 'en', label: 'English', tag: 'en-US', promptLanguage: 'English' }
+];
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { ja, en };
+
+const STORAGE_KEY = "visionsort.locale";
+
+let currentLocale: Locale | null = null;
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some(locale => locale.id === value);
+
+/**
+ * 保存済みの言語（未保存ならブラウザの言語、どれにも当たらなければ日本語）
+ */
+export const getLocale = (): Locale => {
+  if (currentLocale) return currentLocale;
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(saved)) return (currentLocale = saved);
+  } catch (e) {
+    console.warn("[VisionSort] Failed to read locale:", e);
+  }
+  const preferred = (typeof navigator !== 'undefined' ? navigator.languages || [navigator.language] : [])
+    .map(language => language.split('-')[0])
+    .find(isLocale);
+  currentLocale = preferred || 'ja';
+  return currentLocale;
+};
+
+export const setLocale = (locale: Locale) => {
+  currentLocale = locale;
+  localStorage.setItem(STORAGE_KEY, locale);
+};
+
+export const getLocaleInfo = (locale: Locale = getLocale()): LocaleInfo =>
+  LOCALES.find(info => info.id === locale) || LOCALES[0];
+
+/**
+ * メッセージを現在の言語で返す。{name} の形の差し込みを params で置き換える
+ */
+export const t = (key: MessageKey, params?: Record<string, string | number>): string => {
+  const message = CATALOGS[getLocale()][key] ?? ja[key] ?? key;
+  return params ? message.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)) : message;
+};
+
+/**
+ * 写真の地名。まだない写真は解析の状態（解析中・失敗）を表示する
+ * 状態の文言は写真に保存せず、analysisStatus と isProcessing から表示のたびに決める
+ */
+export const photoPlaceLabel = (photo: Pick<PhotoMetadata, 'locationName' | 'analysisStatus' | 'isProcessing'>): string => {
+  if (photo.locationName) return photo.locationName;
+  if (photo.analysisStatus === 'failed') return t('status.failed');
+  if (photo.isProcessing || photo.analysisStatus === 'pending') return t('status.processing');
+  return '';
+};
+
+// YYYY-MM-DD は時差でずれないよう UTC の0時として扱う
+const parseDay = (date: string): Date | null => {
+  const time = Date.parse(`${date}T00:00:00Z`);
+  return isNaN(time) ? null : new Date(time);
+};
+
+/**
+ * 撮影日（YYYY-MM-DD）を現在の言語の書式にする。short は数字のみ、long は曜日付き
+ */
+export const formatDate = (date: string, style: 'short' | 'long' = 'short'): string => {
+  const day = parseDay(date);
+  if (!day) return date;
+  const options: Intl.DateTimeFormatOptions = style === 'long'
+    ? { year: 'numeric', month: 'long', day: 'numeric', weekday: 'short', timeZone: 'UTC' }
+    : { year: 'numeric', month: '2-digit', day: '2-digit', timeZone: 'UTC' };
+  return new Intl.DateTimeFormat(getLocaleInfo().tag, options).format(day);
+};
+
+export const formatDateRange = (start: string, end: string): string =>
+  start === end ? formatDate(start) : `${formatDate(start)} – ${formatDate(end)}`;
+
+export const formatYear = (year: number): string =>
+  new Intl.DateTimeFormat(getLocaleInfo().tag, { year: 'numeric', timeZone: 'UTC' }).format(Date.UTC(year, 0, 1));
+
+/**
+ * 月の名前（0 = 1月）
+ */
+export const monthNames = (): string[] => {
+  const format = new Intl.DateTimeFormat(getLocaleInfo().tag, { month: 'long', timeZone: 'UTC' });
+  return Array.from({ length: 12 }, (_, month) => format.format(Date.UTC(2000, month, 1)));
+};
+
+/**
+ * 曜日の短い名前（0 = 日曜）
+ */
+export const weekdayNames = (): string[] => {
+  const format = new Intl.DateTimeFormat(getLocaleInfo().tag, { weekday: 'short', timeZone: 'UTC' });
+  // 2000-01-02 は日曜日
+  return Array.from({ length: 7 }, (_, day) => format.format(Date.UTC(2000, 0, 2 + day)));
+};
@@ -0,0 +1,23 @@
+import * as db from "./dbService";
+import { computePerceptualHash, isContentHashId, photoIdFromHash, sha256Hex } from "./hashService";
+
+/**
+ * 旧形式の写真ID（photo-{name}-{size}-{lastModified}）を内容ハッシュのIDへ移行する
+ * 同じ内容の写真が既にあれば1枚にまとめ、メモは結合する
+ * 古いバックアップの復元や別のプロファイルで開いたDBからも旧形式のIDが入ってくるため、
+ * 一度きりではなくライブラリを読み込むたびに実行する（旧形式のIDがなければ何もしない）
+ */
+export const migrateLegacyPhotoIds = async (): Promise<number> => {
+  const legacyIds = (await db.getAllPhotoIds()).filter(id => !isContentHashId(id));
+  let migrated = 0;
+  for (const id of legacyIds) {
+    const photo = await db.getPhoto(id);
+    if (!photo?.fileBlob) continue;
+
+    const contentHash = photo.contentHash || await sha256Hex(photo.fileBlob);
+    const perceptualHash = photo.perceptualHash || await computePerceptualHash(photo.fileBlob);
+    await db.replacePhotoId(id, { ...photo, id: photoIdFromHash(contentHash), contentHash, perceptualHash });
+    migrated++;
+  }
+  return migrated;
+};
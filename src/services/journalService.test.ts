@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { JournalEntry, Trip } from "../types";
+import { createTripEntry, findTripEntry } from "./journalService";
+
+const trip = (fields: Partial<Trip>): Trip => ({
+  id: "trip-a",
+  name: "京都",
+  startDate: "2024-04-01",
+  endDate: "2024-04-03",
+  photoIds: [],
+  coverPhotoId: "",
+  ...fields
+});
+
+const journalOf = (...entries: JournalEntry[]) => Object.fromEntries(entries.map(entry => [entry.id, entry]));
+
+describe("findTripEntry", () => {
+  it("旅行IDの日記があればそれを今の旅行に合わせて返す", () => {
+    const saved = { ...createTripEntry(trip({})), body: "初日は雨", updatedAt: 1 };
+
+    const entry = findTripEntry(journalOf(saved), [trip({ endDate: "2024-04-04", name: "京都・奈良" })], "2024-04-02");
+
+    expect(entry).toMatchObject({ id: "trip:trip-a", endDate: "2024-04-04", title: "京都・奈良", body: "初日は雨" });
+  });
+
+  it("前の写真を取り込んで旅行IDが変わっても、その日を含む保存済みの日記を同じIDのまま使う", () => {
+    const saved = { ...createTripEntry(trip({})), body: "初日は雨", updatedAt: 1 };
+
+    const entry = findTripEntry(journalOf(saved), [trip({ id: "trip-earlier", startDate: "2024-03-31" })], "2024-04-02");
+
+    expect(entry).toMatchObject({ id: "trip:trip-a", startDate: "2024-03-31", body: "初日は雨" });
+  });
+
+  it("旅行が無くなっても、その日を含む保存済みの日記を返す", () => {
+    const saved = { ...createTripEntry(trip({})), body: "初日は雨", updatedAt: 1 };
+
+    expect(findTripEntry(journalOf(saved), [], "2024-04-03")).toBe(saved);
+    expect(findTripEntry(journalOf(saved), [], "2024-04-04")).toBeNull();
+  });
+
+  it("日記のない旅行には空の日記を作る", () => {
+    expect(findTripEntry({}, [trip({})], "2024-04-01")).toMatchObject({ id: "trip:trip-a", body: "", updatedAt: 0 });
+  });
+});
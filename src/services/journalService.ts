@@ -0,0 +1,80 @@
+import { JournalEntry, Trip } from "../types";
+
+/**
+ * 日・旅行単位の日記のIDの決め方と、日付との対応付け
+ * 日の日記は日付、旅行の日記は最初に保存したときの旅行IDから決まるIDを使い、1つの日・旅行に1件だけ保存する
+ */
+
+export const dayEntryId = (date: string) => `day:${date}`;
+export const tripEntryId = (tripId: string) => `trip:${tripId}`;
+
+export const createDayEntry = (date: string): JournalEntry => ({
+  id: dayEntryId(date),
+  kind: 'day',
+  startDate: date,
+  endDate: date,
+  body: "",
+  updatedAt: 0
+});
+
+/**
+ * 旅行の日記。写真の追加などで旅行の期間や名前が変わっても、保存するたびに今の旅行に合わせる
+ * 保存済みの日記があればそのIDを引き継ぎ、旅行IDが変わっても同じ日記を上書きする
+ */
+export const createTripEntry = (trip: Trip, existing?: JournalEntry): JournalEntry => ({
+  id: existing?.id || tripEntryId(trip.id),
+  kind: 'trip',
+  startDate: trip.startDate,
+  endDate: trip.endDate,
+  title: trip.name,
+  body: existing?.body || "",
+  updatedAt: existing?.updatedAt || 0
+});
+
+export const coversDate = (entry: JournalEntry, date: string) => entry.startDate <= date && date <= entry.endDate;
+
+const findStoredTripEntry = (journal: Record<string, JournalEntry>, date: string) =>
+  Object.values(journal).find(entry => entry.kind === 'trip' && coversDate(entry, date));
+
+/**
+ * その日を含む旅行の日記。今の旅行のIDで見つからなければ、その日を含む保存済みの旅行の日記を使う
+ * （それより前の写真を取り込むと旅行IDが変わり、写真を削除すると旅行自体が無くなっても日記は残るため）
+ */
+export const findTripEntry = (journal: Record<string, JournalEntry>, trips: Trip[], date: string): JournalEntry | null => {
+  const trip = trips.find(t => t.startDate <= date && date <= t.endDate);
+  const stored = (trip && journal[tripEntryId(trip.id)]) || findStoredTripEntry(journal, date);
+  if (trip) return createTripEntry(trip, stored);
+  return stored || null;
+};
+
+export interface JournalMark {
+  day: boolean;  // その日の日記がある
+  trip: boolean; // その日を含む旅行の日記がある
+}
+
+// 日付の範囲を1日ずつ進める（タイムゾーンの影響を受けないよう UTC で計算する）
+const eachDate = (start: string, end: string, visit: (date: string) => void) => {
+  const cursor = new Date(`${start}T00:00:00Z`);
+  const last = new Date(`${end}T00:00:00Z`);
+  if (isNaN(cursor.getTime()) || isNaN(last.getTime())) return;
+  while (cursor <= last) {
+    visit(cursor.toISOString().slice(0, 10));
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+};
+
+/**
+ * カレンダーに印を付けるための、日付ごとの日記の有無
+ */
+export const journalMarks = (entries: JournalEntry[]): Record<string, JournalMark> => {
+  const marks: Record<string, JournalMark> = {};
+  entries.forEach(entry => {
+    if (!entry.body.trim()) return;
+    eachDate(entry.startDate, entry.endDate, date => {
+      const mark = marks[date] || (marks[date] = { day: false, trip: false });
+      if (entry.kind === 'day') mark.day = true;
+      else mark.trip = true;
+    });
+  });
+  return marks;
+};
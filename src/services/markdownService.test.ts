@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { escapeHtml, markdownToHtml, parseInline, parseMarkdown, shiftHeadings } from "./markdownService";
+
+describe("escapeHtml", () => {
+  it("HTML の特殊文字をすべて置き換える", () => {
+    expect(escapeHtml(`<a href="x">Tom & Jerry's</a>`)).toBe("&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/a&gt;");
+  });
+});
+
+describe("markdownToHtml", () => {
+  it("本文に書いた HTML はタグとして解釈しない", () => {
+    expect(markdownToHtml("<script>alert(1)</script>")).toBe("<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>");
+  });
+
+  it("強調やコードの中身もエスケープする", () => {
+    expect(markdownToHtml("**<b>** `a<b`")).toBe("<p><strong>&lt;b&gt;</strong> <code>a&lt;b</code></p>");
+  });
+
+  it("コードブロックの中身をエスケープする", () => {
+    expect(markdownToHtml("```\n<div>&</div>\n```")).toBe("<pre><code>&lt;div&gt;&amp;&lt;/div&gt;</code></pre>");
+  });
+
+  it("リンクの URL の引用符をエスケープする", () => {
+    expect(markdownToHtml('[x](https://example.com/?a="b")')).toBe('<p><a href="https://example.com/?a=&quot;b&quot;">x</a></p>');
+  });
+
+  it("javascript: のリンクは文字のまま残す", () => {
+    expect(markdownToHtml("[x](javascript:alert(1))")).toBe("<p>[x](javascript:alert(1))</p>");
+  });
+
+  it("見出しの階層を下げて埋め込める", () => {
+    expect(markdownToHtml("# 1日目\n本文", 2)).toBe("<h3>1日目</h3>\n<p>本文</p>");
+  });
+});
+
+describe("parseInline", () => {
+  it("単語の途中の _ は強調にしない", () => {
+    expect(parseInline("file_name_here")).toEqual([{ type: "text", text: "file_name_here" }]);
+  });
+});
+
+describe("parseMarkdown", () => {
+  it("箇条書き・引用・区切り線を分ける", () => {
+    expect(parseMarkdown("- a\n- b\n\n> quote\n\n---").map(block => block.type)).toEqual(["list", "quote", "rule"]);
+  });
+});
+
+describe("shiftHeadings", () => {
+  it("コードブロックの中の # は変えない", () => {
+    expect(shiftHeadings("# a\n```\n# b\n```", 1)).toBe("## a\n```\n# b\n```");
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * 日記で使う Markdown の小さなパーサーと、書き出し用の HTML への変換
+ * 見出し・段落・箇条書き・番号付きリスト・引用・コードブロック・区切り線と、
+ * 行内の太字・斜体・コード・リンクだけを扱う。HTML は解釈せず文字として表示する
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; text: string }
+  | { type: 'em'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'link'; text: string; href: string };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; inlines: MarkdownInline[] }
+  | { type: 'paragraph'; inlines: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'quote'; inlines: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'rule' };
+
+// _ による強調は file_name のような単語の途中では使わない
+const INLINE_PATTERN = /\*\*(.+?)\*\*|(?<!\w)__(.+?)__(?!\w)|\*(.+?)\*|(?<!\w)_(.+?)_(?!\w)|`(.+?)`|\[([^\]]+)\]\(([^)\s]+)\)/g;
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const inlines: MarkdownInline[] = [];
+  let last = 0;
+  text.replace(INLINE_PATTERN, (match, strong, strongAlt, em, emAlt, code, linkText, href, offset: number) => {
+    if (offset > last) inlines.push({ type: 'text', text: text.slice(last, offset) });
+    if (strong || strongAlt) inlines.push({ type: 'strong', text: strong || strongAlt });
+    else if (em || emAlt) inlines.push({ type: 'em', text: em || emAlt });
+    else if (code) inlines.push({ type: 'code', text: code });
+    // javascript: などのリンクは文字のまま残す
+    else if (SAFE_LINK.test(href)) inlines.push({ type: 'link', text: linkText, href });
+    else inlines.push({ type: 'text', text: match });
+    last = offset + match.length;
+    return match;
+  });
+  if (last < text.length) inlines.push({ type: 'text', text: text.slice(last) });
+  return inlines;
+};
+
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const RULE = /^(\*{3,}|-{3,}|_{3,})\s*$/;
+const FENCE = /^```/;
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  const isBlockStart = (line: string) =>
+    HEADING.test(line) || BULLET.test(line) || NUMBERED.test(line) || QUOTE.test(line) || RULE.test(line) || FENCE.test(line);
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) code.push(lines[i++]);
+      i++; // 閉じの ``` を飛ばす（無ければ末尾まで）
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length as 1 | 2 | 3, inlines: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (BULLET.test(line) || NUMBERED.test(line)) {
+      const ordered = !BULLET.test(line);
+      const pattern = ordered ? NUMBERED : BULLET;
+      const items: MarkdownInline[][] = [];
+      while (i < lines.length && pattern.test(lines[i])) {
+        items.push(parseInline(lines[i].match(pattern)![1]));
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) quoted.push(lines[i++].match(QUOTE)![1]);
+      blocks.push({ type: 'quote', inlines: parseInline(quoted.join(' ')) });
+      continue;
+    }
+
+    // 空行か別の種類のブロックまでを1つの段落にまとめる（改行はそのまま残す）
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !isBlockStart(lines[i])) paragraph.push(lines[i++]);
+    blocks.push({ type: 'paragraph', inlines: parseInline(paragraph.join('\n')) });
+  }
+  return blocks;
+};
+
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+
+const inlinesToHtml = (inlines: MarkdownInline[]): string => inlines.map(inline => {
+  const text = escapeHtml(inline.text);
+  switch (inline.type) {
+    case 'strong': return `<strong>${text}</strong>`;
+    case 'em': return `<em>${text}</em>`;
+    case 'code': return `<code>${text}</code>`;
+    case 'link': return `<a href="${escapeHtml(inline.href)}">${text}</a>`;
+    default: return text.replace(/\n/g, "<br>");
+  }
+}).join("");
+
+/**
+ * Markdown を HTML に変換する（書き出し用）。headingOffset で見出しの階層を下げて文書に埋め込む
+ */
+export const markdownToHtml = (source: string, headingOffset = 0): string => parseMarkdown(source).map(block => {
+  switch (block.type) {
+    case 'heading': {
+      const level = Math.min(block.level + headingOffset, 6);
+      return `<h${level}>${inlinesToHtml(block.inlines)}</h${level}>`;
+    }
+    case 'list': {
+      const tag = block.ordered ? "ol" : "ul";
+      return `<${tag}>${block.items.map(item => `<li>${inlinesToHtml(item)}</li>`).join("")}</${tag}>`;
+    }
+    case 'quote': return `<blockquote>${inlinesToHtml(block.inlines)}</blockquote>`;
+    case 'code': return `<pre><code>${escapeHtml(block.text)}</code></pre>`;
+    case 'rule': return "<hr>";
+    default: return `<p>${inlinesToHtml(block.inlines)}</p>`;
+  }
+}).join("\n");
+
+/**
+ * Markdown の見出しの階層を下げる（別の文書に埋め込む用）。コードブロックの中は変えない
+ */
+export const shiftHeadings = (source: string, offset: number): string => {
+  let inCode = false;
+  return source.replace(/\r\n?/g, "\n").split("\n").map(line => {
+    if (FENCE.test(line)) inCode = !inCode;
+    if (inCode) return line;
+    const heading = line.match(HEADING);
+    return heading ? `${"#".repeat(Math.min(heading[1].length + offset, 6))} ${heading[2]}` : line;
+  }).join("\n");
+};
@@ -0,0 +1,69 @@
+import { Confidence, FieldProvenance, FieldSource, LocationSource, MetadataField, MetadataProvenance, PhotoMetadata } from "../types";
+
+/**
+ * 写真のメタデータが項目ごとにどこから来たか（出どころと確からしさ）を扱う
+ */
+
+const DEFAULT_CONFIDENCE: Record<FieldSource, Confidence> = {
+  exif: 'high',
+  filename: 'medium',
+  fileTime: 'low',
+  ai: 'medium',
+  track: 'high',
+  geocoder: 'medium',
+  manual: 'high'
+};
+
+const LOCATION_SOURCE_CONFIDENCE: Record<LocationSource, Confidence> = {
+  exif: 'high',
+  ai: 'low',
+  manual: 'high',
+  track: 'high'
+};
+
+export const createProvenance = (source: FieldSource, confidence: Confidence = DEFAULT_CONFIDENCE[source]): FieldProvenance => ({
+  source,
+  confidence,
+  updatedAt: Date.now()
+});
+
+/**
+ * 項目の出どころ。記録のない古い写真は locationSource・EXIF・解析状態から推定する
+ */
+export const getFieldProvenance = (photo: PhotoMetadata, field: MetadataField): FieldProvenance | undefined => {
+  const recorded = photo.provenance?.[field];
+  if (recorded) return recorded;
+
+  switch (field) {
+    case 'location':
+      if (photo.manuallyPlaced) return { source: 'manual', confidence: 'high' };
+      return photo.locationSource ? { source: photo.locationSource, confidence: LOCATION_SOURCE_CONFIDENCE[photo.locationSource] } : undefined;
+    case 'date':
+      return photo.exif?.date && photo.exif.date === photo.date ? { source: 'exif', confidence: 'high' } : undefined;
+    default:
+      return photo.analysisStatus === 'done' ? { source: 'ai', confidence: 'medium' } : undefined;
+  }
+};
+
+/**
+ * ユーザーが手で設定した項目か。再解析ではこの項目を上書きしない
+ */
+export const isManualField = (photo: PhotoMetadata, field: MetadataField): boolean =>
+  getFieldProvenance(photo, field)?.source === 'manual';
+
+/**
+ * 既存の記録に項目を足した provenance を返す（undefined を渡した項目は記録を消す）
+ */
+export const mergeProvenance = (photo: PhotoMetadata, entries: MetadataProvenance): MetadataProvenance => {
+  const merged: MetadataProvenance = { ...photo.provenance, ...entries };
+  (Object.keys(merged) as MetadataField[]).forEach(field => {
+    if (!merged[field]) delete merged[field];
+  });
+  return merged;
+};
+
+/**
+ * 指定した項目を手入力として記録した provenance
+ */
+export const manualProvenance = (photo: PhotoMetadata, fields: MetadataField[]): MetadataProvenance =>
+  mergeProvenance(photo, Object.fromEntries(fields.map(field => [field, createProvenance('manual')])));
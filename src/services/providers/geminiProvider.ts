@@ -0,0 +1,96 @@
+import { GoogleGenerativeAI, GoogleGenerativeAIFetchError, ResponseSchema, SchemaType } from "@google/generative-ai";
+import { AnalysisProvider, ProviderSettings } from "../../types";
+import { AnalysisError, errorKindFromStatus, toAnalysisError } from "../analysisErrors";
+import { parseAnalysisResponse, validateLocationName } from "../analysisSchema";
+import { buildAnalysisPrompt, buildLocationPrompt } from "./providerUtils";
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-1.5-flash'; // 安定したモデル名に変更
+
+// analysisSchema の ANALYSIS_JSON_SCHEMA を Gemini の構造化出力形式で表したもの
+const GEMINI_RESPONSE_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    locationName: { type: SchemaType.STRING },
+    country: { type: SchemaType.STRING, nullable: true },
+    latitude: { type: SchemaType.NUMBER, nullable: true },
+    longitude: { type: SchemaType.NUMBER, nullable: true },
+    date: { type: SchemaType.STRING, nullable: true, description: 'YYYY/MM/DD' },
+    description: { type: SchemaType.STRING },
+    tags: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } }
+  },
+  required: ['locationName', 'country', 'latitude', 'longitude', 'date', 'description', 'tags']
+};
+
+const toGeminiError = (error: unknown): AnalysisError => {
+  if (error instanceof GoogleGenerativeAIFetchError) {
+    return new AnalysisError(errorKindFromStatus(error.status), error.message);
+  }
+  return toAnalysisError(error);
+};
+
+/**
+ * Google Gemini を使うプロバイダ
+ */
+export const createGeminiProvider = (settings: ProviderSettings['gemini']): AnalysisProvider => {
+  // import.meta as any で環境変数を取得
+  const apiKey = settings.apiKey || (import.meta as any).env.VITE_GEMINI_API_KEY || '';
+  const genAI = new GoogleGenerativeAI(apiKey);
+  const modelName = settings.model || DEFAULT_GEMINI_MODEL;
+  const analysisModel = genAI.getGenerativeModel({
+    model: modelName,
+    generationConfig: { responseMimeType: 'application/json', responseSchema: GEMINI_RESPONSE_SCHEMA }
+  });
+  const textModel = genAI.getGenerativeModel({ model: modelName });
+
+  const requireApiKey = () => {
+    if (!apiKey) throw new AnalysisError('configuration', 'Gemini API key is not configured');
+  };
+
+  return {
+    id: 'gemini',
+    label: 'Google Gemini',
+
+    analyzeImage: async (base64Data, mimeType, options) => {
+      requireApiKey();
+      let text: string;
+      try {
+        const result = await analysisModel.generateContent([
+          buildAnalysisPrompt(options?.instructions),
+          {
+            inlineData: {
+              data: base64Data,
+              mimeType: mimeType
+            }
+          }
+        ], { signal: options?.signal });
+        text = result.response.text();
+      } catch (error) {
+        throw toGeminiError(error);
+      }
+      return parseAnalysisResponse(text);
+    },
+
+    /**
+     * 座標と画像から場所名をAIに推測させる
+     */
+    identifyLocation: async (lat, lng, base64Data, mimeType, options) => {
+      requireApiKey();
+      let text: string;
+      try {
+        const result = await textModel.generateContent([
+          buildLocationPrompt(lat, lng),
+          {
+            inlineData: {
+              data: base64Data,
+              mimeType: mimeType
+            }
+          }
+        ], { signal: options?.signal });
+        text = result.response.text();
+      } catch (error) {
+        throw toGeminiError(error);
+      }
+      return validateLocationName(text);
+    }
+  };
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { offlineProvider } from "./offlineProvider";
+import { setLocale } from "../i18nService";
+
+describe("offlineProvider", () => {
+  it("同じ画像には同じ結果を返す", async () => {
+    const first = await offlineProvider.analyzeImage("aGVsbG8gd29ybGQ=", "image/jpeg");
+    const second = await offlineProvider.analyzeImage("aGVsbG8gd29ybGQ=", "image/jpeg");
+    expect(second).toEqual(first);
+  });
+
+  it("画像ごとに座標と説明の入った結果を返す", async () => {
+    const inputs = ["YQ==", "Yg==", "Yw==", "ZA==", "ZQ=="];
+    const results = await Promise.all(inputs.map(data => offlineProvider.analyzeImage(data, "image/jpeg")));
+    results.forEach(result => {
+      expect(result.locationName).not.toBe("");
+      expect(Number.isFinite(result.latitude)).toBe(true);
+      expect(Number.isFinite(result.longitude)).toBe(true);
+      expect(result.description).not.toBe("");
+    });
+    // ハッシュが違えば少なくとも座標はずれる
+    expect(new Set(results.map(result => `${result.latitude},${result.longitude}`)).size).toBeGreaterThan(1);
+  });
+
+  it("座標から同梱の地名データで地名を返す", async () => {
+    setLocale("ja");
+    const name = await offlineProvider.identifyLocation(35.6812, 139.7671, "", "image/jpeg");
+    expect(name).toContain("東京");
+  });
+});
@@ -0,0 +1,72 @@
+import { AnalysisProvider, ProviderSettings } from "../../types";
+import { AnalysisError, errorKindFromStatus, toAnalysisError } from "../analysisErrors";
+import { ANALYSIS_JSON_SCHEMA, parseAnalysisResponse, validateLocationName } from "../analysisSchema";
+import { buildAnalysisPrompt, buildLocationPrompt } from "./providerUtils";
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_OPENAI_MODEL = 'llava';
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
+}
+
+/**
+ * OpenAI 互換の Chat Completions API（Ollama, LM Studio, vLLM など）を使うプロバイダ
+ */
+export const createOpenAICompatibleProvider = (settings: ProviderSettings['openAICompatible']): AnalysisProvider => {
+  const baseUrl = (settings.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+  const model = settings.model || DEFAULT_OPENAI_MODEL;
+
+  const complete = async (prompt: string, base64Data: string, mimeType: string, structured: boolean, signal?: AbortSignal): Promise<string> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) headers.Authorization = `Bearer ${settings.apiKey}`;
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        signal,
+        body: JSON.stringify({
+          model,
+          messages: [{
+            role: 'user',
+            content: [
+              { type: 'text', text: prompt },
+              { type: 'image_url', image_url: { url: `data:${mimeType};base64,${base64Data}` } }
+            ]
+          }],
+          ...(structured && {
+            response_format: {
+              type: 'json_schema',
+              json_schema: { name: 'analysis_result', strict: true, schema: ANALYSIS_JSON_SCHEMA }
+            }
+          })
+        })
+      });
+    } catch (error) {
+      throw toAnalysisError(error);
+    }
+    if (!response.ok) {
+      throw new AnalysisError(errorKindFromStatus(response.status), `OpenAI-compatible endpoint returned ${response.status} ${response.statusText}`);
+    }
+
+    const json = await response.json() as ChatCompletionResponse;
+    return json.choices?.[0]?.message?.content ?? '';
+  };
+
+  return {
+    id: 'openai-compatible',
+    label: 'OpenAI-compatible',
+
+    analyzeImage: async (base64Data, mimeType, options) => {
+      const text = await complete(buildAnalysisPrompt(options?.instructions), base64Data, mimeType, true, options?.signal);
+      return parseAnalysisResponse(text);
+    },
+
+    identifyLocation: async (lat, lng, base64Data, mimeType, options) => {
+      const text = await complete(buildLocationPrompt(lat, lng), base64Data, mimeType, false, options?.signal);
+      return validateLocationName(text);
+    }
+  };
+};
@@ -0,0 +1,38 @@
+import { getLocaleInfo } from "../i18nService";
+
+/**
+ * 各プロバイダで共通して使うプロンプト
+ * 地名・説明・タグは表示言語で返してもらう
+ */
+
+const LOCATION_EXAMPLES: Record<string, string> = {
+  Japanese: '"東京都 千代田区の皇居外苑付近"',
+  English: '"Near the Imperial Palace East Gardens, Chiyoda, Tokyo"'
+};
+
+const TAG_EXAMPLES: Record<string, string> = {
+  Japanese: '"海", "夜景", "ラーメン", "寺院"',
+  English: '"sea", "night view", "ramen", "temple"'
+};
+
+export const analysisPrompt = (language: string): string => `Analyze this image to determine its date and location using your internal knowledge.
+  1. Identify the specific location name in ${language}${LOCATION_EXAMPLES[language] ? ` (e.g. ${LOCATION_EXAMPLES[language]})` : ''}.
+  2. Identify the Country in ${language} explicitly, or null if it cannot be determined.
+  3. Provide precise Latitude and Longitude coordinates based on your knowledge of the scene, or null for both if unknown.
+  4. Determine the date (format as YYYY/MM/DD), or null if it cannot be determined.
+  5. Provide a very short description in ${language} (max 5 words).
+  6. Provide up to 8 short tags in ${language} for the scene, notable objects, food and the type of landmark${TAG_EXAMPLES[language] ? ` (e.g. ${TAG_EXAMPLES[language]})` : ''}.
+  Respond with a single JSON object with the keys locationName, country, latitude, longitude, date, description and tags. Do not add any other text.`;
+
+/**
+ * 解析用のプロンプト。追加の指示があれば応答形式の指定を変えずに末尾に足す
+ */
+export const buildAnalysisPrompt = (instructions?: string): string => {
+  const prompt = analysisPrompt(getLocaleInfo().promptLanguage);
+  const extra = instructions?.trim();
+  return extra ? `${prompt}\n  Additional instructions from the user: ${extra}` : prompt;
+};
+
+export const buildLocationPrompt = (lat: number, lng: number): string => `This photo was placed at latitude ${lat}, longitude ${lng}.
+  Using the content of the image and these coordinates, identify where this is and return the specific place name in ${getLocaleInfo().promptLanguage}.
+  Return only the place name without any explanation.`;
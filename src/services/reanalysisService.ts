@@ -0,0 +1,92 @@
+import { AnalysisResult, MetadataField, PhotoMetadata } from "../types";
+import { buildAnalysisUpdate } from "./analysisUpdate";
+import { hasLocation } from "./geoUtils";
+import { countryName } from "./geocoderService";
+import { isManualField } from "./provenanceService";
+
+/**
+ * 写真を解析し直し、項目ごとに取り込むか選べる変更案を作る
+ */
+
+// タグは出どころを記録しないが、他の項目と同じく採用するか選べる
+export type ReviewField = MetadataField | 'tags';
+
+
+export interface FieldChange {
+  field: ReviewField;
+  before: string;
+  after: string;
+}
+
+export interface ReanalysisProposal {
+  photoId: string;
+  update: Partial<PhotoMetadata>; // 全項目を採用した場合の差分
+  changes: FieldChange[];         // 値が変わる項目（手動で設定した項目は含まない）
+}
+
+// 項目ごとに写真へ書き込むキー
+const FIELD_KEYS: Record<ReviewField, (keyof PhotoMetadata)[]> = {
+  date: ['date'],
+  tags: ['tags', 'aiTags'],
+  location: ['latitude', 'longitude', 'locationSource'],
+  locationName: ['locationName'],
+  country: ['country'],
+  description: ['description']
+};
+
+const REVIEW_FIELDS: ReviewField[] = ['locationName', 'country', 'location', 'date', 'description', 'tags'];
+
+const formatField = (photo: Partial<PhotoMetadata>, field: ReviewField): string => {
+  switch (field) {
+    case 'tags':
+      return (photo.tags || []).join(', ');
+    case 'location':
+      return photo.latitude || photo.longitude ? `${photo.latitude!.toFixed(5)}, ${photo.longitude!.toFixed(5)}` : '';
+    case 'date':
+      return photo.date?.replace(/-/g, '/') || '';
+    case 'country':
+      return photo.country ? countryName(photo.country) : '';
+    default:
+      return photo[field] || '';
+  }
+};
+
+/**
+ * 解析に失敗した写真、位置のない写真
+ */
+export const needsReanalysis = (photo: PhotoMetadata): boolean => {
+  if (photo.isProcessing) return false;
+  return photo.analysisStatus === 'failed'
+    || !hasLocation(photo);
+};
+
+export const createProposal = (photo: PhotoMetadata, result: AnalysisResult): ReanalysisProposal => {
+  const update = buildAnalysisUpdate(photo, result);
+  const after = { ...photo, ...update };
+  const changes = REVIEW_FIELDS
+    .filter(field => field === 'tags' || !isManualField(photo, field))
+    .map(field => ({ field, before: formatField(photo, field), after: formatField(after, field) }))
+    .filter(change => change.before !== change.after);
+  return { photoId: photo.id, update, changes };
+};
+
+/**
+ * 採用した項目だけを反映する差分。採用しなかった項目は値も出どころも元のまま残す
+ */
+export const acceptedUpdate = (photo: PhotoMetadata, proposal: ReanalysisProposal, accepted: ReviewField[]): Partial<PhotoMetadata> => {
+  const patch: Partial<PhotoMetadata> = {
+    isProcessing: false,
+    analysisStatus: 'done',
+    analysisError: undefined
+  };
+  const provenance = { ...photo.provenance };
+  accepted.forEach(field => {
+    FIELD_KEYS[field].forEach(key => { (patch as Record<string, unknown>)[key] = proposal.update[key]; });
+    if (field === 'tags') return;
+    const next = proposal.update.provenance?.[field];
+    if (next) provenance[field] = next;
+    else delete provenance[field];
+  });
+  patch.provenance = provenance;
+  return patch;
+};
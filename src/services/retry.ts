@@ -0,0 +1,53 @@
+/**
+ * 上限付き指数バックオフによる再試行
+ */
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  shouldRetry: (error: unknown, attempt: number) => boolean;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+  signal?: AbortSignal; // 中断されたら待機中でも次の試行をせずに終える
+}
+
+/**
+ * attempt 回目（1始まり）の失敗後に待つ時間。±20% のゆらぎを加えて同時再試行を分散させる
+ */
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number): number => {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  const jitter = exponential * 0.2 * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(exponential + jitter));
+};
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export const withRetry = async <T>(task: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> => {
+  let attempt = 1;
+  for (;;) {
+    options.signal?.throwIfAborted();
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (attempt >= options.maxAttempts || !options.shouldRetry(error, attempt)) throw error;
+      const delay = backoffDelay(attempt, options.baseDelayMs, options.maxDelayMs);
+      options.onRetry?.(error, attempt, delay);
+      await sleep(delay, options.signal);
+      attempt++;
+    }
+  }
+};
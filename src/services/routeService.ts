@@ -0,0 +1,94 @@
+import { PhotoMetadata } from "../types";
+import { hasLocation, haversineKm } from "./geoUtils";
+import { sortPhotosByTime } from "./tripService";
+
+/**
+ * 位置の分かる写真を撮影順につないだ移動ルートと、日ごとの移動距離・訪問地点数
+ */
+
+// この距離より近い連続した写真は同じ地点として扱う
+const SAME_PLACE_KM = 0.05;
+
+export interface RouteLeg {
+  fromId: string;
+  toId: string;
+  from: [number, number]; // [lat, lng]
+  to: [number, number];
+  distanceKm: number;
+  date: string; // 到着側の写真の日付
+}
+
+export interface DayRouteStats {
+  date: string;
+  distanceKm: number;
+  places: number;
+  photos: number;
+}
+
+/**
+ * 撮影順に並べた写真の間の移動区間を作る。同じ地点に留まっている写真は区間にしない
+ */
+export const buildRouteLegs = (photos: PhotoMetadata[]): RouteLeg[] => {
+  const located = sortPhotosByTime(photos.filter(hasLocation));
+  const legs: RouteLeg[] = [];
+  for (let i = 1; i < located.length; i++) {
+    const from = located[i - 1];
+    const to = located[i];
+    const distanceKm = haversineKm(from.latitude, from.longitude, to.latitude, to.longitude);
+    if (distanceKm < SAME_PLACE_KM) continue;
+    legs.push({
+      fromId: from.id,
+      toId: to.id,
+      from: [from.latitude, from.longitude],
+      to: [to.latitude, to.longitude],
+      distanceKm,
+      date: to.date
+    });
+  }
+  return legs;
+};
+
+/**
+ * 地点数を数える。地名が分かっていれば地名で、なければ約100m単位の座標で区別する
+ */
+const countPlaces = (photos: PhotoMetadata[]): number => {
+  const places = new Set<string>();
+  photos.filter(hasLocation).forEach(photo => {
+    const named = photo.analysisStatus === 'done' && photo.locationName;
+    places.add(named ? `name:${photo.locationName}` : `pos:${photo.latitude.toFixed(3)},${photo.longitude.toFixed(3)}`);
+  });
+  return places.size;
+};
+
+/**
+ * 日ごとの移動距離と訪問地点数。日をまたぐ区間は到着した日に数える
+ */
+export const summarizeRouteByDay = (photos: PhotoMetadata[], legs: RouteLeg[] = buildRouteLegs(photos)): DayRouteStats[] => {
+  const byDate = new Map<string, PhotoMetadata[]>();
+  photos.forEach(photo => {
+    const list = byDate.get(photo.date);
+    if (list) list.push(photo);
+    else byDate.set(photo.date, [photo]);
+  });
+
+  const distanceByDate = new Map<string, number>();
+  legs.forEach(leg => distanceByDate.set(leg.date, (distanceByDate.get(leg.date) || 0) + leg.distanceKm));
+
+  return Array.from(byDate.entries())
+    .map(([date, dayPhotos]) => ({
+      date,
+      distanceKm: distanceByDate.get(date) || 0,
+      places: countPlaces(dayPhotos),
+      photos: dayPhotos.length
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const totalDistanceKm = (legs: RouteLeg[]): number =>
+  legs.reduce((sum, leg) => sum + leg.distanceKm, 0);
+
+export const formatDistance = (km: number): string => {
+  if (km < 1) return `${Math.round(km * 1000)} m`;
+  if (km < 100) return `${km.toFixed(1)} km`;
+  return `${Math.round(km).toLocaleString()} km`;
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { createSearchIndex, highlightSegments, splitQueryTerms, tokenize } from "./searchService";
+import { photo } from "./testFixtures";
+
+describe("tokenize", () => {
+  it("日本語は2文字ずつ、英数字は単語ごとに分ける", () => {
+    expect(tokenize("清水寺")).toEqual(["清水", "水寺"]);
+    expect(tokenize("Eiffel Tower 2019")).toEqual(["eiffel", "tower", "2019"]);
+    expect(tokenize("京都 Kyoto")).toEqual(["京都", "kyoto"]);
+  });
+
+  it("全角英数字と大文字を正規化する", () => {
+    expect(tokenize("ＰＡＲＩＳ")).toEqual(["paris"]);
+  });
+
+  it("1文字の漢字はそのまま1トークンにする", () => {
+    expect(tokenize("海")).toEqual(["海"]);
+  });
+});
+
+describe("splitQueryTerms", () => {
+  it("重複した語をまとめる", () => {
+    expect(splitQueryTerms("tokyo Tokyo 東京")).toEqual(["東京", "tokyo"]);
+  });
+});
+
+describe("createSearchIndex", () => {
+  const build = () => {
+    const index = createSearchIndex();
+    index.rebuild([
+      photo("kiyomizu", { locationName: "京都府 京都市東山区 清水寺", country: "JP", description: "寺社の境内" }),
+      photo("eiffel", { locationName: "Paris Eiffel Tower", country: "FR", tags: ["夜景"] }),
+      photo("beach", { locationName: "沖縄県 那覇市", description: "海辺の景色" })
+    ], { beach: "京都のお土産を買い忘れた" });
+    return index;
+  };
+
+  it("日本語の部分一致で見つける", () => {
+    expect(build().search("清水").map(r => r.photoId)).toEqual(["kiyomizu"]);
+  });
+
+  it("英数字は前方一致で見つける", () => {
+    expect(build().search("eiff").map(r => r.photoId)).toEqual(["eiffel"]);
+  });
+
+  it("地名の一致をメモの一致より上位にする", () => {
+    const results = build().search("京都");
+    expect(results.map(r => r.photoId)).toEqual(["kiyomizu", "beach"]);
+    expect(results[1].matchedFields).toEqual(["note"]);
+  });
+
+  it("すべての語を含む写真だけを返す", () => {
+    expect(build().search("京都 夜景")).toEqual([]);
+    expect(build().search("paris 夜景").map(r => r.photoId)).toEqual(["eiffel"]);
+  });
+
+  it("国はどの言語の国名でも見つかる", () => {
+    const index = build();
+    expect(index.search("フランス").map(r => r.photoId)).toEqual(["eiffel"]);
+    expect(index.search("france").map(r => r.photoId)).toEqual(["eiffel"]);
+  });
+
+  it("メモの更新と写真の削除を反映する", () => {
+    const index = build();
+    index.setNote("eiffel", "クレープがおいしかった");
+    expect(index.search("クレープ").map(r => r.photoId)).toEqual(["eiffel"]);
+    index.remove("eiffel");
+    expect(index.search("クレープ")).toEqual([]);
+    expect(index.getFieldText("eiffel", "note")).toBe("");
+  });
+
+  it("写真を更新すると古い内容では見つからなくなる", () => {
+    const index = build();
+    index.upsertPhoto(photo("kiyomizu", { locationName: "京都府 京都市 金閣寺" }));
+    expect(index.search("清水")).toEqual([]);
+    expect(index.search("金閣").map(r => r.photoId)).toEqual(["kiyomizu"]);
+  });
+});
+
+describe("highlightSegments", () => {
+  it("一致した部分に印を付ける", () => {
+    expect(highlightSegments("京都府 清水寺", "清水")).toEqual([
+      { text: "京都府 ", match: false },
+      { text: "清水", match: true },
+      { text: "寺", match: false }
+    ]);
+  });
+});
@@ -0,0 +1,245 @@
+import { PhotoMetadata } from "../types";
+import { countryName } from "./geocoderService";
+import { LOCALES } from "./i18nService";
+
+/**
+ * 地名・国・説明・タグ・ファイル名・メモを対象にしたローカルの全文検索
+ * 日本語（漢字・かな）は2文字ずつのバイグラム、英数字は単語単位で転置インデックスに登録する
+ * 写真やメモが保存されるたびにその写真の分だけ差し替える
+ */
+
+export type SearchField = 'locationName' | 'country' | 'tags' | 'description' | 'name' | 'note';
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  locationName: 3,
+  country: 2,
+  tags: 2,
+  note: 1.5,
+  description: 1,
+  name: 1
+};
+
+const SEARCH_FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[];
+
+// 国はコードで保存しているため、どの表示言語の国名でも見つかるようすべての言語の国名を登録する
+const countryLabels = (country: string | undefined): string =>
+  country ? Array.from(new Set(LOCALES.map(locale => countryName(country, locale.id)))).join(" ") : "";
+
+const CJK_RUN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー々〆]+/gu;
+const WORD_RUN = /[\p{L}\p{N}]+/gu;
+
+export interface SearchResult {
+  photoId: string;
+  score: number;
+  matchedFields: SearchField[];
+}
+
+export interface SearchIndex {
+  upsertPhoto: (photo: PhotoMetadata) => void;
+  setNote: (photoId: string, note: string) => void;
+  remove: (photoId: string) => void;
+  rebuild: (photos: PhotoMetadata[], notes: Record<string, string>) => void;
+  search: (query: string, limit?: number) => SearchResult[];
+  getFieldText: (photoId: string, field: SearchField) => string;
+}
+
+const normalize = (text: string) => text.normalize("NFKC").toLowerCase();
+
+/**
+ * 検索語の単位（日本語の連続部分と英数字の単語）に分ける。ハイライトにも使う
+ */
+export const splitQueryTerms = (query: string): string[] => {
+  const normalized = normalize(query);
+  const terms: string[] = [];
+  normalized.replace(CJK_RUN, run => { terms.push(run); return " "; })
+    .replace(WORD_RUN, word => { terms.push(word); return " "; });
+  return Array.from(new Set(terms));
+};
+
+const isCjk = (term: string) => { CJK_RUN.lastIndex = 0; return CJK_RUN.test(term); };
+
+/**
+ * インデックスに登録するトークンに分ける
+ */
+export const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  splitQueryTerms(text).forEach(term => {
+    if (!isCjk(term)) {
+      tokens.push(term);
+      return;
+    }
+    if (term.length === 1) {
+      tokens.push(term);
+      return;
+    }
+    for (let i = 0; i < term.length - 1; i++) tokens.push(term.slice(i, i + 2));
+  });
+  return tokens;
+};
+
+type TokenMatch = 'exact' | 'prefix' | 'contains';
+
+// 英数字は前方一致、1文字の漢字・かなはその文字を含むバイグラムに一致させる
+const queryTokens = (term: string): { token: string; mode: TokenMatch }[] => {
+  if (!isCjk(term)) return [{ token: term, mode: 'prefix' }];
+  if (term.length === 1) return [{ token: term, mode: 'contains' }];
+  return tokenize(term).map(token => ({ token, mode: 'exact' }));
+};
+
+export const createSearchIndex = (): SearchIndex => {
+  // token -> photoId -> field -> 出現回数
+  const postings = new Map<string, Map<string, Map<SearchField, number>>>();
+  const docTokens = new Map<string, Set<string>>();
+  const docTexts = new Map<string, Record<SearchField, string>>();
+
+  const unindex = (photoId: string) => {
+    docTokens.get(photoId)?.forEach(token => {
+      const docs = postings.get(token);
+      docs?.delete(photoId);
+      if (docs && docs.size === 0) postings.delete(token);
+    });
+    docTokens.delete(photoId);
+  };
+
+  const index = (photoId: string, texts: Record<SearchField, string>) => {
+    unindex(photoId);
+    docTexts.set(photoId, texts);
+    const tokens = new Set<string>();
+    SEARCH_FIELDS.forEach(field => {
+      tokenize(texts[field]).forEach(token => {
+        tokens.add(token);
+        let docs = postings.get(token);
+        if (!docs) postings.set(token, docs = new Map());
+        let fields = docs.get(photoId);
+        if (!fields) docs.set(photoId, fields = new Map());
+        fields.set(field, (fields.get(field) || 0) + 1);
+      });
+    });
+    docTokens.set(photoId, tokens);
+  };
+
+  const textsFor = (photo: PhotoMetadata, note: string): Record<SearchField, string> => {
+    return {
+      locationName: photo.locationName || "",
+      country: countryLabels(photo.country),
+      description: photo.description || "",
+      tags: (photo.tags || []).join(" "),
+      name: photo.name.replace(/\.[a-z0-9]+$/i, ""),
+      note
+    };
+  };
+
+  const upsertPhoto = (photo: PhotoMetadata) => {
+    index(photo.id, textsFor(photo, docTexts.get(photo.id)?.note || ""));
+  };
+
+  const setNote = (photoId: string, note: string) => {
+    const texts = docTexts.get(photoId);
+    if (texts) index(photoId, { ...texts, note });
+  };
+
+  const remove = (photoId: string) => {
+    unindex(photoId);
+    docTexts.delete(photoId);
+  };
+
+  const rebuild = (photos: PhotoMetadata[], notes: Record<string, string>) => {
+    postings.clear();
+    docTokens.clear();
+    docTexts.clear();
+    photos.forEach(photo => index(photo.id, textsFor(photo, notes[photo.id] || "")));
+  };
+
+  /**
+   * すべての検索語を含む写真を、項目の重みと語の珍しさ（IDF）で順位付けして返す
+   */
+  const search = (query: string, limit = 200): SearchResult[] => {
+    const terms = splitQueryTerms(query);
+    if (terms.length === 0) return [];
+    const totalDocs = Math.max(1, docTexts.size);
+
+    let candidates: Map<string, { score: number; fields: Set<SearchField> }> | null = null;
+    for (const term of terms) {
+      for (const { token, mode } of queryTokens(term)) {
+        const matches = new Map<string, { score: number; fields: Set<SearchField> }>();
+        const matchingTokens = mode === 'exact'
+          ? (postings.has(token) ? [token] : [])
+          : Array.from(postings.keys()).filter(key => mode === 'prefix' ? key.startsWith(token) : key.includes(token));
+
+        matchingTokens.forEach(key => {
+          const docs = postings.get(key)!;
+          const idf = Math.log(1 + totalDocs / docs.size);
+          // 部分的に一致しただけの語は完全一致より少し低く評価する
+          const exactness = key === token ? 1 : 0.6;
+          docs.forEach((fields, photoId) => {
+            let entry = matches.get(photoId);
+            if (!entry) matches.set(photoId, entry = { score: 0, fields: new Set() });
+            fields.forEach((count, field) => {
+              entry!.score += FIELD_WEIGHTS[field] * (1 + Math.log(count)) * idf * exactness;
+              entry!.fields.add(field);
+            });
+          });
+        });
+
+        if (candidates === null) {
+          candidates = matches;
+        } else {
+          const next = new Map<string, { score: number; fields: Set<SearchField> }>();
+          candidates.forEach((entry, photoId) => {
+            const match = matches.get(photoId);
+            if (!match) return;
+            match.fields.forEach(field => entry.fields.add(field));
+            next.set(photoId, { score: entry.score + match.score, fields: entry.fields });
+          });
+          candidates = next;
+        }
+        if (candidates.size === 0) return [];
+      }
+    }
+
+    return Array.from(candidates!.entries())
+      .map(([photoId, entry]) => ({ photoId, score: entry.score, matchedFields: SEARCH_FIELDS.filter(f => entry.fields.has(f)) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  };
+
+  const getFieldText = (photoId: string, field: SearchField) => docTexts.get(photoId)?.[field] || "";
+
+  return { upsertPhoto, setNote, remove, rebuild, search, getFieldText };
+};
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * 検索語に一致する部分を強調表示できるように文字列を分割する
+ */
+export const highlightSegments = (text: string, query: string): HighlightSegment[] => {
+  const terms = splitQueryTerms(query);
+  if (!text || terms.length === 0) return [{ text, match: false }];
+
+  // 全角英数字なども一致させるため、1文字ずつ正規化した文字列上で位置を探す
+  const chars = Array.from(text);
+  const normalizedChars = chars.map(normalize);
+  const covered = new Array<boolean>(chars.length).fill(false);
+  terms.forEach(term => {
+    for (let start = 0; start < chars.length; start++) {
+      let matched = "";
+      let end = start;
+      while (end < chars.length && matched.length < term.length) matched += normalizedChars[end++];
+      if (matched === term || (matched.startsWith(term) && end - start === 1)) {
+        for (let i = start; i < end; i++) covered[i] = true;
+      }
+    }
+  });
+
+  const segments: HighlightSegment[] = [];
+  chars.forEach((char, i) => {
+    const last = segments[segments.length - 1];
+    if (last && last.match === covered[i]) last.text += char;
+    else segments.push({ text: char, match: covered[i] });
+  });
+  return segments;
+};
@@ -0,0 +1,154 @@
+import { PhotoMetadata, Trip } from "../types";
+import { hasLocation } from "./geoUtils";
+import { regionAt, reverseGeocode } from "./geocoderService";
+import { buildRouteLegs, totalDistanceKm } from "./routeService";
+
+/**
+ * ライブラリと旅行の統計（訪れた国・都道府県、月・年ごとの枚数、撮影の多い日、旅行ごとの移動距離、未配置・解析失敗の割合、容量）
+ * どの集計にも対象の写真IDを持たせ、グラフから一覧や地図に絞り込めるようにする
+ */
+
+export interface PlaceStat {
+  name: string;
+  firstVisit: string; // YYYY-MM-DD
+  photoIds: string[];
+}
+
+export interface PeriodStat {
+  key: string; // YYYY または YYYY-MM
+  count: number;
+}
+
+export interface DayStat {
+  date: string;
+  count: number;
+}
+
+export interface TripDistanceStat {
+  trip: Trip;
+  distanceKm: number;
+}
+
+export interface LibraryStats {
+  total: number;
+  countries: PlaceStat[];   // 初めて訪れた順。name は国コード
+  prefectures: PlaceStat[]; // 日本国内の都道府県。初めて訪れた順
+  years: PeriodStat[];
+  months: PeriodStat[];     // 写真のない月も 0 件として含める
+  busiestDays: DayStat[];
+  trips: TripDistanceStat[];
+  unmappedIds: string[];
+  failedIds: string[];
+  pendingIds: string[];
+  storageBytes: number;     // 写真の元ファイルの合計
+}
+
+const BUSIEST_DAYS = 10;
+
+const addPlace = (places: Map<string, PlaceStat>, name: string, photo: PhotoMetadata) => {
+  const place = places.get(name);
+  if (!place) {
+    places.set(name, { name, firstVisit: photo.date, photoIds: [photo.id] });
+    return;
+  }
+  place.photoIds.push(photo.id);
+  if (photo.date < place.firstVisit) place.firstVisit = photo.date;
+};
+
+const byFirstVisit = (places: Map<string, PlaceStat>): PlaceStat[] =>
+  Array.from(places.values()).sort((a, b) => a.firstVisit.localeCompare(b.firstVisit) || b.photoIds.length - a.photoIds.length);
+
+/**
+ * 最初と最後の月の間のすべての月（YYYY-MM）
+ */
+const monthsBetween = (first: string, last: string): string[] => {
+  const months: string[] = [];
+  let [year, month] = first.split('-').map(Number);
+  const [lastYear, lastMonth] = last.split('-').map(Number);
+  while (year < lastYear || (year === lastYear && month <= lastMonth)) {
+    months.push(`${year}-${String(month).padStart(2, '0')}`);
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+  return months;
+};
+
+/**
+ * 写真と旅行の区切りから統計を計算する
+ * 国は写真の国コードを使い、なければ座標から求める。都道府県は座標から同梱の地名データで求める
+ */
+export const computeLibraryStats = (photos: PhotoMetadata[], trips: Trip[]): LibraryStats => {
+  const countries = new Map<string, PlaceStat>();
+  const prefectures = new Map<string, PlaceStat>();
+  const yearCounts = new Map<string, number>();
+  const monthCounts = new Map<string, number>();
+  const dayCounts = new Map<string, number>();
+  const unmappedIds: string[] = [];
+  const failedIds: string[] = [];
+  const pendingIds: string[] = [];
+  let storageBytes = 0;
+
+  photos.forEach(photo => {
+    const located = hasLocation(photo);
+    const country = photo.country || (located ? reverseGeocode(photo.latitude, photo.longitude)?.country : undefined);
+    if (country) addPlace(countries, country, photo);
+    const region = located ? regionAt(photo.latitude, photo.longitude) : null;
+    if (region?.countryCode === 'JP') addPlace(prefectures, region.region, photo);
+
+    if (/^\d{4}-\d{2}-\d{2}$/.test(photo.date)) {
+      const year = photo.date.slice(0, 4);
+      const month = photo.date.slice(0, 7);
+      yearCounts.set(year, (yearCounts.get(year) || 0) + 1);
+      monthCounts.set(month, (monthCounts.get(month) || 0) + 1);
+      dayCounts.set(photo.date, (dayCounts.get(photo.date) || 0) + 1);
+    }
+
+    if (!located) unmappedIds.push(photo.id);
+    if (photo.analysisStatus === 'failed') failedIds.push(photo.id);
+    else if (photo.analysisStatus === 'pending' || photo.isProcessing) pendingIds.push(photo.id);
+    storageBytes += photo.fileSize ?? photo.fileBlob?.size ?? 0;
+  });
+
+  const monthKeys = Array.from(monthCounts.keys()).sort();
+  const months = monthKeys.length > 0
+    ? monthsBetween(monthKeys[0], monthKeys[monthKeys.length - 1]).map(key => ({ key, count: monthCounts.get(key) || 0 }))
+    : [];
+
+  const photosById = new Map(photos.map(p => [p.id, p]));
+  const tripStats = trips.map(trip => {
+    const tripPhotos = trip.photoIds.map(id => photosById.get(id)).filter((p): p is PhotoMetadata => !!p);
+    return { trip, distanceKm: totalDistanceKm(buildRouteLegs(tripPhotos)) };
+  });
+
+  return {
+    total: photos.length,
+    countries: byFirstVisit(countries),
+    prefectures: byFirstVisit(prefectures),
+    years: Array.from(yearCounts.entries()).map(([key, count]) => ({ key, count })).sort((a, b) => a.key.localeCompare(b.key)),
+    months,
+    busiestDays: Array.from(dayCounts.entries())
+      .map(([date, count]) => ({ date, count }))
+      .sort((a, b) => b.count - a.count || b.date.localeCompare(a.date))
+      .slice(0, BUSIEST_DAYS),
+    trips: tripStats,
+    unmappedIds,
+    failedIds,
+    pendingIds,
+    storageBytes
+  };
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value < 10 ? value.toFixed(1) : Math.round(value).toLocaleString()} ${units[unit]}`;
+};
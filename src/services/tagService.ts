@@ -0,0 +1,84 @@
+import { PhotoMetadata } from "../types";
+
+/**
+ * 写真のタグ（AI の提案とユーザーのタグ）の正規化と編集
+ * 写真の tags に全タグを持ち、aiTags でそのうち AI が付けたものを区別する
+ */
+
+export const MAX_AI_TAGS = 8;
+const MAX_TAG_LENGTH = 30;
+
+type TagFields = Pick<PhotoMetadata, 'tags' | 'aiTags'>;
+
+export interface TagCount {
+  name: string;
+  count: number;
+}
+
+/**
+ * 全角英数字などを揃え、先頭の # と余分な空白を取り除く
+ */
+export const normalizeTag = (value: string): string =>
+  value.normalize("NFKC").trim().replace(/^#+/, "").replace(/\s+/g, " ").trim().slice(0, MAX_TAG_LENGTH);
+
+export const normalizeTags = (values: string[]): string[] =>
+  Array.from(new Set(values.map(normalizeTag).filter(Boolean)));
+
+/**
+ * ユーザーが付けた（または AI の提案を確定した）タグ
+ */
+export const userTags = (photo: PhotoMetadata): string[] => {
+  const ai = new Set(photo.aiTags || []);
+  return (photo.tags || []).filter(tag => !ai.has(tag));
+};
+
+/**
+ * AI のタグを新しい解析結果で入れ替える。ユーザーのタグはそのまま残す
+ */
+export const withAiTags = (photo: PhotoMetadata, suggested: string[]): TagFields => {
+  const user = userTags(photo);
+  const ai = normalizeTags(suggested).filter(tag => !user.includes(tag));
+  return { tags: [...user, ...ai], aiTags: ai };
+};
+
+/**
+ * ユーザーのタグとして追加する。AI が付けたタグを追加し直した場合は確定したものとして扱う
+ */
+export const addTag = (photo: PhotoMetadata, value: string): TagFields => {
+  const tag = normalizeTag(value);
+  const tags = photo.tags || [];
+  return {
+    tags: tag && !tags.includes(tag) ? [...tags, tag] : tags,
+    aiTags: (photo.aiTags || []).filter(t => t !== tag)
+  };
+};
+
+export const removeTag = (photo: PhotoMetadata, tag: string): TagFields => ({
+  tags: (photo.tags || []).filter(t => t !== tag),
+  aiTags: (photo.aiTags || []).filter(t => t !== tag)
+});
+
+/**
+ * タグの名前を変える。変更先のタグが既にあれば1つにまとめる。変更後はユーザーのタグになる
+ */
+export const renameTag = (photo: PhotoMetadata, from: string, to: string): TagFields => {
+  const next = normalizeTag(to);
+  if (!next || !(photo.tags || []).includes(from)) return { tags: photo.tags, aiTags: photo.aiTags };
+  return {
+    tags: normalizeTags((photo.tags || []).map(tag => (tag === from ? next : tag))),
+    aiTags: (photo.aiTags || []).filter(tag => tag !== from && tag !== next)
+  };
+};
+
+/**
+ * 選んだタグをすべて持つ写真か（タグを選んでいなければ常に true）
+ */
+export const hasAllTags = (photo: PhotoMetadata, selected: string[]): boolean =>
+  selected.every(tag => (photo.tags || []).includes(tag));
+
+export const countTags = (photos: PhotoMetadata[]): TagCount[] => {
+  const counts = new Map<string, number>();
+  photos.forEach(photo => (photo.tags || []).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return Array.from(counts, ([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+};
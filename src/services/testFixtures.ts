@@ -0,0 +1,17 @@
+import { PhotoMetadata } from "../types";
+
+/**
+ * テスト用の写真。指定しない項目は位置・説明なしの解析済みでない写真になる
+ */
+export const photo = (id: string, fields: Partial<PhotoMetadata> = {}): PhotoMetadata => ({
+  id,
+  url: "",
+  name: `${id}.jpg`,
+  locationName: "",
+  latitude: 0,
+  longitude: 0,
+  date: "2024-01-01",
+  description: "",
+  isProcessing: false,
+  ...fields
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { GeotagSettings, PhotoMetadata, TrackPoint } from "../types";
+import { photo } from "./testFixtures";
+import { locateAt, matchPhotosToTrack, mergeTracks } from "./trackLogService";
+
+const MINUTE = 60 * 1000;
+const START = Date.parse("2024-04-01T09:00:00Z");
+
+// 09:00 から2分おきに北へ進み、09:04 の次は 09:30 まで記録が途切れる
+const track: TrackPoint[] = [
+  { time: START, latitude: 35.0, longitude: 135.0 },
+  { time: START + 2 * MINUTE, latitude: 35.02, longitude: 135.0 },
+  { time: START + 4 * MINUTE, latitude: 35.04, longitude: 135.02 },
+  { time: START + 30 * MINUTE, latitude: 35.3, longitude: 135.3 }
+];
+
+const settings: GeotagSettings = { offsetMinutes: 0, maxGapMinutes: 10, overwriteAiLocations: true };
+
+const shotAt = (id: string, captureTime: string, fields: Partial<PhotoMetadata> = {}) =>
+  photo(id, { date: captureTime.slice(0, 10), captureTime, ...fields });
+
+describe("locateAt", () => {
+  it("前後の点を時刻の比で線形補間する", () => {
+    const located = locateAt(track, START + 3 * MINUTE, 10 * MINUTE);
+
+    expect(located?.latitude).toBeCloseTo(35.03, 6);
+    expect(located?.longitude).toBeCloseTo(135.01, 6);
+    expect(located?.gapSeconds).toBe(120);
+  });
+
+  it("点の間隔が上限を超える区間は補間しない", () => {
+    expect(locateAt(track, START + 10 * MINUTE, 10 * MINUTE)).toBeNull();
+    expect(locateAt(track, START + 10 * MINUTE, 30 * MINUTE)).not.toBeNull();
+  });
+
+  it("トラックの範囲外は上限以内なら端点の位置を使う", () => {
+    expect(locateAt(track, START - 5 * MINUTE, 10 * MINUTE)).toEqual({ latitude: 35.0, longitude: 135.0, gapSeconds: 300 });
+    expect(locateAt(track, START + 45 * MINUTE, 10 * MINUTE)).toBeNull();
+  });
+});
+
+describe("matchPhotosToTrack", () => {
+  it("カメラの時計のずれを足した時刻でトラックと照合する", () => {
+    // カメラが15分遅れている: 08:48 と記録された写真は実際には 09:03
+    const photos = [shotAt("late", "2024-04-01T08:48:00Z")];
+
+    expect(matchPhotosToTrack(photos, track, settings)).toEqual([]);
+    const [match] = matchPhotosToTrack(photos, track, { ...settings, offsetMinutes: 15 });
+    expect(match.photoId).toBe("late");
+    expect(match.latitude).toBeCloseTo(35.03, 6);
+  });
+
+  it("撮影時刻のない写真・EXIF の GPS がある写真・手動で置いた写真には位置を付けない", () => {
+    const photos = [
+      shotAt("noTime", "2024-04-01T09:01:00Z", { captureTime: undefined }),
+      shotAt("exif", "2024-04-01T09:01:00Z", { exif: { latitude: 1, longitude: 1 } }),
+      shotAt("manual", "2024-04-01T09:01:00Z", { manuallyPlaced: true, latitude: 1, longitude: 1 }),
+      shotAt("ai", "2024-04-01T09:01:00Z", { latitude: 1, longitude: 1, locationSource: "ai" })
+    ];
+
+    expect(matchPhotosToTrack(photos, track, settings).map(match => match.photoId)).toEqual(["ai"]);
+    expect(matchPhotosToTrack(photos, track, { ...settings, overwriteAiLocations: false })).toEqual([]);
+  });
+
+  it("複数のトラックは時刻順にまとめてから照合する", () => {
+    const merged = mergeTracks([track.slice(2), track.slice(0, 2)]);
+
+    expect(merged.map(point => point.time)).toEqual(track.map(point => point.time));
+    expect(matchPhotosToTrack([shotAt("p", "2024-04-01T09:01:00Z")], merged, settings)[0].latitude).toBeCloseTo(35.01, 6);
+  });
+});
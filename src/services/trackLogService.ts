@@ -0,0 +1,194 @@
+import { GeotagSettings, PhotoMetadata, TrackPoint } from "../types";
+import { isManualField } from "./provenanceService";
+import { linePositions, toGeoJsonFeatures } from "./geoJsonUtils";
+import { t } from "./i18nService";
+
+/**
+ * GPX / GeoJSON のトラックログを読み込み、撮影時刻から写真の位置を求める
+ * 撮影時刻の前後のトラック点を線形補間し、点の間隔が maxGapMinutes を超える場合は位置を付けない
+ */
+
+const SETTINGS_STORAGE_KEY = "visionsort.geotagSettings";
+
+export const DEFAULT_GEOTAG_SETTINGS: GeotagSettings = {
+  offsetMinutes: 0,
+  maxGapMinutes: 10,
+  overwriteAiLocations: true
+};
+
+export const getGeotagSettings = (): GeotagSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (saved) return { ...DEFAULT_GEOTAG_SETTINGS, ...JSON.parse(saved) };
+  } catch (e) {
+    console.warn("[VisionSort] Failed to read geotag settings:", e);
+  }
+  return DEFAULT_GEOTAG_SETTINGS;
+};
+
+export const saveGeotagSettings = (settings: GeotagSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export interface GeotagMatch {
+  photoId: string;
+  latitude: number;
+  longitude: number;
+  gapSeconds: number; // 補間に使った前後の点の時間差（端点をそのまま使った場合はその点までの差）
+}
+
+const isValidPoint = (point: TrackPoint) =>
+  !isNaN(point.time) && !isNaN(point.latitude) && !isNaN(point.longitude) &&
+  Math.abs(point.latitude) <= 90 && Math.abs(point.longitude) <= 180;
+
+/**
+ * GPX の trkpt（なければ時刻付きの rtept / wpt）を読み取る
+ */
+export const parseGpx = (text: string): TrackPoint[] => {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) throw new Error(t('error.gpxParse'));
+
+  const readPoints = (tagName: string): TrackPoint[] =>
+    Array.from(doc.getElementsByTagNameNS("*", tagName)).map(el => {
+      const time = el.getElementsByTagNameNS("*", "time")[0]?.textContent;
+      const ele = el.getElementsByTagNameNS("*", "ele")[0]?.textContent;
+      return {
+        time: time ? Date.parse(time.trim()) : NaN,
+        latitude: parseFloat(el.getAttribute("lat") || ""),
+        longitude: parseFloat(el.getAttribute("lon") || ""),
+        elevation: ele ? parseFloat(ele) : undefined
+      };
+    }).filter(isValidPoint);
+
+  for (const tagName of ["trkpt", "rtept", "wpt"]) {
+    const points = readPoints(tagName);
+    if (points.length > 0) return points;
+  }
+  return [];
+};
+
+const toEpochMs = (value: unknown): number => {
+  if (typeof value === "number") return value < 1e12 ? value * 1000 : value; // 秒単位のタイムスタンプも受け付ける
+  if (typeof value === "string") return Date.parse(value);
+  return NaN;
+};
+
+/**
+ * GeoJSON の LineString / MultiLineString を読み取る
+ * 時刻は properties.coordTimes（togeojson 形式）または properties.times、もしくは座標の4番目の要素から取る
+ */
+export const parseGeoJsonTrack = (text: string): TrackPoint[] => {
+  const points: TrackPoint[] = [];
+  toGeoJsonFeatures(JSON.parse(text)).forEach(feature => {
+    const lines = linePositions(feature.geometry);
+    const rawTimes = feature.properties.coordTimes || feature.properties.times;
+    const times: unknown[] | undefined = Array.isArray(rawTimes) ? rawTimes : undefined;
+
+    lines.forEach((line, lineIndex) => {
+      const nested = times?.[lineIndex];
+      const lineTimes = Array.isArray(times?.[0]) ? (Array.isArray(nested) ? nested : undefined) : (lines.length === 1 ? times : undefined);
+      line.forEach((coord, i) => {
+        points.push({
+          time: toEpochMs(lineTimes?.[i] ?? coord[3]),
+          latitude: coord[1],
+          longitude: coord[0],
+          elevation: coord[2]
+        });
+      });
+    });
+  });
+  return points.filter(isValidPoint);
+};
+
+/**
+ * 拡張子（または中身）から形式を判定してトラックログを読み込む
+ */
+export const parseTrackFile = async (file: File): Promise<TrackPoint[]> => {
+  const text = await file.text();
+  const isJson = /\.(geo)?json$/i.test(file.name) || text.trimStart().startsWith("{");
+  const points = isJson ? parseGeoJsonTrack(text) : parseGpx(text);
+  if (points.length === 0) throw new Error(t('error.noTrackPoints', { file: file.name }));
+  return points;
+};
+
+/**
+ * 複数のトラックを時刻順の1本にまとめる
+ */
+export const mergeTracks = (tracks: TrackPoint[][]): TrackPoint[] =>
+  tracks.flat().sort((a, b) => a.time - b.time);
+
+/**
+ * 撮影時刻を epoch ms に変換する
+ * タイムゾーンのない撮影時刻はカメラの時計＝このブラウザのローカル時刻として扱う
+ */
+export const photoTimestamp = (photo: PhotoMetadata): number | null => {
+  if (!photo.captureTime) return null;
+  const time = Date.parse(photo.captureTime);
+  return isNaN(time) ? null : time;
+};
+
+/**
+ * 時刻順に並んだトラックから指定時刻の位置を補間する
+ */
+export const locateAt = (track: TrackPoint[], time: number, maxGapMs: number): Omit<GeotagMatch, 'photoId'> | null => {
+  if (track.length === 0) return null;
+
+  // time 以上になる最初の点を二分探索する
+  let lo = 0;
+  let hi = track.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (track[mid].time < time) lo = mid + 1;
+    else hi = mid;
+  }
+
+  const next = track[lo];
+  const prev = track[lo - 1];
+  if (next && next.time === time) return { latitude: next.latitude, longitude: next.longitude, gapSeconds: 0 };
+
+  // トラックの範囲外は端点から maxGap 以内なら端点の位置を使う
+  if (!prev || !next) {
+    const edge = prev || next;
+    const gap = Math.abs(edge.time - time);
+    return gap <= maxGapMs ? { latitude: edge.latitude, longitude: edge.longitude, gapSeconds: Math.round(gap / 1000) } : null;
+  }
+
+  const gap = next.time - prev.time;
+  if (gap > maxGapMs) return null;
+  const ratio = (time - prev.time) / gap;
+  return {
+    latitude: prev.latitude + (next.latitude - prev.latitude) * ratio,
+    longitude: prev.longitude + (next.longitude - prev.longitude) * ratio,
+    gapSeconds: Math.round(gap / 1000)
+  };
+};
+
+/**
+ * トラックで位置を付けてよい写真か
+ * EXIF の GPS と手動で配置した位置は常に優先し、AI の推測は設定に応じて置き換える
+ */
+export const canGeotagFromTrack = (photo: PhotoMetadata, settings: GeotagSettings): boolean => {
+  const exif = photo.exif || {};
+  if (exif.latitude !== undefined && exif.longitude !== undefined) return false;
+  if (photo.manuallyPlaced || isManualField(photo, 'location') || photo.locationSource === 'manual' || photo.locationSource === 'exif') return false;
+  const unmapped = photo.latitude === 0 && photo.longitude === 0;
+  return unmapped || photo.locationSource === 'track' || settings.overwriteAiLocations;
+};
+
+/**
+ * 写真ごとにトラック上の位置を求める。撮影時刻がない写真や範囲外の写真は結果に含めない
+ */
+export const matchPhotosToTrack = (photos: PhotoMetadata[], track: TrackPoint[], settings: GeotagSettings): GeotagMatch[] => {
+  const offsetMs = settings.offsetMinutes * 60 * 1000;
+  const maxGapMs = settings.maxGapMinutes * 60 * 1000;
+  const matches: GeotagMatch[] = [];
+
+  photos.forEach(photo => {
+    if (!canGeotagFromTrack(photo, settings)) return;
+    const time = photoTimestamp(photo);
+    if (time === null) return;
+    const located = locateAt(track, time + offsetMs, maxGapMs);
+    if (located) matches.push({ photoId: photo.id, ...located });
+  });
+  return matches;
+};
@@ -0,0 +1,37 @@
+import { TrashedPhoto, TrashSettings } from "../types";
+
+/**
+ * ゴミ箱の保管期間の設定と、期限切れの判定
+ */
+
+const SETTINGS_STORAGE_KEY = "visionsort.trashSettings";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const RETENTION_OPTIONS = [7, 30, 90, 365];
+
+export const DEFAULT_TRASH_SETTINGS: TrashSettings = {
+  retentionDays: 30
+};
+
+export const getTrashSettings = (): TrashSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (saved) return { ...DEFAULT_TRASH_SETTINGS, ...JSON.parse(saved) };
+  } catch (e) {
+    console.warn("[VisionSort] Failed to read trash settings:", e);
+  }
+  return DEFAULT_TRASH_SETTINGS;
+};
+
+export const saveTrashSettings = (settings: TrashSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * 完全に削除されるまでの残り日数（切り上げ、期限切れなら 0）
+ */
+export const daysUntilPurge = (item: TrashedPhoto, settings: TrashSettings, now = Date.now()): number =>
+  Math.max(0, Math.ceil((item.deletedAt + settings.retentionDays * DAY_MS - now) / DAY_MS));
+
+export const expiredTrashIds = (items: TrashedPhoto[], settings: TrashSettings, now = Date.now()): string[] =>
+  items.filter(item => item.deletedAt + settings.retentionDays * DAY_MS <= now).map(item => item.id);
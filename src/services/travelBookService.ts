@@ -0,0 +1,329 @@
+import { JournalEntry, PhotoMetadata } from "../types";
+import * as db from "./dbService";
+import { hasLocation } from "./geoUtils";
+import { countryName } from "./geocoderService";
+import { formatDate, formatDateRange, getLocaleInfo, t } from "./i18nService";
+import { escapeHtml, markdownToHtml, shiftHeadings } from "./markdownService";
+import { buildRouteLegs, DayRouteStats, formatDistance, summarizeRouteByDay, totalDistanceKm } from "./routeService";
+import { sortPhotosByTime } from "./tripService";
+import { extensionFor } from "./fileUtils";
+import { createZip, ZipInput } from "./zipService";
+
+/**
+ * 期間または旅行の写真・メモ・日記を、アプリがなくても読める旅行記（印刷用 HTML / Markdown）として書き出す
+ * 地図タイルは外部から読み込む必要があるため埋め込まず、ルートは座標から描いた SVG で表す
+ */
+
+export interface TravelBookSource {
+  title: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string;
+  photoIds?: string[]; // 旅行から作る場合はその旅行の写真だけを載せる
+  coverPhotoId?: string; // 未指定の場合は最初の写真を表紙にする
+}
+
+export interface TravelBookDay {
+  date: string;
+  photos: PhotoMetadata[]; // 撮影順（タイムラインと同じ並び）
+  journal?: JournalEntry;
+  stats?: DayRouteStats;
+}
+
+export interface TravelBook {
+  title: string;
+  startDate: string;
+  endDate: string;
+  days: TravelBookDay[];
+  coverPhotoId?: string;
+  tripJournal: JournalEntry[]; // 期間に重なる旅行の日記
+  notes: Record<string, string>;
+  photoCount: number;
+  distanceKm: number;
+}
+
+// 埋め込む写真の長辺。印刷には十分で、HTML が大きくなりすぎない大きさにする
+const IMAGE_MAX_SIZE = 1600;
+const IMAGE_QUALITY = 0.85;
+
+const captureClock = (photo: PhotoMetadata): string => photo.captureTime?.slice(11, 16) || "";
+
+/**
+ * 旅行記に載せる内容を集める。写真のない日も日記があれば1日として載せる
+ */
+export const collectTravelBook = async (
+  source: TravelBookSource,
+  notes: Record<string, string>,
+  journal: Record<string, JournalEntry>
+): Promise<TravelBook> => {
+  const inRange = await db.getPhotosByDateRange(source.startDate, source.endDate);
+  const targetIds = source.photoIds ? new Set(source.photoIds) : null;
+  const photos = sortPhotosByTime(targetIds ? inRange.filter(p => targetIds.has(p.id)) : inRange);
+
+  const legs = buildRouteLegs(photos);
+  const statsByDate = new Map(summarizeRouteByDay(photos, legs).map(stats => [stats.date, stats]));
+  const entries = Object.values(journal).filter(entry => entry.body.trim());
+
+  const dates = new Set(photos.map(p => p.date));
+  entries
+    .filter(entry => entry.kind === 'day' && entry.startDate >= source.startDate && entry.startDate <= source.endDate)
+    .forEach(entry => dates.add(entry.startDate));
+
+  const days = Array.from(dates).sort().map(date => ({
+    date,
+    photos: photos.filter(p => p.date === date),
+    journal: entries.find(entry => entry.kind === 'day' && entry.startDate === date),
+    stats: statsByDate.get(date)
+  }));
+
+  return {
+    title: source.title.trim() || formatDateRange(source.startDate, source.endDate),
+    startDate: source.startDate,
+    endDate: source.endDate,
+    days,
+    coverPhotoId: source.coverPhotoId,
+    tripJournal: entries
+      .filter(entry => entry.kind === 'trip' && entry.startDate <= source.endDate && entry.endDate >= source.startDate)
+      .sort((a, b) => a.startDate.localeCompare(b.startDate)),
+    notes,
+    photoCount: photos.length,
+    distanceKm: totalDistanceKm(legs)
+  };
+};
+
+/**
+ * 位置の分かる写真を撮影順につないだルートの SVG。緯度に応じて経度方向を縮め、形が歪まないようにする
+ */
+export const renderRouteSvg = (photos: PhotoMetadata[], width = 800, height = 450): string | null => {
+  const located = sortPhotosByTime(photos.filter(hasLocation));
+  if (located.length === 0) return null;
+
+  const padding = 40;
+  const meanLat = located.reduce((sum, p) => sum + p.latitude, 0) / located.length;
+  const xScale = Math.cos((meanLat * Math.PI) / 180);
+  const xs = located.map(p => p.longitude * xScale);
+  const ys = located.map(p => -p.latitude);
+  const minX = Math.min(...xs), maxX = Math.max(...xs);
+  const minY = Math.min(...ys), maxY = Math.max(...ys);
+  // 1地点しかない（範囲が0の）場合も割り算できるようにし、中央に描く
+  const scale = Math.min((width - padding * 2) / Math.max(maxX - minX, 1e-6), (height - padding * 2) / Math.max(maxY - minY, 1e-6));
+  const offsetX = (width - (maxX - minX) * scale) / 2;
+  const offsetY = (height - (maxY - minY) * scale) / 2;
+  const points = located.map((_, i) => [offsetX + (xs[i] - minX) * scale, offsetY + (ys[i] - minY) * scale]);
+
+  const line = points.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(" ");
+  const markers = points.map(([x, y], i) => {
+    const isEnd = i === 0 || i === points.length - 1;
+    return `<circle cx="${x.toFixed(1)}" cy="${y.toFixed(1)}" r="${isEnd ? 7 : 4}" fill="${i === 0 ? "#10b981" : isEnd ? "#ef4444" : "#4f46e5"}" stroke="#fff" stroke-width="2"/>`;
+  }).join("");
+  const first = located[0];
+  const last = located[located.length - 1];
+  const label = (photo: PhotoMetadata, [x, y]: number[]) =>
+    photo.locationName ? `<text x="${(x + 10).toFixed(1)}" y="${(y - 10).toFixed(1)}" font-size="14" font-weight="700" fill="#1e293b">${escapeHtml(photo.locationName)}</text>` : "";
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">`
+    + `<rect width="${width}" height="${height}" rx="16" fill="#f1f5f9"/>`
+    + (points.length > 1 ? `<polyline points="${line}" fill="none" stroke="#6366f1" stroke-width="3" stroke-linejoin="round" stroke-linecap="round" stroke-dasharray="8 6"/>` : "")
+    + markers
+    + label(first, points[0])
+    + (located.length > 1 ? label(last, points[points.length - 1]) : "")
+    + `</svg>`;
+};
+
+/**
+ * 写真を長辺 IMAGE_MAX_SIZE の JPEG に縮小する。ブラウザで読めない形式（HEIC など）は元のまま返す
+ */
+const resizeForBook = async (blob: Blob): Promise<Blob> => {
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const ratio = Math.min(1, IMAGE_MAX_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * ratio);
+    canvas.height = Math.round(bitmap.height * ratio);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return blob;
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    const resized = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', IMAGE_QUALITY));
+    return resized || blob;
+  } catch (error) {
+    console.warn("[VisionSort] Travel book image resize failed:", error);
+    return blob;
+  }
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = reject;
+  reader.readAsDataURL(blob);
+});
+
+const bookPhotos = (book: TravelBook) => book.days.flatMap(day => day.photos);
+
+const coverPhoto = (book: TravelBook) => {
+  const photos = bookPhotos(book).filter(photo => photo.fileBlob);
+  return photos.find(photo => photo.id === book.coverPhotoId) || photos[0];
+};
+
+const placeLabel = (photo: PhotoMetadata) =>
+  [photo.locationName, photo.country && countryName(photo.country)].filter(Boolean).join(" · ");
+
+const dayStatsLabel = (day: TravelBookDay) =>
+  [
+    t('common.photos', { count: day.photos.length }),
+    day.stats && day.stats.distanceKm > 0 ? t('book.distance', { distance: formatDistance(day.stats.distanceKm) }) : "",
+    day.stats?.places ? t('book.places', { count: day.stats.places }) : ""
+  ].filter(Boolean).join(" · ");
+
+const bookStatsLabel = (book: TravelBook) =>
+  [
+    formatDateRange(book.startDate, book.endDate),
+    t('book.days', { count: book.days.length }),
+    t('common.photos', { count: book.photoCount }),
+    book.distanceKm > 0 ? formatDistance(book.distanceKm) : ""
+  ].filter(Boolean).join(" · ");
+
+const BOOK_STYLE = `
+  @page { size: A4; margin: 16mm; }
+  * { box-sizing: border-box; }
+  body { font-family: "Hiragino Sans", "Noto Sans JP", "Yu Gothic", sans-serif; color: #1e293b; line-height: 1.7; margin: 0; background: #f8fafc; }
+  main { max-width: 820px; margin: 0 auto; padding: 48px 24px; background: #fff; }
+  h1 { font-size: 40px; font-weight: 900; margin: 0 0 8px; }
+  h2 { font-size: 28px; font-weight: 900; margin: 0 0 4px; }
+  h3, h4, h5, h6 { font-weight: 800; }
+  .cover { text-align: center; }
+  .cover img { width: 100%; max-height: 480px; object-fit: cover; border-radius: 16px; margin: 24px 0; }
+  .meta { color: #6366f1; font-weight: 800; letter-spacing: 0.08em; }
+  .map svg { width: 100%; height: auto; }
+  .day { break-before: page; padding-top: 32px; }
+  .journal { background: #fffbeb; border-left: 4px solid #f59e0b; padding: 12px 20px; border-radius: 8px; margin: 16px 0; }
+  .journal-title { font-weight: 900; color: #b45309; margin: 0; }
+  figure { margin: 32px 0; break-inside: avoid; }
+  figure img { width: 100%; max-height: 520px; object-fit: contain; border-radius: 12px; background: #f1f5f9; }
+  figcaption { margin-top: 8px; }
+  .place { font-weight: 900; font-size: 18px; }
+  .time { color: #94a3b8; font-weight: 700; margin-right: 8px; }
+  .description { color: #64748b; font-style: italic; margin: 4px 0; }
+  .note { white-space: pre-wrap; border-top: 1px dashed #cbd5e1; padding-top: 8px; margin: 8px 0 0; }
+  blockquote { border-left: 4px solid #c7d2fe; margin: 0; padding-left: 16px; color: #64748b; }
+  pre { background: #0f172a; color: #f1f5f9; padding: 12px; border-radius: 8px; overflow-x: auto; }
+  footer { color: #94a3b8; font-size: 12px; text-align: center; margin-top: 48px; }
+  @media print {
+    body { background: #fff; }
+    main { padding: 0; max-width: none; }
+  }
+`;
+
+const renderJournalHtml = (entry: JournalEntry, title: string) =>
+  `<section class="journal"><p class="journal-title">${escapeHtml(title)}</p>${markdownToHtml(entry.body, 2)}</section>`;
+
+/**
+ * 旅行記の HTML。写真は data URL として埋め込み、1つのファイルで完結させる
+ */
+export const renderTravelBookHtml = (book: TravelBook, images: Map<string, string>): string => {
+  const cover = coverPhoto(book);
+  const routeSvg = renderRouteSvg(bookPhotos(book));
+
+  const days = book.days.map(day => {
+    const daySvg = day.photos.length > 1 ? renderRouteSvg(day.photos, 800, 300) : null;
+    const figures = day.photos.map(photo => {
+      const image = images.get(photo.id);
+      const note = book.notes[photo.id];
+      return `<figure>`
+        + (image ? `<img src="${image}" alt="${escapeHtml(photo.name)}">` : "")
+        + `<figcaption>`
+        + `<div>${captureClock(photo) ? `<span class="time">${captureClock(photo)}</span>` : ""}<span class="place">${escapeHtml(placeLabel(photo) || photo.name)}</span></div>`
+        + (photo.description ? `<p class="description">${escapeHtml(photo.description)}</p>` : "")
+        + (note ? `<p class="note">${escapeHtml(note)}</p>` : "")
+        + `</figcaption></figure>`;
+    }).join("\n");
+    return `<section class="day">`
+      + `<h2>${escapeHtml(formatDate(day.date, 'long'))}</h2><p class="meta">${escapeHtml(dayStatsLabel(day))}</p>`
+      + (day.journal ? renderJournalHtml(day.journal, t('book.dayJournal')) : "")
+      + (daySvg ? `<div class="map">${daySvg}</div>` : "")
+      + figures
+      + `</section>`;
+  }).join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="${getLocaleInfo().id}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(book.title)}</title>
+<style>${BOOK_STYLE}</style>
+</head>
+<body>
+<main>
+<section class="cover">
+<h1>${escapeHtml(book.title)}</h1>
+<p class="meta">${escapeHtml(bookStatsLabel(book))}</p>
+${cover && images.get(cover.id) ? `<img src="${images.get(cover.id)}" alt="${escapeHtml(cover.name)}">` : ""}
+${routeSvg ? `<div class="map">${routeSvg}</div>` : ""}
+</section>
+${book.tripJournal.map(entry => renderJournalHtml(entry, entry.title || t('book.tripJournal'))).join("\n")}
+${days}
+<footer>${escapeHtml(t('book.footer', { date: new Date().toLocaleDateString(getLocaleInfo().tag) }))}</footer>
+</main>
+</body>
+</html>`;
+};
+
+/**
+ * 印刷用 HTML の Blob を作る
+ */
+export const exportTravelBookHtml = async (book: TravelBook): Promise<Blob> => {
+  const images = new Map<string, string>();
+  for (const photo of bookPhotos(book)) {
+    if (!photo.fileBlob) continue;
+    images.set(photo.id, await blobToDataUrl(await resizeForBook(photo.fileBlob)));
+  }
+  return new Blob([renderTravelBookHtml(book, images)], { type: "text/html" });
+};
+
+/**
+ * Markdown 版。本文 book.md と写真・ルート図を1つの ZIP にまとめる
+ */
+export const exportTravelBookMarkdown = async (book: TravelBook): Promise<Blob> => {
+  const files: ZipInput[] = [];
+  const imagePaths = new Map<string, string>();
+  for (const photo of bookPhotos(book)) {
+    if (!photo.fileBlob) continue;
+    const image = await resizeForBook(photo.fileBlob);
+    const path = `images/${photo.id}.${extensionFor(image, photo.name)}`;
+    files.push({ name: path, data: image });
+    imagePaths.set(photo.id, path);
+  }
+
+  const lines: string[] = [`# ${book.title}`, "", bookStatsLabel(book), ""];
+  const cover = coverPhoto(book);
+  if (cover && imagePaths.has(cover.id)) lines.push(`![${cover.name}](${imagePaths.get(cover.id)})`, "");
+  const routeSvg = renderRouteSvg(bookPhotos(book));
+  if (routeSvg) {
+    files.push({ name: "maps/route.svg", data: routeSvg });
+    lines.push(`![${t('book.route')}](maps/route.svg)`, "");
+  }
+
+  book.tripJournal.forEach(entry => lines.push(`## ${entry.title || t('book.tripJournal')}`, "", shiftHeadings(entry.body, 2), ""));
+
+  book.days.forEach(day => {
+    lines.push(`## ${formatDate(day.date, 'long')}`, "", `_${dayStatsLabel(day)}_`, "");
+    if (day.journal) lines.push(shiftHeadings(day.journal.body, 2), "");
+    const daySvg = day.photos.length > 1 ? renderRouteSvg(day.photos, 800, 300) : null;
+    if (daySvg) {
+      files.push({ name: `maps/${day.date}.svg`, data: daySvg });
+      lines.push(`![${t('book.dayRoute', { date: formatDate(day.date) })}](maps/${day.date}.svg)`, "");
+    }
+    day.photos.forEach(photo => {
+      const clock = captureClock(photo);
+      lines.push(`### ${clock ? `${clock} ` : ""}${placeLabel(photo) || photo.name}`, "");
+      if (imagePaths.has(photo.id)) lines.push(`![${photo.name}](${imagePaths.get(photo.id)})`, "");
+      if (photo.description) lines.push(`_${photo.description}_`, "");
+      const note = book.notes[photo.id];
+      if (note) lines.push(note.split("\n").map(line => `> ${line}`).join("\n"), "");
+    });
+  });
+
+  files.unshift({ name: "book.md", data: lines.join("\n") });
+  return createZip(files);
+};
@@ -0,0 +1,100 @@
+import { PhotoMetadata, Trip, TripSettings } from "../types";
+import { hasLocation, haversineKm } from "./geoUtils";
+import { countryName } from "./geocoderService";
+import { t } from "./i18nService";
+
+/**
+ * 撮影時刻の間隔と移動距離から写真を旅行ごとに自動で分ける
+ */
+
+const SETTINGS_STORAGE_KEY = "visionsort.tripSettings";
+
+export const DEFAULT_TRIP_SETTINGS: TripSettings = {
+  maxGapHours: 36,
+  maxJumpKm: 500
+};
+
+export const getTripSettings = (): TripSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (saved) return { ...DEFAULT_TRIP_SETTINGS, ...JSON.parse(saved) };
+  } catch (e) {
+    console.warn("[VisionSort] Failed to read trip settings:", e);
+  }
+  return DEFAULT_TRIP_SETTINGS;
+};
+
+export const saveTripSettings = (settings: TripSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * 並べ替え・比較用の撮影時刻（epoch ms）
+ * EXIF の撮影時刻がなければ撮影日の0時として扱う
+ */
+export const photoTime = (photo: PhotoMetadata): number => {
+  const time = Date.parse(photo.captureTime || `${photo.date}T00:00:00`);
+  return isNaN(time) ? 0 : time;
+};
+
+export const sortPhotosByTime = (photos: PhotoMetadata[]): PhotoMetadata[] =>
+  [...photos].sort((a, b) => photoTime(a) - photoTime(b) || a.id.localeCompare(b.id));
+
+/**
+ * 旅行の名前を、最も多く写っている国（なければ地名）から決める
+ * 国は国コードで数え、名前にするときに表示言語の国名にする
+ */
+const nameTrip = (photos: PhotoMetadata[]): string => {
+  const counts = new Map<string, number>();
+  photos.forEach(photo => {
+    const label = photo.country || (photo.analysisStatus === 'done' ? photo.locationName : "");
+    if (label) counts.set(label, (counts.get(label) || 0) + 1);
+  });
+  const ranked = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  if (ranked.length === 0) return t('trip.defaultName');
+  const name = countryName(ranked[0][0]);
+  return ranked.length > 1 ? t('trip.nameWithOthers', { name }) : name;
+};
+
+const buildTrip = (photos: PhotoMetadata[]): Trip => {
+  const dates = photos.map(p => p.date).sort();
+  return {
+    // 先頭の写真IDは写真を追加しても変わりにくいため、旅行のIDに使う
+    id: `trip-${photos[0].id}`,
+    name: nameTrip(photos),
+    startDate: dates[0],
+    endDate: dates[dates.length - 1],
+    photoIds: photos.map(p => p.id),
+    coverPhotoId: (photos.find(hasLocation) || photos[0]).id
+  };
+};
+
+/**
+ * 写真を撮影順に並べ、間隔が maxGapHours を超えるか、直前の位置から maxJumpKm 以上離れたところで区切る
+ * 位置の分からない写真は距離の判定に使わず、時間だけで前後の旅行に含める
+ */
+export const segmentTrips = (photos: PhotoMetadata[], settings: TripSettings): Trip[] => {
+  const sorted = sortPhotosByTime(photos);
+  const maxGapMs = settings.maxGapHours * 60 * 60 * 1000;
+  const trips: Trip[] = [];
+
+  let current: PhotoMetadata[] = [];
+  let lastLocated: PhotoMetadata | null = null;
+  sorted.forEach(photo => {
+    const previous = current[current.length - 1];
+    const gapExceeded = previous && photoTime(photo) - photoTime(previous) > maxGapMs;
+    const jumped = lastLocated && hasLocation(photo) &&
+      haversineKm(lastLocated.latitude, lastLocated.longitude, photo.latitude, photo.longitude) >= settings.maxJumpKm;
+
+    if (previous && (gapExceeded || jumped)) {
+      trips.push(buildTrip(current));
+      current = [];
+      lastLocated = null;
+    }
+    current.push(photo);
+    if (hasLocation(photo)) lastLocated = photo;
+  });
+  if (current.length > 0) trips.push(buildTrip(current));
+
+  return trips.reverse(); // 新しい旅行から表示する
+};
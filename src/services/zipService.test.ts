@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { crc32, createZip, readZip } from "./zipService";
+
+const readText = async (blob: Blob) => new TextDecoder().decode(await blob.arrayBuffer());
+
+describe("crc32", () => {
+  it("標準のチェック値と一致する", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+  });
+});
+
+describe("createZip / readZip", () => {
+  it("書き込んだファイルを名前と内容そのままに読み戻せる", async () => {
+    const binary = Uint8Array.from({ length: 256 }, (_, i) => i);
+    const zip = await createZip([
+      { name: "manifest.json", data: JSON.stringify({ version: 1 }) },
+      { name: "photos/写真 1.jpg", data: new Blob([binary]) },
+      { name: "notes/empty.txt", data: new Uint8Array(0) }
+    ]);
+
+    const entries = await readZip(zip);
+    expect(entries.map(entry => [entry.name, entry.size])).toEqual([
+      ["manifest.json", 13],
+      ["photos/写真 1.jpg", 256],
+      ["notes/empty.txt", 0]
+    ]);
+    expect(JSON.parse(await readText(await entries[0].read()))).toEqual({ version: 1 });
+    expect(new Uint8Array(await (await entries[1].read()).arrayBuffer())).toEqual(binary);
+    expect((await entries[2].read()).size).toBe(0);
+  });
+
+  it("ZIP でないファイルはエラーにする", async () => {
+    await expect(readZip(new Blob(["not a zip"]))).rejects.toThrow("Not a ZIP archive");
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * 依存ライブラリなしの最小限の ZIP 読み書き
+ * 書き込みは無圧縮（STORE）のみ。写真は既に圧縮済みなので圧縮しても小さくならない
+ * 読み込みは STORE と DEFLATE に対応（DEFLATE はブラウザの DecompressionStream を使う）
+ * ZIP64 には対応しないため、1アーカイブあたり 4GB まで
+ */
+
+export interface ZipInput {
+  name: string;
+  data: Blob | Uint8Array | string;
+  lastModified?: Date;
+}
+
+export interface ZipEntry {
+  name: string;
+  size: number;
+  read: () => Promise<Blob>;
+}
+
+const MAX_ZIP32 = 0xffffffff;
+const FLAG_UTF8 = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+let crcTable: Uint32Array | null = null;
+
+const getCrcTable = (): Uint32Array => {
+  if (crcTable) return crcTable;
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+};
+
+export const crc32 = (bytes: Uint8Array): number => {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+const toBytes = async (data: ZipInput['data']): Promise<Uint8Array<ArrayBuffer>> => {
+  if (typeof data === 'string') return new TextEncoder().encode(data);
+  if (data instanceof Uint8Array) return new Uint8Array(data);
+  return new Uint8Array(await data.arrayBuffer());
+};
+
+/**
+ * ファイル群を無圧縮の ZIP にまとめる
+ */
+export const createZip = async (inputs: ZipInput[]): Promise<Blob> => {
+  const parts: BlobPart[] = [];
+  const centralDirectory: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  for (const input of inputs) {
+    const bytes = await toBytes(input.data);
+    const nameBytes = new TextEncoder().encode(input.name);
+    const crc = crc32(bytes);
+    const { time, date } = toDosDateTime(input.lastModified || new Date());
+    if (offset + bytes.length > MAX_ZIP32) throw new Error("Archive exceeds the 4GB ZIP limit");
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, FLAG_UTF8, true);
+    local.setUint16(8, METHOD_STORE, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, bytes.length, true);
+    local.setUint32(22, bytes.length, true);
+    local.setUint16(26, nameBytes.length, true);
+    local.setUint16(28, 0, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, FLAG_UTF8, true);
+    central.setUint16(10, METHOD_STORE, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, bytes.length, true);
+    central.setUint32(24, bytes.length, true);
+    central.setUint16(28, nameBytes.length, true);
+    central.setUint32(42, offset, true);
+
+    parts.push(local.buffer, nameBytes, input.data instanceof Blob ? input.data : bytes);
+    centralDirectory.push(new Uint8Array(central.buffer), nameBytes);
+    offset += 30 + nameBytes.length + bytes.length;
+  }
+
+  const centralSize = centralDirectory.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, inputs.length, true);
+  end.setUint16(10, inputs.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, end.buffer], { type: 'application/zip' });
+};
+
+const inflateRaw = async (blob: Blob): Promise<Blob> => {
+  const stream = blob.stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).blob();
+};
+
+/**
+ * ZIP の中央ディレクトリを読み、各ファイルを必要なときに取り出せるエントリ一覧を返す
+ */
+export const readZip = async (zip: Blob): Promise<ZipEntry[]> => {
+  // 終端レコードは末尾 22 バイト＋最大 64KB のコメント内にある
+  const tailSize = Math.min(zip.size, 22 + 0xffff);
+  const tail = new DataView(await zip.slice(zip.size - tailSize).arrayBuffer());
+  let eocd = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error("Not a ZIP archive");
+
+  const count = tail.getUint16(eocd + 10, true);
+  const centralSize = tail.getUint32(eocd + 12, true);
+  const centralOffset = tail.getUint32(eocd + 16, true);
+  const central = new DataView(await zip.slice(centralOffset, centralOffset + centralSize).arrayBuffer());
+
+  const entries: ZipEntry[] = [];
+  let pos = 0;
+  for (let i = 0; i < count; i++) {
+    if (central.getUint32(pos, true) !== 0x02014b50) throw new Error("Corrupt ZIP central directory");
+    const method = central.getUint16(pos + 10, true);
+    const compressedSize = central.getUint32(pos + 20, true);
+    const size = central.getUint32(pos + 24, true);
+    const nameLength = central.getUint16(pos + 28, true);
+    const extraLength = central.getUint16(pos + 30, true);
+    const commentLength = central.getUint16(pos + 32, true);
+    const localOffset = central.getUint32(pos + 42, true);
+    const nameBytes = new Uint8Array(central.buffer, pos + 46, nameLength);
+    // UTF-8 フラグのない古いアーカイブも UTF-8 として読む（CP437 には対応しない）
+    const name = new TextDecoder().decode(nameBytes);
+    pos += 46 + nameLength + extraLength + commentLength;
+
+    if (method !== METHOD_STORE && method !== METHOD_DEFLATE) {
+      throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+    }
+
+    entries.push({
+      name,
+      size,
+      read: async () => {
+        const header = new DataView(await zip.slice(localOffset, localOffset + 30).arrayBuffer());
+        const dataStart = localOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+        const data = zip.slice(dataStart, dataStart + compressedSize);
+        return method === METHOD_DEFLATE ? inflateRaw(data) : data;
+      }
+    });
+  }
+  return entries;
+};
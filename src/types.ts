@@ -3,22 +3,222 @@ export interface PhotoMetadata {
   id: string;
   url: string; // セッション中のみ有効なURL
   fileBlob?: Blob; // IndexedDBに保存するバイナリデータ
+  fileSize?: number; // 元ファイルのバイト数。fileBlob を持たないライブラリの一覧に読み込み時に入れる（保存しない）
+  contentHash?: string; // ファイル内容の SHA-256（id は photo-{contentHash}）
+  perceptualHash?: string; // 類似画像検出用の dHash（16桁の16進数）
   name: string;
   locationName: string;
   country?: string;
   latitude: number;
   longitude: number;
   date: string;
+  captureTime?: string; // EXIF/XMP から取得した撮影日時 (YYYY-MM-DDTHH:mm:ss[+09:00])
+  exif?: ExifData; // 取り込み時に読み取った EXIF/XMP（再解析時に AI より優先するため保持）
   description: string;
   isProcessing: boolean;
+  analysisStatus?: AnalysisStatus;
+  analysisError?: string; // 解析に失敗した場合の理由
   manuallyPlaced?: boolean;
+  locationSource?: LocationSource; // 緯度経度をどこから得たか
+  provenance?: MetadataProvenance; // 項目ごとの値の出どころ（古いデータには無い）
+  tags?: string[];   // AI が提案したタグとユーザーが付けたタグ（IndexedDB の tags インデックスで引ける）
+  aiTags?: string[]; // tags のうち AI が付けたもの。再解析で入れ替わり、ユーザーのタグは残る
 }
 
+export type LocationSource = 'exif' | 'ai' | 'manual' | 'track';
+
+/**
+ * メタデータの値をどこから得たか
+ * track は GPX などのトラックログ、geocoder は同梱の地名データ
+ */
+export type FieldSource = 'exif' | 'filename' | 'fileTime' | 'ai' | 'track' | 'geocoder' | 'manual';
+
+export type Confidence = 'high' | 'medium' | 'low';
+
+export interface FieldProvenance {
+  source: FieldSource;
+  confidence: Confidence;
+  updatedAt?: number; // epoch ms
+}
+
+/**
+ * 出どころを記録する項目。location は緯度経度の組
+ */
+export type MetadataField = 'date' | 'location' | 'locationName' | 'country' | 'description';
+
+export type MetadataProvenance = Partial<Record<MetadataField, FieldProvenance>>;
+
 export interface AnalysisResult {
   locationName: string;
-  country?: string;
+  country: string | null;
+  latitude: number | null; // 推測できない場合は null
+  longitude: number | null;
+  date: string | null; // YYYY-MM-DD format, 推測できない場合は null
+  description: string;
+  tags: string[]; // 場面・物・料理・名所の種類などの短いタグ
+}
+
+export type AnalysisStatus = 'pending' | 'done' | 'failed';
+
+/**
+ * EXIF / XMP から読み取れた撮影情報（存在する項目のみ）
+ */
+export interface ExifData {
+  date?: string; // YYYY-MM-DD format
+  captureTime?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'offline';
+
+/**
+ * 解析ごとに指定できるオプション
+ */
+export interface AnalyzeOptions {
+  instructions?: string; // 標準のプロンプトに追加する指示（再解析で結果を補正したい場合など）
+  signal?: AbortSignal;  // 解析キューの一時停止・キャンセルで通信を打ち切る
+}
+
+/**
+ * 画像解析を行うAIプロバイダの共通インターフェース
+ */
+export interface AnalysisProvider {
+  id: ProviderId;
+  label: string;
+  analyzeImage: (base64Data: string, mimeType: string, options?: AnalyzeOptions) => Promise<AnalysisResult>;
+  identifyLocation: (lat: number, lng: number, base64Data: string, mimeType: string, options?: Pick<AnalyzeOptions, 'signal'>) => Promise<string>;
+}
+
+export interface ProviderSettings {
+  providerId: ProviderId;
+  gemini: {
+    apiKey: string; // 空の場合は VITE_GEMINI_API_KEY を使う
+    model: string;
+  };
+  openAICompatible: {
+    baseUrl: string; // 例: http://localhost:11434/v1 (Ollama)
+    apiKey: string;
+    model: string;
+  };
+  refineLocationNames: boolean; // 手動で移動した写真の地名を、オフラインの地名に加えてAIでも特定し直す
+  rememberApiKeys: boolean; // APIキーも localStorage に保存する。オフの間はこのタブの sessionStorage にだけ置く
+}
+
+// analyze: 画像の解析、locationName: 手動で移動した写真の地名をAIで特定し直す
+export type AnalysisJobKind = 'analyze' | 'locationName';
+
+/**
+ * 解析キューのジョブ（IndexedDB の jobs ストアに保存される）
+ * id は analyze なら対象の写真IDと同じ、それ以外は「種類:写真ID」。完了したジョブはストアから削除される
+ */
+export interface AnalysisJob {
+  id: string;
+  photoId: string;
+  kind?: AnalysisJobKind; // 省略時は analyze（以前のバージョンで保存されたジョブ）
+  status: 'queued' | 'running';
+  attempts: number;
+  nextAttemptAt: number; // epoch ms。再試行待ちのジョブはこの時刻まで実行しない
+  createdAt: number;
+  lastError?: string;
+}
+
+export interface QueueSettings {
+  concurrency: number;       // 同時に実行する解析の数
+  requestsPerMinute: number; // 1分あたりの最大リクエスト数
+  maxAttempts: number;       // ジョブごとの最大試行回数
+}
+
+export interface QueueProgress {
+  total: number;     // 現在のバッチのジョブ総数
+  completed: number;
+  failed: number;
+  running: number;
+  queued: number;
+  paused: boolean;
+}
+
+/**
+ * GPX / GeoJSON のトラックログの1点
+ */
+export interface TrackPoint {
+  time: number; // epoch ms (UTC)
   latitude: number;
   longitude: number;
-  date: string; // YYYY/MM/DD format
-  description: string;
+  elevation?: number;
+}
+
+export interface GeotagSettings {
+  offsetMinutes: number; // カメラの時計のずれ。撮影時刻にこの分数を足してトラックと照合する
+  maxGapMinutes: number; // 前後のトラック点がこれ以上離れている場合は補間しない
+  overwriteAiLocations: boolean; // AI が推測した座標もトラックの座標で置き換える
+}
+
+/**
+ * ユーザーが作成するアルバム（IndexedDB の albums ストアに保存される）
+ */
+export interface Album {
+  id: string;
+  name: string;
+  photoIds: string[];
+  coverPhotoId?: string; // 未設定の場合は先頭の写真を表紙にする
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * ゴミ箱に移した写真（IndexedDB の trash ストアに保存される）
+ * 元に戻せるよう、メモと所属していたアルバムも一緒に保存する
+ */
+export interface TrashedPhoto {
+  id: string;
+  photo: PhotoMetadata;
+  note: string;
+  albumIds: string[];
+  deletedAt: number;
+}
+
+export interface TrashSettings {
+  retentionDays: number; // この日数を過ぎた写真は起動時に完全に削除する
+}
+
+/**
+ * 撮影時刻の間隔と移動距離から自動で分けた旅行（保存はせず毎回計算する）
+ */
+export interface Trip {
+  id: string;
+  name: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string;
+  photoIds: string[]; // 撮影順
+  coverPhotoId: string;
+}
+
+/**
+ * 日・旅行単位の日記（IndexedDB の journal ストアに保存される）
+ * 写真ごとのメモ（notes ストア）とは別に保存し、写真のない日にも書ける。本文は Markdown
+ */
+export interface JournalEntry {
+  id: string;          // day:YYYY-MM-DD または trip:{最初に保存したときの旅行ID}
+  kind: 'day' | 'trip';
+  startDate: string;   // YYYY-MM-DD（日の日記は startDate と endDate が同じ）
+  endDate: string;
+  title?: string;      // 旅行の日記は書いた時点の旅行名
+  body: string;
+  updatedAt: number;
+}
+
+export interface TripSettings {
+  maxGapHours: number; // 撮影の間隔がこれを超えたら別の旅行にする
+  maxJumpKm: number;   // 連続する写真の位置がこれ以上離れていたら別の旅行にする
+}
+
+/**
+ * マップ・カレンダー・リストの表示対象を旅行またはアルバムの写真に絞り込む
+ */
+export interface PhotoScope {
+  kind: 'trip' | 'album' | 'stats'; // stats: 統計のグラフから絞り込んだ写真
+  id: string;
+  name: string;
+  photoIds: string[];
 }
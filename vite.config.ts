@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
@@ -5,5 +6,9 @@ export default defineConfig({
   plugins: [react()],
   define: {
     'process.env': {}
+  },
+  test: {
+    // ブラウザ向けのサービス（localStorage・DOMParser・Blob）をそのまま試せるようにする
+    environment: 'happy-dom'
   }
 })